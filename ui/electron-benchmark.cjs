@@ -0,0 +1,86 @@
+const path = require('path');
+const { probeHardware } = require('./electron-hardware.cjs');
+
+const REPORT_VERSION = 1;
+// Synthetic sample length when no clip is given; one full Whisper window
+const DEFAULT_SAMPLE_SECONDS = 30;
+
+/**
+ * Every combination of model, thread count and GPU setting, in run order. A thread count
+ * of 0 or null leaves the choice to whisper.cpp.
+ */
+function planRuns({ models = [], threads = [], gpu = [false] }) {
+  const threadCounts = threads.length > 0 ? threads : [null];
+  const gpuSettings = gpu.length > 0 ? gpu : [false];
+  return models.flatMap(model =>
+    gpuSettings.flatMap(useGpu =>
+      threadCounts.map(threadCount => ({ model, useGpu: Boolean(useGpu), threads: threadCount || null }))
+    )
+  );
+}
+
+/**
+ * Time each planned configuration on the same sample, one after another, and collect the
+ * results in a report that can be saved and compared across machines and app versions.
+ *
+ * Runs are not interrupted once started; aborting `signal` stops before the next one.
+ * `onProgress` is called before each run and with each result.
+ */
+async function runBenchmark(whisperService, options, { appVersion, onProgress, signal } = {}) {
+  const runs = planRuns(options);
+  if (runs.length === 0) {
+    throw new Error('Select at least one model to benchmark');
+  }
+
+  const audioPath = options.audioPath || undefined;
+  const audioSeconds = options.audioSeconds || DEFAULT_SAMPLE_SECONDS;
+  const system = await probeHardware();
+  const results = [];
+  let sampleSeconds = audioPath ? null : audioSeconds;
+
+  for (const [index, run] of runs.entries()) {
+    if (signal && signal.aborted) break;
+    if (onProgress) onProgress({ index, total: runs.length, run });
+
+    const entry = { model: run.model, use_gpu: run.useGpu, threads: run.threads };
+    try {
+      // Decoding is not capped, so the timings include realistic decoder work
+      const result = await whisperService.benchmark(run.model, {
+        useGpu: run.useGpu,
+        threads: run.threads || undefined,
+        audioPath,
+        audioSeconds,
+        maxTokens: 0
+      });
+      sampleSeconds = result.audio_seconds;
+      Object.assign(entry, {
+        status: 'completed',
+        audio_seconds: result.audio_seconds,
+        load_seconds: result.load_seconds,
+        transcribe_seconds: result.seconds,
+        real_time_factor: result.audio_seconds > 0 ? result.seconds / result.audio_seconds : null,
+        peak_rss_bytes: result.peak_rss_bytes,
+        model_rss_bytes: result.peak_rss_bytes - result.baseline_rss_bytes
+      });
+    } catch (error) {
+      Object.assign(entry, { status: 'failed', error: error.message });
+    }
+    results.push(entry);
+    if (onProgress) onProgress({ index, total: runs.length, run, result: entry });
+  }
+
+  return {
+    type: 'whisper-benchmark',
+    version: REPORT_VERSION,
+    app_version: appVersion || null,
+    created_at: new Date().toISOString(),
+    system,
+    sample: audioPath
+      ? { kind: 'file', filename: path.basename(audioPath), path: audioPath, audio_seconds: sampleSeconds }
+      : { kind: 'synthetic', audio_seconds: sampleSeconds },
+    cancelled: results.length < runs.length,
+    runs: results
+  };
+}
+
+module.exports = { runBenchmark, planRuns };
@@ -0,0 +1,174 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+
+// SIMD extensions whisper.cpp (ggml) has optimized kernels for, as named in /proc/cpuinfo
+const SIMD_FEATURES = ['sse3', 'ssse3', 'avx', 'avx2', 'avx512f', 'fma', 'f16c', 'neon', 'asimd', 'dotprod', 'fp16', 'sve'];
+// Linux lists SSE3 under its Intel codename
+const LINUX_FEATURE_ALIASES = { pni: 'sse3' };
+// macOS reports x86 features in upper case without the separators Linux uses
+const MAC_FEATURE_NAMES = { 'SSE3': 'sse3', 'SSSE3': 'ssse3', 'AVX1.0': 'avx', 'AVX2': 'avx2', 'AVX512F': 'avx512f', 'FMA': 'fma', 'F16C': 'f16c' };
+// Apple Silicon exposes optional CPU features as hw.optional.arm.FEAT_* sysctls
+const MAC_ARM_FEATURES = { 'hw.optional.arm.FEAT_DotProd': 'dotprod', 'hw.optional.arm.FEAT_FP16': 'fp16' };
+
+// Strings that only end up in the native addon when whisper.cpp was compiled with a backend.
+// They are function names ggml logs with __func__, so they survive symbol stripping.
+const BACKEND_MARKERS = {
+  metal: ['ggml_metal_init'],
+  cuda: ['ggml_cuda_init', 'ggml_backend_cuda'],
+  vulkan: ['ggml_vk_init', 'ggml_backend_vk'],
+  opencl: ['ggml_cl_init', 'clblast'],
+  coreml: ['loading Core ML model'],
+  blas: ['cblas_sgemm']
+};
+// Backends that run the model on a GPU or neural engine when a model is loaded with gpu: true
+const GPU_BACKENDS = ['metal', 'cuda', 'vulkan', 'opencl', 'coreml'];
+const SCAN_CHUNK_BYTES = 4 * 1024 * 1024;
+
+let bindingScan = null;
+
+function run(command, args) {
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: 5000, windowsHide: true }, (error, stdout) => {
+      resolve(error ? null : stdout.toString());
+    });
+  });
+}
+
+/**
+ * SIMD extensions of this CPU, or null where the platform gives no cheap way to ask (Windows)
+ */
+async function detectSimdFeatures() {
+  if (process.platform === 'linux') {
+    try {
+      const cpuinfo = await fs.promises.readFile('/proc/cpuinfo', 'utf8');
+      const line = cpuinfo.split('\n').find(entry => /^(flags|Features)\s*:/.test(entry));
+      const flags = new Set((line ? line.split(':')[1].trim().split(/\s+/) : [])
+        .map(flag => LINUX_FEATURE_ALIASES[flag] || flag));
+      return SIMD_FEATURES.filter(feature => flags.has(feature));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (process.platform === 'darwin') {
+    if (process.arch === 'arm64') {
+      // NEON is part of every AArch64 CPU
+      const features = ['neon'];
+      for (const [sysctl, feature] of Object.entries(MAC_ARM_FEATURES)) {
+        const value = await run('sysctl', ['-n', sysctl]);
+        if (value && value.trim() === '1') features.push(feature);
+      }
+      return features;
+    }
+    const output = await run('sysctl', ['-n', 'machdep.cpu.features', 'machdep.cpu.leaf7_features']);
+    if (!output) return null;
+    const flags = new Set(output.split(/\s+/));
+    return Object.entries(MAC_FEATURE_NAMES).filter(([name]) => flags.has(name)).map(([, feature]) => feature);
+  }
+
+  return null;
+}
+
+/**
+ * Path of the compiled smart-whisper addon, or null if it is not installed or not built
+ */
+function findBinding() {
+  try {
+    const packageDir = path.dirname(require.resolve('smart-whisper-electron/package.json'));
+    // Packaged apps keep native addons outside the asar archive
+    const releaseDir = path.join(packageDir, 'build', 'Release').replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+    const addon = fs.readdirSync(releaseDir).find(file => file.endsWith('.node'));
+    return addon ? path.join(releaseDir, addon) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Scan the addon binary for the backend marker strings. Chunks overlap by the longest
+ * marker so matches across a chunk boundary are found.
+ */
+async function scanBinding(bindingPath) {
+  const markers = Object.entries(BACKEND_MARKERS).flatMap(([backend, strings]) =>
+    strings.map(string => ({ backend, bytes: Buffer.from(string) }))
+  );
+  const overlap = Math.max(...markers.map(marker => marker.bytes.length));
+  const found = new Set();
+
+  const handle = await fs.promises.open(bindingPath, 'r');
+  try {
+    const buffer = Buffer.alloc(SCAN_CHUNK_BYTES + overlap);
+    let position = 0;
+    let carried = 0;
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, carried, SCAN_CHUNK_BYTES, position);
+      if (bytesRead === 0) break;
+      const view = buffer.subarray(0, carried + bytesRead);
+      for (const marker of markers) {
+        if (!found.has(marker.backend) && view.indexOf(marker.bytes) !== -1) {
+          found.add(marker.backend);
+        }
+      }
+      position += bytesRead;
+      carried = Math.min(overlap, view.length);
+      view.copy(buffer, 0, view.length - carried);
+    }
+  } finally {
+    await handle.close();
+  }
+  return Object.keys(BACKEND_MARKERS).filter(backend => found.has(backend));
+}
+
+/**
+ * Backends compiled into the Whisper addon. Cached per addon file, which only changes on
+ * reinstall or rebuild.
+ */
+async function detectWhisperBackends() {
+  const bindingPath = findBinding();
+  if (!bindingPath) {
+    return { binding: null, fingerprint: null, backends: [] };
+  }
+
+  const stats = await fs.promises.stat(bindingPath);
+  const fingerprint = `${stats.size}:${Math.round(stats.mtimeMs)}`;
+  if (!bindingScan || bindingScan.path !== bindingPath || bindingScan.fingerprint !== fingerprint) {
+    bindingScan = { path: bindingPath, fingerprint, backends: await scanBinding(bindingPath) };
+  }
+  return { binding: bindingPath, fingerprint, backends: bindingScan.backends };
+}
+
+/**
+ * What this machine and the installed Whisper build can do: CPU cores and SIMD features,
+ * memory, and the compute backends the Whisper addon was built with
+ */
+async function probeHardware() {
+  const cpus = os.cpus();
+  const [simd, whisper] = await Promise.all([detectSimdFeatures(), detectWhisperBackends()]);
+  const gpuBackends = whisper.backends.filter(backend => GPU_BACKENDS.includes(backend));
+
+  return {
+    platform: process.platform,
+    arch: process.arch,
+    cpu: {
+      model: cpus.length > 0 ? cpus[0].model.trim() : 'unknown',
+      // Logical cores (hardware threads), which is what whisper.cpp's thread count is measured against
+      cores: cpus.length,
+      simd
+    },
+    memory: {
+      total_bytes: os.totalmem(),
+      free_bytes: os.freemem()
+    },
+    whisper: {
+      binding: whisper.binding,
+      // Changes when the addon is rebuilt, so cached benchmark results can be discarded
+      fingerprint: whisper.fingerprint,
+      backends: whisper.backends
+    },
+    gpu_backends: gpuBackends
+  };
+}
+
+module.exports = { probeHardware, GPU_BACKENDS };
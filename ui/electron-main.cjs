@@ -1,9 +1,50 @@
-const { app, BrowserWindow, ipcMain, dialog, Menu } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog, Menu, desktopCapturer } = require('electron');
 const path = require('path');
 const fs = require('fs');
-const whisperService = require('./electron-whisper.cjs');
+// Inference runs in a supervised utility process; this client mirrors WhisperService's API
+const whisperService = require('./electron-whisper-client.cjs');
+const modelDownloader = require('./electron-model-downloader.cjs');
+const { getModel, loadCustomModels } = require('./electron-models.cjs');
+const modelImporter = require('./electron-model-importer.cjs');
+const { probeMedia } = require('./electron-media-probe.cjs');
+const { probeHardware } = require('./electron-hardware.cjs');
+const { runBenchmark } = require('./electron-benchmark.cjs');
 
 let mainWindow;
+// Aborted to stop a running benchmark after its current run
+let benchmarkController = null;
+
+// Running transcriptions by job id, so the renderer can cancel them
+const transcriptionJobs = new Map();
+
+function startTranscriptionJob(jobId, source) {
+  const job = {
+    id: jobId || `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    source,
+    status: 'processing',
+    controller: new AbortController(),
+    startedAt: Date.now()
+  };
+  transcriptionJobs.set(job.id, job);
+  return job;
+}
+
+function finishTranscriptionJob(job, status) {
+  job.status = status;
+  transcriptionJobs.delete(job.id);
+}
+
+function cancelAllTranscriptionJobs() {
+  for (const job of transcriptionJobs.values()) {
+    job.controller.abort();
+  }
+}
+
+function sendProgress(job, progressInfo) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('transcription-progress', { ...progressInfo, job_id: job.id });
+  }
+}
 
 // Initialize Whisper on app start
 async function initializeWhisper() {
@@ -227,12 +268,35 @@ function createWindow() {
       callback({
         responseHeaders: {
           ...details.responseHeaders,
-          'Content-Security-Policy': ["default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data:; font-src 'self' data:;"]
+          'Content-Security-Policy': ["default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data:; font-src 'self' data:; connect-src 'self' http://localhost:* http://127.0.0.1:*;"]
         }
       });
     });
   }
 
+  // System audio for meeting transcription: the renderer's getDisplayMedia is answered with
+  // the primary screen and loopback audio, without a picker. The renderer drops the video.
+  // Loopback audio is only available on Windows and Linux; elsewhere no audio track is
+  // returned and the renderer explains why.
+  // Without a picker the user never sees the request, so it is only granted to the app's own
+  // page, right after it armed the request for a system audio session; anything else is denied.
+  const loopback = process.platform === 'win32' || process.platform === 'linux';
+  mainWindow.webContents.session.setDisplayMediaRequestHandler((request, callback) => {
+    const armed = Date.now() < systemAudioArmedUntil;
+    systemAudioArmedUntil = 0;
+    if (!armed || !isMainFrame(request.frame)) {
+      console.warn('Denied a screen capture request that was not for a system audio session');
+      callback({});
+      return;
+    }
+    desktopCapturer.getSources({ types: ['screen'] })
+      .then((sources) => callback(sources[0] ? { video: sources[0], ...(loopback ? { audio: 'loopback' } : {}) } : {}))
+      .catch((error) => {
+        console.error('Failed to list screens for system audio:', error);
+        callback({});
+      });
+  });
+
   // Load the existing React app
   if (process.env.NODE_ENV === 'development') {
     mainWindow.loadURL('http://localhost:5173');
@@ -242,6 +306,8 @@ function createWindow() {
   }
 
   mainWindow.on('closed', async () => {
+    cancelAllTranscriptionJobs();
+    if (benchmarkController) benchmarkController.abort();
     await whisperService.cleanup();
     mainWindow = null;
   });
@@ -251,7 +317,12 @@ function createWindow() {
 
 // List available models
 ipcMain.handle('list-models', async () => {
-  return whisperService.listAvailableModels();
+  const models = whisperService.listAvailableModels();
+  for (const [size, model] of Object.entries(models)) {
+    model.partialSize = model.exists ? 0 : modelDownloader.partialSize(size);
+    model.downloading = modelDownloader.isDownloading(size);
+  }
+  return models;
 });
 
 // Load a specific model
@@ -302,21 +373,24 @@ ipcMain.handle('save-file', async (event, defaultName) => {
 
 // Transcribe a file
 ipcMain.handle('transcribe-file', async (event, filePath, options = {}) => {
+  const job = startTranscriptionJob(options.jobId, filePath);
+
   try {
     // Send initial progress
-    mainWindow.webContents.send('transcription-progress', {
+    sendProgress(job, {
       stage: 'starting',
       progress: 0,
       message: 'Preparing transcription...'
     });
 
     // Check if we need to reload the model with different GPU setting
-    const needsReload = !whisperService.whisperInstance || 
-                       whisperService.currentModelSize !== options.modelSize ||
+    const requestedModel = getModel(options.modelSize);
+    const needsReload = !whisperService.isModelLoaded || 
+                       !requestedModel || whisperService.currentModelSize !== requestedModel.id ||
                        whisperService.currentUseGpu !== options.useGpu;
     
     if (needsReload && options.modelSize) {
-      mainWindow.webContents.send('transcription-progress', {
+      sendProgress(job, {
         stage: 'loading_model',
         progress: 10,
         message: `Loading ${options.modelSize} model...`
@@ -325,25 +399,24 @@ ipcMain.handle('transcribe-file', async (event, filePath, options = {}) => {
     }
 
     // Send progress updates
-    mainWindow.webContents.send('transcription-progress', {
+    sendProgress(job, {
       stage: 'processing',
       progress: 20,
       message: 'Processing audio file...'
     });
 
-    // Set up progress callback for whisper service
-    const progressCallback = (progressInfo) => {
-      mainWindow.webContents.send('transcription-progress', progressInfo);
-    };
-
     const result = await whisperService.transcribe(filePath, {
       language: options.language || 'auto',
       timestamps: options.timestamps || false,
       translate: options.translate || false,
-      progressCallback
+      initialPrompt: options.initialPrompt,
+      decoding: options.decoding,
+      signal: job.controller.signal,
+      progressCallback: (progressInfo) => sendProgress(job, progressInfo)
     });
 
-    mainWindow.webContents.send('transcription-progress', {
+    finishTranscriptionJob(job, 'completed');
+    sendProgress(job, {
       stage: 'complete',
       progress: 100,
       message: 'Transcription complete!'
@@ -351,29 +424,83 @@ ipcMain.handle('transcribe-file', async (event, filePath, options = {}) => {
 
     return {
       success: true,
+      job_id: job.id,
+      status: 'completed',
       text: result.text,
       segments: result.segments,
       language: result.language,
-      duration: result.duration
+      duration: result.duration,
+      processing_time: result.processing_time,
+      decoding: result.decoding
     };
   } catch (error) {
+    if (error.name === 'AbortError') {
+      finishTranscriptionJob(job, 'cancelled');
+      sendProgress(job, {
+        stage: 'cancelled',
+        progress: 0,
+        message: 'Transcription cancelled'
+      });
+      return {
+        success: false,
+        job_id: job.id,
+        status: 'cancelled',
+        error: error.message
+      };
+    }
+
     console.error('Transcription error:', error);
-    mainWindow.webContents.send('transcription-progress', {
+    finishTranscriptionJob(job, 'failed');
+    sendProgress(job, {
       stage: 'error',
       progress: 0,
       message: `Error: ${error.message}`
     });
     return {
       success: false,
+      job_id: job.id,
+      status: 'failed',
       error: error.message
     };
   }
 });
 
-// Real-time transcription from audio buffer
-ipcMain.handle('transcribe-realtime', async (event, audioBuffer) => {
+// Cancel a running transcription. Decoding stops immediately; Whisper stops at the next window.
+ipcMain.handle('cancel-transcription', async (event, jobId) => {
+  const job = transcriptionJobs.get(jobId);
+  if (!job) {
+    return { success: false, error: `No running transcription with id ${jobId}` };
+  }
+  job.controller.abort();
+  return { success: true };
+});
+
+// A system audio session is starting: the next getDisplayMedia request from the main
+// window's page, within a few seconds, is answered with loopback audio
+const SYSTEM_AUDIO_ARM_MS = 5000;
+let systemAudioArmedUntil = 0;
+
+function isMainFrame(frame) {
+  if (!frame || !mainWindow || mainWindow.isDestroyed()) return false;
+  const mainFrame = mainWindow.webContents.mainFrame;
+  return frame.processId === mainFrame.processId && frame.routingId === mainFrame.routingId;
+}
+
+ipcMain.handle('arm-system-audio-capture', async (event) => {
+  if (!isMainFrame(event.senderFrame)) {
+    return false;
+  }
+  systemAudioArmedUntil = Date.now() + SYSTEM_AUDIO_ARM_MS;
+  return true;
+});
+
+// Live transcription of one chunk of 16 kHz Float32 microphone audio
+ipcMain.handle('transcribe-realtime', async (event, audioBuffer, options = {}) => {
   try {
-    const result = await whisperService.transcribeRealtime(audioBuffer);
+    const result = await whisperService.transcribeRealtime(audioBuffer, {
+      language: options.language,
+      initialPrompt: options.initialPrompt
+    });
     return {
       success: true,
       ...result
@@ -397,6 +524,134 @@ ipcMain.handle('get-system-info', async () => {
   };
 });
 
+// Ollama requests are made here rather than in the renderer: the renderer's CSP only allows
+// local connections, and the configured Ollama URL may point at another host. Requests only
+// go to the configured server's API endpoints, as GET or as POST with a JSON body.
+const OLLAMA_ENDPOINTS = ['/api/tags', '/api/generate'];
+const OLLAMA_DEFAULT_URL = 'http://localhost:11434';
+const OLLAMA_DEFAULT_TIMEOUT_MS = 120000;
+let ollamaBaseUrl = new URL(OLLAMA_DEFAULT_URL);
+
+// The renderer reports the Ollama URL from the settings whenever they load or change
+ipcMain.handle('set-ollama-base-url', async (event, baseUrl) => {
+  try {
+    const url = new URL(baseUrl || OLLAMA_DEFAULT_URL);
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      return false;
+    }
+    ollamaBaseUrl = url;
+    return true;
+  } catch (error) {
+    return false;
+  }
+});
+
+ipcMain.handle('ollama-request', async (event, { path: endpoint, method, body, timeoutMs }) => {
+  if (!OLLAMA_ENDPOINTS.includes(endpoint)) {
+    return { ok: false, status: 0, error: `Not an Ollama API endpoint: ${endpoint}` };
+  }
+  if (method !== 'GET' && method !== 'POST') {
+    return { ok: false, status: 0, error: `Unsupported method for Ollama: ${method}` };
+  }
+  if (method === 'POST') {
+    try {
+      JSON.parse(body);
+    } catch (error) {
+      return { ok: false, status: 0, error: 'Ollama requests must have a JSON body' };
+    }
+  }
+
+  // Kept under the configured URL's origin and path, e.g. behind a reverse proxy
+  const target = new URL(ollamaBaseUrl.pathname.replace(/\/+$/, '') + endpoint, ollamaBaseUrl.origin);
+  const timeout = Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : OLLAMA_DEFAULT_TIMEOUT_MS;
+
+  try {
+    const response = await fetch(target, {
+      method,
+      ...(method === 'POST' ? { headers: { 'Content-Type': 'application/json' }, body } : {}),
+      signal: AbortSignal.timeout(timeout)
+    });
+    return { ok: response.ok, status: response.status, body: await response.text() };
+  } catch (error) {
+    return { ok: false, status: 0, error: error.cause?.message || error.message, timedOut: error.name === 'TimeoutError' };
+  }
+});
+
+// CPU, memory and the compute backends the Whisper addon was built with
+ipcMain.handle('get-hardware-capabilities', async () => {
+  try {
+    return await probeHardware();
+  } catch (error) {
+    console.error('Failed to probe hardware:', error);
+    return null;
+  }
+});
+
+// Time the smallest downloaded model with the GPU off and on, to confirm GPU mode pays off
+ipcMain.handle('run-gpu-benchmark', async () => {
+  try {
+    const model = Object.values(whisperService.listAvailableModels())
+      .filter(entry => entry.exists)
+      .sort((a, b) => a.size - b.size)[0];
+    if (!model) {
+      return { success: false, error: 'Download a model first; the benchmark runs the smallest downloaded model.' };
+    }
+
+    console.log(`Running GPU benchmark with ${model.name}`);
+    const cpu = await whisperService.benchmark(model.name, { useGpu: false });
+    const gpu = await whisperService.benchmark(model.name, { useGpu: true });
+    return {
+      success: true,
+      result: {
+        model: model.name,
+        audio_seconds: cpu.audio_seconds,
+        cpu_seconds: cpu.seconds,
+        gpu_seconds: gpu.seconds,
+        speedup: gpu.seconds > 0 ? cpu.seconds / gpu.seconds : 0,
+        ran_at: new Date().toISOString()
+      }
+    };
+  } catch (error) {
+    console.error('GPU benchmark failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Benchmark every combination of the given models, thread counts and GPU settings.
+// Progress is streamed on 'benchmark-progress'; resolves with the report.
+ipcMain.handle('run-benchmark', async (event, options = {}) => {
+  if (benchmarkController) {
+    return { success: false, error: 'A benchmark is already running' };
+  }
+
+  benchmarkController = new AbortController();
+  try {
+    const report = await runBenchmark(whisperService, options, {
+      appVersion: app.getVersion(),
+      signal: benchmarkController.signal,
+      onProgress: (progress) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('benchmark-progress', progress);
+        }
+      }
+    });
+    return { success: true, report };
+  } catch (error) {
+    console.error('Benchmark failed:', error);
+    return { success: false, error: error.message };
+  } finally {
+    benchmarkController = null;
+  }
+});
+
+ipcMain.handle('cancel-benchmark', async () => {
+  if (!benchmarkController) {
+    return { success: false, error: 'No benchmark is running' };
+  }
+  benchmarkController.abort();
+  return { success: true };
+});
+
 // Get system resource usage
 ipcMain.handle('get-system-resources', async () => {
   const os = require('os');
@@ -443,13 +698,27 @@ ipcMain.handle('get-system-resources', async () => {
 ipcMain.handle('get-file-info', async (event, filePath) => {
   try {
     const stats = fs.statSync(filePath);
-    return {
+    const info = {
       size: stats.size,
       isFile: stats.isFile(),
       isDirectory: stats.isDirectory(),
       modifiedTime: stats.mtime,
       createdTime: stats.birthtime
     };
+    if (!info.isFile) {
+      return info;
+    }
+
+    // Media details are best effort: a file ffprobe cannot read still has a size
+    try {
+      info.media = await probeMedia(filePath);
+      info.duration = info.media.duration || undefined;
+    } catch (probeError) {
+      console.warn(`Could not probe ${filePath}:`, probeError.message);
+      info.media = null;
+      info.mediaError = probeError.message;
+    }
+    return info;
   } catch (error) {
     console.error('Failed to get file info:', error);
     return null;
@@ -556,9 +825,80 @@ ipcMain.handle('scan-directory', async (event, dirPath) => {
   }
 });
 
-// Download model (returns instructions for now)
-ipcMain.handle('download-model', async (event, modelSize) => {
-  return whisperService.downloadModel(modelSize);
+// Download a model from the manifest source, or from `options.mirrorUrl` when set.
+// Progress is streamed on 'model-download-progress'.
+ipcMain.handle('download-model', async (event, modelSize, options = {}) => {
+  const sendDownloadProgress = (progressInfo) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('model-download-progress', { ...progressInfo, model: modelSize });
+    }
+  };
+
+  try {
+    const result = await modelDownloader.download(modelSize, {
+      mirrorUrl: options.mirrorUrl,
+      onProgress: sendDownloadProgress
+    });
+    sendDownloadProgress({ stage: 'complete', progress: 100 });
+    return {
+      success: true,
+      message: result.downloaded ? `Model ${modelSize} downloaded` : `Model ${modelSize} is already downloaded`,
+      modelPath: result.modelPath
+    };
+  } catch (error) {
+    const cancelled = error.name === 'AbortError';
+    if (!cancelled) {
+      console.error(`Model download failed (${modelSize}):`, error);
+    }
+    sendDownloadProgress({ stage: cancelled ? 'cancelled' : 'error', progress: 0, message: error.message });
+    return { success: false, cancelled, message: error.message };
+  }
+});
+
+ipcMain.handle('cancel-model-download', async (event, modelSize) => {
+  return { success: modelDownloader.cancel(modelSize) };
+});
+
+// Pick a ggml model file to import
+ipcMain.handle('select-model-file', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [
+      { name: 'ggml Models', extensions: ['bin'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+// Registry entries for models imported from disk; the manifest ones ship with the renderer
+ipcMain.handle('list-custom-models', async () => {
+  return loadCustomModels();
+});
+
+// Import a custom or fine-tuned ggml model. `options`: { name, notes, mode: 'copy' | 'link' }
+ipcMain.handle('import-model', async (event, filePath, options = {}) => {
+  try {
+    const model = await modelImporter.importModel(filePath, options);
+    return { success: true, message: `Imported ${model.name}`, model };
+  } catch (error) {
+    console.error(`Model import failed (${filePath}):`, error);
+    return { success: false, message: error.message };
+  }
+});
+
+ipcMain.handle('remove-custom-model', async (event, modelId) => {
+  try {
+    // Release the file before deleting it
+    if (whisperService.currentModelSize === modelId) {
+      await whisperService.cleanup();
+    }
+    await modelImporter.removeImportedModel(modelId);
+    return { success: true, message: `Removed ${modelId}` };
+  } catch (error) {
+    console.error(`Removing model ${modelId} failed:`, error);
+    return { success: false, message: error.message };
+  }
 });
 
 // Write text to file
@@ -589,66 +929,48 @@ ipcMain.handle('read-file', async (event, filePath) => {
 
 // Transcribe audio buffer (for record-then-transcribe)
 ipcMain.handle('transcribe-audio-buffer', async (event, audioBuffer, options = {}) => {
+  const job = startTranscriptionJob(options.jobId, 'recording');
+
   try {
-    // Convert audio buffer to WAV file for Whisper
-    const os = require('os');
-    const tempDir = os.tmpdir();
-    const tempWavPath = path.join(tempDir, `temp_recording_${Date.now()}.wav`);
-    const tempWebmPath = path.join(tempDir, `temp_recording_${Date.now()}.webm`);
-    
-    try {
-      // Write WebM audio to temp file
-      fs.writeFileSync(tempWebmPath, Buffer.from(audioBuffer));
-      
-      // Convert WebM to WAV using ffmpeg
-      const { exec } = require('child_process');
-      const { promisify } = require('util');
-      const execAsync = promisify(exec);
-      
-      console.log('Converting WebM to WAV for transcription...');
-      await execAsync(`ffmpeg -i "${tempWebmPath}" -ar 16000 -ac 1 -f wav "${tempWavPath}" -y`);
-      
-      // Ensure model is loaded
-      if (!whisperService.currentModelSize && options.modelSize) {
-        await whisperService.loadModel(options.modelSize);
-      }
-      
-      // Transcribe the WAV file
-      const result = await whisperService.transcribe(tempWavPath, {
-        language: options.language || 'auto'
-      });
-      
-      console.log('Transcription result type:', typeof result);
-      console.log('Result properties:', Object.keys(result));
-      
-      // Clean up temp files
-      if (fs.existsSync(tempWebmPath)) fs.unlinkSync(tempWebmPath);
-      if (fs.existsSync(tempWavPath)) fs.unlinkSync(tempWavPath);
-      
-      // Ensure text is a string
-      let textResult = result.text;
-      if (Array.isArray(textResult)) {
-        textResult = textResult.map(segment => 
-          typeof segment === 'string' ? segment : segment.text || ''
-        ).join(' ').trim();
-      }
-      
-      return {
-        success: true,
-        text: textResult || '',
-        segments: result.segments || [],
-        language: result.language || options.language
-      };
-    } catch (error) {
-      // Clean up temp files on error
-      if (fs.existsSync(tempWebmPath)) fs.unlinkSync(tempWebmPath);
-      if (fs.existsSync(tempWavPath)) fs.unlinkSync(tempWavPath);
-      throw error;
+    // Ensure model is loaded
+    if (!whisperService.currentModelSize && options.modelSize) {
+      await whisperService.loadModel(options.modelSize);
     }
+
+    // The recorded WebM is piped straight into ffmpeg; nothing is written to disk
+    const result = await whisperService.transcribe(Buffer.from(audioBuffer), {
+      language: options.language || 'auto',
+      initialPrompt: options.initialPrompt,
+      signal: job.controller.signal
+    });
+    finishTranscriptionJob(job, 'completed');
+
+    // Ensure text is a string
+    let textResult = result.text;
+    if (Array.isArray(textResult)) {
+      textResult = textResult.map(segment => 
+        typeof segment === 'string' ? segment : segment.text || ''
+      ).join(' ').trim();
+    }
+
+    return {
+      success: true,
+      job_id: job.id,
+      status: 'completed',
+      text: textResult || '',
+      segments: result.segments || [],
+      language: result.language || options.language
+    };
   } catch (error) {
-    console.error('Audio buffer transcription error:', error);
+    const status = error.name === 'AbortError' ? 'cancelled' : 'failed';
+    finishTranscriptionJob(job, status);
+    if (status === 'failed') {
+      console.error('Audio buffer transcription error:', error);
+    }
     return {
       success: false,
+      job_id: job.id,
+      status,
       error: error.message
     };
   }
@@ -0,0 +1,112 @@
+const fs = require('fs');
+const { execFile } = require('child_process');
+
+// Network shares can be slow to open, but a probe that hangs should not block the UI forever
+const PROBE_TIMEOUT_MS = 30000;
+// ffprobe's JSON for files with many streams or chapters stays well under this
+const MAX_OUTPUT_BYTES = 8 * 1024 * 1024;
+// Probe results by path; an entry is reused while the file's size and mtime are unchanged
+const MAX_CACHE_ENTRIES = 500;
+const cache = new Map();
+
+function toNumber(value) {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function describeAudioStream(stream) {
+  const tags = stream.tags || {};
+  return {
+    index: stream.index,
+    codec: stream.codec_name || 'unknown',
+    sample_rate: toNumber(stream.sample_rate),
+    channels: toNumber(stream.channels),
+    channel_layout: stream.channel_layout || undefined,
+    language: tags.language && tags.language !== 'und' ? tags.language : undefined,
+    title: tags.title || undefined,
+    default: Boolean(stream.disposition && stream.disposition.default),
+    duration: toNumber(stream.duration)
+  };
+}
+
+/**
+ * Turn ffprobe's -show_format -show_streams JSON into the MediaInfo shape used by the renderer
+ */
+function parseProbeOutput(output) {
+  const { format = {}, streams = [] } = JSON.parse(output);
+  // Cover art in audio files is reported as a one-frame video stream
+  const videoStreams = streams.filter(stream =>
+    stream.codec_type === 'video' && !(stream.disposition && stream.disposition.attached_pic)
+  );
+  const audioTracks = streams.filter(stream => stream.codec_type === 'audio').map(describeAudioStream);
+  const primary = audioTracks.find(track => track.default) || audioTracks[0];
+
+  // Some containers (raw streams, fragmented MP4) only report durations per stream
+  const streamDurations = streams.map(stream => toNumber(stream.duration)).filter(Boolean);
+  const duration = toNumber(format.duration) ||
+    (streamDurations.length > 0 ? Math.max(...streamDurations) : null);
+
+  return {
+    duration,
+    container: format.format_name || 'unknown',
+    bit_rate: toNumber(format.bit_rate),
+    has_video: videoStreams.length > 0,
+    video_codec: videoStreams[0] ? videoStreams[0].codec_name : undefined,
+    audio_codec: primary ? primary.codec : undefined,
+    sample_rate: primary ? primary.sample_rate : undefined,
+    channels: primary ? primary.channels : undefined,
+    audio_tracks: audioTracks
+  };
+}
+
+function runFfprobe(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      filePath
+    ], { timeout: PROBE_TIMEOUT_MS, maxBuffer: MAX_OUTPUT_BYTES, windowsHide: true }, (error, stdout, stderr) => {
+      if (error) {
+        if (error.code === 'ENOENT') {
+          reject(new Error('FFprobe not found. Install ffmpeg (which includes ffprobe) and make sure it is on your PATH.'));
+        } else if (error.killed) {
+          reject(new Error(`Timed out reading media information after ${PROBE_TIMEOUT_MS / 1000}s`));
+        } else {
+          const reason = (stderr || '').trim().split('\n').filter(Boolean).pop();
+          reject(new Error(reason || `ffprobe exited with code ${error.code}`));
+        }
+        return;
+      }
+      try {
+        resolve(parseProbeOutput(stdout));
+      } catch (parseError) {
+        reject(new Error(`Could not read ffprobe output: ${parseError.message}`));
+      }
+    });
+  });
+}
+
+/**
+ * Read duration, codecs, sample rate, channel count and audio tracks of a media file.
+ * Rejects when ffprobe is missing or cannot read the file.
+ */
+async function probeMedia(filePath) {
+  const stats = await fs.promises.stat(filePath);
+  const key = `${stats.size}:${stats.mtimeMs}`;
+  const cached = cache.get(filePath);
+  if (cached && cached.key === key) {
+    return cached.info;
+  }
+
+  const info = await runFfprobe(filePath);
+  cache.delete(filePath);
+  cache.set(filePath, { key, info });
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+  return info;
+}
+
+module.exports = { probeMedia, parseProbeOutput };
@@ -0,0 +1,244 @@
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const https = require('https');
+const crypto = require('crypto');
+const { once } = require('events');
+const { MODELS_DIR, loadManifest, getModel, parseChecksum } = require('./electron-models.cjs');
+const { cancelledError } = require('./electron-whisper-protocol.cjs');
+
+const MAX_REDIRECTS = 5;
+const PROGRESS_INTERVAL_MS = 250;
+// Takes precedence over the manifest source and the configured mirror, e.g. to point
+// the app at a local stand-in server
+const MIRROR_ENV = 'CONCISE_NOTES_MODEL_MIRROR';
+
+/**
+ * GET `url`, following redirects (the default source redirects to a CDN).
+ * Resolves with the final response; the caller consumes or destroys it.
+ */
+function get(url, headers, signal, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const request = client.get(url, { headers, signal }, (response) => {
+      const { statusCode, headers: responseHeaders } = response;
+      if (statusCode >= 300 && statusCode < 400 && responseHeaders.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Too many redirects downloading ${url}`));
+          return;
+        }
+        resolve(get(new URL(responseHeaders.location, url).toString(), headers, signal, redirects + 1));
+        return;
+      }
+      resolve(response);
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Downloads models listed in the registry manifest into the models directory.
+ *
+ * Data is written to "<file>.part" and hashed as it arrives. An interrupted or cancelled
+ * download keeps its partial file and resumes with an HTTP range request; the bytes already
+ * on disk are re-hashed first so the checksum covers the whole file. Only a file matching
+ * the manifest checksum (when the entry has one) is renamed into place, so a model file is
+ * never half-written.
+ */
+class ModelDownloader {
+  constructor() {
+    // Running downloads by model id
+    this.active = new Map();
+  }
+
+  isDownloading(modelId) {
+    const entry = getModel(modelId);
+    return Boolean(entry && this.active.has(entry.id));
+  }
+
+  /**
+   * Bytes already downloaded for a model that has not finished, or 0
+   */
+  partialSize(modelId) {
+    const entry = getModel(modelId);
+    if (!entry) return 0;
+    try {
+      return fs.statSync(path.join(MODELS_DIR, `${entry.file}.part`)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  urlFor(entry, mirrorUrl) {
+    const base = process.env[MIRROR_ENV] || mirrorUrl;
+    if (base) {
+      return `${base.replace(/\/+$/, '')}/${entry.file}`;
+    }
+    return entry.url || `${loadManifest().source}/${entry.file}`;
+  }
+
+  /**
+   * Download a model. `onProgress` receives { stage, progress, received_bytes, total_bytes,
+   * bytes_per_second, eta_seconds }. Resolves with the model path and whether anything
+   * was downloaded.
+   */
+  async download(requestedId, { mirrorUrl, onProgress = () => {} } = {}) {
+    const entry = getModel(requestedId);
+    if (!entry) {
+      throw new Error(`Unknown model: ${requestedId}`);
+    }
+    if (entry.custom) {
+      throw new Error(`${entry.name} was imported from disk and cannot be downloaded`);
+    }
+    const modelId = entry.id;
+    if (this.active.has(modelId)) {
+      throw new Error(`${modelId} is already downloading`);
+    }
+
+    const modelPath = path.join(MODELS_DIR, entry.file);
+    if (fs.existsSync(modelPath)) {
+      return { modelPath, downloaded: false };
+    }
+
+    const controller = new AbortController();
+    this.active.set(modelId, controller);
+
+    try {
+      await fs.promises.mkdir(MODELS_DIR, { recursive: true });
+      await this.fetchToFile(entry, modelPath, this.urlFor(entry, mirrorUrl), controller.signal, onProgress);
+      return { modelPath, downloaded: true };
+    } catch (error) {
+      throw controller.signal.aborted ? cancelledError() : error;
+    } finally {
+      this.active.delete(modelId);
+    }
+  }
+
+  /**
+   * Cancel a running download. The partial file is kept so the next download resumes.
+   */
+  cancel(modelId) {
+    const entry = getModel(modelId);
+    const controller = entry && this.active.get(entry.id);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  async fetchToFile(entry, modelPath, url, signal, onProgress) {
+    const partialPath = `${modelPath}.part`;
+    // Entries hosted outside the default source may not publish a checksum; those are
+    // installed unverified
+    const { algorithm, digest } = entry.checksum
+      ? parseChecksum(entry.checksum)
+      : { algorithm: 'sha1', digest: null };
+
+    let hash = crypto.createHash(algorithm);
+    let offset = await hashFile(partialPath, hash);
+
+    console.log(`Downloading ${entry.id} from ${url}${offset > 0 ? ` (resuming at ${offset} bytes)` : ''}`);
+    const response = await get(url, offset > 0 ? { Range: `bytes=${offset}-` } : {}, signal);
+
+    let total;
+    if (response.statusCode === 416 && offset > 0) {
+      // Nothing left to fetch: the partial file already holds the whole model
+      response.resume();
+      total = offset;
+    } else if (response.statusCode === 206) {
+      const range = /\/(\d+)$/.exec(response.headers['content-range'] || '');
+      total = range ? Number(range[1]) : offset + Number(response.headers['content-length'] || 0);
+    } else if (response.statusCode === 200) {
+      // The server ignored the range request; start over
+      if (offset > 0) {
+        hash = crypto.createHash(algorithm);
+        offset = 0;
+      }
+      total = Number(response.headers['content-length'] || 0);
+    } else {
+      response.resume();
+      throw new Error(`Download failed: HTTP ${response.statusCode} from ${url}`);
+    }
+
+    if (response.statusCode !== 416) {
+      await this.writeResponse(response, partialPath, offset, total, hash, onProgress);
+    }
+
+    onProgress({ stage: 'verifying', progress: 100, received_bytes: total, total_bytes: total });
+    const actual = hash.digest('hex');
+    if (!digest) {
+      console.warn(`⚠️ No checksum in the manifest for ${entry.id}; installed without verification (${algorithm} ${actual})`);
+    } else if (actual !== digest) {
+      await fs.promises.rm(partialPath, { force: true });
+      const error = new Error(`Checksum mismatch for ${entry.file}: expected ${algorithm} ${digest}, got ${actual}. The download was discarded.`);
+      error.code = 'CHECKSUM_MISMATCH';
+      throw error;
+    }
+
+    // Same directory, so the rename is atomic
+    await fs.promises.rename(partialPath, modelPath);
+    console.log(`✅ Model ${entry.id} downloaded to ${modelPath}`);
+  }
+
+  async writeResponse(response, partialPath, offset, total, hash, onProgress) {
+    const output = fs.createWriteStream(partialPath, { flags: offset > 0 ? 'a' : 'w' });
+    const startTime = Date.now();
+    let received = offset;
+    let lastReport = 0;
+
+    const report = () => {
+      const elapsed = (Date.now() - startTime) / 1000;
+      const bytesPerSecond = elapsed > 0 ? (received - offset) / elapsed : 0;
+      onProgress({
+        stage: 'downloading',
+        progress: total > 0 ? Math.min(100, (received / total) * 100) : 0,
+        received_bytes: received,
+        total_bytes: total,
+        bytes_per_second: Math.round(bytesPerSecond),
+        ...(total > 0 && bytesPerSecond > 0 ? { eta_seconds: Math.round((total - received) / bytesPerSecond) } : {})
+      });
+    };
+
+    try {
+      report();
+      for await (const chunk of response) {
+        hash.update(chunk);
+        received += chunk.length;
+        if (!output.write(chunk)) {
+          await once(output, 'drain');
+        }
+        if (Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+          lastReport = Date.now();
+          report();
+        }
+      }
+      report();
+    } finally {
+      output.end();
+      await once(output, 'close');
+    }
+
+    if (total > 0 && received < total) {
+      throw new Error(`Download interrupted after ${received} of ${total} bytes; it will resume on retry`);
+    }
+  }
+}
+
+/**
+ * Feed an existing partial download into `hash`. Returns its size, or 0 if there is none.
+ */
+async function hashFile(filePath, hash) {
+  let size = 0;
+  try {
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+      size += chunk.length;
+    }
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  return size;
+}
+
+// Export singleton instance
+module.exports = new ModelDownloader();
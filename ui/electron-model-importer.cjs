@@ -0,0 +1,165 @@
+const fs = require('fs');
+const path = require('path');
+const { MODELS_DIR, loadCustomModels, saveCustomModels, listModels, getModel } = require('./electron-models.cjs');
+
+// "ggml" as a little-endian uint32, the first four bytes of a whisper.cpp model file
+const GGML_MAGIC = 0x67676d6c;
+// Hyperparameters stored after the magic, each an int32, in file order
+const HEADER_FIELDS = [
+  'n_vocab', 'n_audio_ctx', 'n_audio_state', 'n_audio_head', 'n_audio_layer',
+  'n_text_ctx', 'n_text_state', 'n_text_head', 'n_text_layer', 'n_mels', 'ftype'
+];
+const HEADER_SIZE = 4 + HEADER_FIELDS.length * 4;
+// Encoder width identifies the size class, including for fine-tuned models
+const FAMILY_BY_AUDIO_STATE = { 384: 'tiny', 512: 'base', 768: 'small', 1024: 'medium', 1280: 'large' };
+// ggml ftype values, after removing the quantization version (ftype % 1000)
+const QUANTIZATION_BY_FTYPE = { 2: 'q4_0', 3: 'q4_1', 7: 'q8_0', 8: 'q5_0', 9: 'q5_1' };
+// English-only models have one fewer token than multilingual ones (51865, or 51866 for large-v3)
+const ENGLISH_VOCAB_SIZE = 51864;
+const MAX_VOCAB_SIZE = 51866;
+// Imported files are kept apart from downloaded ones
+const CUSTOM_DIR = 'custom';
+
+function invalidModel(filePath, reason) {
+  const error = new Error(`${path.basename(filePath)} is not a whisper.cpp ggml model: ${reason}`);
+  error.code = 'INVALID_MODEL';
+  return error;
+}
+
+/**
+ * Read and check the ggml header of a model file. Resolves with its hyperparameters.
+ */
+async function readGgmlHeader(filePath) {
+  const handle = await fs.promises.open(filePath, 'r');
+  let bytesRead;
+  const buffer = Buffer.alloc(HEADER_SIZE);
+  try {
+    ({ bytesRead } = await handle.read(buffer, 0, HEADER_SIZE, 0));
+  } finally {
+    await handle.close();
+  }
+
+  if (bytesRead < HEADER_SIZE) {
+    throw invalidModel(filePath, 'file is too short');
+  }
+  if (buffer.readUInt32LE(0) !== GGML_MAGIC) {
+    throw invalidModel(filePath, 'missing ggml magic number (GGUF and PyTorch checkpoints must be converted first)');
+  }
+
+  const header = {};
+  HEADER_FIELDS.forEach((field, index) => {
+    header[field] = buffer.readInt32LE(4 + index * 4);
+  });
+
+  if (header.n_vocab < ENGLISH_VOCAB_SIZE || header.n_vocab > MAX_VOCAB_SIZE) {
+    throw invalidModel(filePath, `unexpected vocabulary size ${header.n_vocab}`);
+  }
+  if (header.n_mels !== 80 && header.n_mels !== 128) {
+    throw invalidModel(filePath, `unexpected mel band count ${header.n_mels}`);
+  }
+  if (!FAMILY_BY_AUDIO_STATE[header.n_audio_state]) {
+    throw invalidModel(filePath, `unexpected encoder width ${header.n_audio_state}`);
+  }
+  return header;
+}
+
+/**
+ * Registry fields that can be read off the header
+ */
+function describeHeader(header) {
+  const family = FAMILY_BY_AUDIO_STATE[header.n_audio_state];
+  const standard = getModel(family);
+  return {
+    family,
+    language: header.n_vocab === ENGLISH_VOCAB_SIZE ? 'en' : 'multilingual',
+    quantization: QUANTIZATION_BY_FTYPE[header.ftype % 1000] || null,
+    relative_speed: standard ? standard.relative_speed : 1
+  };
+}
+
+function slugify(name) {
+  return name.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '') || 'model';
+}
+
+function uniqueId(name) {
+  const base = `custom-${slugify(name)}`;
+  const taken = new Set(listModels().map(model => model.id));
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Validate a ggml model file, copy it (or symlink to it) into the models directory and
+ * register it. `mode` is 'copy' or 'link'; a linked model stops working if the original
+ * file moves. Resolves with the new registry entry.
+ */
+async function importModel(sourcePath, { name, notes = '', mode = 'copy' } = {}) {
+  const source = path.resolve(sourcePath);
+  const header = await readGgmlHeader(source);
+  const { size } = await fs.promises.stat(source);
+  const displayName = (name || '').trim() || path.basename(source, path.extname(source));
+
+  const id = uniqueId(displayName);
+  const file = path.join(CUSTOM_DIR, `${id}.bin`);
+  const destination = path.join(MODELS_DIR, file);
+  await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+
+  if (mode === 'link') {
+    try {
+      await fs.promises.symlink(source, destination, 'file');
+    } catch (error) {
+      // Windows only allows symlinks with developer mode or admin rights
+      if (error.code === 'EPERM') {
+        throw new Error('This system does not allow linking to the model file; import a copy instead.');
+      }
+      throw error;
+    }
+  } else {
+    // Copy under a temporary name so a failed copy never shows up as a usable model
+    const partialPath = `${destination}.part`;
+    try {
+      await fs.promises.copyFile(source, partialPath, fs.constants.COPYFILE_FICLONE);
+      await fs.promises.rename(partialPath, destination);
+    } catch (error) {
+      await fs.promises.rm(partialPath, { force: true });
+      throw error;
+    }
+  }
+
+  const details = describeHeader(header);
+  const entry = {
+    id,
+    name: displayName,
+    ...details,
+    file,
+    size_mb: Math.round(size / (1024 * 1024)),
+    recommended_use: `Imported ${details.family} model (${path.basename(source)}).`,
+    custom: true,
+    notes: notes.trim(),
+    source,
+    linked: mode === 'link',
+    imported_at: new Date().toISOString()
+  };
+  saveCustomModels([...loadCustomModels(), entry]);
+  console.log(`✅ Imported model ${id} from ${source} (${mode})`);
+  return entry;
+}
+
+/**
+ * Unregister an imported model and delete its copy or link. The original file of a linked
+ * model is left alone.
+ */
+async function removeImportedModel(modelId) {
+  const models = loadCustomModels();
+  const entry = models.find(model => model.id === modelId);
+  if (!entry) {
+    throw new Error(`No imported model with id ${modelId}`);
+  }
+  await fs.promises.rm(path.join(MODELS_DIR, entry.file), { force: true });
+  saveCustomModels(models.filter(model => model.id !== modelId));
+}
+
+module.exports = { readGgmlHeader, importModel, removeImportedModel };
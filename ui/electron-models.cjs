@@ -0,0 +1,87 @@
+const path = require('path');
+const fs = require('fs');
+
+// Model files live outside the app bundle so downloads survive app updates
+const MODELS_DIR = path.join(__dirname, '..', 'models');
+// The model registry, shared with the renderer (src/lib/modelRegistry.ts). Each entry has:
+//   id, name, family ("tiny" ... "large"), file, size_mb,
+//   quantization ("q5_0" | "q5_1" | "q8_0" | null), language ("multilingual" | "en"),
+//   distilled?, relative_speed (approximate multiple of realtime on CPU), recommended_use,
+//   checksum? ("<algorithm>:<hex digest>"), url? (overrides `source`),
+//   aliases? (older ids such as "large" or "LargeV3", matched case-insensitively)
+const MANIFEST_PATH = path.join(__dirname, 'model-manifest.json');
+// Models imported from disk (electron-model-importer.cjs). Same entry shape, plus custom,
+// notes, source, linked and imported_at; `file` is relative to MODELS_DIR.
+const CUSTOM_MODELS_PATH = path.join(MODELS_DIR, 'custom-models.json');
+const CUSTOM_MODELS_VERSION = 1;
+
+let manifest = null;
+
+function loadManifest() {
+  if (!manifest) {
+    manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'));
+  }
+  return manifest;
+}
+
+/**
+ * Imported models. Read on every call rather than cached: the Whisper worker resolves
+ * models too, and must see imports made by the main process.
+ */
+function loadCustomModels() {
+  try {
+    return JSON.parse(fs.readFileSync(CUSTOM_MODELS_PATH, 'utf8')).models || [];
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('❌ Could not read imported models:', error);
+    }
+    return [];
+  }
+}
+
+function saveCustomModels(models) {
+  fs.mkdirSync(MODELS_DIR, { recursive: true });
+  const tempPath = `${CUSTOM_MODELS_PATH}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify({ version: CUSTOM_MODELS_VERSION, models }, null, 2));
+  fs.renameSync(tempPath, CUSTOM_MODELS_PATH);
+}
+
+function listModels() {
+  return [...loadManifest().models, ...loadCustomModels()];
+}
+
+/**
+ * Find a model by id or alias, e.g. "large-v3", "large" or "LargeV3"
+ */
+function getModel(modelId) {
+  if (!modelId) return null;
+  const key = String(modelId).trim().toLowerCase();
+  return listModels().find(model =>
+    model.id === key || (model.aliases || []).includes(key)
+  ) || null;
+}
+
+/**
+ * Split a manifest checksum such as "sha1:bd57..." into a Node hash algorithm and hex digest
+ */
+function parseChecksum(checksum) {
+  const separator = checksum.indexOf(':');
+  if (separator === -1) {
+    throw new Error(`Invalid checksum "${checksum}"; expected "<algorithm>:<hex digest>"`);
+  }
+  return {
+    algorithm: checksum.slice(0, separator).toLowerCase(),
+    digest: checksum.slice(separator + 1).toLowerCase()
+  };
+}
+
+module.exports = {
+  MODELS_DIR,
+  MANIFEST_PATH,
+  loadManifest,
+  loadCustomModels,
+  saveCustomModels,
+  listModels,
+  getModel,
+  parseChecksum
+};
@@ -13,33 +13,70 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Model operations
   listModels: () => ipcRenderer.invoke('list-models'),
   loadModel: (modelSize) => ipcRenderer.invoke('load-model', modelSize),
-  downloadModel: (modelSize) => ipcRenderer.invoke('download-model', modelSize),
+  downloadModel: (modelSize, options) => ipcRenderer.invoke('download-model', modelSize, options),
+  cancelModelDownload: (modelSize) => ipcRenderer.invoke('cancel-model-download', modelSize),
+  selectModelFile: () => ipcRenderer.invoke('select-model-file'),
+  listCustomModels: () => ipcRenderer.invoke('list-custom-models'),
+  importModel: (filePath, options) => ipcRenderer.invoke('import-model', filePath, options),
+  removeCustomModel: (modelId) => ipcRenderer.invoke('remove-custom-model', modelId),
   
   // Transcription
   transcribeFile: (filePath, options) => 
     ipcRenderer.invoke('transcribe-file', filePath, options),
-  transcribeRealtime: (audioBuffer) => 
-    ipcRenderer.invoke('transcribe-realtime', audioBuffer),
+  transcribeRealtime: (audioBuffer, options) => 
+    ipcRenderer.invoke('transcribe-realtime', audioBuffer, options),
+  armSystemAudioCapture: () => ipcRenderer.invoke('arm-system-audio-capture'),
   transcribeAudioBuffer: (audioBuffer, options) =>
     ipcRenderer.invoke('transcribe-audio-buffer', audioBuffer, options),
+  cancelTranscription: (jobId) =>
+    ipcRenderer.invoke('cancel-transcription', jobId),
   
   // System info
   isElectron: true,
   platform: process.platform,
   getSystemInfo: () => ipcRenderer.invoke('get-system-info'),
+  getHardwareCapabilities: () => ipcRenderer.invoke('get-hardware-capabilities'),
+  runGpuBenchmark: () => ipcRenderer.invoke('run-gpu-benchmark'),
+  runBenchmark: (options) => ipcRenderer.invoke('run-benchmark', options),
+  cancelBenchmark: () => ipcRenderer.invoke('cancel-benchmark'),
   getSystemResources: () => ipcRenderer.invoke('get-system-resources'),
   getFileInfo: (filePath) => ipcRenderer.invoke('get-file-info', filePath),
   scanDirectory: (dirPath) => ipcRenderer.invoke('scan-directory', dirPath),
+  setOllamaBaseUrl: (baseUrl) => ipcRenderer.invoke('set-ollama-base-url', baseUrl),
+  ollamaRequest: (request) => ipcRenderer.invoke('ollama-request', request),
   
   // Events
   onProgress: (callback) => {
-    ipcRenderer.on('transcription-progress', (event, progress) => {
+    const listener = (event, progress) => {
       callback(progress);
-    });
+    };
+    ipcRenderer.on('transcription-progress', listener);
+    
+    // Return unsubscribe function; other subscribers (e.g. concurrent batch jobs) keep listening
+    return () => {
+      ipcRenderer.removeListener('transcription-progress', listener);
+    };
+  },
+  
+  onModelDownloadProgress: (callback) => {
+    const listener = (event, progress) => {
+      callback(progress);
+    };
+    ipcRenderer.on('model-download-progress', listener);
+    
+    return () => {
+      ipcRenderer.removeListener('model-download-progress', listener);
+    };
+  },
+  
+  onBenchmarkProgress: (callback) => {
+    const listener = (event, progress) => {
+      callback(progress);
+    };
+    ipcRenderer.on('benchmark-progress', listener);
     
-    // Return unsubscribe function
     return () => {
-      ipcRenderer.removeAllListeners('transcription-progress');
+      ipcRenderer.removeListener('benchmark-progress', listener);
     };
   },
   
@@ -0,0 +1,302 @@
+const path = require('path');
+const { utilityProcess } = require('electron');
+const { MessageType, cancelledError, deserializeError } = require('./electron-whisper-protocol.cjs');
+// Model files are listed and located from the main process; only inference runs in the worker
+const localModels = require('./electron-whisper.cjs');
+
+const WORKER_PATH = path.join(__dirname, 'electron-whisper-worker.cjs');
+// Stop restarting a worker that crashes this many times within the window
+const MAX_CRASHES = 3;
+const CRASH_WINDOW_MS = 60 * 1000;
+// How long cleanup waits for the worker to free the model before killing it
+const FREE_TIMEOUT_MS = 5000;
+
+/**
+ * Main-process side of the Whisper worker. Exposes the same API as WhisperService, but runs
+ * inference in a supervised utility process: if the worker crashes, only the request it was
+ * running fails, and the next request starts a new worker with the same model loaded.
+ */
+class WhisperWorkerClient {
+  constructor() {
+    this.worker = null;
+    this.ready = null;
+    this.nextId = 1;
+    // Requests awaiting a reply, by id: { resolve, reject, onProgress, worker }
+    this.pending = new Map();
+    this.crashTimes = [];
+    this.isInitialized = false;
+    this.currentModelSize = null;
+    this.currentUseGpu = true;
+    // Requests run one at a time; the rest wait here, outside the worker, so a crash
+    // fails only the request that was running
+    this.busy = false;
+    this.waiting = [];
+    // Set while a file transcription is running, which live chunks do not wait for
+    this.batchRunning = false;
+  }
+
+  get isModelLoaded() {
+    return this.currentModelSize !== null;
+  }
+
+  async initialize() {
+    try {
+      await this.ensureWorker();
+      return this.isInitialized;
+    } catch (error) {
+      console.error('❌ Failed to start Whisper worker:', error);
+      return false;
+    }
+  }
+
+  async loadModel(modelSize = 'base', options = {}) {
+    const useGpu = options.useGpu !== undefined ? options.useGpu : true;
+
+    return this.exclusive(async () => {
+      // A fresh worker loads the requested model directly instead of restoring the old one first
+      if (!this.worker) {
+        this.currentModelSize = null;
+      }
+      await this.ensureWorker();
+      if (!this.isInitialized) {
+        throw new Error('Whisper service not initialized');
+      }
+
+      // The worker reports the registry id, so aliases such as "large" compare equal later
+      const loaded = await this.send({ type: MessageType.LOAD, modelSize, useGpu });
+      this.currentModelSize = loaded.modelSize;
+      this.currentUseGpu = useGpu;
+      return true;
+    });
+  }
+
+  /**
+   * Transcribe a media file path or an in-memory recording (Buffer). `progressCallback`
+   * and `signal` stay in this process; the other options are passed to the worker.
+   */
+  async transcribe(input, options = {}) {
+    const { progressCallback, signal, ...whisperOptions } = options;
+
+    return this.exclusive(async () => {
+      await this.ensureWorker();
+      this.batchRunning = true;
+      try {
+        return await this.send(
+          { type: MessageType.TRANSCRIBE, input, options: whisperOptions },
+          { onProgress: progressCallback, signal }
+        );
+      } finally {
+        this.batchRunning = false;
+      }
+    }, signal);
+  }
+
+  /**
+   * Transcribe a chunk of live audio. Live chunks go ahead of queued requests, and run
+   * alongside a file transcription instead of waiting up to a whole window for it: each
+   * Whisper task has its own decoding state, so both can share the loaded model.
+   */
+  async transcribeRealtime(audioBuffer, options = {}) {
+    const run = async () => {
+      await this.ensureWorker();
+      return this.send({ type: MessageType.TRANSCRIBE_REALTIME, audio: audioBuffer, options });
+    };
+    if (this.batchRunning && this.isModelLoaded) {
+      return run();
+    }
+    return this.exclusive(run, undefined, { priority: true });
+  }
+
+  /**
+   * Time a model with the GPU on or off; see WhisperService.benchmark for the options
+   */
+  async benchmark(modelSize, options = {}) {
+    return this.exclusive(async () => {
+      await this.ensureWorker();
+      if (!this.isInitialized) {
+        throw new Error('Whisper service not initialized');
+      }
+      return this.send({ type: MessageType.BENCHMARK, modelSize, options: { ...options, useGpu: Boolean(options.useGpu) } });
+    });
+  }
+
+  listAvailableModels() {
+    return localModels.listAvailableModels();
+  }
+
+  formatFileSize(bytes) {
+    return localModels.formatFileSize(bytes);
+  }
+
+  /**
+   * Free the model and stop the worker. The next request starts a new one.
+   */
+  async cleanup() {
+    const worker = this.worker;
+    this.worker = null;
+    this.ready = null;
+    this.currentModelSize = null;
+    this.currentUseGpu = true;
+    if (!worker) return;
+
+    // Freeing the model under a running transcription is unsafe; the process exit frees it anyway
+    const busy = [...this.pending.values()].some(request => request.worker === worker);
+    if (!busy) {
+      try {
+        await Promise.race([
+          this.send({ type: MessageType.FREE }, {}, worker),
+          new Promise(resolve => setTimeout(resolve, FREE_TIMEOUT_MS))
+        ]);
+      } catch (error) {
+        console.error('Error freeing Whisper worker:', error);
+      }
+    }
+    worker.kill();
+  }
+
+  /**
+   * Start the worker if it is not running, and restore the model the previous worker had loaded
+   */
+  ensureWorker() {
+    if (this.worker) {
+      return this.ready;
+    }
+
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter(time => now - time < CRASH_WINDOW_MS);
+    if (this.crashTimes.length >= MAX_CRASHES) {
+      return Promise.reject(new Error(`Whisper worker crashed ${this.crashTimes.length} times in the last minute; not restarting it yet. Try a smaller model or disable GPU acceleration.`));
+    }
+
+    const worker = utilityProcess.fork(WORKER_PATH, [], {
+      serviceName: 'Whisper Worker',
+      stdio: 'inherit'
+    });
+    worker.on('message', (message) => this.handleMessage(message));
+    worker.on('exit', (code) => this.handleExit(worker, code));
+    this.worker = worker;
+
+    this.ready = (async () => {
+      this.isInitialized = await this.send({ type: MessageType.INIT });
+      if (this.isInitialized && this.currentModelSize) {
+        try {
+          await this.send({ type: MessageType.LOAD, modelSize: this.currentModelSize, useGpu: this.currentUseGpu });
+          console.log(`✅ Whisper worker restarted with model ${this.currentModelSize}`);
+        } catch (error) {
+          console.error(`❌ Could not restore model ${this.currentModelSize} in new Whisper worker:`, error);
+          this.currentModelSize = null;
+        }
+      }
+    })();
+    return this.ready;
+  }
+
+  /**
+   * Post a request and resolve with the worker's reply. Aborting `signal` asks the worker to
+   * cancel the request, which then rejects with an AbortError.
+   */
+  send(message, { onProgress, signal } = {}, worker = this.worker) {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      if (!worker) {
+        reject(new Error('Whisper worker is not running'));
+        return;
+      }
+
+      const onAbort = () => worker.postMessage({ type: MessageType.CANCEL, id: this.nextId++, target: id });
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      const settle = (callback) => (value) => {
+        if (signal) signal.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+        callback(value);
+      };
+
+      this.pending.set(id, { resolve: settle(resolve), reject: settle(reject), onProgress, worker });
+      worker.postMessage({ ...message, id });
+    });
+  }
+
+  handleMessage(message) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    switch (message.type) {
+      case MessageType.PROGRESS:
+        if (request.onProgress) request.onProgress(message.progress);
+        break;
+      case MessageType.RESULT:
+        request.resolve(message.result);
+        break;
+      case MessageType.ERROR:
+        request.reject(deserializeError(message.error));
+        break;
+    }
+  }
+
+  /**
+   * Fail the requests the exited worker was handling. Queued requests are untouched and
+   * will start a new worker when their turn comes.
+   */
+  handleExit(worker, code) {
+    const unexpected = worker === this.worker;
+    if (unexpected) {
+      console.error(`❌ Whisper worker exited unexpectedly (code ${code})`);
+      this.worker = null;
+      this.ready = null;
+      this.crashTimes.push(Date.now());
+    }
+
+    for (const request of [...this.pending.values()]) {
+      if (request.worker !== worker) continue;
+      const error = new Error(`Whisper worker crashed (exit code ${code}) while processing this request`);
+      error.name = 'WorkerCrashedError';
+      request.reject(error);
+    }
+  }
+
+  /**
+   * Run `task` once no other request is running. Aborting `signal` while still queued
+   * rejects with an AbortError without ever reaching the worker. `priority` requests are
+   * queued ahead of the others, behind earlier priority requests.
+   */
+  async exclusive(task, signal, { priority = false } = {}) {
+    if (signal && signal.aborted) {
+      throw cancelledError();
+    }
+
+    if (this.busy) {
+      await new Promise((resolve, reject) => {
+        const waiter = { resolve, priority };
+        const index = priority ? this.waiting.findIndex(other => !other.priority) : -1;
+        this.waiting.splice(index === -1 ? this.waiting.length : index, 0, waiter);
+        if (signal) {
+          signal.addEventListener('abort', () => {
+            const index = this.waiting.indexOf(waiter);
+            if (index !== -1) {
+              this.waiting.splice(index, 1);
+              reject(cancelledError());
+            }
+          }, { once: true });
+        }
+      });
+    }
+    this.busy = true;
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next.resolve();
+      } else {
+        this.busy = false;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+module.exports = new WhisperWorkerClient();
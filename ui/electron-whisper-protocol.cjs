@@ -0,0 +1,75 @@
+/**
+ * Message protocol between the main process (electron-whisper-client.cjs) and the
+ * Whisper worker (electron-whisper-worker.cjs).
+ *
+ * Every request carries a numeric `id`. The worker answers each request with exactly one
+ * RESULT or ERROR message with the same id; TRANSCRIBE requests may also receive any
+ * number of PROGRESS messages first. CANCEL is fire-and-forget: the cancelled request
+ * then fails with an AbortError.
+ *
+ * Requests (main -> worker):
+ * @typedef {{ type: 'init', id: number }} InitRequest
+ * @typedef {{ type: 'load', id: number, modelSize: string, useGpu: boolean }} LoadRequest
+ * @typedef {{ type: 'transcribe', id: number, input: string | Uint8Array, options: object }} TranscribeRequest
+ *   `input` is a file path, or the bytes of an in-memory recording
+ * @typedef {{ type: 'transcribe-realtime', id: number, audio: ArrayBuffer, options: object }} TranscribeRealtimeRequest
+ * @typedef {{ type: 'cancel', id: number, target: number }} CancelRequest
+ *   `target` is the id of the request to cancel
+ * @typedef {{ type: 'free', id: number }} FreeRequest
+ * @typedef {{ type: 'benchmark', id: number, modelSize: string, options: BenchmarkOptions }} BenchmarkRequest
+ *   Times the model without replacing the loaded model
+ * @typedef {{ useGpu: boolean, threads?: number, audioPath?: string, audioSeconds?: number, maxTokens?: number }} BenchmarkOptions
+ *
+ * Replies (worker -> main):
+ * @typedef {{ type: 'result', id: number, result: any }} ResultMessage
+ * @typedef {{ type: 'error', id: number, error: SerializedError }} ErrorMessage
+ * @typedef {{ type: 'progress', id: number, progress: object }} ProgressMessage
+ *
+ * @typedef {{ name: string, message: string, code?: string }} SerializedError
+ */
+
+const MessageType = Object.freeze({
+  INIT: 'init',
+  LOAD: 'load',
+  TRANSCRIBE: 'transcribe',
+  TRANSCRIBE_REALTIME: 'transcribe-realtime',
+  CANCEL: 'cancel',
+  FREE: 'free',
+  BENCHMARK: 'benchmark',
+  RESULT: 'result',
+  ERROR: 'error',
+  PROGRESS: 'progress'
+});
+
+/**
+ * Errors cannot be sent over the message port as-is; keep what callers branch on
+ * (name for AbortError, code) along with the message
+ * @returns {SerializedError}
+ */
+function serializeError(error) {
+  return {
+    name: (error && error.name) || 'Error',
+    message: (error && error.message) || String(error),
+    ...(error && error.code ? { code: error.code } : {})
+  };
+}
+
+/**
+ * Error for a cancelled request. Callers check `name === 'AbortError'`, as with fetch and
+ * other AbortSignal-based APIs.
+ */
+function cancelledError() {
+  const error = new Error('Transcription cancelled');
+  error.name = 'AbortError';
+  error.code = 'ABORT_ERR';
+  return error;
+}
+
+function deserializeError(data) {
+  const error = new Error(data.message);
+  error.name = data.name;
+  if (data.code) error.code = data.code;
+  return error;
+}
+
+module.exports = { MessageType, cancelledError, serializeError, deserializeError };
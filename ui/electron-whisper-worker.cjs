@@ -0,0 +1,72 @@
+// Whisper inference worker, started by electron-whisper-client.cjs as an Electron utility
+// process. Native inference runs here so a long job or a native crash cannot take down the
+// main process; see electron-whisper-protocol.cjs for the messages.
+const whisperService = require('./electron-whisper.cjs');
+const { MessageType, serializeError } = require('./electron-whisper-protocol.cjs');
+
+const port = process.parentPort;
+
+// In-flight transcriptions by request id
+const running = new Map();
+
+function reply(id, result) {
+  port.postMessage({ type: MessageType.RESULT, id, result });
+}
+
+function fail(id, error) {
+  port.postMessage({ type: MessageType.ERROR, id, error: serializeError(error) });
+}
+
+async function handle(message) {
+  switch (message.type) {
+    case MessageType.INIT:
+      return whisperService.initialize();
+
+    case MessageType.LOAD:
+      await whisperService.loadModel(message.modelSize, { useGpu: message.useGpu });
+      return { modelSize: whisperService.currentModelSize, useGpu: whisperService.currentUseGpu };
+
+    case MessageType.TRANSCRIBE: {
+      const controller = new AbortController();
+      running.set(message.id, controller);
+      try {
+        // Recordings arrive as a Uint8Array after structured cloning
+        const input = typeof message.input === 'string' ? message.input : Buffer.from(message.input);
+        return await whisperService.transcribe(input, {
+          ...message.options,
+          signal: controller.signal,
+          progressCallback: (progress) => port.postMessage({ type: MessageType.PROGRESS, id: message.id, progress })
+        });
+      } finally {
+        running.delete(message.id);
+      }
+    }
+
+    case MessageType.TRANSCRIBE_REALTIME:
+      return whisperService.transcribeRealtime(message.audio, message.options);
+
+    case MessageType.BENCHMARK:
+      return whisperService.benchmark(message.modelSize, message.options);
+
+    case MessageType.FREE:
+      await whisperService.cleanup();
+      return true;
+
+    default:
+      throw new Error(`Unknown message type: ${message.type}`);
+  }
+}
+
+port.on('message', async ({ data: message }) => {
+  if (message.type === MessageType.CANCEL) {
+    const controller = running.get(message.target);
+    if (controller) controller.abort();
+    return;
+  }
+
+  try {
+    reply(message.id, await handle(message));
+  } catch (error) {
+    fail(message.id, error);
+  }
+});
@@ -1,18 +1,371 @@
 const path = require('path');
 const fs = require('fs');
-const { exec } = require('child_process');
-const { promisify } = require('util');
-const execAsync = promisify(exec);
-
-// Model configuration
-const MODELS_DIR = path.join(__dirname, '..', 'models');
-const MODEL_FILES = {
-  tiny: 'ggml-tiny.bin',
-  base: 'ggml-base.bin',
-  small: 'ggml-small.bin',
-  medium: 'ggml-medium.bin',
-  large: 'ggml-large-v3.bin'
-};
+const os = require('os');
+const { spawn } = require('child_process');
+const { cancelledError } = require('./electron-whisper-protocol.cjs');
+const { MODELS_DIR, listModels, getModel } = require('./electron-models.cjs');
+
+// Whisper expects 16 kHz mono float samples
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SAMPLE = 4;
+// Keep only the tail of ffmpeg's log for error messages
+const MAX_STDERR_LENGTH = 8192;
+// Long audio is transcribed in overlapping windows as it is decoded, so progress is
+// measurable and neither the samples nor a single Whisper call cover hours of audio
+const WINDOW_SECONDS = 300;
+const OVERLAP_SECONDS = 10;
+// Overlap de-duplication looks at this many words on each side of a window boundary
+const MAX_OVERLAP_WORDS = 20;
+const MIN_OVERLAP_WORDS = 2;
+// GPU benchmark: a few seconds of synthetic audio, with decoding capped so the encoder,
+// where GPU acceleration makes the difference, dominates the timing
+const BENCHMARK_SECONDS = 10;
+const BENCHMARK_MAX_TOKENS = 32;
+// Worker memory is sampled this often while a benchmark loads and runs the model
+const MEMORY_SAMPLE_MS = 50;
+// Live chunks shorter than this or quieter than the peak level hold no words worth decoding
+const MIN_REALTIME_SAMPLES = SAMPLE_RATE / 2;
+const MIN_REALTIME_PEAK = 0.01;
+const NON_SPEECH_TEXT = /^\s*(\([^)]*\)|\[[^\]]*\])\s*$/;
+// whisper_sampling_strategy values
+const SAMPLING_GREEDY = 0;
+const SAMPLING_BEAM_SEARCH = 1;
+
+/**
+ * Speech-like test signal: a voiced tone with a wandering pitch and harmonics, pulsed at a
+ * syllable rate. It only has to keep Whisper busy, not be intelligible.
+ */
+function syntheticSpeech(seconds) {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const pitch = 140 + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    phase += (2 * Math.PI * pitch) / SAMPLE_RATE;
+    const envelope = Math.max(0, Math.sin(2 * Math.PI * 4 * t));
+    samples[i] = 0.3 * envelope * (Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase));
+  }
+  return samples;
+}
+
+async function taskResult(task) {
+  if (task && typeof task.result === 'function') return task.result();
+  if (task && task.result) return task.result;
+  return task;
+}
+
+function clamp(value, min, max, fallback) {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+/**
+ * Turn a job's decoding settings (DecodingOptions in src/lib/types.ts) into whisper.cpp
+ * parameters. Out-of-range values are clamped and missing ones take whisper.cpp's
+ * defaults. Returns the parameters and the settings actually used, which are reported
+ * back with the result.
+ */
+function decodingParams(decoding = {}, defaultThreads) {
+  const used = {
+    task: decoding.task === 'translate' ? 'translate' : 'transcribe',
+    beam_size: Math.round(clamp(decoding.beam_size, 1, 16, 1)),
+    best_of: Math.round(clamp(decoding.best_of, 1, 10, 5)),
+    temperature: clamp(decoding.temperature, 0, 1, 0),
+    temperature_increment: clamp(decoding.temperature_increment, 0, 1, 0.2),
+    no_speech_threshold: clamp(decoding.no_speech_threshold, 0, 1, 0.6),
+    initial_prompt: typeof decoding.initial_prompt === 'string' ? decoding.initial_prompt.trim() : '',
+    max_segment_length: Math.round(clamp(decoding.max_segment_length, 0, 1000, 0)),
+    split_on_word: Boolean(decoding.split_on_word),
+    threads: Math.round(clamp(decoding.threads, 0, 256, 0)) || defaultThreads
+  };
+
+  const params = {
+    strategy: used.beam_size > 1 ? SAMPLING_BEAM_SEARCH : SAMPLING_GREEDY,
+    beam_size: used.beam_size,
+    best_of: used.best_of,
+    temperature: used.temperature,
+    temperature_inc: used.temperature_increment,
+    no_speech_thold: used.no_speech_threshold,
+    max_len: used.max_segment_length,
+    split_on_word: used.split_on_word,
+    // whisper.cpp only enforces max_len with token-level timestamps
+    ...(used.max_segment_length > 0 ? { token_timestamps: true } : {}),
+    n_threads: used.threads,
+    translate: used.task === 'translate'
+  };
+  return { params, used };
+}
+
+function throwIfCancelled(signal) {
+  if (signal && signal.aborted) {
+    throw cancelledError();
+  }
+}
+
+/**
+ * Parse "Duration: 01:02:03.45" from ffmpeg's log, in seconds
+ */
+function parseFfmpegDuration(log) {
+  const match = log.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Decode any ffmpeg-readable input to 16 kHz mono Float32 PCM, yielding the samples in
+ * chunks as ffmpeg produces them. ffmpeg writes raw f32le samples to stdout, so no
+ * temporary file is written and no WAV header layout is assumed. ffmpeg is only read as
+ * fast as the chunks are consumed, and stopping early kills it.
+ * A Buffer input is piped to ffmpeg's stdin. Aborting `signal` kills ffmpeg.
+ * `onDuration` receives the duration ffmpeg reports for the input, in seconds, when it does.
+ */
+async function* decodePcm(input, { signal, onDuration } = {}) {
+  throwIfCancelled(signal);
+  const fromBuffer = Buffer.isBuffer(input);
+
+  const ffmpeg = spawn('ffmpeg', [
+    '-hide_banner',
+    ...(fromBuffer ? [] : ['-nostdin']),
+    '-i', fromBuffer ? 'pipe:0' : input,
+    '-vn',
+    '-ac', '1',
+    '-ar', String(SAMPLE_RATE),
+    '-f', 'f32le',
+    '-acodec', 'pcm_f32le',
+    'pipe:1'
+  ], { stdio: [fromBuffer ? 'pipe' : 'ignore', 'pipe', 'pipe'] });
+
+  const exited = new Promise((resolve) => {
+    ffmpeg.on('error', (error) => resolve({ error }));
+    ffmpeg.on('close', (code, exitSignal) => resolve({ code, exitSignal }));
+  });
+
+  let stderr = '';
+  let durationReported = false;
+  ffmpeg.stderr.on('data', (chunk) => {
+    stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+    if (!durationReported && onDuration) {
+      const duration = parseFfmpegDuration(stderr);
+      if (duration) {
+        durationReported = true;
+        onDuration(duration);
+      }
+    }
+  });
+
+  const onAbort = () => ffmpeg.kill('SIGKILL');
+  if (signal) {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (fromBuffer) {
+    // ffmpeg may stop reading early on bad input; the exit code reports that case
+    ffmpeg.stdin.on('error', () => {});
+    ffmpeg.stdin.end(input);
+  }
+
+  // Chunks can end mid-sample, so a partial sample is carried over to the next chunk
+  let remainder = null;
+  let decoded = 0;
+  let streamError = null;
+  try {
+    for await (const chunk of ffmpeg.stdout) {
+      const bytes = remainder ? Buffer.concat([remainder, chunk]) : chunk;
+      const whole = Math.floor(bytes.length / BYTES_PER_SAMPLE);
+      const leftover = bytes.length - whole * BYTES_PER_SAMPLE;
+      remainder = leftover > 0 ? Buffer.from(bytes.subarray(bytes.length - leftover)) : null;
+      if (whole === 0) continue;
+
+      const samples = new Float32Array(whole);
+      for (let index = 0; index < whole; index++) {
+        samples[index] = bytes.readFloatLE(index * BYTES_PER_SAMPLE);
+      }
+      decoded += whole;
+      yield samples;
+    }
+  } catch (error) {
+    streamError = error;
+  } finally {
+    if (signal) {
+      signal.removeEventListener('abort', onAbort);
+    }
+    // The consumer stopped early (cancelled or failed); nothing more will be read
+    if (ffmpeg.exitCode === null && ffmpeg.signalCode === null) {
+      ffmpeg.kill('SIGKILL');
+    }
+  }
+
+  const { error, code, exitSignal } = await exited;
+  throwIfCancelled(signal);
+  if (error) {
+    throw conversionError(error.code === 'ENOENT'
+      ? 'FFmpeg not found. Install ffmpeg and make sure it is on your PATH.'
+      : error.message);
+  }
+  if (code !== 0) {
+    const lines = stderr.trim().split('\n').filter(Boolean);
+    const reason = lines.slice(-3).join(' | ') || (exitSignal ? `killed by ${exitSignal}` : 'unknown error');
+    throw conversionError(`ffmpeg exited with code ${code}: ${reason}`);
+  }
+  if (streamError) {
+    throw conversionError(streamError.message);
+  }
+  if (decoded === 0) {
+    throw conversionError('No audio stream found in input');
+  }
+}
+
+function conversionError(reason) {
+  console.error('❌ Audio conversion failed:', reason);
+  return new Error(`Failed to convert audio: ${reason}`);
+}
+
+/**
+ * Group streamed PCM chunks into overlapping windows, yielding `{ start, end, samples }`
+ * with sample offsets into the whole recording. Only one window is held: the buffer is
+ * reused, so a window's samples are valid until the next one is requested, and after each
+ * window only its overlap tail is kept to start the next. Audio no longer than one window
+ * gives a single window.
+ */
+async function* pcmWindows(chunks) {
+  const windowSamples = WINDOW_SECONDS * SAMPLE_RATE;
+  const overlapSamples = OVERLAP_SECONDS * SAMPLE_RATE;
+  const buffer = new Float32Array(windowSamples);
+  let start = 0;
+  let length = 0;
+  // Whether the buffer holds samples that were not part of a yielded window yet
+  let pending = false;
+
+  for await (const chunk of chunks) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const count = Math.min(chunk.length - offset, windowSamples - length);
+      buffer.set(chunk.subarray(offset, offset + count), length);
+      length += count;
+      offset += count;
+      pending = true;
+
+      if (length === windowSamples) {
+        yield { start, end: start + length, samples: buffer };
+        buffer.copyWithin(0, windowSamples - overlapSamples);
+        start += windowSamples - overlapSamples;
+        length = overlapSamples;
+        pending = false;
+      }
+    }
+  }
+
+  if (pending) {
+    yield { start, end: start + length, samples: buffer.subarray(0, length) };
+  }
+}
+
+/**
+ * The first window of a clip, in its own buffer; the rest of the clip is not decoded
+ */
+async function decodeFirstWindow(input) {
+  for await (const window of pcmWindows(decodePcm(input))) {
+    return window.samples.slice();
+  }
+}
+
+function normalizeWord(word) {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Number of leading words of `next` that repeat the trailing words of `previous`
+ */
+function overlappingWordCount(previous, next) {
+  const tail = previous.split(/\s+/).filter(Boolean).slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+  const head = next.split(/\s+/).filter(Boolean).slice(0, MAX_OVERLAP_WORDS).map(normalizeWord);
+
+  for (let count = Math.min(tail.length, head.length); count >= MIN_OVERLAP_WORDS; count--) {
+    const suffix = tail.slice(tail.length - count);
+    if (suffix.every((word, index) => word === head[index])) {
+      return count;
+    }
+  }
+  return 0;
+}
+
+// whisper.cpp's control tokens: [_BEG_], [_TT_150], <|endoftext|> and the like
+const SPECIAL_TOKEN = /^\[_|^<\|/;
+
+/**
+ * Group a detailed segment's tokens into words. A token starting with a space begins a new
+ * word; other tokens (word pieces, punctuation) extend the current one. A word spans its
+ * tokens' times, in ms, and its probability is the mean of theirs.
+ */
+function tokensToWords(tokens) {
+  const words = [];
+  let current = null;
+  for (const token of tokens) {
+    if (!token || typeof token.text !== 'string' || !token.text || SPECIAL_TOKEN.test(token.text)) continue;
+    if (typeof token.from !== 'number' || typeof token.to !== 'number') continue;
+
+    if (!current || /^\s/.test(token.text)) {
+      current = { word: token.text.trim(), from: token.from, to: token.to, probabilities: [token.p] };
+      words.push(current);
+    } else {
+      current.word += token.text;
+      current.to = token.to;
+      current.probabilities.push(token.p);
+    }
+  }
+
+  return words
+    .filter(word => word.word)
+    .map(({ word, from, to, probabilities }) => {
+      const known = probabilities.filter(p => typeof p === 'number');
+      return {
+        word,
+        from,
+        to: Math.max(to, from),
+        p: known.length > 0 ? known.reduce((sum, p) => sum + p, 0) / known.length : null
+      };
+    });
+}
+
+/**
+ * Append a window's segments (already offset to absolute times, in ms) to the stitched result.
+ * Both windows transcribed the overlap; the earlier window owns segments starting before the
+ * middle of the overlap and the later one owns the rest. Words a boundary segment repeats
+ * from the previous window are trimmed.
+ */
+function stitchSegments(stitched, incoming, cutoffMs) {
+  const kept = stitched.filter(segment => segment.from < cutoffMs);
+  const lastEnd = kept.length > 0 ? kept[kept.length - 1].to : 0;
+
+  let first = true;
+  for (const segment of incoming) {
+    if (segment.from < cutoffMs && segment.to <= lastEnd) continue;
+
+    let text = segment.text;
+    let words = segment.words;
+    if (first && kept.length > 0) {
+      const previousText = kept.slice(-3).map(s => s.text).join(' ');
+      const repeated = overlappingWordCount(previousText, text);
+      if (repeated > 0) {
+        text = ' ' + text.trim().split(/\s+/).slice(repeated).join(' ');
+        words = words && words.slice(repeated);
+      }
+    }
+    first = false;
+    if (!text.trim()) continue;
+
+    const from = Math.max(segment.from, lastEnd);
+    const stitchedSegment = { ...segment, text, from, to: Math.max(segment.to, from) };
+    if (words) {
+      stitchedSegment.words = words.map(word => {
+        const wordFrom = Math.max(word.from, from);
+        return { ...word, from: wordFrom, to: Math.max(word.to, wordFrom) };
+      });
+    }
+    kept.push(stitchedSegment);
+  }
+  return kept;
+}
 
 class WhisperService {
   constructor() {
@@ -44,7 +397,11 @@ class WhisperService {
       throw new Error('Whisper service not initialized');
     }
 
-    const modelPath = path.join(MODELS_DIR, MODEL_FILES[modelSize]);
+    const model = getModel(modelSize);
+    if (!model) {
+      throw new Error(`Unknown model: ${modelSize}`);
+    }
+    const modelPath = path.join(MODELS_DIR, model.file);
     
     if (!fs.existsSync(modelPath)) {
       throw new Error(`Model file not found: ${modelPath}`);
@@ -61,13 +418,12 @@ class WhisperService {
         this.whisperInstance = null;
       }
       
-      // Create new whisper instance with the model
+      // Create new whisper instance with the model; threads are set per job
       this.whisperInstance = new this.Whisper(modelPath, {
-        gpu: useGpu, // Enable GPU based on options
-        threads: useGpu ? 4 : 8, // More threads for CPU-only mode
+        gpu: useGpu // Enable GPU based on options
       });
       
-      this.currentModelSize = modelSize;
+      this.currentModelSize = model.id;
       this.currentUseGpu = useGpu;
       console.log(`✅ Model loaded: ${modelSize} (GPU: ${useGpu})`);
       return true;
@@ -77,314 +433,381 @@ class WhisperService {
     }
   }
 
-  async transcribe(audioPath, options = {}) {
+  /**
+   * Transcribe a media file path, or an in-memory recording (Buffer) which is piped to ffmpeg on stdin
+   */
+  async transcribe(input, options = {}) {
     if (!this.whisperInstance) {
       throw new Error('No model loaded. Call loadModel() first.');
     }
 
+    const { initialPrompt, decoding, translate, progressCallback: onProgress, signal, ...whisperOptions } = options;
+    const { params, used } = decodingParams(
+      { ...decoding, ...(translate ? { task: 'translate' } : {}) },
+      this.defaultThreads()
+    );
+    // Domain vocabulary primes the decoder so terms are recognized in the first place
+    const prompt = [used.initial_prompt, initialPrompt].filter(Boolean).join(' ');
     const defaultOptions = {
       language: options.language || 'auto',
-      ...options
+      // Detailed results carry per-segment confidence, the detected language and tokens.
+      // The binding only recognizes 'detail'; any other value gives simple results.
+      format: 'detail',
+      // Token times give the per-word timings
+      token_timestamps: true,
+      ...whisperOptions,
+      ...params,
+      ...(prompt ? { initial_prompt: prompt } : {})
     };
 
-    const progressCallback = options.progressCallback || (() => {});
+    const progressCallback = onProgress || (() => {});
+
+    const fromBuffer = Buffer.isBuffer(input);
+    const label = fromBuffer ? `<buffer ${input.length} bytes>` : input;
 
     try {
-      console.log(`Transcribing: ${audioPath}`);
+      console.log(`Transcribing: ${label}`);
       const startTime = Date.now();
-      
-      // Convert audio/video to PCM WAV format first
-      // Use OS temp directory for temporary files
-      const os = require('os');
-      const tempDir = os.tmpdir();
-      const tempWavPath = path.join(tempDir, `whisper_temp_${Date.now()}.wav`);
-      
-      try {
+
+      if (!fromBuffer) {
         // Check if input file exists (use async for better network support)
         try {
-          await fs.promises.access(audioPath, fs.constants.R_OK);
+          await fs.promises.access(input, fs.constants.R_OK);
         } catch (err) {
-          throw new Error(`Cannot access input file: ${audioPath} - ${err.message}`);
+          throw new Error(`Cannot access input file: ${input} - ${err.message}`);
         }
-        
+
         // Get file stats to verify it's readable and check size
-        const stats = await fs.promises.stat(audioPath);
+        const stats = await fs.promises.stat(input);
         if (!stats.isFile()) {
-          throw new Error(`Path is not a file: ${audioPath}`);
+          throw new Error(`Path is not a file: ${input}`);
         }
-        
+
         const fileSizeGB = stats.size / (1024 * 1024 * 1024);
         const fileSizeMB = stats.size / (1024 * 1024);
         console.log(`File size: ${fileSizeGB > 1 ? fileSizeGB.toFixed(2) + ' GB' : fileSizeMB.toFixed(2) + ' MB'}`);
-        
+
         // Very generous limit - 20GB max (suitable for long videos)
         const maxSizeGB = 20;
         if (fileSizeGB > maxSizeGB) {
           throw new Error(`File too large: ${fileSizeGB.toFixed(2)} GB exceeds maximum of ${maxSizeGB} GB. Consider splitting the video into parts.`);
         }
-        
+
         // Warning for very large files
         if (fileSizeGB > 5) {
           console.warn(`⚠️ Large file detected (${fileSizeGB.toFixed(2)} GB). Transcription may take a while...`);
         }
-        
-        // Use ffmpeg to convert to 16kHz mono PCM WAV
-        console.log(`Converting audio to PCM format...`);
-        console.log(`Input: ${audioPath}`);
-        console.log(`Output: ${tempWavPath}`);
-        
-        progressCallback({
-          stage: 'converting',
-          progress: 30,
-          message: 'Converting audio format...'
-        });
-        
-        // Escape path for shell command (handle spaces and special chars)
-        const escapedInputPath = audioPath.replace(/"/g, '\\"');
-        const escapedOutputPath = tempWavPath.replace(/"/g, '\\"');
-        
-        await execAsync(`ffmpeg -i "${escapedInputPath}" -ar 16000 -ac 1 -f wav "${escapedOutputPath}" -y`);
-        
-        // Read the WAV file (use async for better performance)
-        progressCallback({
-          stage: 'reading',
-          progress: 40,
-          message: 'Reading audio data...'
-        });
-        
-        const wavBuffer = await fs.promises.readFile(tempWavPath);
-        
-        // Extract PCM data from WAV (skip 44-byte header)
-        const pcmData = new Float32Array(wavBuffer.buffer.slice(44).byteLength / 2);
-        const dataView = new DataView(wavBuffer.buffer, 44);
-        
-        progressCallback({
-          stage: 'preparing',
-          progress: 50,
-          message: 'Preparing audio for transcription...'
-        });
-        
-        for (let i = 0; i < pcmData.length; i++) {
-          const sample = dataView.getInt16(i * 2, true);
-          pcmData[i] = sample / 32768.0; // Convert to float32 [-1, 1]
-        }
-        
-        // Transcribe the PCM data
-        console.log('Transcribing PCM data, length:', pcmData.length);
-        
-        progressCallback({
-          stage: 'transcribing',
-          progress: 60,
-          message: 'Transcribing audio with Whisper...'
-        });
-        
-        const task = await this.whisperInstance.transcribe(pcmData, defaultOptions);
-        
-        console.log('Task object:', task);
-        console.log('Task properties:', Object.keys(task || {}));
-        
-        // Wait for the result - handle different possible structures
-        progressCallback({
-          stage: 'processing',
-          progress: 80,
-          message: 'Processing transcription results...'
-        });
-        
-        let result;
-        if (task && typeof task.result === 'function') {
-          result = await task.result();
-        } else if (task && task.result) {
-          result = await task.result;
-        } else {
-          result = task;
-        }
-        
-        console.log('Raw Whisper task result:', result);
-        console.log('Result type:', typeof result);
-        console.log('Result keys:', Object.keys(result || {}));
-        
-        // Clean up temp file
-        if (fs.existsSync(tempWavPath)) {
-          fs.unlinkSync(tempWavPath);
-        }
-        
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`✅ Transcription complete in ${duration}s`);
-        console.log('Whisper result type:', typeof result);
-        console.log('Whisper result:', result);
-        
-        progressCallback({
-          stage: 'finalizing',
-          progress: 95,
-          message: 'Finalizing transcription...'
-        });
-        
-        // Extract text from the result
-        let transcriptionText = '';
-        if (typeof result === 'string') {
-          transcriptionText = result;
-        } else if (result && typeof result === 'object') {
-          if (typeof result.text === 'string') {
-            transcriptionText = result.text;
-          } else if (Array.isArray(result)) {
-            transcriptionText = result.map(s => s.text || s).join(' ');
-          } else if (result.segments && Array.isArray(result.segments)) {
-            transcriptionText = result.segments.map(s => s.text || '').join(' ');
-          }
-        }
-        
-        return {
-          text: transcriptionText,
-          segments: result.segments || [],
-          language: result.language || defaultOptions.language,
-          duration: duration
-        };
-      } catch (ffmpegError) {
-        // Clean up temp file on error
-        if (fs.existsSync(tempWavPath)) {
-          fs.unlinkSync(tempWavPath);
+      }
+
+      progressCallback({
+        stage: 'converting',
+        progress: 30,
+        message: 'Decoding audio...'
+      });
+
+      // Windows are transcribed as ffmpeg decodes them; its reported duration gives the
+      // progress total until the end of the audio is reached
+      let expectedSamples = 0;
+      const chunks = decodePcm(input, {
+        signal,
+        onDuration: (seconds) => { expectedSamples = Math.ceil(seconds * SAMPLE_RATE); }
+      });
+      const { result, totalSamples } = await this.transcribeWindows(
+        pcmWindows(chunks), defaultOptions, progressCallback, signal, () => expectedSamples
+      );
+
+      const duration = (Date.now() - startTime) / 1000;
+      console.log(`✅ Transcription complete in ${duration}s`);
+
+      progressCallback({
+        stage: 'finalizing',
+        progress: 95,
+        message: 'Finalizing transcription...'
+      });
+
+      // Extract text from the result
+      let transcriptionText = '';
+      if (typeof result === 'string') {
+        transcriptionText = result;
+      } else if (result && typeof result === 'object') {
+        if (typeof result.text === 'string') {
+          transcriptionText = result.text;
+        } else if (Array.isArray(result)) {
+          transcriptionText = result.map(s => s.text || s).join(' ');
+        } else if (result.segments && Array.isArray(result.segments)) {
+          transcriptionText = result.segments.map(s => s.text || '').join(' ');
         }
-        
-        console.error('❌ Audio conversion failed:', ffmpegError);
-        throw new Error(`Failed to convert audio: ${ffmpegError.message}`);
       }
+
+      return {
+        text: transcriptionText,
+        segments: this.normalizeSegments(result),
+        language: this.detectedLanguage(result) || defaultOptions.language,
+        // Audio length in seconds, from the decoded sample count; the wall-clock time is reported separately
+        duration: totalSamples / SAMPLE_RATE,
+        processing_time: duration,
+        decoding: used
+      };
     } catch (error) {
-      console.error('❌ Transcription failed:', error);
+      if (error.name === 'AbortError') {
+        console.log(`Transcription cancelled: ${label}`);
+      } else {
+        console.error('❌ Transcription failed:', error);
+      }
       throw error;
     }
   }
 
-  async transcribeRealtime(audioBuffer, options = {}) {
+  /**
+   * Run Whisper over each window of `windows` (see pcmWindows) as it arrives and stitch the
+   * raw segments into one list. Resolves with the segments and the number of samples
+   * transcribed. Progress is the fraction of audio transcribed so far, out of
+   * `expectedSamples()` while the end is not known yet, with an ETA from the throughput
+   * measured on this run. A running Whisper call cannot be interrupted, so cancellation
+   * takes effect when the current window finishes.
+   */
+  async transcribeWindows(windows, whisperOptions, progressCallback, signal, expectedSamples = () => 0) {
+    const startTime = Date.now();
+    let stitched = [];
+    let lastPercent = -1;
+    let index = 0;
+    let totalSamples = 0;
+
+    const report = (processedSeconds, totalSeconds) => {
+      const fraction = totalSeconds > 0 ? Math.min(1, processedSeconds / totalSeconds) : 0;
+      const percent = Math.floor(fraction * 100);
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+
+      const elapsed = (Date.now() - startTime) / 1000;
+      // Audio seconds transcribed per wall-clock second
+      const throughput = processedSeconds > 0 && elapsed > 0 ? processedSeconds / elapsed : 0;
+      const etaSeconds = throughput > 0 ? (totalSeconds - processedSeconds) / throughput : undefined;
+
+      progressCallback({
+        stage: 'transcribing',
+        progress: 40 + Math.round(fraction * 55),
+        message: `Transcribing audio... ${percent}%`,
+        processed_seconds: processedSeconds,
+        total_seconds: totalSeconds,
+        ...(etaSeconds !== undefined ? { eta_seconds: Math.round(etaSeconds) } : {})
+      });
+    };
+
+    for await (const window of windows) {
+      throwIfCancelled(signal);
+      if (index === 1) {
+        console.log(`Transcribing in windows of ${WINDOW_SECONDS}s (${OVERLAP_SECONDS}s overlap)`);
+      }
+      const offsetMs = (window.start / SAMPLE_RATE) * 1000;
+      const totalSeconds = Math.max(expectedSamples(), window.end) / SAMPLE_RATE;
+      report(window.start / SAMPLE_RATE, totalSeconds);
+
+      const task = await this.whisperInstance.transcribe(window.samples, whisperOptions);
+      // Segments arrive as Whisper finishes them, which gives progress within a window
+      if (task && typeof task.on === 'function') {
+        task.on('transcribed', (segment) => {
+          if (segment && typeof segment.to === 'number') {
+            report(Math.min(window.end / SAMPLE_RATE, (offsetMs + segment.to) / 1000), totalSeconds);
+          }
+        });
+      }
+
+      let result = await taskResult(task);
+      // Plain results carry no segment times; the text is given the window's span
+      if (!Array.isArray(result)) {
+        result = typeof result === 'string' ? [{ from: 0, to: (window.end - window.start) / SAMPLE_RATE * 1000, text: result }] : (result && result.segments) || [];
+      }
+
+      throwIfCancelled(signal);
+
+      const segments = result
+        .filter(segment => segment && typeof segment.text === 'string')
+        .map(({ tokens, ...segment }) => ({
+          ...segment,
+          from: (segment.from || 0) + offsetMs,
+          to: (segment.to || 0) + offsetMs,
+          ...(Array.isArray(tokens) ? {
+            words: tokensToWords(tokens).map(word => ({ ...word, from: word.from + offsetMs, to: word.to + offsetMs }))
+          } : {})
+        }));
+      const cutoffMs = offsetMs + (OVERLAP_SECONDS * 1000) / 2;
+      stitched = index === 0 ? segments : stitchSegments(stitched, segments, cutoffMs);
+
+      totalSamples = window.end;
+      index++;
+    }
+
+    report(totalSamples / SAMPLE_RATE, totalSamples / SAMPLE_RATE);
+    return { result: stitched, totalSamples };
+  }
+
+  /**
+   * Convert Whisper output into { start, end, text } segments with times in seconds, plus
+   * per-word timings and probabilities when the tokens had timestamps.
+   * smart-whisper returns an array of { from, to, text } with times in milliseconds.
+   */
+  normalizeSegments(result) {
+    const raw = Array.isArray(result) ? result : (result && Array.isArray(result.segments) ? result.segments : []);
+    return raw
+      .filter(segment => segment && typeof segment.text === 'string')
+      .map(segment => ({
+        start: typeof segment.from === 'number' ? segment.from / 1000 : segment.start || 0,
+        end: typeof segment.to === 'number' ? segment.to / 1000 : segment.end || 0,
+        text: segment.text.trim(),
+        ...(segment.speaker ? { speaker: segment.speaker } : {}),
+        ...(typeof segment.confidence === 'number' ? { confidence: segment.confidence } : {}),
+        ...(Array.isArray(segment.words) && segment.words.length > 0 ? {
+          words: segment.words.map(word => ({
+            word: word.word,
+            start: word.from / 1000,
+            end: word.to / 1000,
+            ...(typeof word.p === 'number' ? { probability: word.p } : {})
+          }))
+        } : {})
+      }));
+  }
+
+  /**
+   * Language reported by Whisper: the most common per-segment language in detailed results
+   */
+  detectedLanguage(result) {
+    if (result && typeof result.language === 'string') return result.language;
+    if (!Array.isArray(result)) return undefined;
+
+    const counts = {};
+    for (const segment of result) {
+      if (segment && segment.lang) counts[segment.lang] = (counts[segment.lang] || 0) + 1;
+    }
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+  }
+
+  /**
+   * Transcribe one chunk of live audio: 16 kHz mono Float32 samples. Chunks too short or
+   * quiet to hold speech return empty text without running Whisper. `initialPrompt`
+   * carries the text spoken before the chunk, so sentences continue across chunks.
+   */
+  async transcribeRealtime(audioBuffer, { language, initialPrompt } = {}) {
     if (!this.whisperInstance) {
       throw new Error('No model loaded. Call loadModel() first.');
     }
 
+    const pcmData = new Float32Array(audioBuffer);
+    const empty = { text: '', segments: [], language: language || 'auto', duration: pcmData.length / SAMPLE_RATE };
+    if (pcmData.length < MIN_REALTIME_SAMPLES) {
+      return empty;
+    }
+
+    let peak = 0;
+    for (let i = 0; i < pcmData.length; i++) {
+      const abs = Math.abs(pcmData[i]);
+      if (abs > peak) peak = abs;
+    }
+    if (peak < MIN_REALTIME_PEAK) {
+      return empty;
+    }
+
+    const task = await this.whisperInstance.transcribe(pcmData, {
+      language: language || 'auto',
+      format: 'detail',
+      temperature: 0,
+      suppress_non_speech_tokens: true,
+      ...(initialPrompt ? { initial_prompt: initialPrompt } : {})
+    });
+    const result = await taskResult(task);
+
+    // Whisper labels non-speech sounds as "(music)", "[BLANK_AUDIO]" and the like
+    const segments = this.normalizeSegments(result).filter(segment => segment.text && !NON_SPEECH_TEXT.test(segment.text));
+    const confidences = segments.map(segment => segment.confidence).filter(confidence => typeof confidence === 'number');
+    return {
+      text: segments.map(segment => segment.text).join(' ').trim(),
+      segments,
+      language: this.detectedLanguage(result) || empty.language,
+      duration: empty.duration,
+      ...(confidences.length > 0 ? { confidence: confidences.reduce((sum, c) => sum + c, 0) / confidences.length } : {})
+    };
+  }
+
+  /**
+   * Time `modelSize` with the GPU on or off. Runs on a separate instance, so the loaded
+   * model is kept. The model load is timed, then a warm-up run and a timed run follow.
+   *
+   * Options: `threads` (whisper.cpp's default when omitted), `audioPath` to time a real
+   * clip (up to one transcription window of it) instead of `audioSeconds` of synthetic
+   * audio, and `maxTokens` to cap decoding (0 for none). Resolves with the load and run times and the worker's peak memory.
+   */
+  async benchmark(modelSize, { useGpu, threads, audioPath, audioSeconds = BENCHMARK_SECONDS, maxTokens = BENCHMARK_MAX_TOKENS } = {}) {
+    if (!this.isInitialized) {
+      throw new Error('Whisper service not initialized');
+    }
+    const model = getModel(modelSize);
+    const modelPath = model && path.join(MODELS_DIR, model.file);
+    if (!modelPath || !fs.existsSync(modelPath)) {
+      throw new Error(`Model not downloaded: ${modelSize}`);
+    }
+
+    const pcm = audioPath ? await decodeFirstWindow(audioPath) : syntheticSpeech(audioSeconds);
+    const options = {
+      language: audioPath ? 'auto' : 'en',
+      format: 'simple',
+      no_context: true,
+      max_tokens: maxTokens,
+      ...(threads ? { n_threads: threads } : {})
+    };
+
+    // Native allocations show up in RSS; sampling catches the peak without a native hook
+    const baselineRss = process.memoryUsage.rss();
+    let peakRss = baselineRss;
+    const sampler = setInterval(() => {
+      peakRss = Math.max(peakRss, process.memoryUsage.rss());
+    }, MEMORY_SAMPLE_MS);
+
+    const instance = new this.Whisper(modelPath, { gpu: useGpu });
     try {
-      // The audioBuffer comes as an ArrayBuffer containing Int16 samples
-      // We need to convert it to Float32Array for Whisper
-      
-      // Create Int16Array view of the buffer
-      const int16Array = new Int16Array(audioBuffer);
-      
-      // Convert Int16 to Float32 [-1.0, 1.0] with normalization
-      const pcmData = new Float32Array(int16Array.length);
-      
-      // First pass: find peak for normalization
-      let peak = 0;
-      for (let i = 0; i < int16Array.length; i++) {
-        const abs = Math.abs(int16Array[i]);
-        if (abs > peak) peak = abs;
-      }
-      
-      // Normalize to prevent clipping but maintain good signal level
-      const normalizer = peak > 30000 ? 30000.0 / peak : 1.0;
-      
-      for (let i = 0; i < int16Array.length; i++) {
-        pcmData[i] = (int16Array[i] * normalizer) / 32768.0;
-      }
-      
-      console.log(`Processing real-time audio: ${pcmData.length} samples`);
-      
-      // Only transcribe if we have enough audio (at least 3 seconds at 16kHz for better context)
-      if (pcmData.length < 48000) {
-        console.log(`Buffering more audio: ${pcmData.length}/48000 samples`);
-        return {
-          text: '',
-          confidence: 0.5,
-          isFinal: false
-        };
-      }
-      
-      // Check audio amplitude to ensure we have actual sound
-      let maxAmplitude = 0;
-      for (let i = 0; i < pcmData.length; i++) {
-        const abs = Math.abs(pcmData[i]);
-        if (abs > maxAmplitude) maxAmplitude = abs;
-      }
-      
-      console.log(`Audio amplitude: max=${maxAmplitude.toFixed(4)}, samples=${pcmData.length}`);
-      
-      // If audio is too quiet, it might be silence
-      if (maxAmplitude < 0.01) {
-        console.log('Audio too quiet, likely silence');
-        return {
-          text: '',
-          confidence: 0.5,
-          isFinal: false
-        };
-      }
-      
-      const task = await this.whisperInstance.transcribe(pcmData, {
-        language: options.language || 'en', // Force English instead of auto
-        task: 'transcribe',
-        temperature: 0.0, // More deterministic results
-        suppress_non_speech_tokens: true, // Try to suppress non-speech tokens
-        ...options
-      });
-      
-      const result = await task.result;
-      
-      console.log('Real-time transcription result:', result);
-      
-      // Extract text from result - handle different formats
-      let transcribedText = '';
-      
-      if (typeof result === 'string') {
-        transcribedText = result;
-      } else if (Array.isArray(result)) {
-        // Result is an array of segments with 'from', 'to', 'text' properties
-        transcribedText = result
-          .map(segment => segment.text || '')
-          .join(' ')
-          .trim();
-      } else if (result && typeof result === 'object') {
-        if (result.text) {
-          transcribedText = result.text;
-        } else if (result.segments && Array.isArray(result.segments)) {
-          transcribedText = result.segments
-            .map(s => s.text || '')
-            .join(' ')
-            .trim();
-        }
-      }
-      
-      // Filter out non-speech sounds in parentheses
-      // These are typically Whisper's way of indicating non-speech audio
-      const nonSpeechPattern = /^\s*\([^)]+\)\s*$/;
-      
-      if (nonSpeechPattern.test(transcribedText)) {
-        console.log('Detected non-speech sound:', transcribedText);
-        // Return empty for non-speech sounds
-        return {
-          text: '',
-          confidence: 0.5,
-          isFinal: false
-        };
-      }
-      
-      console.log('Extracted text:', transcribedText);
-      
+      let start = Date.now();
+      await instance.load();
+      const loadSeconds = (Date.now() - start) / 1000;
+
+      await taskResult(await instance.transcribe(pcm, options));
+      start = Date.now();
+      await taskResult(await instance.transcribe(pcm, options));
+      const seconds = (Date.now() - start) / 1000;
+      peakRss = Math.max(peakRss, process.memoryUsage.rss());
+
       return {
-        text: transcribedText,
-        confidence: 0.9,
-        isFinal: true
+        model: model.id,
+        use_gpu: useGpu,
+        threads: threads || null,
+        audio_seconds: pcm.length / SAMPLE_RATE,
+        load_seconds: loadSeconds,
+        seconds,
+        baseline_rss_bytes: baselineRss,
+        peak_rss_bytes: peakRss
       };
-    } catch (error) {
-      console.error('❌ Realtime transcription failed:', error);
-      throw error;
+    } finally {
+      clearInterval(sampler);
+      await instance.free();
     }
   }
 
+  /**
+   * Threads for a job that does not set a count: fewer with the GPU doing the heavy
+   * lifting, never more than the machine's logical cores
+   */
+  defaultThreads() {
+    return Math.max(1, Math.min(os.cpus().length, this.currentUseGpu ? 4 : 8));
+  }
+
   listAvailableModels() {
     const models = {};
     
-    for (const [size, filename] of Object.entries(MODEL_FILES)) {
-      const modelPath = path.join(MODELS_DIR, filename);
+    for (const model of listModels()) {
+      const modelPath = path.join(MODELS_DIR, model.file);
       const exists = fs.existsSync(modelPath);
       
-      models[size] = {
-        name: size,
-        filename: filename,
+      models[model.id] = {
+        name: model.id,
+        filename: model.file,
         path: modelPath,
         exists: exists,
         size: exists ? fs.statSync(modelPath).size : 0,
@@ -403,15 +826,6 @@ class WhisperService {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
-  async downloadModel(modelSize) {
-    // For now, return instruction since models should be downloaded via CLI
-    return {
-      success: false,
-      message: `Please download the ${modelSize} model using the CLI:\n./target/release/concise-note-taker download --model ${modelSize}`,
-      modelPath: path.join(MODELS_DIR, MODEL_FILES[modelSize])
-    };
-  }
-
   async cleanup() {
     if (this.whisperInstance) {
       try {
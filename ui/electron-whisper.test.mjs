@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const whisperService = require('./electron-whisper.cjs');
+
+const SAMPLE_RATE = 16000;
+
+// Tests stand in a stub model on the shared service; put the real one back after each
+const loadedModel = whisperService.whisperInstance;
+afterEach(() => {
+  whisperService.whisperInstance = loadedModel;
+});
+
+// Segments as smart-whisper's binding returns them: detail fields only when `format` is
+// exactly 'detail', token times only with `token_timestamps`
+const SEGMENTS = [
+  {
+    from: 0,
+    to: 1400,
+    text: ' Hello world.',
+    lang: 'en',
+    confidence: 0.91,
+    tokens: [
+      { text: '[_BEG_]', id: 50364, p: 0.99, from: 0, to: 0 },
+      { text: ' Hello', id: 2425, p: 0.95, from: 0, to: 600 },
+      { text: ' world', id: 1002, p: 0.8, from: 700, to: 1300 },
+      { text: '.', id: 13, p: 0.9, from: 1300, to: 1400 },
+    ],
+  },
+];
+
+function bindingTask(params) {
+  const detail = params.format === 'detail';
+  const segments = SEGMENTS.map(({ lang, confidence, tokens, ...segment }) => detail
+    ? { ...segment, lang, confidence, tokens: tokens.map(({ from, to, ...token }) => params.token_timestamps ? { ...token, from, to } : token) }
+    : segment);
+  const task = new EventEmitter();
+  Object.defineProperty(task, 'result', { get: () => Promise.resolve(segments) });
+  return task;
+}
+
+function withStubModel() {
+  const calls = [];
+  whisperService.whisperInstance = {
+    transcribe: async (pcm, params) => {
+      calls.push(params);
+      return bindingTask(params);
+    },
+  };
+  return calls;
+}
+
+function speech(seconds) {
+  return Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => 0.3 * Math.sin((2 * Math.PI * 140 * i) / SAMPLE_RATE));
+}
+
+async function* windowsOf(samples) {
+  yield { start: 0, end: samples.length, samples };
+}
+
+// Stands in for ffmpeg: reports a duration, then writes a ramp (each sample is its time in
+// seconds) as f32le in chunks that split samples, only as fast as it is read
+const FAKE_FFMPEG = `
+const seconds = Number(process.env.FAKE_FFMPEG_SECONDS);
+if (process.env.FAKE_FFMPEG_FAIL) {
+  process.stderr.write('pipe:0: Invalid data found when processing input\\n');
+  process.exit(1);
+}
+process.stderr.write('  Duration: 00:' + String(Math.floor(seconds / 60)).padStart(2, '0') + ':' + String(seconds % 60).padStart(2, '0') + '.00, start: 0\\n');
+const total = seconds * 16000;
+let written = 0;
+const next = () => {
+  while (written < total) {
+    const count = Math.min(16001, total - written);
+    const samples = new Float32Array(count);
+    for (let i = 0; i < count; i++) samples[i] = (written + i) / 16000;
+    written += count;
+    const bytes = Buffer.from(samples.buffer);
+    process.stdout.write(bytes.subarray(0, 3));
+    if (!process.stdout.write(bytes.subarray(3))) {
+      process.stdout.once('drain', next);
+      return;
+    }
+  }
+};
+next();
+`;
+
+describe('WhisperService streamed decoding', () => {
+  let binDir;
+  let originalPath;
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-ffmpeg-'));
+    fs.writeFileSync(path.join(binDir, 'ffmpeg'), `#!${process.execPath}\n${FAKE_FFMPEG}`, { mode: 0o755 });
+    originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    delete process.env.FAKE_FFMPEG_SECONDS;
+    delete process.env.FAKE_FFMPEG_FAIL;
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  it.skipIf(process.platform === 'win32')('transcribes each window as it is decoded, keeping only one window of samples', async () => {
+    process.env.FAKE_FFMPEG_SECONDS = '600';
+    const windows = [];
+    const buffers = new Set();
+    whisperService.whisperInstance = {
+      transcribe: async (pcm) => {
+        buffers.add(pcm.buffer);
+        windows.push({ seconds: pcm.length / SAMPLE_RATE, first: pcm[0], last: pcm[pcm.length - 1] });
+        const task = new EventEmitter();
+        Object.defineProperty(task, 'result', { get: () => Promise.resolve([{ from: 0, to: 1000, text: ` window ${windows.length}` }]) });
+        return task;
+      },
+    };
+    const progress = [];
+
+    const result = await whisperService.transcribe(Buffer.from('media'), { progressCallback: (update) => progress.push(update) });
+
+    // 300 s windows overlapping by 10 s, each starting with the previous window's tail
+    expect(windows).toEqual([
+      { seconds: 300, first: 0, last: expect.closeTo(300, 2) },
+      { seconds: 300, first: expect.closeTo(290, 2), last: expect.closeTo(590, 2) },
+      { seconds: 20, first: expect.closeTo(580, 2), last: expect.closeTo(600, 2) },
+    ]);
+    expect(buffers.size).toBe(1);
+    expect(result.duration).toBe(600);
+    expect(result.segments.map(segment => segment.start)).toEqual([0, 290, 580]);
+    // The reported duration is the progress total from the first window on
+    expect(progress.filter(update => update.stage === 'transcribing').every(update => update.total_seconds === 600)).toBe(true);
+  });
+
+  it.skipIf(process.platform === 'win32')('reports ffmpeg failures', async () => {
+    process.env.FAKE_FFMPEG_FAIL = '1';
+    withStubModel();
+
+    await expect(whisperService.transcribe(Buffer.from('media'))).rejects.toThrow(
+      'Failed to convert audio: ffmpeg exited with code 1: pipe:0: Invalid data found when processing input'
+    );
+  });
+});
+
+describe('WhisperService detail results', () => {
+  it('passes per-word timings and probabilities through to the segments', async () => {
+    withStubModel();
+    const { result: raw } = await whisperService.transcribeWindows(windowsOf(speech(2)), { format: 'detail', token_timestamps: true }, () => {});
+    const [segment] = whisperService.normalizeSegments(raw);
+
+    expect(segment).toMatchObject({ start: 0, end: 1.4, text: 'Hello world.', confidence: 0.91 });
+    expect(segment.words).toEqual([
+      { word: 'Hello', start: 0, end: 0.6, probability: 0.95 },
+      { word: 'world.', start: 0.7, end: 1.4, probability: expect.closeTo(0.85) },
+    ]);
+    expect(whisperService.detectedLanguage(raw)).toBe('en');
+  });
+
+  it('asks for detail results for live chunks and reports their confidence and language', async () => {
+    const calls = withStubModel();
+    const result = await whisperService.transcribeRealtime(speech(1).buffer);
+
+    expect(calls[0].format).toBe('detail');
+    expect(result).toMatchObject({ text: 'Hello world.', language: 'en', confidence: 0.91 });
+  });
+});
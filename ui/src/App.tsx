@@ -12,6 +12,10 @@ import ModelsPage from './pages/ModelsPage';
 import ErrorBoundary from './components/ErrorBoundary';
 import PageErrorBoundary from './components/PageErrorBoundary';
 import { configApi } from './lib/api';
+import { modelRegistry } from './lib/modelRegistry';
+import { hardwareProfile } from './lib/hardware';
+import { DEFAULT_OLLAMA_CONFIG } from './lib/ollama';
+import electronService from './services/electronService';
 import type { AppConfig } from './lib/types';
 import { useGlobalKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 
@@ -40,13 +44,25 @@ function App() {
 
   const loadConfig = async () => {
     try {
-      const appConfig = await configApi.getConfig();
+      // Imported models first, so a default that names one resolves on every page; hardware
+      // too, so GPU toggles start out in the right state
+      const [appConfig] = await Promise.all([
+        configApi.getConfig(),
+        modelRegistry.loadCustomModels(),
+        hardwareProfile.load(),
+      ]);
       setConfig(appConfig);
+      syncOllamaBaseUrl(appConfig);
     } catch (error) {
       console.error('Failed to load configuration:', error);
     }
   };
 
+  // Desktop Ollama requests are only sent to the server named in the settings
+  const syncOllamaBaseUrl = (appConfig: AppConfig) => {
+    electronService.setOllamaBaseUrl(appConfig.post_processing.ollama?.base_url || DEFAULT_OLLAMA_CONFIG.base_url);
+  };
+
   const toggleDarkMode = () => {
     const newDarkMode = !darkMode;
     setDarkMode(newDarkMode);
@@ -63,6 +79,7 @@ function App() {
     try {
       await configApi.setConfig(newConfig);
       setConfig(newConfig);
+      syncOllamaBaseUrl(newConfig);
     } catch (error) {
       console.error('Failed to update configuration:', error);
       throw error;
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  FolderOpenIcon,
+  PlayIcon,
+  StopIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { BenchmarkReport, BenchmarkRun, ModelDefinition } from '../lib/types';
+import type { BenchmarkProgress } from '../types/electron';
+import { downloadFile, formatFileSize } from '../lib/utils';
+import { hardwareProfile } from '../lib/hardware';
+import electronService from '../services/electronService';
+
+interface BenchmarkRunnerProps {
+  // Models that are downloaded and can be benchmarked
+  models: ModelDefinition[];
+}
+
+// 0 stands for whisper.cpp's own choice
+const AUTO_THREADS = 0;
+
+const threadLabel = (threads: number | null) => (threads ? `${threads} threads` : 'auto threads');
+
+const runLabel = (modelName: string, useGpu: boolean, threads: number | null) =>
+  `${modelName} · ${useGpu ? 'GPU' : 'CPU'} · ${threadLabel(threads)}`;
+
+/**
+ * Thread counts worth trying on this machine: powers of two up to the core count, and the
+ * core count itself
+ */
+function threadChoices(cores: number): number[] {
+  const choices = [AUTO_THREADS];
+  for (let threads = 1; threads < cores; threads *= 2) {
+    choices.push(threads);
+  }
+  if (cores > 0) choices.push(cores);
+  return choices;
+}
+
+/**
+ * Time models across thread counts and CPU/GPU on a fixed sample, reporting real-time
+ * factor, load time and peak memory. Reports are saved as JSON to track regressions.
+ */
+function BenchmarkRunner({ models }: BenchmarkRunnerProps) {
+  const [hardware, setHardware] = useState(() => hardwareProfile.get());
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [selectedThreads, setSelectedThreads] = useState<number[]>([AUTO_THREADS]);
+  const [devices, setDevices] = useState({ cpu: true, gpu: false });
+  const [sampleSeconds, setSampleSeconds] = useState(30);
+  const [clipPath, setClipPath] = useState<string | null>(null);
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+
+  const gpuAvailable = (hardware?.gpu_backends.length ?? 0) > 0 || !hardware?.whisper.binding;
+  const clipName = clipPath ? clipPath.split(/[\\/]/).pop() || clipPath : null;
+  const modelName = (id: string) => models.find(model => model.id === id)?.name || id;
+  const plannedRuns = selectedModels.length
+    * Math.max(selectedThreads.length, 1)
+    * ((devices.cpu ? 1 : 0) + (devices.gpu && gpuAvailable ? 1 : 0));
+
+  useEffect(() => hardwareProfile.subscribe(() => setHardware(hardwareProfile.get())), []);
+
+  useEffect(() => {
+    const unsubscribe = electronService.onBenchmarkProgress((update) => {
+      setProgress(update);
+      const result = update.result;
+      if (result) {
+        setRuns(prev => [...prev, result]);
+      }
+    });
+    return () => {
+      if (unsubscribe) unsubscribe();
+    };
+  }, []);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleChooseClip = async () => {
+    const filePath = await electronService.selectFile();
+    if (filePath) {
+      setClipPath(filePath);
+    }
+  };
+
+  const handleRun = async () => {
+    if (plannedRuns === 0) return;
+    setRuns([]);
+    setReport(null);
+    setError(null);
+    setIsStopping(false);
+    setIsRunning(true);
+
+    const gpu = [...(devices.cpu ? [false] : []), ...(devices.gpu && gpuAvailable ? [true] : [])];
+    const response = await electronService.runBenchmark({
+      models: selectedModels,
+      threads: [...selectedThreads].sort((a, b) => a - b),
+      gpu,
+      ...(clipPath ? { audioPath: clipPath } : { audioSeconds: sampleSeconds }),
+    });
+    if (response?.success && response.report) {
+      setReport(response.report);
+      setRuns(response.report.runs);
+    } else {
+      setError(response?.error || 'Benchmark failed');
+    }
+
+    setProgress(null);
+    setIsRunning(false);
+    setIsStopping(false);
+  };
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    await electronService.cancelBenchmark();
+  };
+
+  const handleSaveReport = () => {
+    if (!report) return;
+    const stamp = report.created_at.slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(JSON.stringify(report, null, 2), `whisper-benchmark-${stamp}.json`, 'application/json');
+  };
+
+  if (!electronService.isElectron) {
+    return (
+      <div className="card">
+        <div className="card-body text-gray-600 dark:text-gray-400">
+          Benchmarks run Whisper locally and are only available in the desktop app.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Setup */}
+      <div className="card">
+        <div className="card-body space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Models</label>
+            {models.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">Download at least one model to benchmark.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {models.map(model => (
+                  <label key={model.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      className="form-checkbox"
+                      checked={selectedModels.includes(model.id)}
+                      onChange={() => setSelectedModels(prev => toggle(prev, model.id))}
+                      disabled={isRunning}
+                    />
+                    <span>{model.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Threads</label>
+            <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+              {threadChoices(hardware?.cpu.cores ?? navigator.hardwareConcurrency ?? 0).map(threads => (
+                <label key={threads} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox"
+                    checked={selectedThreads.includes(threads)}
+                    onChange={() => setSelectedThreads(prev => toggle(prev, threads))}
+                    disabled={isRunning}
+                  />
+                  <span>{threads === AUTO_THREADS ? 'Auto' : threads}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Run On</label>
+            <div className="flex space-x-6 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="form-checkbox"
+                  checked={devices.cpu}
+                  onChange={(e) => setDevices({ ...devices, cpu: e.target.checked })}
+                  disabled={isRunning}
+                />
+                <span>CPU</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="form-checkbox"
+                  checked={devices.gpu && gpuAvailable}
+                  onChange={(e) => setDevices({ ...devices, gpu: e.target.checked })}
+                  disabled={isRunning || !gpuAvailable}
+                />
+                <span>GPU{!gpuAvailable && ' (this Whisper build has no GPU backend)'}</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Sample</label>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+              {clipName ? (
+                <>
+                  <span className="break-all">{clipName}</span>
+                  <button onClick={() => setClipPath(null)} className="btn-outline text-sm" disabled={isRunning}>
+                    <XMarkIcon className="w-4 h-4 mr-1" />
+                    Use Synthetic Audio
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span>Synthetic audio,</span>
+                  <input
+                    type="number"
+                    min="5"
+                    max="600"
+                    value={sampleSeconds}
+                    onChange={(e) => setSampleSeconds(Math.min(600, Math.max(5, parseInt(e.target.value) || 30)))}
+                    className="form-input w-24"
+                    disabled={isRunning}
+                  />
+                  <span>seconds</span>
+                  <button onClick={handleChooseClip} className="btn-outline text-sm" disabled={isRunning}>
+                    <FolderOpenIcon className="w-4 h-4 mr-1" />
+                    Use a Clip
+                  </button>
+                </>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Use the same sample every time so reports from different machines and app versions can be compared.
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            {isRunning ? (
+              <button onClick={handleStop} className="btn-danger" disabled={isStopping}>
+                <StopIcon className="w-4 h-4 mr-1" />
+                {isStopping ? 'Stopping after this run...' : 'Stop'}
+              </button>
+            ) : (
+              <button onClick={handleRun} className="btn-primary" disabled={plannedRuns === 0}>
+                <PlayIcon className="w-4 h-4 mr-1" />
+                Run Benchmark {plannedRuns > 0 ? `(${plannedRuns} runs)` : ''}
+              </button>
+            )}
+            {report && !isRunning && (
+              <button onClick={handleSaveReport} className="btn-outline">
+                <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                Export JSON
+              </button>
+            )}
+          </div>
+
+          {progress && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Run {progress.index + 1} of {progress.total}:{' '}
+              {runLabel(modelName(progress.run.model), progress.run.useGpu, progress.run.threads)}
+              {progress.result ? ' (done)' : '...'}
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      </div>
+
+      {/* Results */}
+      {runs.length > 0 && (
+        <div className="card">
+          <div className="card-body overflow-x-auto">
+            {report?.cancelled && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mb-2">Stopped before every configuration ran.</p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4">Run</th>
+                  <th className="py-2 pr-4">Load</th>
+                  <th className="py-2 pr-4">Transcribe</th>
+                  <th className="py-2 pr-4" title="Processing time divided by audio length; lower is faster">RTF</th>
+                  <th className="py-2 pr-4" title="Resident memory of the inference process; GPU memory is not included">Peak Memory</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {runs.map((run, index) => (
+                  <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-4">
+                      {runLabel(modelName(run.model), run.use_gpu, run.threads)}
+                      {run.status === 'failed' && (
+                        <span className="ml-2 text-red-600 dark:text-red-400" title={run.error}>(failed)</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{run.load_seconds !== undefined ? `${run.load_seconds.toFixed(2)}s` : '—'}</td>
+                    <td className="py-2 pr-4">{run.transcribe_seconds !== undefined ? `${run.transcribe_seconds.toFixed(2)}s` : '—'}</td>
+                    <td className="py-2 pr-4">{run.real_time_factor != null ? run.real_time_factor.toFixed(3) : '—'}</td>
+                    <td className="py-2 pr-4" title={run.model_rss_bytes ? `${formatFileSize(run.model_rss_bytes)} for the model` : undefined}>
+                      {run.peak_rss_bytes ? formatFileSize(run.peak_rss_bytes) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BenchmarkRunner;
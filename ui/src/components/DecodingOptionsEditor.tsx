@@ -0,0 +1,187 @@
+import type { DecodingOptions } from '../lib/types';
+
+interface DecodingOptionsEditorProps {
+  value: DecodingOptions;
+  onChange: (value: DecodingOptions) => void;
+  disabled?: boolean;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ id, label, hint, value, min, max, step, disabled, onChange }: NumberFieldProps) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          onChange(Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : min);
+        }}
+        className="form-input"
+      />
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>
+    </div>
+  );
+}
+
+/**
+ * Whisper decoding settings: task, search strategy, temperature fallback, no-speech
+ * threshold, prompt, segment length and threads
+ */
+function DecodingOptionsEditor({ value, onChange, disabled }: DecodingOptionsEditorProps) {
+  const update = <K extends keyof DecodingOptions>(key: K, fieldValue: DecodingOptions[K]) =>
+    onChange({ ...value, [key]: fieldValue });
+  const idPrefix = 'decoding';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor={`${idPrefix}-task`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Task
+        </label>
+        <select
+          id={`${idPrefix}-task`}
+          value={value.task}
+          disabled={disabled}
+          onChange={(e) => update('task', e.target.value as DecodingOptions['task'])}
+          className="form-select"
+        >
+          <option value="transcribe">Transcribe (keep the spoken language)</option>
+          <option value="translate">Translate to English</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <NumberField
+          id={`${idPrefix}-beam-size`}
+          label="Beam Size"
+          hint="1 decodes greedily; 5 is slower but often more accurate"
+          value={value.beam_size}
+          min={1}
+          max={16}
+          step={1}
+          disabled={disabled}
+          onChange={(v) => update('beam_size', Math.round(v))}
+        />
+        <NumberField
+          id={`${idPrefix}-best-of`}
+          label="Best Of"
+          hint="Candidates per window when decoding greedily with fallback"
+          value={value.best_of}
+          min={1}
+          max={10}
+          step={1}
+          disabled={disabled || value.beam_size > 1}
+          onChange={(v) => update('best_of', Math.round(v))}
+        />
+        <NumberField
+          id={`${idPrefix}-temperature`}
+          label="Temperature"
+          hint="0 always picks the most likely text"
+          value={value.temperature}
+          min={0}
+          max={1}
+          step={0.1}
+          disabled={disabled}
+          onChange={(v) => update('temperature', v)}
+        />
+        <NumberField
+          id={`${idPrefix}-temperature-increment`}
+          label="Temperature Fallback Step"
+          hint="Retry garbled or repetitive windows at a higher temperature; 0 turns it off"
+          value={value.temperature_increment}
+          min={0}
+          max={1}
+          step={0.1}
+          disabled={disabled}
+          onChange={(v) => update('temperature_increment', v)}
+        />
+        <NumberField
+          id={`${idPrefix}-no-speech`}
+          label="No-Speech Threshold"
+          hint="Higher values skip more windows as silence"
+          value={value.no_speech_threshold}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(v) => update('no_speech_threshold', v)}
+        />
+        <NumberField
+          id={`${idPrefix}-threads`}
+          label="Threads"
+          hint="0 picks a count for this computer"
+          value={value.threads}
+          min={0}
+          max={256}
+          step={1}
+          disabled={disabled}
+          onChange={(v) => update('threads', Math.round(v))}
+        />
+        <NumberField
+          id={`${idPrefix}-max-length`}
+          label="Max Segment Length"
+          hint="Characters per segment; 0 for no limit"
+          value={value.max_segment_length}
+          min={0}
+          max={1000}
+          step={1}
+          disabled={disabled}
+          onChange={(v) => update('max_segment_length', Math.round(v))}
+        />
+        <div className="flex items-center space-x-3 md:pt-7">
+          <input
+            type="checkbox"
+            id={`${idPrefix}-split-on-word`}
+            checked={value.split_on_word}
+            disabled={disabled || value.max_segment_length === 0}
+            onChange={(e) => update('split_on_word', e.target.checked)}
+            className="form-checkbox"
+          />
+          <label htmlFor={`${idPrefix}-split-on-word`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Split segments between words
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-prompt`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Initial Prompt
+        </label>
+        <textarea
+          id={`${idPrefix}-prompt`}
+          rows={2}
+          value={value.initial_prompt}
+          disabled={disabled}
+          onChange={(e) => update('initial_prompt', e.target.value)}
+          placeholder="e.g. Weekly sync with Priya and Tomasz about the Q3 roadmap."
+          className="form-input"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Primes the decoder with names, terms or the expected style. Vocabulary glossary terms are added after it.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default DecodingOptionsEditor;
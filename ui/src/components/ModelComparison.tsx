@@ -0,0 +1,429 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import {
+  ArrowDownTrayIcon,
+  DocumentTextIcon,
+  FolderOpenIcon,
+  PlayIcon,
+  StopIcon,
+} from '@heroicons/react/24/outline';
+import type { ComparisonReport, ComparisonRun, ErrorRateScore, ModelDefinition } from '../lib/types';
+import { characterErrorRate, diffWords, wordErrorRate, type WordDiffOp } from '../lib/scoring';
+import { downloadFile, formatDuration, generateJobId } from '../lib/utils';
+import electronService from '../services/electronService';
+
+const REPORT_VERSION = 1;
+
+interface ModelComparisonProps {
+  // Models that are downloaded and can be compared
+  models: ModelDefinition[];
+}
+
+interface CurrentRun {
+  index: number;
+  total: number;
+  label: string;
+  progress: number;
+}
+
+const runLabel = (modelName: string, useGpu: boolean) => `${modelName} · ${useGpu ? 'GPU' : 'CPU'}`;
+
+const formatRate = (score?: ErrorRateScore) => (score ? `${(score.rate * 100).toFixed(1)}%` : '—');
+
+const scoreDetails = (score?: ErrorRateScore) =>
+  score
+    ? `${score.substitutions} substituted, ${score.deletions} deleted, ${score.insertions} inserted of ${score.reference_length}`
+    : undefined;
+
+function DiffText({ ops }: { ops: WordDiffOp[] }) {
+  return (
+    <p className="text-sm leading-relaxed text-gray-800 dark:text-gray-200">
+      {ops.map((op, index) => {
+        switch (op.type) {
+          case 'equal':
+            return <span key={index}>{op.hypothesis} </span>;
+          case 'substitute':
+            return (
+              <span key={index} className="bg-yellow-100 dark:bg-yellow-900/40 rounded" title={`Baseline: ${op.reference}`}>
+                {op.hypothesis}{' '}
+              </span>
+            );
+          case 'insert':
+            return (
+              <span key={index} className="bg-green-100 dark:bg-green-900/40 rounded" title="Not in baseline">
+                {op.hypothesis}{' '}
+              </span>
+            );
+          case 'delete':
+            return (
+              <span key={index} className="text-red-600 dark:text-red-400 line-through" title="Missing from this run">
+                {op.reference}{' '}
+              </span>
+            );
+        }
+      })}
+    </p>
+  );
+}
+
+/**
+ * Run one clip through several models and CPU/GPU settings, then compare the transcripts
+ * side by side and, given a reference transcript, score them by WER and CER.
+ */
+function ModelComparison({ models }: ModelComparisonProps) {
+  const [clipPath, setClipPath] = useState<string | null>(null);
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [devices, setDevices] = useState({ cpu: true, gpu: false });
+  const [reference, setReference] = useState('');
+  const [runs, setRuns] = useState<ComparisonRun[]>([]);
+  const [currentRun, setCurrentRun] = useState<CurrentRun | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const activeJobId = useRef<string | null>(null);
+  const stopRequested = useRef(false);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  const isRunning = currentRun !== null;
+  const clipName = clipPath ? clipPath.split(/[\\/]/).pop() || clipPath : null;
+  const referenceText = reference.trim();
+
+  useEffect(() => {
+    const unsubscribe = electronService.onProgress((progress) => {
+      if (progress.job_id && progress.job_id === activeJobId.current) {
+        setCurrentRun(prev => (prev ? { ...prev, progress: progress.progress ?? prev.progress } : prev));
+      }
+    });
+    return () => {
+      if (unsubscribe) unsubscribe();
+    };
+  }, []);
+
+  // Scored against the current reference, so editing it rescores finished runs
+  const scoredRuns = useMemo(() => runs.map(run =>
+    run.status === 'completed' && referenceText
+      ? { ...run, wer: wordErrorRate(referenceText, run.text), cer: characterErrorRate(referenceText, run.text) }
+      : run
+  ), [runs, referenceText]);
+
+  // Diffs are against the reference, or the first finished run without one
+  const baseline = referenceText || runs.find(run => run.status === 'completed')?.text || '';
+  const baselineRun = referenceText ? null : runs.find(run => run.status === 'completed') || null;
+  const diffs = useMemo(
+    () => runs.map(run => (run.status === 'completed' && run !== baselineRun ? diffWords(baseline, run.text) : null)),
+    [runs, baseline, baselineRun]
+  );
+
+  const plannedRuns = selectedModels.flatMap(id => {
+    const model = models.find(m => m.id === id);
+    if (!model) return [];
+    return [
+      ...(devices.cpu ? [{ model, useGpu: false }] : []),
+      ...(devices.gpu ? [{ model, useGpu: true }] : []),
+    ];
+  });
+
+  const toggleModel = (id: string) => {
+    setSelectedModels(prev => (prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]));
+  };
+
+  const handleChooseClip = async () => {
+    const filePath = await electronService.selectFile();
+    if (filePath) {
+      setClipPath(filePath);
+      setRuns([]);
+    }
+  };
+
+  const handleLoadReference = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setReference(await file.text());
+    }
+    event.target.value = '';
+  };
+
+  const handleRun = async () => {
+    if (!clipPath || plannedRuns.length === 0) return;
+    stopRequested.current = false;
+    setIsStopping(false);
+    setRuns([]);
+
+    const finished: ComparisonRun[] = [];
+    for (const [index, { model, useGpu }] of plannedRuns.entries()) {
+      if (stopRequested.current) break;
+      const jobId = generateJobId();
+      activeJobId.current = jobId;
+      setCurrentRun({ index, total: plannedRuns.length, label: runLabel(model.name, useGpu), progress: 0 });
+
+      const started = performance.now();
+      const result = await electronService.transcribeFile(clipPath, {
+        modelSize: model.id,
+        useGpu,
+        language: 'auto',
+        jobId,
+      });
+      const status = result?.success ? 'completed' : result?.status === 'cancelled' ? 'cancelled' : 'failed';
+      finished.push({
+        model: model.id,
+        model_name: model.name,
+        use_gpu: useGpu,
+        status,
+        text: result?.text?.trim() || '',
+        wall_clock_seconds: (performance.now() - started) / 1000,
+        processing_seconds: result?.processing_time,
+        audio_seconds: result?.duration,
+        ...(status === 'failed' ? { error: result?.error || 'Transcription failed' } : {}),
+      });
+      setRuns([...finished]);
+    }
+
+    activeJobId.current = null;
+    setCurrentRun(null);
+    setIsStopping(false);
+  };
+
+  const handleStop = async () => {
+    stopRequested.current = true;
+    setIsStopping(true);
+    if (activeJobId.current) {
+      await electronService.cancelTranscription(activeJobId.current);
+    }
+  };
+
+  const handleSaveReport = () => {
+    if (!clipPath || !clipName) return;
+    const report: ComparisonReport = {
+      type: 'model-comparison',
+      version: REPORT_VERSION,
+      created_at: new Date().toISOString(),
+      clip: { filename: clipName, path: clipPath },
+      audio_seconds: runs.find(run => run.audio_seconds)?.audio_seconds,
+      ...(referenceText ? { reference: referenceText } : {}),
+      runs: scoredRuns,
+    };
+    const stamp = report.created_at.slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(JSON.stringify(report, null, 2), `model-comparison-${stamp}.json`, 'application/json');
+  };
+
+  if (!electronService.isElectron) {
+    return (
+      <div className="card">
+        <div className="card-body text-gray-600 dark:text-gray-400">
+          Model comparison runs transcriptions locally and is only available in the desktop app.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Setup */}
+      <div className="card">
+        <div className="card-body space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Clip</label>
+            <div className="flex items-center space-x-3">
+              <button onClick={handleChooseClip} className="btn-outline" disabled={isRunning}>
+                <FolderOpenIcon className="w-4 h-4 mr-1" />
+                Choose File
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                {clipName || 'A short, representative clip keeps comparisons quick'}
+              </span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Models</label>
+            {models.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">Download at least one model to compare.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {models.map(model => (
+                  <label key={model.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      className="form-checkbox"
+                      checked={selectedModels.includes(model.id)}
+                      onChange={() => toggleModel(model.id)}
+                      disabled={isRunning}
+                    />
+                    <span>{model.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Run On</label>
+            <div className="flex space-x-6 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="form-checkbox"
+                  checked={devices.cpu}
+                  onChange={(e) => setDevices({ ...devices, cpu: e.target.checked })}
+                  disabled={isRunning}
+                />
+                <span>CPU</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="form-checkbox"
+                  checked={devices.gpu}
+                  onChange={(e) => setDevices({ ...devices, gpu: e.target.checked })}
+                  disabled={isRunning}
+                />
+                <span>GPU</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Reference Transcript (optional, enables WER/CER)
+              </label>
+              <button onClick={() => referenceInputRef.current?.click()} className="btn-outline text-sm">
+                <DocumentTextIcon className="w-4 h-4 mr-1" />
+                Load .txt
+              </button>
+              <input
+                ref={referenceInputRef}
+                type="file"
+                accept=".txt,text/plain"
+                className="hidden"
+                onChange={handleLoadReference}
+              />
+            </div>
+            <textarea
+              className="form-input"
+              rows={4}
+              placeholder="Paste a verified transcript of the clip"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            {isRunning ? (
+              <button onClick={handleStop} className="btn-danger" disabled={isStopping}>
+                <StopIcon className="w-4 h-4 mr-1" />
+                {isStopping ? 'Stopping...' : 'Stop'}
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                className="btn-primary"
+                disabled={!clipPath || plannedRuns.length === 0}
+              >
+                <PlayIcon className="w-4 h-4 mr-1" />
+                Compare {plannedRuns.length > 0 ? `(${plannedRuns.length} runs)` : ''}
+              </button>
+            )}
+            {runs.length > 0 && !isRunning && (
+              <button onClick={handleSaveReport} className="btn-outline">
+                <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                Save Report
+              </button>
+            )}
+          </div>
+
+          {currentRun && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                <span>Run {currentRun.index + 1} of {currentRun.total}: {currentRun.label}</span>
+                <span>{currentRun.progress.toFixed(0)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                <div
+                  className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${currentRun.progress}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      {scoredRuns.length > 0 && (
+        <div className="card">
+          <div className="card-body overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4">Run</th>
+                  <th className="py-2 pr-4">Wall Clock</th>
+                  <th className="py-2 pr-4">Speed</th>
+                  <th className="py-2 pr-4">WER</th>
+                  <th className="py-2 pr-4">CER</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {scoredRuns.map((run, index) => (
+                  <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-4">
+                      {runLabel(run.model_name, run.use_gpu)}
+                      {run.status !== 'completed' && (
+                        <span className="ml-2 text-red-600 dark:text-red-400" title={run.error}>
+                          ({run.status})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{formatDuration(run.wall_clock_seconds)}</td>
+                    <td className="py-2 pr-4">
+                      {run.audio_seconds && run.wall_clock_seconds > 0
+                        ? `${(run.audio_seconds / run.wall_clock_seconds).toFixed(1)}x realtime`
+                        : '—'}
+                    </td>
+                    <td className="py-2 pr-4" title={scoreDetails(run.wer)}>{formatRate(run.wer)}</td>
+                    <td className="py-2 pr-4" title={scoreDetails(run.cer)}>{formatRate(run.cer)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Side-by-side transcripts */}
+      {runs.length > 0 && (
+        <div className="flex space-x-4 overflow-x-auto pb-2">
+          {referenceText && (
+            <div className="card w-80 flex-shrink-0">
+              <div className="card-body">
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Reference</h3>
+                <p className="text-sm leading-relaxed text-gray-800 dark:text-gray-200">{referenceText}</p>
+              </div>
+            </div>
+          )}
+          {runs.map((run, index) => {
+            const ops = diffs[index];
+            return (
+              <div key={index} className="card w-80 flex-shrink-0">
+                <div className="card-body">
+                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2">
+                    {runLabel(run.model_name, run.use_gpu)}
+                    {run === baselineRun && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">(baseline)</span>
+                    )}
+                  </h3>
+                  {run.status !== 'completed' ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">{run.error || 'Cancelled'}</p>
+                  ) : ops ? (
+                    <DiffText ops={ops} />
+                  ) : (
+                    <p className="text-sm leading-relaxed text-gray-800 dark:text-gray-200">{run.text}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ModelComparison;
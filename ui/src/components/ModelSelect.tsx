@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import type { ModelDefinition, ModelId } from '../lib/types';
+import { modelRegistry } from '../lib/modelRegistry';
+
+interface ModelSelectProps {
+  value: ModelId;
+  onChange: (modelId: ModelId) => void;
+  // Limit the choices, e.g. to models fast enough for live transcription
+  filter?: (model: ModelDefinition) => boolean;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Model picker listing the registry, grouped by size class, with imported models last
+ */
+function ModelSelect({ value, onChange, filter, className = 'form-select', disabled }: ModelSelectProps) {
+  const [allModels, setAllModels] = useState(() => modelRegistry.list());
+
+  useEffect(() => modelRegistry.subscribe(() => setAllModels(modelRegistry.list())), []);
+
+  const models = allModels.filter(model => !filter || filter(model));
+  const imported = models.filter(model => model.custom);
+
+  return (
+    <select
+      className={className}
+      value={modelRegistry.resolveId(value)}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    >
+      {modelRegistry.families().map(family => {
+        const options = models.filter(model => !model.custom && model.family === family);
+        if (options.length === 0) return null;
+        return (
+          <optgroup key={family} label={family.charAt(0).toUpperCase() + family.slice(1)}>
+            {options.map(model => (
+              <option key={model.id} value={model.id}>
+                {modelRegistry.optionLabel(model)}
+              </option>
+            ))}
+          </optgroup>
+        );
+      })}
+      {imported.length > 0 && (
+        <optgroup label="Imported">
+          {imported.map(model => (
+            <option key={model.id} value={model.id}>
+              {modelRegistry.optionLabel(model)}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
+
+export default ModelSelect;
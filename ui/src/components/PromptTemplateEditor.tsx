@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  DocumentDuplicateIcon,
+  PlusIcon,
+  TrashIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  PlayIcon,
+  ChatBubbleBottomCenterTextIcon,
+} from '@heroicons/react/24/outline';
+import type { BuiltinSummaryFormat, PostProcessingConfig, PromptTemplate, SummaryFormat } from '../lib/types';
+import {
+  promptTemplateStore,
+  TEMPLATE_VARIABLES,
+  SAMPLE_TRANSCRIPT,
+  SAMPLE_VARIABLES,
+} from '../lib/promptTemplates';
+import { postProcessingEngine } from '../lib/postProcessing';
+import { handleError } from '../lib/errorHandler';
+import { downloadFile } from '../lib/utils';
+
+interface PromptTemplateEditorProps {
+  postProcessing: PostProcessingConfig;
+}
+
+const FALLBACK_FORMATS: Array<{ value: BuiltinSummaryFormat; label: string }> = [
+  { value: 'paragraphs', label: 'Paragraphs' },
+  { value: 'bullets', label: 'Bullet Points' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'key_points', label: 'Key Points' },
+  { value: 'outline', label: 'Outline' },
+];
+
+/**
+ * Edit the prompt templates used for each summary format.
+ * Templates are stored locally and take effect immediately, independent of the app config.
+ */
+function PromptTemplateEditor({ postProcessing }: PromptTemplateEditorProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptTemplateStore.list());
+  const [selectedId, setSelectedId] = useState<SummaryFormat>(postProcessing.summarization.format);
+  const [draft, setDraft] = useState<PromptTemplate>(() => promptTemplateStore.get(postProcessing.summarization.format));
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => promptTemplateStore.subscribe(() => setTemplates(promptTemplateStore.list())), []);
+
+  const saved = templates.find(t => t.id === selectedId);
+  const isDirty = !!saved && (saved.name !== draft.name || saved.prompt !== draft.prompt ||
+    saved.description !== draft.description || saved.fallback_format !== draft.fallback_format);
+  const unknownVariables = promptTemplateStore.unknownVariables(draft);
+  const renderedPrompt = promptTemplateStore.render(draft, {
+    ...SAMPLE_VARIABLES,
+    max_length: String(postProcessing.summarization.max_length),
+    transcript: SAMPLE_TRANSCRIPT,
+  });
+
+  const selectTemplate = (id: SummaryFormat) => {
+    setSelectedId(id);
+    setDraft(promptTemplateStore.get(id));
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const runAction = (action: () => string | void) => {
+    try {
+      const text = action();
+      setMessage(text ? { type: 'success', text } : null);
+    } catch (error) {
+      setMessage({ type: 'error', text: handleError(error, 'prompt templates') });
+    }
+  };
+
+  const handleSave = () => runAction(() => {
+    const result = promptTemplateStore.save(draft);
+    setDraft(result);
+    return `Saved "${result.name}"`;
+  });
+
+  const handleCreate = (base?: PromptTemplate) => runAction(() => {
+    const created = promptTemplateStore.create(base ? `${base.name} copy` : 'New template', base);
+    selectTemplate(created.id);
+    return `Created "${created.name}"`;
+  });
+
+  const handleDelete = () => runAction(() => {
+    promptTemplateStore.remove(draft.id);
+    if (draft.builtin) {
+      setDraft(promptTemplateStore.get(draft.id));
+      return `Reset "${draft.name}" to the default prompt`;
+    }
+    selectTemplate('paragraphs');
+    return `Deleted "${draft.name}"`;
+  });
+
+  const handleExport = () => {
+    downloadFile(promptTemplateStore.exportTemplates(), 'summary-templates.json', 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const json = await file.text();
+    runAction(() => {
+      const count = promptTemplateStore.importTemplates(json);
+      setDraft(promptTemplateStore.get(selectedId));
+      return `Imported ${count} template${count === 1 ? '' : 's'}`;
+    });
+  };
+
+  const handleGeneratePreview = async () => {
+    setIsGenerating(true);
+    setPreview(null);
+    try {
+      const result = await postProcessingEngine.processTranscript(SAMPLE_TRANSCRIPT, {
+        ...postProcessing,
+        enabled: true,
+        text_formatting: { ...postProcessing.text_formatting, enabled: false },
+        summarization: { ...postProcessing.summarization, enabled: true, format: draft.id },
+      }, {
+        metadata: { language: SAMPLE_VARIABLES.language, duration: 192 },
+      });
+      const backend = result.models_used.summarization_backend === 'ollama'
+        ? `${result.models_used.summarization} via Ollama`
+        : 'built-in heuristics';
+      setPreview(`${result.summary?.content || '(empty summary)'}\n\n— Generated with ${backend}`);
+    } catch (error) {
+      setMessage({ type: 'error', text: handleError(error, 'template preview') });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <ChatBubbleBottomCenterTextIcon className="w-6 h-6 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Summary Templates
+            </h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => fileInputRef.current?.click()} className="btn-outline text-sm flex items-center space-x-1">
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              <span>Import</span>
+            </button>
+            <button onClick={handleExport} className="btn-outline text-sm flex items-center space-x-1">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              <span>Export</span>
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Template
+              </label>
+              <div className="flex space-x-2">
+                <select
+                  value={selectedId}
+                  onChange={(e) => selectTemplate(e.target.value as SummaryFormat)}
+                  className="form-select flex-1"
+                >
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}{template.builtin ? '' : ' (custom)'}{promptTemplateStore.isModified(template.id) ? ' (edited)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => handleCreate()} className="btn-outline" title="New template">
+                  <PlusIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleCreate(draft)} className="btn-outline" title="Duplicate template">
+                  <DocumentDuplicateIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-outline"
+                  title={draft.builtin ? 'Reset to default' : 'Delete template'}
+                  disabled={draft.builtin && !promptTemplateStore.isModified(draft.id)}
+                >
+                  {draft.builtin ? <ArrowPathIcon className="w-4 h-4" /> : <TrashIcon className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="form-input"
+                  disabled={draft.builtin}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Offline Fallback
+                </label>
+                <select
+                  value={draft.fallback_format}
+                  onChange={(e) => setDraft({ ...draft, fallback_format: e.target.value as BuiltinSummaryFormat })}
+                  className="form-select"
+                  disabled={draft.builtin}
+                >
+                  {FALLBACK_FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>{format.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Description
+              </label>
+              <input
+                type="text"
+                value={draft.description || ''}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value || undefined })}
+                className="form-input"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Prompt
+              </label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                className="form-input font-mono text-xs h-40"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {TEMPLATE_VARIABLES.map(variable => (
+                  <button
+                    key={variable.name}
+                    onClick={() => setDraft({ ...draft, prompt: `${draft.prompt}{{${variable.name}}}` })}
+                    className="px-2 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title={variable.description}
+                  >
+                    {`{{${variable.name}}}`}
+                  </button>
+                ))}
+              </div>
+              {unknownVariables.length > 0 && (
+                <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                  Unknown variable{unknownVariables.length > 1 ? 's' : ''}: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <button onClick={handleSave} className="btn-primary" disabled={!isDirty}>
+                Save Template
+              </button>
+              <button onClick={() => selectTemplate(selectedId)} className="btn-secondary" disabled={!isDirty}>
+                Discard
+              </button>
+              {message && (
+                <span className={`text-sm ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                  {message.text}
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Rendered Prompt (sample transcript)
+              </label>
+              <pre className="whitespace-pre-wrap text-xs text-gray-700 dark:text-gray-300 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg max-h-64 overflow-y-auto">
+                {renderedPrompt}
+              </pre>
+            </div>
+
+            <div>
+              <button
+                onClick={handleGeneratePreview}
+                className="btn-outline text-sm flex items-center space-x-1"
+                disabled={isGenerating || isDirty}
+                title={isDirty ? 'Save the template to preview it' : undefined}
+              >
+                <PlayIcon className="w-4 h-4" />
+                <span>{isGenerating ? 'Generating...' : 'Generate Preview'}</span>
+              </button>
+              {preview && (
+                <div className="whitespace-pre-line text-sm text-gray-700 dark:text-gray-300 p-3 mt-2 bg-purple-50 dark:bg-purple-900/20 rounded-lg max-h-64 overflow-y-auto">
+                  {preview}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PromptTemplateEditor;
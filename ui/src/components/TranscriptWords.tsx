@@ -0,0 +1,46 @@
+import type { TranscriptionSegment } from '../lib/types';
+import { formatTimestamp } from '../lib/outputFormats';
+
+interface TranscriptWordsProps {
+  segments: TranscriptionSegment[];
+  // Words below this probability are highlighted; 0 turns highlighting off
+  threshold: number;
+}
+
+const wordTitle = (start: number, end: number, probability?: number) =>
+  `${formatTimestamp(start, 'vtt')} – ${formatTimestamp(end, 'vtt')}` +
+  (probability !== undefined ? ` · ${Math.round(probability * 100)}% confident` : '');
+
+/**
+ * Transcript text with per-word timings and probabilities. Hovering a word shows when it
+ * was spoken; words the model was unsure about are highlighted for review. Segments
+ * without word timings are shown as plain text.
+ */
+function TranscriptWords({ segments, threshold }: TranscriptWordsProps) {
+  return (
+    <div className="text-sm text-gray-700 dark:text-gray-300 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg leading-relaxed">
+      {segments.map((segment, segmentIndex) => (
+        <span key={segmentIndex} title={segment.words?.length ? undefined : wordTitle(segment.start, segment.end, segment.confidence)}>
+          {segment.speaker && <span className="font-medium">{segment.speaker}: </span>}
+          {segment.words?.length
+            ? segment.words.map((word, wordIndex) => (
+              <span key={wordIndex}>
+                <span
+                  title={wordTitle(word.start, word.end, word.probability)}
+                  className={word.probability !== undefined && word.probability < threshold
+                    ? 'bg-amber-100 dark:bg-amber-900/40 rounded'
+                    : undefined}
+                >
+                  {word.word}
+                </span>
+                {' '}
+              </span>
+            ))
+            : `${segment.text.trim()} `}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default TranscriptWords;
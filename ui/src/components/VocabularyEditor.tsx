@@ -0,0 +1,344 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  BookOpenIcon,
+  PlusIcon,
+  TrashIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+} from '@heroicons/react/24/outline';
+import type { CorrectionMatch, DictionaryScope, VocabularyDictionary } from '../lib/types';
+import { vocabularyStore, DEFAULT_DICTIONARY_ID } from '../lib/vocabulary';
+import { handleError } from '../lib/errorHandler';
+import { downloadFile } from '../lib/utils';
+
+/**
+ * Manage user and project vocabulary: correction rules for post-processing
+ * and domain terms for Whisper's initial prompt.
+ */
+function VocabularyEditor() {
+  const [dictionaries, setDictionaries] = useState<VocabularyDictionary[]>(() => vocabularyStore.list());
+  const [activeProject, setActiveProject] = useState<string | null>(() => vocabularyStore.getActiveProject());
+  const [selectedId, setSelectedId] = useState<string>(() => vocabularyStore.list()[0]?.id || DEFAULT_DICTIONARY_ID);
+  const [newCorrection, setNewCorrection] = useState<{ from: string; to: string; match: CorrectionMatch }>({ from: '', to: '', match: 'word' });
+  const [newDictionary, setNewDictionary] = useState<{ name: string; scope: DictionaryScope; project: string } | null>(null);
+  const [termsText, setTermsText] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [sampleText, setSampleText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => vocabularyStore.subscribe(() => {
+    setDictionaries(vocabularyStore.list());
+    setActiveProject(vocabularyStore.getActiveProject());
+  }), []);
+
+  const selected = dictionaries.find(d => d.id === selectedId) || dictionaries[0];
+  const projects = vocabularyStore.listProjects();
+
+  useEffect(() => {
+    setTermsText(selected ? selected.terms.join(', ') : '');
+  }, [selected?.id]);
+
+  const runAction = (action: () => string | void) => {
+    try {
+      const text = action();
+      setMessage(text ? { type: 'success', text } : null);
+    } catch (error) {
+      setMessage({ type: 'error', text: handleError(error, 'vocabulary') });
+    }
+  };
+
+  const updateSelected = (changes: Partial<VocabularyDictionary>) => {
+    if (!selected) return;
+    runAction(() => { vocabularyStore.saveDictionary({ ...selected, ...changes }); });
+  };
+
+  const handleAddCorrection = () => runAction(() => {
+    const rule = vocabularyStore.addCorrection(selected.id, newCorrection.from, newCorrection.to, { match: newCorrection.match });
+    setNewCorrection({ from: '', to: '', match: 'word' });
+    return `Added "${rule.from}" → "${rule.to}"`;
+  });
+
+  const handleCreateDictionary = () => runAction(() => {
+    if (!newDictionary) return;
+    const created = vocabularyStore.createDictionary(newDictionary.name, newDictionary.scope, newDictionary.project);
+    setSelectedId(created.id);
+    setNewDictionary(null);
+    return `Created "${created.name}"`;
+  });
+
+  const handleDeleteDictionary = () => {
+    if (!selected || !confirm(`Delete the dictionary "${selected.name}"?`)) return;
+    runAction(() => {
+      vocabularyStore.removeDictionary(selected.id);
+      setSelectedId(vocabularyStore.list()[0]?.id || DEFAULT_DICTIONARY_ID);
+      return `Deleted "${selected.name}"`;
+    });
+  };
+
+  const handleSaveTerms = () => {
+    const terms = termsText.split(/[,\n]/).map(term => term.trim()).filter(Boolean);
+    updateSelected({ terms: Array.from(new Set(terms)) });
+  };
+
+  const handleExport = (format: 'json' | 'csv') => runAction(() => {
+    const name = selected.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    if (format === 'csv') {
+      downloadFile(vocabularyStore.exportCsv(selected.id), `${name}.csv`, 'text/csv');
+    } else {
+      downloadFile(vocabularyStore.exportJson([selected.id]), `${name}.json`, 'application/json');
+    }
+  });
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    runAction(() => {
+      if (file.name.toLowerCase().endsWith('.csv')) {
+        const count = vocabularyStore.importCsv(selected.id, content);
+        return `Imported ${count} row${count === 1 ? '' : 's'} into "${selected.name}"`;
+      }
+      const count = vocabularyStore.importJson(content);
+      return `Imported ${count} dictionar${count === 1 ? 'y' : 'ies'}`;
+    });
+  };
+
+  // Pick up a selection from the sample text as the source of a new correction
+  const handleSampleSelect = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const target = event.currentTarget;
+    const selection = target.value.slice(target.selectionStart, target.selectionEnd).trim();
+    if (selection && selection.length <= 80) {
+      setNewCorrection(prev => ({ ...prev, from: selection, match: /\s/.test(selection) ? 'phrase' : 'word' }));
+    }
+  };
+
+  if (!selected) return null;
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <BookOpenIcon className="w-6 h-6 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Vocabulary & Corrections
+            </h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => fileInputRef.current?.click()} className="btn-outline text-sm flex items-center space-x-1">
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              <span>Import</span>
+            </button>
+            <button onClick={() => handleExport('csv')} className="btn-outline text-sm flex items-center space-x-1">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+            <button onClick={() => handleExport('json')} className="btn-outline text-sm flex items-center space-x-1">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              <span>JSON</span>
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Dictionary
+            </label>
+            <div className="flex space-x-2">
+              <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} className="form-select flex-1">
+                {dictionaries.map(dictionary => (
+                  <option key={dictionary.id} value={dictionary.id}>
+                    {dictionary.name} ({dictionary.scope === 'project' ? `project: ${dictionary.project}` : 'personal'})
+                  </option>
+                ))}
+              </select>
+              <button onClick={() => setNewDictionary({ name: '', scope: 'project', project: activeProject || '' })} className="btn-outline" title="New dictionary">
+                <PlusIcon className="w-4 h-4" />
+              </button>
+              <button onClick={handleDeleteDictionary} className="btn-outline" title="Delete dictionary">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex items-center space-x-3 mt-2">
+              <input
+                type="checkbox"
+                id="dictionary-enabled"
+                checked={selected.enabled}
+                onChange={(e) => updateSelected({ enabled: e.target.checked })}
+                className="form-checkbox"
+              />
+              <label htmlFor="dictionary-enabled" className="text-sm text-gray-700 dark:text-gray-300">
+                Enabled
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Active Project
+            </label>
+            <select
+              value={activeProject || ''}
+              onChange={(e) => vocabularyStore.setActiveProject(e.target.value || null)}
+              className="form-select"
+            >
+              <option value="">None (personal dictionaries only)</option>
+              {projects.map(project => (
+                <option key={project} value={project}>{project}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Personal dictionaries always apply; project dictionaries only while their project is active
+            </p>
+          </div>
+        </div>
+
+        {newDictionary && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end p-4 mb-6 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            <input
+              type="text"
+              value={newDictionary.name}
+              onChange={(e) => setNewDictionary({ ...newDictionary, name: e.target.value })}
+              className="form-input"
+              placeholder="Dictionary name"
+            />
+            <select
+              value={newDictionary.scope}
+              onChange={(e) => setNewDictionary({ ...newDictionary, scope: e.target.value as DictionaryScope })}
+              className="form-select"
+            >
+              <option value="user">Personal</option>
+              <option value="project">Project</option>
+            </select>
+            <input
+              type="text"
+              value={newDictionary.project}
+              onChange={(e) => setNewDictionary({ ...newDictionary, project: e.target.value })}
+              className="form-input"
+              placeholder="Project name"
+              disabled={newDictionary.scope !== 'project'}
+            />
+            <div className="flex space-x-2">
+              <button onClick={handleCreateDictionary} className="btn-primary">Create</button>
+              <button onClick={() => setNewDictionary(null)} className="btn-secondary">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Domain Terms
+          </label>
+          <textarea
+            value={termsText}
+            onChange={(e) => setTermsText(e.target.value)}
+            onBlur={handleSaveTerms}
+            className="form-input h-20"
+            placeholder="Kubernetes, PostgreSQL, Dr. Okonkwo"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Comma or line separated. Passed to Whisper so these words are recognized correctly in the first place.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Corrections ({selected.corrections.length})
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-3">
+            <input
+              type="text"
+              value={newCorrection.from}
+              onChange={(e) => setNewCorrection({ ...newCorrection, from: e.target.value })}
+              className="form-input md:col-span-2"
+              placeholder="Heard as (e.g. Jay Son)"
+            />
+            <input
+              type="text"
+              value={newCorrection.to}
+              onChange={(e) => setNewCorrection({ ...newCorrection, to: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCorrection()}
+              className="form-input md:col-span-2"
+              placeholder="Replace with (e.g. JSON)"
+            />
+            <div className="flex space-x-2">
+              <select
+                value={newCorrection.match}
+                onChange={(e) => setNewCorrection({ ...newCorrection, match: e.target.value as CorrectionMatch })}
+                className="form-select"
+              >
+                <option value="word">Word</option>
+                <option value="phrase">Phrase</option>
+              </select>
+              <button onClick={handleAddCorrection} className="btn-primary" title="Add correction">
+                <PlusIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <details className="mb-3">
+            <summary className="text-sm text-primary-600 dark:text-primary-400 cursor-pointer">
+              Add from a transcript
+            </summary>
+            <textarea
+              value={sampleText}
+              onChange={(e) => setSampleText(e.target.value)}
+              onSelect={handleSampleSelect}
+              className="form-input h-24 mt-2 text-sm"
+              placeholder="Paste a transcript, then select a misheard word or phrase to use it as the correction source"
+            />
+            {sampleText && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Corrected: <span className="text-gray-700 dark:text-gray-300">{vocabularyStore.applyCorrections(sampleText).slice(0, 300)}</span>
+              </div>
+            )}
+          </details>
+
+          <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+            {selected.corrections.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 p-3">No corrections yet</p>
+            )}
+            {selected.corrections.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateSelected({
+                      corrections: selected.corrections.map(c => c.id === rule.id ? { ...c, enabled: e.target.checked } : c)
+                    })}
+                    className="form-checkbox"
+                  />
+                  <span className="font-mono text-gray-600 dark:text-gray-400">{rule.from}</span>
+                  <span className="text-gray-400">→</span>
+                  <span className="font-mono text-gray-900 dark:text-white">{rule.to}</span>
+                  <span className="text-xs text-gray-400">{rule.match}{rule.case_sensitive ? ', case-sensitive' : ''}</span>
+                </div>
+                <button
+                  onClick={() => updateSelected({ corrections: selected.corrections.filter(c => c.id !== rule.id) })}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove correction"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm mt-3 ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VocabularyEditor;
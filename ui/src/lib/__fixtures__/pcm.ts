@@ -0,0 +1,68 @@
+// Synthetic 16 kHz mono recordings for the voice activity tests. Noise comes from a seeded
+// generator, so every run sees the same samples.
+
+export const SAMPLE_RATE = 16000;
+
+// Linear congruential generator; uniform in [-1, 1)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+}
+
+export function silence(seconds: number): Float32Array {
+  return new Float32Array(Math.round(seconds * SAMPLE_RATE));
+}
+
+/**
+ * A sine at `frequency`; `amplitude` may change over time, e.g. for a hum that grows louder
+ */
+export function tone(seconds: number, frequency: number, amplitude: number | ((t: number) => number)): Float32Array {
+  const samples = silence(seconds);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const level = typeof amplitude === 'number' ? amplitude : amplitude(t);
+    samples[i] = level * Math.sin(2 * Math.PI * frequency * t);
+  }
+  return samples;
+}
+
+export function whiteNoise(seconds: number, amplitude: number, seed = 1): Float32Array {
+  const random = seededRandom(seed);
+  const samples = silence(seconds);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * random();
+  }
+  return samples;
+}
+
+/**
+ * A voiced, speech-like sound: a gliding pitch around 140 Hz with two harmonics and a
+ * syllable-rate envelope that never falls silent
+ */
+export function voiced(seconds: number, amplitude = 0.3): Float32Array {
+  const samples = silence(seconds);
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const pitch = 140 + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    phase += (2 * Math.PI * pitch) / SAMPLE_RATE;
+    const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t);
+    samples[i] = amplitude * envelope * (Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase)) / 1.75;
+  }
+  return samples;
+}
+
+/**
+ * `background` with `sound` added in from `atSeconds`
+ */
+export function mix(background: Float32Array, sound: Float32Array, atSeconds: number): Float32Array {
+  const samples = new Float32Array(background);
+  const offset = Math.round(atSeconds * SAMPLE_RATE);
+  for (let i = 0; i < sound.length && offset + i < samples.length; i++) {
+    samples[offset + i] += sound[i];
+  }
+  return samples;
+}
@@ -0,0 +1,42 @@
+import { readFileSync } from 'fs';
+
+// Short real recordings for the voice activity tests; README.md in this folder says where
+// they come from
+
+/**
+ * Read a 16 kHz mono 16-bit PCM WAV file from this folder as samples in [-1, 1)
+ */
+export function recording(name: string): Float32Array {
+  const bytes = readFileSync(new URL(name, import.meta.url));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error(`${name} is not a WAV file`);
+  }
+
+  let format: { encoding: number; channels: number; rate: number; bits: number } | null = null;
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag(offset) === 'fmt ') {
+      format = {
+        encoding: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        rate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (tag(offset) === 'data') {
+      if (!format || format.encoding !== 1 || format.channels !== 1 || format.rate !== 16000 || format.bits !== 16) {
+        throw new Error(`${name} must be 16 kHz mono 16-bit PCM`);
+      }
+      const samples = new Float32Array(Math.floor(Math.min(size, bytes.length - body) / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(body + i * 2, true) / 32768;
+      }
+      return samples;
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new Error(`${name} has no audio data`);
+}
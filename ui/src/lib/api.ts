@@ -7,9 +7,14 @@ import type {
   BatchProcessingOptions,
   RealtimeTranscriptionOptions,
   RealtimeChunk,
-  ModelSize,
+  ModelId,
   OutputFormat
 } from './types';
+import electronService from '../services/electronService';
+import { DEFAULT_MODEL_ID } from './modelRegistry';
+import { hardwareProfile, backendLabel } from './hardware';
+import { DEFAULT_DECODING_OPTIONS } from './decoding';
+import { DEFAULT_REALTIME_CONFIG } from './realtimeConfig';
 
 // Check if we're running in Tauri environment
 const isTauri = typeof window !== 'undefined' && '__TAURI_IPC__' in window;
@@ -44,21 +49,28 @@ const getMockData = (command: string, args?: any): any => {
     case 'get_config':
       return {
         model: {
-          default_size: 'Base',
+          default_size: DEFAULT_MODEL_ID,
           models_directory: './models',
           use_gpu: false,
           auto_download: true,
+          download_mirror: '',
+          target_turnaround_minutes: 0,
+          decoding: { ...DEFAULT_DECODING_OPTIONS },
         },
         output: {
           default_format: 'Text',
           timestamps: false,
           skip_existing: true,
           naming_pattern: '{filename}_{timestamp}',
+          subtitles: {
+            max_chars_per_line: 42,
+            max_lines_per_cue: 2,
+            min_cue_duration: 1,
+            max_cue_duration: 7,
+            speaker_prefix: true,
+          },
         },
-        realtime: {
-          vad_threshold: 0.01,
-          enable_diarization: false,
-        },
+        realtime: { ...DEFAULT_REALTIME_CONFIG },
         batch: {
           max_concurrent: 2,
           enable_diarization: false,
@@ -74,6 +86,12 @@ const getMockData = (command: string, args?: any): any => {
         },
         post_processing: {
           enabled: true,
+          ollama: {
+            enabled: true,
+            base_url: 'http://localhost:11434',
+            timeout_ms: 120000,
+            context_tokens: 8192,
+          },
           text_formatting: {
             enabled: true,
             model: 'phi3.5',
@@ -96,19 +114,19 @@ const getMockData = (command: string, args?: any): any => {
     case 'list_models':
       return [
         {
-          size: 'Tiny',
+          size: 'tiny',
           filename: 'ggml-tiny.bin',
-          size_mb: 39,
+          size_mb: 75,
           downloaded: true,
         },
         {
-          size: 'Base',
+          size: 'base',
           filename: 'ggml-base.bin',
           size_mb: 142,
           downloaded: true,
         },
         {
-          size: 'Small',
+          size: 'small',
           filename: 'ggml-small.bin',
           size_mb: 466,
           downloaded: false,
@@ -116,13 +134,13 @@ const getMockData = (command: string, args?: any): any => {
       ] as ModelInfo[];
     
     case 'get_system_info':
-      // Simulate different GPU availability for testing
-      const hasGPU = Math.random() > 0.5; // 50% chance of having GPU in browser demo
+      // Whisper does not run in the browser, so neither does GPU mode
       return {
         platform: 'browser',
         arch: 'x86_64',
-        gpu_available: hasGPU,
-        gpu_type: hasGPU ? 'Simulated GPU' : null,
+        gpu_available: false,
+        gpu_type: null,
+        gpu_reason: 'GPU acceleration is only available in the desktop app',
       };
     
     case 'set_config':
@@ -173,15 +191,15 @@ export const modelApi = {
     return safeInvoke('list_models');
   },
 
-  async downloadModel(modelSize: ModelSize): Promise<void> {
+  async downloadModel(modelSize: ModelId): Promise<void> {
     return safeInvoke('download_model', { modelSize });
   },
 
-  async checkModelExists(modelSize: ModelSize): Promise<boolean> {
+  async checkModelExists(modelSize: ModelId): Promise<boolean> {
     return safeInvoke('check_model_exists', { modelSize });
   },
 
-  async getModelPath(modelSize: ModelSize): Promise<string> {
+  async getModelPath(modelSize: ModelId): Promise<string> {
     return safeInvoke('get_model_path', { modelSize });
   }
 };
@@ -270,7 +288,7 @@ export const transcriptionApi = {
   async transcribeFile(
     inputPath: string,
     outputPath?: string,
-    modelSize: ModelSize = 'Base',
+    modelSize: ModelId = DEFAULT_MODEL_ID,
     format: OutputFormat = 'Text',
     language?: string,
     timestamps: boolean = false,
@@ -294,6 +312,10 @@ export const transcriptionApi = {
   },
 
   async cancelJob(jobId: string): Promise<void> {
+    if (electronService.isElectron) {
+      await electronService.cancelTranscription(jobId);
+      return;
+    }
     return safeInvoke('cancel_job', { jobId });
   },
 
@@ -365,10 +387,15 @@ export const eventApi = {
     return () => {};
   },
 
-  async onModelDownloadProgress(callback: (progress: { model: ModelSize; progress: number }) => void) {
+  async onModelDownloadProgress(callback: (progress: { model: string; progress: number }) => void) {
+    if (electronService.isElectron) {
+      const unsubscribe = electronService.onModelDownloadProgress(({ model, progress }) => callback({ model, progress }));
+      return unsubscribe || (() => {});
+    }
+
     if (isTauri) {
       const { listen } = await import('@tauri-apps/api/event');
-      return listen<{ model: ModelSize; progress: number }>('model-download-progress', (event) => {
+      return listen<{ model: ModelId; progress: number }>('model-download-progress', (event) => {
         callback(event.payload);
       });
     }
@@ -395,7 +422,20 @@ export const systemApi = {
     arch: string;
     gpu_available: boolean;
     gpu_type?: string;
+    // Why GPU mode is or is not offered
+    gpu_reason?: string;
   }> {
+    if (electronService.isElectron) {
+      const capabilities = await hardwareProfile.load();
+      const support = hardwareProfile.gpuSupport();
+      return {
+        platform: capabilities?.platform ?? electronService.platform,
+        arch: capabilities?.arch ?? 'unknown',
+        gpu_available: support.available,
+        gpu_type: capabilities?.gpu_backends.map(backendLabel).join(', ') || undefined,
+        gpu_reason: support.reason,
+      };
+    }
     return safeInvoke('get_system_info');
   },
 
@@ -0,0 +1,121 @@
+/**
+ * Audio worklet for RealTimeAudioCapture. Runs on the audio rendering thread, so capture
+ * keeps up however busy the page is: mixes the microphone down to mono, resamples it to
+ * the target rate and posts fixed-size frames to the capture through the node's port.
+ *
+ * The port takes { type: 'start' } and { type: 'stop' }; frames are only posted in between.
+ */
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings do not cover
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  // Samples per posted frame, at the target rate
+  frameSize: number;
+}
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  // Input samples per output sample
+  private ratio: number;
+  private frameSize: number;
+  private frame: Float32Array;
+  private frameLength = 0;
+  private capturing = false;
+
+  // Downsampling: running sum over the current output sample's span of input
+  private spanSum = 0;
+  private spanFilled = 0;
+  // Upsampling: previous input sample and position of the next output sample after it
+  private previous = 0;
+  private phase = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameSize } = options.processorOptions as CaptureProcessorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Float32Array(frameSize);
+
+    this.port.onmessage = (event: MessageEvent) => {
+      this.capturing = event.data?.type === 'start';
+      this.reset();
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!this.capturing || !channels || channels.length === 0) {
+      return true;
+    }
+
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      let value = 0;
+      for (let channel = 0; channel < channels.length; channel++) {
+        value += channels[channel][i];
+      }
+      this.resample(value / channels.length);
+    }
+    return true;
+  }
+
+  /**
+   * Downsampling averages the input over each output sample's span, a box filter that keeps
+   * most aliasing out; upsampling interpolates linearly
+   */
+  private resample(value: number) {
+    if (this.ratio >= 1) {
+      let remaining = 1;
+      while (remaining > 0) {
+        const take = Math.min(remaining, this.ratio - this.spanFilled);
+        this.spanSum += value * take;
+        this.spanFilled += take;
+        remaining -= take;
+        if (this.spanFilled >= this.ratio - 1e-9) {
+          this.emit(this.spanSum / this.ratio);
+          this.spanSum = 0;
+          this.spanFilled = 0;
+        }
+      }
+      return;
+    }
+
+    while (this.phase <= 1) {
+      this.emit(this.previous + (value - this.previous) * this.phase);
+      this.phase += this.ratio;
+    }
+    this.phase -= 1;
+    this.previous = value;
+  }
+
+  private emit(sample: number) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frameSize) {
+      // Transfer rather than copy; a fresh frame is started
+      const frame = this.frame;
+      this.port.postMessage(frame, [frame.buffer]);
+      this.frame = new Float32Array(this.frameSize);
+      this.frameLength = 0;
+    }
+  }
+
+  private reset() {
+    this.frameLength = 0;
+    this.spanSum = 0;
+    this.spanFilled = 0;
+    this.previous = 0;
+    this.phase = 0;
+  }
+}
+
+// Must match the name RealTimeAudioCapture creates its node with
+registerProcessor('audio-capture', AudioCaptureProcessor);
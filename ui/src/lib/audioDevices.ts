@@ -0,0 +1,174 @@
+import type { AudioInputDevice, AudioInputSettings } from './types';
+
+const SELECTED_STORAGE_KEY = 'audio-input-device';
+const SETTINGS_STORAGE_KEY = 'audio-input-settings';
+// Settings for the system default input are stored under this key
+const DEFAULT_DEVICE_KEY = 'default';
+// Chrome lists the current default and communications devices again under these ids
+const ALIAS_DEVICE_IDS = ['default', 'communications'];
+
+export const DEFAULT_AUDIO_INPUT_SETTINGS: AudioInputSettings = {
+  echo_cancellation: true,
+  noise_suppression: true,
+  auto_gain_control: true,
+};
+
+/**
+ * getUserMedia constraints for an input; no device id means the system default
+ */
+export function audioInputConstraints(
+  deviceId: string | undefined,
+  settings: AudioInputSettings,
+  sampleRate: number,
+  channelCount: number
+): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    sampleRate,
+    channelCount,
+    echoCancellation: settings.echo_cancellation,
+    noiseSuppression: settings.noise_suppression,
+    autoGainControl: settings.auto_gain_control,
+  };
+}
+
+/**
+ * Audio inputs connected to this computer, the one chosen for recording and the
+ * processing settings of each. The choice is remembered by device id; while that device
+ * is unplugged, recording falls back to the system default and picks it up again once
+ * it is back.
+ */
+export class AudioDeviceStore {
+  private static instance: AudioDeviceStore;
+  private listeners = new Set<() => void>();
+  private devices: AudioInputDevice[] = [];
+  private selectedId: string | null = null;
+  private settings: Record<string, AudioInputSettings> = {};
+  private watching = false;
+
+  static getInstance(): AudioDeviceStore {
+    if (!AudioDeviceStore.instance) {
+      AudioDeviceStore.instance = new AudioDeviceStore();
+    }
+    return AudioDeviceStore.instance;
+  }
+
+  constructor() {
+    this.selectedId = this.readStored<string | null>(SELECTED_STORAGE_KEY, null);
+    this.settings = this.readStored<Record<string, AudioInputSettings>>(SETTINGS_STORAGE_KEY, {});
+  }
+
+  /**
+   * List the inputs again. Labels are only filled in once microphone permission is granted,
+   * so call this after getUserMedia succeeds.
+   */
+  async refresh(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return this.devices;
+    }
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      this.devices = devices
+        .filter(device => device.kind === 'audioinput' && !ALIAS_DEVICE_IDS.includes(device.deviceId))
+        .map((device, index) => ({
+          device_id: device.deviceId,
+          label: device.label || `Microphone ${index + 1}`,
+          group_id: device.groupId,
+        }));
+    } catch (error) {
+      console.warn('Could not list audio inputs:', error);
+    }
+    this.notify();
+    return this.devices;
+  }
+
+  list(): AudioInputDevice[] {
+    return this.devices;
+  }
+
+  // The remembered choice, even while unplugged; null for the system default
+  getSelectedId(): string | null {
+    return this.selectedId;
+  }
+
+  isSelectedConnected(): boolean {
+    return this.selectedId === null || this.devices.some(device => device.device_id === this.selectedId);
+  }
+
+  /**
+   * Device id to record from: the chosen input when it is connected, otherwise undefined
+   * for the system default. Before the first refresh the choice is trusted.
+   */
+  resolveDeviceId(): string | undefined {
+    if (!this.selectedId) return undefined;
+    if (this.devices.length > 0 && !this.isSelectedConnected()) return undefined;
+    return this.selectedId;
+  }
+
+  select(deviceId: string | null) {
+    this.selectedId = deviceId || null;
+    this.writeStored(SELECTED_STORAGE_KEY, this.selectedId);
+    this.notify();
+  }
+
+  /**
+   * Processing settings of an input; undefined for the system default
+   */
+  getSettings(deviceId?: string | null): AudioInputSettings {
+    return { ...DEFAULT_AUDIO_INPUT_SETTINGS, ...this.settings[deviceId || DEFAULT_DEVICE_KEY] };
+  }
+
+  updateSettings(deviceId: string | null | undefined, settings: Partial<AudioInputSettings>) {
+    const key = deviceId || DEFAULT_DEVICE_KEY;
+    this.settings = { ...this.settings, [key]: { ...this.getSettings(deviceId), ...settings } };
+    this.writeStored(SETTINGS_STORAGE_KEY, this.settings);
+    this.notify();
+  }
+
+  /**
+   * The input to record from and its settings, with the fallback applied
+   */
+  resolveInput(): { deviceId: string | undefined; settings: AudioInputSettings } {
+    const deviceId = this.resolveDeviceId();
+    return { deviceId, settings: this.getSettings(deviceId) };
+  }
+
+  /**
+   * Listeners are told when the choice or settings change and when inputs are plugged in
+   * or removed
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    this.watchDevices();
+    return () => this.listeners.delete(listener);
+  }
+
+  private watchDevices() {
+    if (this.watching || !navigator.mediaDevices?.addEventListener) return;
+    this.watching = true;
+    navigator.mediaDevices.addEventListener('devicechange', () => {
+      this.refresh();
+    });
+  }
+
+  private readStored<T>(key: string, fallback: T): T {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : fallback;
+    } catch (error) {
+      console.warn(`Could not read ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  private writeStored(key: string, value: unknown) {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const audioDevices = AudioDeviceStore.getInstance();
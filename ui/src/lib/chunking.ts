@@ -0,0 +1,105 @@
+import type { TranscriptionSegment } from './types';
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split a transcript into chunks that fit within a token budget.
+ * Chunks break on segment boundaries when segments are available,
+ * otherwise on sentence boundaries.
+ */
+export function chunkTranscript(
+  text: string,
+  segments: TranscriptionSegment[] | undefined,
+  maxTokens: number
+): TranscriptChunk[] {
+  const units = toUnits(text, segments);
+  const chunks: TranscriptChunk[] = [];
+  let current: { texts: string[]; tokens: number; start?: number; end?: number } = { texts: [], tokens: 0 };
+
+  const flush = () => {
+    if (current.texts.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      text: current.texts.join(' '),
+      start: current.start,
+      end: current.end,
+    });
+    current = { texts: [], tokens: 0 };
+  };
+
+  for (const unit of units) {
+    for (const piece of splitOversized(unit.text, maxTokens)) {
+      const tokens = estimateTokens(piece);
+      if (current.tokens + tokens > maxTokens) {
+        flush();
+      }
+      if (current.texts.length === 0) {
+        current.start = unit.start;
+      }
+      current.texts.push(piece);
+      current.tokens += tokens;
+      current.end = unit.end;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+function toUnits(text: string, segments?: TranscriptionSegment[]): Array<{ text: string; start?: number; end?: number }> {
+  const segmentUnits = (segments || [])
+    .filter(segment => typeof segment.text === 'string' && segment.text.trim().length > 0)
+    .map(segment => ({
+      text: (segment.speaker ? `${segment.speaker}: ` : '') + segment.text.trim(),
+      start: segment.start,
+      end: segment.end,
+    }));
+
+  if (segmentUnits.length > 0) {
+    return segmentUnits;
+  }
+
+  const sentences = text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [text];
+  return sentences.map(sentence => ({ text: sentence.trim() })).filter(unit => unit.text.length > 0);
+}
+
+/**
+ * Hard-split a single unit on word boundaries if it alone exceeds the budget
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  const maxChars = maxTokens * 4;
+
+  for (const word of text.split(/\s+/)) {
+    if (length + word.length + 1 > maxChars && current.length > 0) {
+      pieces.push(current.join(' '));
+      current = [];
+      length = 0;
+    }
+    current.push(word);
+    length += word.length + 1;
+  }
+  if (current.length > 0) {
+    pieces.push(current.join(' '));
+  }
+
+  return pieces;
+}
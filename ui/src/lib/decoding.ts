@@ -0,0 +1,38 @@
+import type { DecodingOptions } from './types';
+
+// whisper.cpp's own defaults, so jobs without custom settings decode as before
+export const DEFAULT_DECODING_OPTIONS: DecodingOptions = {
+  task: 'transcribe',
+  beam_size: 1,
+  best_of: 5,
+  temperature: 0,
+  temperature_increment: 0.2,
+  no_speech_threshold: 0.6,
+  initial_prompt: '',
+  max_segment_length: 0,
+  split_on_word: false,
+  threads: 0,
+};
+
+/**
+ * Fill in settings missing from configs and transcripts saved before they existed
+ */
+export function withDecodingDefaults(options?: Partial<DecodingOptions>): DecodingOptions {
+  return { ...DEFAULT_DECODING_OPTIONS, ...options };
+}
+
+/**
+ * Short summary of the settings that differ from the defaults, e.g. "beam 5, translate"
+ */
+export function describeDecoding(options: DecodingOptions): string {
+  const parts: string[] = [];
+  if (options.task === 'translate') parts.push('translate to English');
+  parts.push(options.beam_size > 1 ? `beam ${options.beam_size}` : `greedy, best of ${options.best_of}`);
+  if (options.temperature !== DEFAULT_DECODING_OPTIONS.temperature) parts.push(`temperature ${options.temperature}`);
+  if (options.temperature_increment === 0) parts.push('no fallback');
+  if (options.no_speech_threshold !== DEFAULT_DECODING_OPTIONS.no_speech_threshold) parts.push(`no-speech ${options.no_speech_threshold}`);
+  if (options.max_segment_length > 0) parts.push(`max ${options.max_segment_length} chars${options.split_on_word ? ' (word split)' : ''}`);
+  if (options.threads > 0) parts.push(`${options.threads} threads`);
+  if (options.initial_prompt.trim()) parts.push('prompt');
+  return parts.join(', ');
+}
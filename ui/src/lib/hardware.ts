@@ -0,0 +1,161 @@
+import type { GpuBenchmarkResult, GpuSupport, HardwareCapabilities } from './types';
+import electronService from '../services/electronService';
+
+const BENCHMARK_STORAGE_KEY = 'gpu-benchmark';
+// GPU runs slower than this relative to the CPU are not worth the extra memory and startup
+const MIN_GPU_SPEEDUP = 1.1;
+
+const BACKEND_NAMES: Record<string, string> = {
+  metal: 'Metal',
+  cuda: 'CUDA',
+  vulkan: 'Vulkan',
+  opencl: 'OpenCL',
+  coreml: 'Core ML',
+  blas: 'BLAS',
+};
+
+export function backendLabel(backend: string): string {
+  return BACKEND_NAMES[backend] || backend;
+}
+
+/**
+ * Hardware capabilities reported by the main process, plus the GPU benchmark result.
+ * Decides whether GPU mode is offered on this machine.
+ */
+export class HardwareProfile {
+  private static instance: HardwareProfile;
+  private listeners = new Set<() => void>();
+  private capabilities: HardwareCapabilities | null = null;
+  private loading: Promise<HardwareCapabilities | null> | null = null;
+  private benchmark: GpuBenchmarkResult | null = null;
+  private benchmarking: Promise<GpuBenchmarkResult> | null = null;
+
+  static getInstance(): HardwareProfile {
+    if (!HardwareProfile.instance) {
+      HardwareProfile.instance = new HardwareProfile();
+    }
+    return HardwareProfile.instance;
+  }
+
+  /**
+   * Probe the hardware once. When the Whisper build has a GPU backend that has not been
+   * benchmarked yet, the benchmark is started in the background.
+   */
+  load(): Promise<HardwareCapabilities | null> {
+    if (!this.loading) {
+      this.loading = this.probe();
+    }
+    return this.loading;
+  }
+
+  get(): HardwareCapabilities | null {
+    return this.capabilities;
+  }
+
+  getBenchmark(): GpuBenchmarkResult | null {
+    return this.benchmark;
+  }
+
+  isBenchmarking(): boolean {
+    return this.benchmarking !== null;
+  }
+
+  /**
+   * Whether GPU mode should be offered, and why not when it is not
+   */
+  gpuSupport(): GpuSupport {
+    if (!electronService.isElectron) {
+      return { available: false, reason: 'GPU acceleration is only available in the desktop app' };
+    }
+    const capabilities = this.capabilities;
+    // Not probed yet, or the addon could not be located; leave the choice to the user
+    if (!capabilities?.whisper.binding) {
+      return { available: true, reason: '' };
+    }
+    if (capabilities.gpu_backends.length === 0) {
+      return { available: false, reason: 'This Whisper build has no GPU backend (Metal, CUDA, Core ML or Vulkan)' };
+    }
+
+    const backends = capabilities.gpu_backends.map(backendLabel).join(', ');
+    const benchmark = this.benchmark;
+    if (!benchmark) {
+      return { available: true, reason: `Built with ${backends}` };
+    }
+    if (benchmark.speedup < MIN_GPU_SPEEDUP) {
+      return {
+        available: false,
+        reason: `GPU mode (${backends}) was no faster than the CPU in the benchmark (${benchmark.speedup.toFixed(2)}x)`,
+      };
+    }
+    return { available: true, reason: `${backends}, ${benchmark.speedup.toFixed(1)}x faster than the CPU in the benchmark` };
+  }
+
+  /**
+   * Time the smallest downloaded model with GPU mode off and on. Rejects when no model is
+   * downloaded or the benchmark fails.
+   */
+  runGpuBenchmark(): Promise<GpuBenchmarkResult> {
+    if (!this.benchmarking) {
+      this.benchmarking = this.benchmarkGpu().finally(() => {
+        this.benchmarking = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.benchmarking;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async probe(): Promise<HardwareCapabilities | null> {
+    try {
+      this.capabilities = await electronService.getHardwareCapabilities();
+    } catch (error) {
+      console.warn('Could not probe hardware:', error);
+      this.capabilities = null;
+    }
+    this.benchmark = this.readStoredBenchmark();
+    this.notify();
+
+    if (this.capabilities?.gpu_backends.length && !this.benchmark) {
+      this.runGpuBenchmark().catch(error => console.warn('GPU benchmark skipped:', error));
+    }
+    return this.capabilities;
+  }
+
+  private async benchmarkGpu(): Promise<GpuBenchmarkResult> {
+    const response = await electronService.runGpuBenchmark();
+    if (!response?.success || !response.result) {
+      throw new Error(response?.error || 'GPU benchmark is only available in the desktop app');
+    }
+    const result = { ...response.result, fingerprint: this.capabilities?.whisper.fingerprint ?? null };
+    this.benchmark = result;
+    localStorage.setItem(BENCHMARK_STORAGE_KEY, JSON.stringify(result));
+    return result;
+  }
+
+  // A stored result only applies to the addon build it was measured with
+  private readStoredBenchmark(): GpuBenchmarkResult | null {
+    try {
+      const raw = localStorage.getItem(BENCHMARK_STORAGE_KEY);
+      const stored: GpuBenchmarkResult | null = raw ? JSON.parse(raw) : null;
+      if (!stored || stored.fingerprint !== (this.capabilities?.whisper.fingerprint ?? null)) {
+        return null;
+      }
+      return stored;
+    } catch (error) {
+      console.warn('Could not read GPU benchmark:', error);
+      return null;
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const hardwareProfile = HardwareProfile.getInstance();
@@ -0,0 +1,115 @@
+import type { ModelDefinition, ModelId } from './types';
+// Shared with the main process (electron-models.cjs), which downloads and loads the same entries
+import manifest from '../../model-manifest.json';
+import electronService from '../services/electronService';
+
+export const DEFAULT_MODEL_ID: ModelId = manifest.default;
+
+/**
+ * Whisper models the app knows about, read from model-manifest.json. Adding a model
+ * (another quantization, an English-only or distilled variant) only takes a manifest entry.
+ * Models imported from disk are listed by the main process and follow the manifest ones.
+ */
+export class ModelRegistry {
+  private static instance: ModelRegistry;
+  private builtinModels = manifest.models as ModelDefinition[];
+  private models = this.builtinModels;
+  private listeners = new Set<() => void>();
+
+  static getInstance(): ModelRegistry {
+    if (!ModelRegistry.instance) {
+      ModelRegistry.instance = new ModelRegistry();
+    }
+    return ModelRegistry.instance;
+  }
+
+  list(): ModelDefinition[] {
+    return this.models;
+  }
+
+  /**
+   * Fetch imported models from the main process. Call before reading the configured default,
+   * which may be an imported model.
+   */
+  async loadCustomModels(): Promise<void> {
+    try {
+      this.setCustomModels(await electronService.listCustomModels());
+    } catch (error) {
+      console.error('Failed to load imported models:', error);
+    }
+  }
+
+  setCustomModels(customModels: ModelDefinition[]) {
+    this.models = [...this.builtinModels, ...customModels.map(model => ({ ...model, custom: true }))];
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Look up a model by id or alias. Matching is case-insensitive, so ids saved by older
+   * versions ('Base', 'LargeV3') still resolve.
+   */
+  get(id: string | undefined): ModelDefinition | undefined {
+    if (!id) return undefined;
+    const key = id.trim().toLowerCase();
+    return this.models.find(model => model.id === key || (model.aliases || []).includes(key));
+  }
+
+  /**
+   * The registry id for `id`, or the default model if it is unknown
+   */
+  resolveId(id: string | undefined): ModelId {
+    return this.get(id)?.id ?? DEFAULT_MODEL_ID;
+  }
+
+  label(id: string | undefined): string {
+    return this.get(id)?.name ?? id ?? '';
+  }
+
+  /**
+   * Picker label, e.g. "Base (English, Q5_1) · 57 MB"
+   */
+  optionLabel(model: ModelDefinition): string {
+    const recommended = model.id === DEFAULT_MODEL_ID ? ' · Recommended' : '';
+    return `${model.name} · ${formatModelSize(model.size_mb)}${recommended}`;
+  }
+
+  /**
+   * Size classes in manifest order: 'tiny', 'base', ...
+   */
+  families(): string[] {
+    return [...new Set(this.builtinModels.map(model => model.family))];
+  }
+
+  /**
+   * The model of `family` closest to `current`: same language scope, quantization and
+   * distillation if the family has one, otherwise the family's standard model. Lets
+   * recommendations move between sizes without dropping a user's .en or quantized choice.
+   */
+  variantFor(family: string, current?: ModelId): ModelDefinition | undefined {
+    const currentModel = this.get(current);
+    if (currentModel?.family === family) return currentModel;
+
+    const candidates = this.builtinModels.filter(model => model.family === family);
+    const match = currentModel && candidates.find(model =>
+      model.language === currentModel.language &&
+      model.quantization === currentModel.quantization &&
+      Boolean(model.distilled) === Boolean(currentModel.distilled)
+    );
+    return match || this.get(family) || candidates[0];
+  }
+}
+
+export function formatModelSize(sizeMb: number): string {
+  if (sizeMb >= 1024) {
+    return `${(sizeMb / 1024).toFixed(1)} GB`;
+  }
+  return `${sizeMb} MB`;
+}
+
+// Export singleton instance
+export const modelRegistry = ModelRegistry.getInstance();
@@ -0,0 +1,173 @@
+import type { OllamaConfig, PostProcessingModel } from './types';
+import { ModelError, NetworkError } from './errorHandler';
+import electronService from '../services/electronService';
+import type { OllamaRequest } from '../types/electron';
+
+export const DEFAULT_OLLAMA_CONFIG: OllamaConfig = {
+  enabled: true,
+  base_url: 'http://localhost:11434',
+  timeout_ms: 120000,
+  context_tokens: 8192,
+};
+
+export class OllamaUnavailableError extends NetworkError {
+  constructor(message: string) {
+    super(message, 'OLLAMA_UNAVAILABLE');
+    this.name = 'OllamaUnavailableError';
+  }
+}
+
+export class OllamaModelMissingError extends ModelError {
+  constructor(public model: string) {
+    super(`Ollama model "${model}" is not installed. Run: ollama pull ${model}`, 'OLLAMA_MODEL_MISSING');
+    this.name = 'OllamaModelMissingError';
+  }
+}
+
+export interface OllamaGenerateOptions {
+  system?: string;
+  format?: 'json';
+  temperature?: number;
+  num_ctx?: number;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; model?: string }>;
+}
+
+interface OllamaGenerateResponse {
+  response?: string;
+  error?: string;
+}
+
+/**
+ * Minimal client for a local Ollama HTTP endpoint
+ */
+export class OllamaClient {
+  private baseUrl: string;
+  private timeoutMs: number;
+  private contextTokens: number;
+  private knownModels = new Map<string, boolean>();
+
+  constructor(config: Partial<OllamaConfig> = {}) {
+    this.baseUrl = (config.base_url || DEFAULT_OLLAMA_CONFIG.base_url).replace(/\/+$/, '');
+    this.timeoutMs = config.timeout_ms || DEFAULT_OLLAMA_CONFIG.timeout_ms;
+    this.contextTokens = config.context_tokens || DEFAULT_OLLAMA_CONFIG.context_tokens;
+  }
+
+  /**
+   * List installed model tags, e.g. "llama3.2:latest"
+   */
+  async listModels(): Promise<string[]> {
+    const data = await this.request<OllamaTagsResponse>('/api/tags', { method: 'GET' }, 5000);
+    return (data.models || []).map(m => m.name || m.model || '').filter(Boolean);
+  }
+
+  /**
+   * Check whether a model is installed. A bare name like "phi3.5" matches any of its tags.
+   */
+  async hasModel(model: string): Promise<boolean> {
+    const known = this.knownModels.get(model);
+    if (known !== undefined) return known;
+
+    const installed = await this.listModels();
+    const found = installed.some(name => name === model || name.startsWith(`${model}:`));
+    this.knownModels.set(model, found);
+    return found;
+  }
+
+  /**
+   * Send a prompt to the given model and return the complete reply
+   */
+  async generate(model: PostProcessingModel, prompt: string, options: OllamaGenerateOptions = {}): Promise<string> {
+    if (!(await this.hasModel(model))) {
+      throw new OllamaModelMissingError(model);
+    }
+
+    const data = await this.request<OllamaGenerateResponse>('/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        prompt,
+        system: options.system,
+        format: options.format,
+        stream: false,
+        options: {
+          temperature: options.temperature ?? 0.2,
+          num_ctx: options.num_ctx ?? this.contextTokens,
+        },
+      }),
+    }, this.timeoutMs);
+
+    if (data.error) {
+      if (/not found/i.test(data.error)) {
+        throw new OllamaModelMissingError(model);
+      }
+      throw new OllamaUnavailableError(data.error);
+    }
+
+    return (data.response || '').trim();
+  }
+
+  private async request<T>(path: OllamaRequest['path'], init: RequestInit, timeoutMs: number): Promise<T> {
+    // The desktop app's CSP only allows local connections, so it goes through the main process
+    if (electronService.isElectron) {
+      return this.requestViaMain<T>(path, init, timeoutMs);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        this.throwForStatus(response.status, await response.text().catch(() => ''));
+      }
+      return await response.json() as T;
+    } catch (error) {
+      if (error instanceof OllamaModelMissingError || error instanceof OllamaUnavailableError) {
+        throw error;
+      }
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new OllamaUnavailableError(`Ollama request timed out after ${timeoutMs}ms`);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OllamaUnavailableError(`Could not reach Ollama at ${this.baseUrl}: ${message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // The main process sends it to the Ollama URL from the settings
+  private async requestViaMain<T>(path: OllamaRequest['path'], init: RequestInit, timeoutMs: number): Promise<T> {
+    const response = await electronService.ollamaRequest({
+      path,
+      method: init.method === 'POST' ? 'POST' : 'GET',
+      body: typeof init.body === 'string' ? init.body : undefined,
+      timeoutMs,
+    });
+    if (!response || response.error !== undefined) {
+      if (response?.timedOut) {
+        throw new OllamaUnavailableError(`Ollama request timed out after ${timeoutMs}ms`);
+      }
+      throw new OllamaUnavailableError(`Could not reach Ollama at ${this.baseUrl}: ${response?.error || 'no response'}`);
+    }
+    if (!response.ok) {
+      this.throwForStatus(response.status, response.body || '');
+    }
+    try {
+      return JSON.parse(response.body || '') as T;
+    } catch {
+      throw new OllamaUnavailableError(`Ollama at ${this.baseUrl} returned a response that is not JSON`);
+    }
+  }
+
+  private throwForStatus(status: number, body: string): never {
+    if (status === 404 && /model/i.test(body)) {
+      const match = body.match(/model ['"]?([^'"\s]+)['"]? not found/i);
+      throw new OllamaModelMissingError(match ? match[1] : 'unknown');
+    }
+    throw new OllamaUnavailableError(`Ollama returned HTTP ${status}${body ? `: ${body}` : ''}`);
+  }
+}
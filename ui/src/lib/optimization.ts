@@ -1,10 +1,26 @@
 import type { 
-  ModelSize, 
+  ModelId, 
   ModelRecommendation, 
   GPURecommendation, 
   OptimizationSuggestion,
-  FileInfo 
+  MediaInfo,
+  ProcessingTimeEstimate,
+  ThroughputSample,
+  TurnaroundRecommendation
 } from './types';
+import { modelRegistry } from './modelRegistry';
+import { throughputHistory } from './throughputHistory';
+import { formatDuration } from './utils';
+
+// Measured speeds average the most recent runs, so upgrades and driver changes show up quickly
+const RECENT_SAMPLES_PER_MODEL = 20;
+const RECENT_SAMPLES_PER_DEVICE = 50;
+
+// How much faster than its relative_speed a model runs here (1 = as listed in the manifest)
+interface MachineSpeed {
+  factor: number;
+  samples: number;
+}
 
 export class OptimizationEngine {
   private static instance: OptimizationEngine;
@@ -17,62 +33,74 @@ export class OptimizationEngine {
   }
 
   /**
-   * Analyze file characteristics and recommend optimal model size
+   * Analyze file characteristics and recommend optimal model size. Recommendations keep the
+   * language scope and quantization of `currentModel` where the registry has a match.
+   * `media` is the file's probed metadata; without it the duration is guessed from the size.
+   * With a `turnaround` target, a measured duration and throughput history, the recommendation
+   * is the most accurate model predicted to finish in time.
    */
-  analyzeFileForModelRecommendation(file: File): ModelRecommendation {
+  analyzeFileForModelRecommendation(
+    file: File,
+    currentModel?: ModelId,
+    media?: MediaInfo | null,
+    turnaround?: { useGpu: boolean; targetSeconds: number }
+  ): ModelRecommendation {
+    if (media?.duration && turnaround && turnaround.targetSeconds > 0) {
+      const recommendation = this.recommendForTurnaround(media.duration, turnaround.useGpu, turnaround.targetSeconds, currentModel);
+      if (recommendation) return recommendation;
+    }
+
     const fileSizeMB = file.size / (1024 * 1024);
-    const fileName = file.name.toLowerCase();
-    const isVideo = fileName.includes('.mp4') || fileName.includes('.avi') || fileName.includes('.mov') || fileName.includes('.mkv');
+    const estimatedDurationMinutes = this.getDurationMinutes(file, media);
     
-    // Estimate duration based on file size (rough approximation)
-    const estimatedDurationMinutes = this.estimateFileDuration(fileSizeMB, isVideo);
-    
-    let recommendedModel: ModelSize;
+    const pick = (family: string): ModelId => modelRegistry.variantFor(family, currentModel)?.id ?? family;
+
+    let recommendedModel: ModelId;
     let reason: string;
     let confidence: number;
-    let alternatives: { model: ModelSize; reason: string; }[] = [];
+    let alternatives: { model: ModelId; reason: string; }[] = [];
 
     if (estimatedDurationMinutes <= 5) {
       // Short files - prioritize speed
-      recommendedModel = 'Base';
+      recommendedModel = pick('base');
       reason = 'Short duration file - Base model provides good balance of speed and accuracy';
       confidence = 0.9;
       alternatives = [
-        { model: 'Tiny', reason: 'Even faster processing for quick previews' },
-        { model: 'Small', reason: 'Better accuracy for important short content' }
+        { model: pick('tiny'), reason: 'Even faster processing for quick previews' },
+        { model: pick('small'), reason: 'Better accuracy for important short content' }
       ];
     } else if (estimatedDurationMinutes <= 30) {
       // Medium files - balance speed and quality
       if (fileSizeMB > 500) {
-        recommendedModel = 'Small';
+        recommendedModel = pick('small');
         reason = 'Medium-length, high-quality file - Small model offers better accuracy';
         confidence = 0.85;
       } else {
-        recommendedModel = 'Base';
+        recommendedModel = pick('base');
         reason = 'Medium-length file - Base model provides optimal speed/accuracy balance';
         confidence = 0.9;
       }
       alternatives = [
-        { model: 'Tiny', reason: 'Faster processing if speed is critical' },
-        { model: 'Medium', reason: 'Higher accuracy for professional use' }
+        { model: pick('tiny'), reason: 'Faster processing if speed is critical' },
+        { model: pick('medium'), reason: 'Higher accuracy for professional use' }
       ];
     } else if (estimatedDurationMinutes <= 120) {
       // Long files - prioritize accuracy
-      recommendedModel = 'Small';
+      recommendedModel = pick('small');
       reason = 'Long duration file - Small model recommended for better accuracy over time';
       confidence = 0.8;
       alternatives = [
-        { model: 'Base', reason: 'Faster processing with acceptable accuracy' },
-        { model: 'Medium', reason: 'Highest accuracy for critical transcriptions' }
+        { model: pick('base'), reason: 'Faster processing with acceptable accuracy' },
+        { model: pick('medium'), reason: 'Highest accuracy for critical transcriptions' }
       ];
     } else {
       // Very long files - suggest smaller models for practicality
-      recommendedModel = 'Base';
+      recommendedModel = pick('base');
       reason = 'Very long file - Base model balances processing time with accuracy';
       confidence = 0.75;
       alternatives = [
-        { model: 'Tiny', reason: 'Much faster processing for draft transcriptions' },
-        { model: 'Small', reason: 'Better accuracy if processing time is not critical' }
+        { model: pick('tiny'), reason: 'Much faster processing for draft transcriptions' },
+        { model: pick('small'), reason: 'Better accuracy if processing time is not critical' }
       ];
     }
 
@@ -87,9 +115,10 @@ export class OptimizationEngine {
   /**
    * Analyze file and system for GPU recommendations
    */
-  analyzeGPURecommendation(file: File, currentGPUSetting: boolean, systemInfo?: any): GPURecommendation {
+  analyzeGPURecommendation(file: File, currentGPUSetting: boolean, systemInfo?: any, media?: MediaInfo | null): GPURecommendation {
     const fileSizeMB = file.size / (1024 * 1024);
-    const estimatedDurationMinutes = this.estimateFileDuration(fileSizeMB, file.name.includes('.mp4'));
+    const estimatedDurationMinutes = this.getDurationMinutes(file, media);
+    const approximate = media?.duration ? '' : '~';
     
     // Check if GPU is available (mock implementation for browser)
     const gpuAvailable = systemInfo?.gpu_available || false;
@@ -98,7 +127,7 @@ export class OptimizationEngine {
     if (!gpuAvailable) {
       return {
         should_use_gpu: false,
-        reason: 'No compatible GPU detected',
+        reason: systemInfo?.gpu_reason || 'No compatible GPU detected',
         requirements: ['NVIDIA GPU with CUDA support', 'AMD GPU with OpenCL', 'Apple Silicon with Metal']
       };
     }
@@ -115,7 +144,7 @@ export class OptimizationEngine {
     if (estimatedDurationMinutes > 10 || fileSizeMB > 100) {
       return {
         should_use_gpu: true,
-        reason: `File duration (~${Math.round(estimatedDurationMinutes)} min) would benefit from GPU acceleration`,
+        reason: `File duration (${approximate}${Math.round(estimatedDurationMinutes)} min) would benefit from GPU acceleration`,
         estimated_speedup: this.calculateSpeedupEstimate(estimatedDurationMinutes, gpuType),
         requirements: ['Compatible GPU with sufficient VRAM (4GB+ recommended)']
       };
@@ -133,26 +162,32 @@ export class OptimizationEngine {
    */
   generateOptimizationSuggestions(
     file: File, 
-    currentModel: ModelSize, 
+    currentModel: ModelId, 
     currentGPU: boolean,
     currentFormat: string,
-    systemInfo?: any
+    systemInfo?: any,
+    media?: MediaInfo | null,
+    targetTurnaroundSeconds = 0
   ): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = [];
     
     // Model optimization
-    const modelRec = this.analyzeFileForModelRecommendation(file);
-    if (modelRec.recommended_model !== currentModel) {
+    const modelRec = this.analyzeFileForModelRecommendation(file, currentModel, media, {
+      useGpu: currentGPU,
+      targetSeconds: targetTurnaroundSeconds
+    });
+    if (modelRec.recommended_model !== modelRegistry.resolveId(currentModel)) {
       suggestions.push({
         type: 'model',
-        title: `Consider using ${modelRec.recommended_model} model`,
+        title: `Consider using ${modelRegistry.label(modelRec.recommended_model)} model`,
         description: modelRec.reason,
-        severity: modelRec.confidence > 0.8 ? 'warning' : 'suggestion'
+        severity: modelRec.confidence > 0.8 ? 'warning' : 'suggestion',
+        model: modelRec.recommended_model
       });
     }
 
     // GPU optimization
-    const gpuRec = this.analyzeGPURecommendation(file, currentGPU, systemInfo);
+    const gpuRec = this.analyzeGPURecommendation(file, currentGPU, systemInfo, media);
     if (gpuRec.should_use_gpu && !currentGPU) {
       suggestions.push({
         type: 'gpu',
@@ -175,6 +210,18 @@ export class OptimizationEngine {
     return suggestions;
   }
 
+  /**
+   * Duration in minutes: measured when the file was probed, otherwise estimated from its size
+   */
+  private getDurationMinutes(file: File, media?: MediaInfo | null): number {
+    if (media?.duration) {
+      return media.duration / 60;
+    }
+    const fileName = file.name.toLowerCase();
+    const isVideo = media ? media.has_video : /\.(mp4|avi|mov|mkv|webm)$/.test(fileName);
+    return this.estimateFileDuration(file.size / (1024 * 1024), isVideo);
+  }
+
   private estimateFileDuration(fileSizeMB: number, isVideo: boolean): number {
     // Rough estimation based on typical bitrates
     if (isVideo) {
@@ -186,7 +233,155 @@ export class OptimizationEngine {
     }
   }
 
+  /**
+   * Predict how long `model` takes to transcribe `audioSeconds` of audio on this machine,
+   * from the throughput history. A model that has not run with this GPU setting is scaled
+   * from the ones that have by its relative speed. Null until there is history to go on.
+   */
+  predictProcessingTime(model: ModelId, useGpu: boolean, audioSeconds: number): ProcessingTimeEstimate | null {
+    const definition = modelRegistry.get(model);
+    if (!definition || audioSeconds <= 0) return null;
+
+    const samples = this.knownSamples();
+    const own = samples
+      .filter(sample => sample.model === definition.id && sample.use_gpu === useGpu)
+      .slice(-RECENT_SAMPLES_PER_MODEL);
+    if (own.length > 0) {
+      // Total audio over total time, so long runs count for more than short ones
+      const speed = sum(own, sample => sample.audio_seconds) / sum(own, sample => sample.wall_seconds);
+      return { seconds: audioSeconds / speed, basis: 'measured', samples: own.length };
+    }
+
+    const machine = this.machineSpeed(samples, useGpu);
+    if (!machine) return null;
+    return {
+      seconds: audioSeconds / (machine.factor * definition.relative_speed),
+      basis: 'extrapolated',
+      samples: machine.samples
+    };
+  }
+
+  /**
+   * How many times faster GPU runs are than CPU runs here, once both have been measured
+   */
+  measuredGpuSpeedup(): number | null {
+    const samples = this.knownSamples();
+    const gpu = this.measuredMachineSpeed(samples, true);
+    const cpu = this.measuredMachineSpeed(samples, false);
+    return gpu && cpu ? gpu.factor / cpu.factor : null;
+  }
+
+  /**
+   * Pick a model for a job that should take at most `targetSeconds`: the most accurate size
+   * predicted to finish in time, or the fastest one if none is. Candidates are one model per
+   * size class, keeping the language scope and quantization of `currentModel`. Null without
+   * throughput history.
+   */
+  recommendModelForTurnaround(
+    audioSeconds: number,
+    useGpu: boolean,
+    targetSeconds: number,
+    currentModel?: ModelId
+  ): TurnaroundRecommendation | null {
+    const candidates: { model: ModelId; estimate: ProcessingTimeEstimate }[] = [];
+    for (const family of modelRegistry.families()) {
+      const model = modelRegistry.variantFor(family, currentModel);
+      const estimate = model && this.predictProcessingTime(model.id, useGpu, audioSeconds);
+      if (model && estimate) {
+        candidates.push({ model: model.id, estimate });
+      }
+    }
+    if (candidates.length === 0) return null;
+
+    // Families are listed smallest first, so the last one in time is the most accurate
+    const inTime = candidates.filter(candidate => candidate.estimate.seconds <= targetSeconds);
+    if (inTime.length > 0) {
+      return { ...inTime[inTime.length - 1], meets_target: true };
+    }
+    const fastest = candidates.reduce((best, candidate) =>
+      candidate.estimate.seconds < best.estimate.seconds ? candidate : best
+    );
+    return { ...fastest, meets_target: false };
+  }
+
+  private recommendForTurnaround(
+    audioSeconds: number,
+    useGpu: boolean,
+    targetSeconds: number,
+    currentModel?: ModelId
+  ): ModelRecommendation | null {
+    const recommendation = this.recommendModelForTurnaround(audioSeconds, useGpu, targetSeconds, currentModel);
+    if (!recommendation) return null;
+
+    const { model, estimate, meets_target } = recommendation;
+    const predicted = `about ${formatDuration(estimate.seconds)} on this machine`;
+    const target = formatDuration(targetSeconds);
+    const reason = meets_target
+      ? `Most accurate model predicted to finish within the ${target} target (${predicted})`
+      : `No model is predicted to finish within ${target}; this is the fastest (${predicted})`;
+
+    const alternatives: { model: ModelId; reason: string }[] = [];
+    const families = modelRegistry.families();
+    const index = families.indexOf(modelRegistry.get(model)?.family ?? '');
+    for (const family of [families[index - 1], families[index + 1]]) {
+      const alternative = family && modelRegistry.variantFor(family, currentModel);
+      const alternativeEstimate = alternative && this.predictProcessingTime(alternative.id, useGpu, audioSeconds);
+      if (alternative && alternativeEstimate) {
+        alternatives.push({
+          model: alternative.id,
+          reason: `About ${formatDuration(alternativeEstimate.seconds)}${alternativeEstimate.seconds > targetSeconds ? ', over the target' : ''}`
+        });
+      }
+    }
+
+    return {
+      recommended_model: model,
+      reason,
+      // Measured speeds are trusted enough to switch models automatically
+      confidence: estimate.basis === 'measured' ? 0.9 : 0.8,
+      alternatives
+    };
+  }
+
+  /**
+   * History samples whose model is still in the registry, with ids resolved from aliases
+   */
+  private knownSamples(): ThroughputSample[] {
+    return throughputHistory.list().flatMap(sample => {
+      const model = modelRegistry.get(sample.model);
+      return model ? [{ ...sample, model: model.id }] : [];
+    });
+  }
+
+  /**
+   * Speed of this machine relative to the manifest's relative_speed values. Without runs on
+   * the requested device, the other device's speed is converted with the measured GPU speedup.
+   */
+  private machineSpeed(samples: ThroughputSample[], useGpu: boolean): MachineSpeed | null {
+    const measured = this.measuredMachineSpeed(samples, useGpu);
+    if (measured) return measured;
+
+    const other = this.measuredMachineSpeed(samples, !useGpu);
+    const speedup = this.measuredGpuSpeedup();
+    if (!other || !speedup) return null;
+    return { factor: useGpu ? other.factor * speedup : other.factor / speedup, samples: other.samples };
+  }
+
+  private measuredMachineSpeed(samples: ThroughputSample[], useGpu: boolean): MachineSpeed | null {
+    const recent = samples.filter(sample => sample.use_gpu === useGpu).slice(-RECENT_SAMPLES_PER_DEVICE);
+    if (recent.length === 0) return null;
+    // Each run's speed divided by its model's listed speed, weighted by audio length
+    const weighted = sum(recent, sample =>
+      (sample.audio_seconds / sample.wall_seconds / (modelRegistry.get(sample.model)?.relative_speed || 1)) * sample.audio_seconds
+    );
+    return { factor: weighted / sum(recent, sample => sample.audio_seconds), samples: recent.length };
+  }
+
   private calculateSpeedupEstimate(durationMinutes: number, gpuType?: string): string {
+    const measured = this.measuredGpuSpeedup();
+    if (measured) {
+      return `${measured.toFixed(1)}x faster (measured on this machine)`;
+    }
     if (durationMinutes < 5) return '1.5-2x faster';
     if (durationMinutes < 30) return '2-4x faster';
     if (durationMinutes < 120) return '3-6x faster';
@@ -250,5 +445,9 @@ export class OptimizationEngine {
   }
 }
 
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
 // Export singleton instance
 export const optimizationEngine = OptimizationEngine.getInstance();
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SUBTITLE_OPTIONS, buildCues, formatTimestamp, serializeTranscript, toSrt, toVtt } from './outputFormats';
+import type { SubtitleOptions, TranscriptionSegment } from './types';
+
+const options = (overrides: Partial<SubtitleOptions> = {}): SubtitleOptions => ({ ...DEFAULT_SUBTITLE_OPTIONS, ...overrides });
+
+const LONG_TEXT = 'The quarterly numbers came in well above what anyone on the finance team had expected, ' +
+  'so the meeting moved straight on to how the extra budget should be spent next year';
+
+describe('formatTimestamp', () => {
+  it('writes SRT times with a comma and WebVTT times with a dot', () => {
+    expect(formatTimestamp(3661.5, 'srt')).toBe('01:01:01,500');
+    expect(formatTimestamp(3661.5, 'vtt')).toBe('01:01:01.500');
+  });
+
+  it('rounds to the millisecond and carries into the seconds', () => {
+    expect(formatTimestamp(1.0004, 'srt')).toBe('00:00:01,000');
+    expect(formatTimestamp(59.9996, 'srt')).toBe('00:01:00,000');
+  });
+
+  it('clamps negative times to zero and keeps counting hours past a day', () => {
+    expect(formatTimestamp(-2, 'vtt')).toBe('00:00:00.000');
+    expect(formatTimestamp(100 * 3600, 'srt')).toBe('100:00:00,000');
+  });
+});
+
+describe('buildCues', () => {
+  it('keeps a short segment as one single-line cue', () => {
+    const cues = buildCues([{ start: 1, end: 3, text: '  Hello   there. ' }], options());
+    expect(cues).toEqual([{ index: 1, start: 1, end: 3, lines: ['Hello there.'], speaker: undefined }]);
+  });
+
+  it('wraps and splits long text within the line and lines-per-cue limits', () => {
+    const cues = buildCues([{ start: 0, end: 6, text: LONG_TEXT }], options({ max_chars_per_line: 32, max_lines_per_cue: 2 }));
+
+    expect(cues.length).toBeGreaterThan(1);
+    for (const cue of cues) {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      cue.lines.forEach(line => expect(line.length).toBeLessThanOrEqual(32));
+    }
+    expect(cues.flatMap(cue => cue.lines).join(' ')).toBe(LONG_TEXT);
+    expect(cues[0].start).toBe(0);
+    expect(cues[cues.length - 1].end).toBe(6);
+  });
+
+  it('leaves room on the first line for the speaker prefix', () => {
+    const [cue] = buildCues([{ start: 0, end: 4, text: 'one two three four five six seven eight', speaker: 'SPEAKER_1' }],
+      options({ max_chars_per_line: 30 }));
+    expect(`SPEAKER_1: ${cue.lines[0]}`.length).toBeLessThanOrEqual(30);
+  });
+
+  it('splits segments longer than the maximum cue duration', () => {
+    const cues = buildCues([{ start: 10, end: 30, text: 'a slow speaker says only these few words here' }], options({ max_cue_duration: 7 }));
+
+    expect(cues).toHaveLength(3);
+    cues.forEach(cue => expect(cue.end - cue.start).toBeLessThanOrEqual(7 + 1e-9));
+    // Back to back, covering the segment
+    expect(cues[0].start).toBe(10);
+    expect(cues[1].start).toBe(cues[0].end);
+    expect(cues[2].end).toBe(30);
+  });
+
+  it('stretches short cues to the minimum duration without overlapping the next one', () => {
+    const cues = buildCues([
+      { start: 0, end: 0.2, text: 'Yes.' },
+      { start: 5, end: 5.2, text: 'No.' },
+      { start: 5.5, end: 6, text: 'Maybe.' },
+    ], options({ min_cue_duration: 1 }));
+
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([[0, 1], [5, 5.5], [5.5, 6.5]]);
+  });
+
+  it('times split cues by word timings when the segment has them', () => {
+    const text = 'alpha beta gamma delta';
+    const segment: TranscriptionSegment = {
+      start: 0,
+      end: 20,
+      text,
+      words: [
+        { word: 'alpha', start: 0, end: 1 },
+        { word: 'beta', start: 1.5, end: 2 },
+        { word: 'gamma', start: 12, end: 13 },
+        { word: 'delta', start: 14, end: 15 },
+      ],
+    };
+    const cues = buildCues([segment], options({ max_cue_duration: 10 }));
+
+    expect(cues.map(cue => cue.lines.join(' '))).toEqual(['alpha beta', 'gamma delta']);
+    expect(cues[0].end).toBe(2);
+    expect(cues[1].start).toBe(12);
+  });
+
+  it('sorts segments and skips empty or reversed ones', () => {
+    const cues = buildCues([
+      { start: 8, end: 9, text: 'second' },
+      { start: 2, end: 3, text: '   ' },
+      { start: 6, end: 5, text: 'reversed' },
+      { start: 1, end: 2, text: 'first' },
+    ], options());
+    expect(cues.map(cue => [cue.index, cue.lines[0]])).toEqual([[1, 'first'], [2, 'second']]);
+  });
+});
+
+describe('SRT and WebVTT output', () => {
+  const cues = buildCues([
+    { start: 0, end: 1.5, text: 'Hello & <welcome>', speaker: 'Ana' },
+    { start: 2, end: 3.25, text: 'Thanks.' },
+  ], options());
+
+  it('writes numbered SRT cues with the speaker in the text', () => {
+    expect(toSrt(cues, options())).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nAna: Hello & <welcome>\n\n' +
+      '2\n00:00:02,000 --> 00:00:03,250\nThanks.\n'
+    );
+  });
+
+  it('writes WebVTT with a header, escaped text and voice spans', () => {
+    expect(toVtt(cues, options())).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:01.500\n<v Ana>Hello &amp; &lt;welcome&gt;\n\n' +
+      '2\n00:00:02.000 --> 00:00:03.250\nThanks.\n'
+    );
+  });
+
+  it('leaves speakers out when the prefix is off', () => {
+    expect(toSrt(cues, options({ speaker_prefix: false }))).not.toContain('Ana');
+    expect(toVtt(cues, options({ speaker_prefix: false }))).not.toContain('<v ');
+  });
+
+  it('estimates one cue over the duration when the transcript has no segments', () => {
+    expect(serializeTranscript('Srt', { text: 'Just text.', duration: 4 })).toBe('1\n00:00:00,000 --> 00:00:04,000\nJust text.\n');
+    expect(serializeTranscript('Vtt', { text: '  ' })).toBe('WEBVTT\n');
+  });
+});
@@ -0,0 +1,240 @@
+import type { OutputFormat, SubtitleCue, SubtitleOptions, TranscriptionSegment } from './types';
+import { createTranscriptDocument, writeTranscriptJson, type TranscriptDocumentContext } from './transcriptSchema';
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  max_chars_per_line: 42,
+  max_lines_per_cue: 2,
+  min_cue_duration: 1,
+  max_cue_duration: 7,
+  speaker_prefix: true,
+};
+
+export const OUTPUT_FORMAT_FILES: Record<OutputFormat, { extension: string; mimeType: string }> = {
+  Text: { extension: 'txt', mimeType: 'text/plain' },
+  Json: { extension: 'json', mimeType: 'application/json' },
+  Srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  Vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+// Used to estimate timings when a transcript has no segments
+const WORDS_PER_SECOND = 2.5;
+
+export interface TranscriptOutput {
+  text: string;
+  segments?: TranscriptionSegment[];
+  language?: string;
+  duration?: number;
+}
+
+/**
+ * Serialize a transcript in the given output format
+ */
+export function serializeTranscript(
+  format: OutputFormat,
+  transcript: TranscriptOutput,
+  options: { timestamps?: boolean; subtitles?: SubtitleOptions; document?: TranscriptDocumentContext } = {}
+): string {
+  const subtitleOptions = { ...DEFAULT_SUBTITLE_OPTIONS, ...options.subtitles };
+
+  switch (format) {
+    case 'Srt':
+      return toSrt(buildCues(segmentsFor(transcript), subtitleOptions), subtitleOptions);
+    case 'Vtt':
+      return toVtt(buildCues(segmentsFor(transcript), subtitleOptions), subtitleOptions);
+    case 'Json':
+      return writeTranscriptJson(createTranscriptDocument(transcript, options.document));
+    default:
+      return toPlainText(transcript, options.timestamps ?? false);
+  }
+}
+
+/**
+ * Plain text, optionally with one "[h:mm:ss] Speaker: text" line per segment
+ */
+export function toPlainText(transcript: TranscriptOutput, timestamps: boolean): string {
+  if (!timestamps || !transcript.segments?.length) {
+    return transcript.text;
+  }
+
+  return transcript.segments
+    .filter(segment => segment.text.trim())
+    .map(segment => `[${formatTimestamp(segment.start, 'srt').slice(0, 8)}] ${segment.speaker ? `${segment.speaker}: ` : ''}${segment.text.trim()}`)
+    .join('\n');
+}
+
+export function toSrt(cues: SubtitleCue[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): string {
+  return cues.map(cue => {
+    const lines = [...cue.lines];
+    if (options.speaker_prefix && cue.speaker) {
+      lines[0] = `${cue.speaker}: ${lines[0]}`;
+    }
+    return `${cue.index}\n${formatTimestamp(cue.start, 'srt')} --> ${formatTimestamp(cue.end, 'srt')}\n${lines.join('\n')}\n`;
+  }).join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): string {
+  const body = cues.map(cue => {
+    const text = cue.lines.map(escapeVtt).join('\n');
+    // WebVTT voice spans carry the speaker without adding it to the visible text
+    const voiced = options.speaker_prefix && cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}` : text;
+    return `${cue.index}\n${formatTimestamp(cue.start, 'vtt')} --> ${formatTimestamp(cue.end, 'vtt')}\n${voiced}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+}
+
+/**
+ * Format seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+export function formatTimestamp(seconds: number, format: 'srt' | 'vtt'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number) => value.toString().padStart(length, '0');
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+}
+
+/**
+ * Turn transcript segments into subtitle cues. Long segments are wrapped into lines and
+ * split across cues, timed by their words when the segment has word timings and otherwise
+ * with each cue's time share proportional to its length. Cues are then
+ * stretched to the minimum duration where the next cue leaves room, and never overlap.
+ */
+export function buildCues(segments: TranscriptionSegment[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] {
+  const maxLines = Math.max(1, Math.floor(options.max_lines_per_cue));
+  const maxChars = Math.max(10, Math.floor(options.max_chars_per_line));
+  const cues: Omit<SubtitleCue, 'index'>[] = [];
+
+  const sorted = segments
+    .filter(segment => segment.text && segment.text.trim() && segment.end >= segment.start)
+    .sort((a, b) => a.start - b.start);
+
+  for (const segment of sorted) {
+    const text = segment.text.trim().replace(/\s+/g, ' ');
+    const prefixWidth = options.speaker_prefix && segment.speaker ? segment.speaker.length + 2 : 0;
+    const duration = segment.end - segment.start;
+
+    // Enough pieces to respect both the line limit and the maximum cue duration
+    const byLines = Math.ceil(wrapLines(text, maxChars, prefixWidth).length / maxLines);
+    const byDuration = options.max_cue_duration > 0 ? Math.ceil(duration / options.max_cue_duration) : 1;
+    let pieces = splitWords(text, Math.max(byLines, byDuration, 1));
+
+    // Evenly split pieces can still wrap onto too many lines; split those again
+    pieces = pieces.flatMap(piece => {
+      const lines = wrapLines(piece, maxChars, prefixWidth);
+      return lines.length <= maxLines ? [piece] : chunkLines(lines, maxLines).map(group => group.join(' '));
+    });
+
+    const totalChars = pieces.reduce((sum, piece) => sum + piece.length, 0) || 1;
+    // Word timings only line up with the pieces when both split into the same words
+    const timedWords = segment.words && segment.words.length === text.split(' ').length ? segment.words : null;
+    let wordIndex = 0;
+    let cursor = segment.start;
+    pieces.forEach((piece, index) => {
+      const wordCount = piece.split(' ').length;
+      const start = timedWords && index > 0 ? Math.max(cursor, timedWords[wordIndex].start) : cursor;
+      const end = index === pieces.length - 1
+        ? segment.end
+        : timedWords
+          ? Math.max(start, timedWords[wordIndex + wordCount - 1].end)
+          : cursor + duration * (piece.length / totalChars);
+      wordIndex += wordCount;
+      cues.push({
+        start,
+        end,
+        lines: wrapLines(piece, maxChars, prefixWidth),
+        speaker: segment.speaker,
+      });
+      cursor = end;
+    });
+  }
+
+  // Enforce minimum duration without running into the next cue, and remove overlaps
+  for (let i = 0; i < cues.length; i++) {
+    const next = cues[i + 1];
+    if (cues[i].end - cues[i].start < options.min_cue_duration) {
+      cues[i].end = cues[i].start + options.min_cue_duration;
+    }
+    if (next && cues[i].end > next.start) {
+      cues[i].end = Math.max(cues[i].start, next.start);
+    }
+  }
+
+  return cues.map((cue, index) => ({ ...cue, index: index + 1 }));
+}
+
+/**
+ * Segments for subtitle output; transcripts without segments get one estimated segment
+ */
+function segmentsFor(transcript: TranscriptOutput): TranscriptionSegment[] {
+  if (transcript.segments?.length) {
+    return transcript.segments;
+  }
+  if (!transcript.text.trim()) {
+    return [];
+  }
+
+  const words = transcript.text.trim().split(/\s+/).length;
+  return [{ start: 0, end: transcript.duration || words / WORDS_PER_SECOND, text: transcript.text }];
+}
+
+/**
+ * Greedy word wrap. The first line is shortened by `firstLineReserve` characters (for a speaker prefix).
+ */
+function wrapLines(text: string, maxChars: number, firstLineReserve: number = 0): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    const limit = lines.length === 0 ? Math.max(10, maxChars - firstLineReserve) : maxChars;
+    if (current && current.length + 1 + word.length > limit) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Split text on word boundaries into `count` pieces of roughly equal length
+ */
+function splitWords(text: string, count: number): string[] {
+  const words = text.split(' ');
+  if (count <= 1 || words.length <= 1) return [text];
+
+  const pieces: string[] = [];
+  const target = text.length / Math.min(count, words.length);
+  let current: string[] = [];
+  let length = 0;
+
+  for (const word of words) {
+    if (current.length > 0 && length + word.length / 2 > target && pieces.length < count - 1) {
+      pieces.push(current.join(' '));
+      current = [];
+      length = 0;
+    }
+    current.push(word);
+    length += word.length + 1;
+  }
+  if (current.length > 0) pieces.push(current.join(' '));
+
+  return pieces;
+}
+
+function chunkLines(lines: string[], size: number): string[][] {
+  const groups: string[][] = [];
+  for (let i = 0; i < lines.length; i += size) {
+    groups.push(lines.slice(i, i + size));
+  }
+  return groups;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
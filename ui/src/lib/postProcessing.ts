@@ -1,9 +1,36 @@
 import type {
   PostProcessingConfig,
   PostProcessingModel,
-  SummaryFormat,
-  ProcessedTranscript
+  PostProcessingBackend,
+  PostProcessingProgress,
+  BuiltinSummaryFormat,
+  ProcessedTranscript,
+  TranscriptionSegment,
+  TranscriptMetadata
 } from './types';
+import { OllamaClient, DEFAULT_OLLAMA_CONFIG } from './ollama';
+import { chunkTranscript, estimateTokens, type TranscriptChunk } from './chunking';
+import { promptTemplateStore, templateVariables, type TemplateVariables } from './promptTemplates';
+import { vocabularyStore } from './vocabulary';
+
+// Share of the model context window used for transcript text; the rest is left for the prompt and reply
+const CHUNK_CONTEXT_RATIO = 0.5;
+const MAX_MERGE_PASSES = 3;
+
+export interface ProcessTranscriptOptions {
+  segments?: TranscriptionSegment[];
+  metadata?: TranscriptMetadata;
+  onProgress?: (progress: PostProcessingProgress) => void;
+}
+
+interface ProcessingSession {
+  ollama: OllamaClient | null;
+  warnings: string[];
+  // Values for the summary prompt template's {{variables}}
+  variables: TemplateVariables;
+}
+
+type Summary = NonNullable<ProcessedTranscript['summary']>;
 
 export class PostProcessingEngine {
   private static instance: PostProcessingEngine;
@@ -16,11 +43,14 @@ export class PostProcessingEngine {
   }
 
   /**
-   * Process transcript with formatting and summarization
+   * Process transcript with formatting and summarization.
+   * Long transcripts are split into chunks on segment boundaries; each chunk is
+   * formatted and summarized separately and the chunk summaries are merged.
    */
   async processTranscript(
     originalText: string,
-    config: PostProcessingConfig
+    config: PostProcessingConfig,
+    options: ProcessTranscriptOptions = {}
   ): Promise<ProcessedTranscript> {
     const startTime = Date.now();
     const result: ProcessedTranscript = {
@@ -28,32 +58,175 @@ export class PostProcessingEngine {
       processing_time: 0,
       models_used: {}
     };
+    const ollamaConfig = config.ollama || DEFAULT_OLLAMA_CONFIG;
+    const speakers = Array.from(new Set((options.segments || []).map(s => s.speaker).filter((s): s is string => !!s)));
+    const session: ProcessingSession = {
+      ollama: ollamaConfig.enabled ? new OllamaClient(ollamaConfig) : null,
+      warnings: [],
+      variables: templateVariables({ ...options.metadata, speakers }, config.summarization.max_length),
+    };
+
+    const formatEnabled = config.enabled && config.text_formatting.enabled;
+    const summarizeEnabled = config.enabled && config.summarization.enabled;
+    const contextTokens = ollamaConfig.context_tokens || DEFAULT_OLLAMA_CONFIG.context_tokens;
+    const chunkBudget = Math.max(256, Math.floor(contextTokens * CHUNK_CONTEXT_RATIO));
+    const chunks = chunkTranscript(originalText, options.segments, chunkBudget);
+    if (chunks.length === 0) {
+      chunks.push({ index: 0, text: originalText });
+    }
+
+    const totalSteps = (formatEnabled ? chunks.length : 0) +
+      (summarizeEnabled ? chunks.length + (chunks.length > 1 ? 1 : 0) : 0);
+    let completedSteps = 0;
+    const report = (stage: PostProcessingProgress['stage'], chunk: number, message: string) => {
+      options.onProgress?.({
+        stage,
+        chunk,
+        total_chunks: chunks.length,
+        progress: totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 100,
+        message,
+      });
+    };
 
     // Step 1: Text Formatting
-    if (config.enabled && config.text_formatting.enabled) {
-      result.formatted_text = await this.formatText(originalText, config.text_formatting);
+    let workingChunks: TranscriptChunk[] = chunks;
+    if (formatEnabled) {
+      let backend: PostProcessingBackend = 'ollama';
+      const formattedChunks: TranscriptChunk[] = [];
+
+      for (const chunk of chunks) {
+        report('formatting', chunk.index + 1, this.describeStep('Formatting', chunk, chunks.length));
+        const formatted = await this.formatText(chunk.text, config.text_formatting, session);
+        if (formatted.backend === 'heuristic') backend = 'heuristic';
+        formattedChunks.push({ ...chunk, text: formatted.text });
+        completedSteps++;
+      }
+
+      workingChunks = formattedChunks;
+      result.formatted_text = formattedChunks.map(chunk => chunk.text).join('\n\n');
       result.models_used.formatting = config.text_formatting.model;
+      result.models_used.formatting_backend = backend;
     }
 
     // Step 2: Summarization
-    if (config.enabled && config.summarization.enabled) {
-      const textToSummarize = result.formatted_text || originalText;
-      result.summary = await this.generateSummary(textToSummarize, config.summarization);
+    if (summarizeEnabled) {
+      if (workingChunks.length === 1) {
+        report('summarizing', 1, 'Generating summary...');
+        const summarized = await this.generateSummary(workingChunks[0].text, config.summarization, session);
+        completedSteps++;
+        result.summary = summarized.summary;
+        result.models_used.summarization_backend = summarized.backend;
+      } else {
+        let backend: PostProcessingBackend = 'ollama';
+        const partials: Array<{ chunk: TranscriptChunk; summary: Summary }> = [];
+
+        // Map: summarize each chunk on its own
+        for (const chunk of workingChunks) {
+          report('summarizing', chunk.index + 1, this.describeStep('Summarizing', chunk, workingChunks.length));
+          const summarized = await this.generateSummary(chunk.text, config.summarization, session, {
+            part: chunk.index + 1,
+            total: workingChunks.length,
+            range: this.formatRange(chunk),
+          });
+          if (summarized.backend === 'heuristic') backend = 'heuristic';
+          partials.push({ chunk, summary: summarized.summary! });
+          completedSteps++;
+        }
+
+        // Reduce: merge the chunk summaries into the requested format
+        report('merging', workingChunks.length, `Merging ${partials.length} partial summaries...`);
+        const merged = await this.mergeSummaries(partials, workingChunks, config.summarization, session, chunkBudget);
+        if (merged.backend === 'heuristic') backend = 'heuristic';
+        completedSteps++;
+        result.summary = merged.summary;
+        result.models_used.summarization_backend = backend;
+      }
       result.models_used.summarization = config.summarization.model;
     }
 
+    if (session.warnings.length > 0) {
+      result.warnings = session.warnings;
+    }
+
     result.processing_time = Date.now() - startTime;
     return result;
   }
 
+  private describeStep(action: string, chunk: TranscriptChunk, total: number): string {
+    if (total === 1) return `${action} transcript...`;
+    const range = this.formatRange(chunk);
+    return `${action} chunk ${chunk.index + 1} of ${total}${range ? ` (${range})` : ''}...`;
+  }
+
+  private formatRange(chunk: TranscriptChunk): string | undefined {
+    if (chunk.start === undefined || chunk.end === undefined) return undefined;
+    const format = (seconds: number) => {
+      const h = Math.floor(seconds / 3600);
+      const m = Math.floor((seconds % 3600) / 60);
+      const s = Math.floor(seconds % 60);
+      return `${h > 0 ? `${h}:` : ''}${m.toString().padStart(h > 0 ? 2 : 1, '0')}:${s.toString().padStart(2, '0')}`;
+    };
+    return `${format(chunk.start)}–${format(chunk.end)}`;
+  }
+
   /**
-   * Format text for better readability
+   * Record an Ollama failure and stop using it for the rest of this run
    */
-  private async formatText(text: string, config: PostProcessingConfig['text_formatting']): Promise<string> {
+  private disableOllama(session: ProcessingSession, error: unknown, fallback: string) {
+    console.warn(`Ollama unavailable, falling back to built-in ${fallback}:`, error);
+    session.warnings.push(`${error instanceof Error ? error.message : String(error)} Used built-in ${fallback} instead.`);
+    session.ollama = null;
+  }
+
+  /**
+   * Format text with the selected Ollama model, falling back to local heuristics
+   */
+  private async formatText(
+    text: string,
+    config: PostProcessingConfig['text_formatting'],
+    session: ProcessingSession
+  ): Promise<{ text: string; backend: PostProcessingBackend }> {
+    if (session.ollama) {
+      try {
+        // User corrections are deterministic, so apply them before the model sees the text
+        const formatted = await session.ollama.generate(config.model, this.fixCommonTranscriptionErrors(text), {
+          system: this.buildFormattingPrompt(config),
+        });
+        if (formatted) {
+          return { text: formatted, backend: 'ollama' };
+        }
+        session.warnings.push(`Ollama (${config.model}) returned an empty formatting result; used built-in formatting instead.`);
+      } catch (error) {
+        this.disableOllama(session, error, 'formatting');
+      }
+    }
+
+    return { text: this.formatTextHeuristically(text, config), backend: 'heuristic' };
+  }
+
+  private buildFormattingPrompt(config: PostProcessingConfig['text_formatting']): string {
+    const instructions = ['Fix obvious transcription errors such as misheard technical terms.'];
+    const glossary = vocabularyStore.buildInitialPrompt();
+    if (glossary) instructions.push(`Spell these terms exactly as given. ${glossary}`);
+    if (config.add_paragraphs) instructions.push('Split the text into paragraphs at natural topic changes, separated by a blank line.');
+    if (config.fix_punctuation) instructions.push('Fix punctuation and capitalization.');
+    if (config.improve_readability) instructions.push('Remove filler words (um, uh, you know) and accidental word repetitions.');
+
+    return [
+      'You are an editor cleaning up a raw speech-to-text transcript.',
+      ...instructions,
+      'Do not summarize, add or remove content. Reply with the edited transcript only, no commentary.',
+    ].join('\n');
+  }
+
+  /**
+   * Format text for better readability using regex heuristics
+   */
+  private formatTextHeuristically(text: string, config: PostProcessingConfig['text_formatting']): string {
     console.log('🔍 formatText called with config:', config);
     console.log('📝 Original text length:', text.length);
     
-    // Simulate AI text formatting
+    // Heuristic text formatting
     let formattedText = text;
 
     // Fix common transcription errors first (especially for accents)
@@ -80,12 +253,201 @@ export class PostProcessingEngine {
   }
 
   /**
-   * Generate intelligent summary
+   * Generate a summary with the selected Ollama model, falling back to local heuristics.
+   * When `part` is given the text is one chunk of a longer transcript.
+   */
+  private async generateSummary(
+    text: string,
+    config: PostProcessingConfig['summarization'],
+    session: ProcessingSession,
+    part?: { part: number; total: number; range?: string }
+  ): Promise<{ summary: ProcessedTranscript['summary']; backend: PostProcessingBackend }> {
+    if (session.ollama) {
+      try {
+        // Chunk summaries use a neutral prompt; the user's template is applied when the parts are merged
+        const prompt = part ? text : promptTemplateStore.render(promptTemplateStore.get(config.format), { ...session.variables, transcript: text });
+        const reply = await session.ollama.generate(config.model, prompt, {
+          system: this.buildSummaryPrompt(config, part),
+          format: 'json',
+        });
+        const summary = this.parseSummaryReply(reply, config);
+        if (summary) {
+          return { summary, backend: 'ollama' };
+        }
+        session.warnings.push(`Ollama (${config.model}) returned an unusable summary; used built-in summarization instead.`);
+      } catch (error) {
+        this.disableOllama(session, error, 'summarization');
+      }
+    }
+
+    return { summary: this.generateSummaryHeuristically(text, config), backend: 'heuristic' };
+  }
+
+  /**
+   * Merge per-chunk summaries into one summary in the requested format.
+   * If the partial summaries are themselves too long for the context window
+   * they are merged in groups first.
+   */
+  private async mergeSummaries(
+    partials: Array<{ chunk: TranscriptChunk; summary: Summary }>,
+    sourceChunks: TranscriptChunk[],
+    config: PostProcessingConfig['summarization'],
+    session: ProcessingSession,
+    chunkBudget: number
+  ): Promise<{ summary: ProcessedTranscript['summary']; backend: PostProcessingBackend }> {
+    let current = partials;
+
+    for (let pass = 0; session.ollama && pass < MAX_MERGE_PASSES; pass++) {
+      const asSegments = current.map(({ chunk, summary }) => ({
+        start: chunk.start ?? 0,
+        end: chunk.end ?? 0,
+        text: this.describePartialSummary(chunk, summary),
+      }));
+      const combined = asSegments.map(segment => segment.text).join('\n\n');
+
+      if (estimateTokens(combined) <= chunkBudget) {
+        try {
+          const prompt = promptTemplateStore.render(promptTemplateStore.get(config.format), { ...session.variables, transcript: combined });
+          const reply = await session.ollama.generate(config.model, prompt, {
+            system: this.buildMergePrompt(config),
+            format: 'json',
+          });
+          const summary = this.parseSummaryReply(reply, config);
+          if (summary) {
+            return { summary, backend: 'ollama' };
+          }
+          session.warnings.push(`Ollama (${config.model}) returned an unusable merged summary; used built-in merging instead.`);
+        } catch (error) {
+          this.disableOllama(session, error, 'summarization');
+        }
+        break;
+      }
+
+      // Still too long: summarize groups of partial summaries, then try again
+      const groups = chunkTranscript(combined, asSegments, chunkBudget);
+      const next: typeof current = [];
+      for (const group of groups) {
+        const summarized = await this.generateSummary(group.text, config, session, {
+          part: group.index + 1,
+          total: groups.length,
+          range: this.formatRange(group),
+        });
+        if (summarized.backend === 'heuristic') break;
+        next.push({ chunk: group, summary: summarized.summary! });
+      }
+      if (next.length !== groups.length) break;
+      current = next;
+    }
+
+    return { summary: this.mergeSummariesHeuristically(partials, sourceChunks, config), backend: 'heuristic' };
+  }
+
+  private describePartialSummary(chunk: TranscriptChunk, summary: Summary): string {
+    const range = this.formatRange(chunk);
+    const lines = [`Part ${chunk.index + 1}${range ? ` (${range})` : ''}:`, summary.content];
+    if (summary.key_points?.length) lines.push('Key points: ' + summary.key_points.join('; '));
+    if (summary.action_items?.length) lines.push('Action items: ' + summary.action_items.join('; '));
+    if (summary.insights?.length) lines.push('Insights: ' + summary.insights.join('; '));
+    return lines.join('\n');
+  }
+
+  /**
+   * Combine chunk summaries without a model: lists are concatenated and de-duplicated,
+   * the main content is regenerated from the full text.
    */
-  private async generateSummary(text: string, config: PostProcessingConfig['summarization']): Promise<ProcessedTranscript['summary']> {
-    // Simulate AI summarization based on format
+  private mergeSummariesHeuristically(
+    partials: Array<{ chunk: TranscriptChunk; summary: Summary }>,
+    sourceChunks: TranscriptChunk[],
+    config: PostProcessingConfig['summarization']
+  ): Summary {
+    const mergeLists = (lists: Array<string[] | undefined>, limit: number): string[] => {
+      const seen = new Set<string>();
+      const merged: string[] = [];
+      for (const item of lists.flatMap(list => list || [])) {
+        const key = item.toLowerCase().replace(/\W+/g, ' ').trim();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        merged.push(item);
+      }
+      return merged.slice(0, limit);
+    };
+
+    const fullText = sourceChunks.map(chunk => chunk.text).join('\n\n');
+    return {
+      content: this.generateSummaryContent(fullText, promptTemplateStore.get(config.format).fallback_format, config.max_length),
+      format: config.format,
+      key_points: config.include_key_points ? mergeLists(partials.map(p => p.summary.key_points), 10) : undefined,
+      action_items: config.extract_action_items ? mergeLists(partials.map(p => p.summary.action_items), 10) : undefined,
+      insights: config.focus_on_insights ? mergeLists(partials.map(p => p.summary.insights), 6) : undefined,
+    };
+  }
+
+  private buildSummaryPrompt(
+    config: PostProcessingConfig['summarization'],
+    part?: { part: number; total: number; range?: string }
+  ): string {
+    return [
+      'You summarize transcripts of recorded speech.',
+      part
+        ? `The text is part ${part.part} of ${part.total}${part.range ? ` (${part.range})` : ''} of a longer recording. Summarize only this part; it will be merged with the other parts later.`
+        : 'Follow the instructions in the prompt for the style and structure of the summary.',
+      `Keep the summary under ${part ? Math.max(100, Math.round(config.max_length / 2)) : config.max_length} words.`,
+      `Reply with a JSON object with these fields: { ${this.summaryFields(config).join(', ')} }. Put the formatted summary in "summary".`,
+      'Only include facts stated in the transcript.',
+    ].join('\n');
+  }
+
+  private buildMergePrompt(config: PostProcessingConfig['summarization']): string {
+    return [
+      'You are given summaries of consecutive parts of one long recording, in order.',
+      'Combine them into a single summary of the whole recording, removing repetition across parts.',
+      'Follow the instructions in the prompt for the style and structure of the summary.',
+      `Keep the summary under ${config.max_length} words.`,
+      `Reply with a JSON object with these fields: { ${this.summaryFields(config).join(', ')} }. Put the formatted summary in "summary".`,
+    ].join('\n');
+  }
+
+  private summaryFields(config: PostProcessingConfig['summarization']): string[] {
+    const fields = ['"summary": string'];
+    if (config.include_key_points) fields.push('"key_points": string[]');
+    if (config.extract_action_items) fields.push('"action_items": string[]');
+    if (config.focus_on_insights) fields.push('"insights": string[]');
+    return fields;
+  }
+
+  /**
+   * Parse the JSON reply from the model. Returns null if it has no summary text.
+   */
+  private parseSummaryReply(reply: string, config: PostProcessingConfig['summarization']): ProcessedTranscript['summary'] | null {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(reply);
+    } catch {
+      // Some models ignore the JSON format hint; treat the reply as the summary itself
+      return reply ? { content: reply, format: config.format } : null;
+    }
+
+    const toList = (value: unknown): string[] | undefined =>
+      Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : undefined;
+
+    const content = typeof parsed?.summary === 'string' ? parsed.summary.trim() : '';
+    if (!content) return null;
+
+    return {
+      content,
+      format: config.format,
+      key_points: config.include_key_points ? toList(parsed.key_points) : undefined,
+      action_items: config.extract_action_items ? toList(parsed.action_items) : undefined,
+      insights: config.focus_on_insights ? toList(parsed.insights) : undefined,
+    };
+  }
+
+  /**
+   * Generate summary using extractive heuristics
+   */
+  private generateSummaryHeuristically(text: string, config: PostProcessingConfig['summarization']): Summary {
     const summary = {
-      content: this.generateSummaryContent(text, config.format, config.max_length),
+      content: this.generateSummaryContent(text, promptTemplateStore.get(config.format).fallback_format, config.max_length),
       format: config.format,
       key_points: config.include_key_points ? this.extractKeyPoints(text) : undefined,
       action_items: config.extract_action_items ? this.extractActionItems(text) : undefined,
@@ -186,67 +548,10 @@ export class PostProcessingEngine {
    * Improve overall readability
    */
   /**
-   * Fix common transcription errors, especially for technical terms and accents
+   * Fix common transcription errors using the active vocabulary dictionaries
    */
   private fixCommonTranscriptionErrors(text: string): string {
-    // Common technical term corrections
-    const corrections: [RegExp, string][] = [
-      // Network/Web terms
-      [/\bHCP\b/gi, 'HTTP'],
-      [/\bHCPS\b/gi, 'HTTPS'],
-      [/\bHDP\b/gi, 'HTTP'],
-      [/\bHTPS\b/gi, 'HTTPS'],
-      [/\bAPA\b/gi, 'API'],
-      [/\bAPIs\b/gi, 'APIs'],
-      [/\bJay Son\b/gi, 'JSON'],
-      [/\bJayson\b/gi, 'JSON'],
-      [/\bX ML\b/gi, 'XML'],
-      [/\bU R L\b/gi, 'URL'],
-      [/\bU R I\b/gi, 'URI'],
-      [/\bI P\b/gi, 'IP'],
-      [/\bT C P\b/gi, 'TCP'],
-      [/\bU D P\b/gi, 'UDP'],
-      [/\bS S L\b/gi, 'SSL'],
-      [/\bT L S\b/gi, 'TLS'],
-      [/\bD N S\b/gi, 'DNS'],
-      
-      // Programming terms
-      [/\bJava script\b/gi, 'JavaScript'],
-      [/\bType script\b/gi, 'TypeScript'],
-      [/\bPython\b/gi, 'Python'],
-      [/\bGit hub\b/gi, 'GitHub'],
-      [/\bGit lab\b/gi, 'GitLab'],
-      [/\bV S Code\b/gi, 'VS Code'],
-      [/\bI D E\b/gi, 'IDE'],
-      [/\bS Q L\b/gi, 'SQL'],
-      [/\bNo S Q L\b/gi, 'NoSQL'],
-      [/\bRest full\b/gi, 'RESTful'],
-      [/\bRest API\b/gi, 'REST API'],
-      [/\bGraph Q L\b/gi, 'GraphQL'],
-      
-      // Cloud/DevOps terms
-      [/\bA W S\b/gi, 'AWS'],
-      [/\bG C P\b/gi, 'GCP'],
-      [/\bDocker\b/gi, 'Docker'],
-      [/\bKubernetes\b/gi, 'Kubernetes'],
-      [/\bK 8 S\b/gi, 'K8s'],
-      [/\bC I C D\b/gi, 'CI/CD'],
-      [/\bDev ops\b/gi, 'DevOps'],
-      
-      // Common Scottish accent issues
-      [/\bcannae\b/gi, "can't"],
-      [/\bdidnae\b/gi, "didn't"],
-      [/\bwouldnae\b/gi, "wouldn't"],
-      [/\bcouldnae\b/gi, "couldn't"],
-      [/\bshouldnae\b/gi, "shouldn't"],
-    ];
-    
-    let correctedText = text;
-    corrections.forEach(([pattern, replacement]) => {
-      correctedText = correctedText.replace(pattern, replacement);
-    });
-    
-    return correctedText;
+    return vocabularyStore.applyCorrections(text);
   }
 
   private improveReadability(text: string): string {
@@ -274,7 +579,7 @@ export class PostProcessingEngine {
   /**
    * Generate summary content based on format
    */
-  private generateSummaryContent(text: string, format: SummaryFormat, maxLength: number): string {
+  private generateSummaryContent(text: string, format: BuiltinSummaryFormat, maxLength: number): string {
     const words = text.split(' ');
     const targetLength = Math.min(maxLength, Math.floor(words.length * 0.3));
     
@@ -0,0 +1,300 @@
+import type { BuiltinSummaryFormat, PromptTemplate, SummaryFormat } from './types';
+import { formatDuration } from './utils';
+import { AppError } from './errorHandler';
+
+const STORAGE_KEY = 'prompt-templates';
+const EXPORT_VERSION = 1;
+// Summary length in words when the settings give none
+const DEFAULT_MAX_LENGTH = 500;
+
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'transcript', description: 'The transcript text (or merged part summaries for long recordings)' },
+  { name: 'language', description: 'Detected or selected language' },
+  { name: 'duration', description: 'Recording length, e.g. 1:02:45' },
+  { name: 'speakers', description: 'Comma-separated speaker labels, if diarization found any' },
+  { name: 'max_length', description: 'Configured maximum summary length in words' },
+  { name: 'date', description: "Today's date" },
+];
+
+export type TemplateVariables = Partial<Record<'transcript' | 'language' | 'duration' | 'speakers' | 'max_length' | 'date', string>>;
+
+const CONTEXT_LINE = 'Language: {{language}}. Duration: {{duration}}. Speakers: {{speakers}}.';
+
+const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'paragraphs',
+    name: 'Paragraphs',
+    description: 'Short prose summary',
+    prompt: `Summarize this transcript in 1-3 short prose paragraphs of at most {{max_length}} words.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+    fallback_format: 'paragraphs',
+    builtin: true,
+  },
+  {
+    id: 'bullets',
+    name: 'Bullet Points',
+    description: 'One bullet per main point',
+    prompt: `Summarize this transcript as a list of bullet points, one per line, each starting with "• ". Use at most {{max_length}} words.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+    fallback_format: 'bullets',
+    builtin: true,
+  },
+  {
+    id: 'markdown',
+    name: 'Markdown',
+    description: 'Markdown document with sections',
+    prompt: `Summarize this transcript as Markdown with "## Key Points", "## Key Insights" and "## Action Items" sections where relevant. Use at most {{max_length}} words.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+    fallback_format: 'markdown',
+    builtin: true,
+  },
+  {
+    id: 'key_points',
+    name: 'Key Points',
+    description: 'Numbered key points and takeaways',
+    prompt: `Summarize this transcript as a numbered list of key points and takeaways. Use at most {{max_length}} words.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+    fallback_format: 'key_points',
+    builtin: true,
+  },
+  {
+    id: 'outline',
+    name: 'Outline',
+    description: 'Topics with sub-points',
+    prompt: `Summarize this transcript as a numbered outline of topics, each with indented "•" sub-points. Use at most {{max_length}} words.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+    fallback_format: 'outline',
+    builtin: true,
+  },
+];
+
+export const SAMPLE_TRANSCRIPT = `Speaker 1: Morning everyone, let's do a quick round. Yesterday I finished the export dialog and the SRT writer is now in review. Today I'm going to fix the timestamp rounding bug. No blockers.
+Speaker 2: I spent most of yesterday on the model download manager. Resume works, but checksum verification is still failing on Windows. I need to pair with someone on that today, it's blocking the release.
+Speaker 1: I can help after lunch. The important thing is we ship the beta by Friday, so let's decide today whether the Windows fix goes in or we postpone it.
+Speaker 2: Agreed. I'll write up the options and send them before noon.`;
+
+export const SAMPLE_VARIABLES: TemplateVariables = {
+  language: 'en',
+  duration: '3:12',
+  speakers: 'Speaker 1, Speaker 2',
+};
+
+export class PromptTemplateError extends AppError {
+  constructor(message: string) {
+    super(message, 'INVALID_TEMPLATE');
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Stores summary prompt templates. Built-in templates can be edited (and reset);
+ * user-defined templates live alongside them with "custom:" ids.
+ */
+export class PromptTemplateStore {
+  private static instance: PromptTemplateStore;
+  private listeners = new Set<() => void>();
+
+  static getInstance(): PromptTemplateStore {
+    if (!PromptTemplateStore.instance) {
+      PromptTemplateStore.instance = new PromptTemplateStore();
+    }
+    return PromptTemplateStore.instance;
+  }
+
+  /**
+   * All templates: built-ins (with any user edits applied) followed by custom ones
+   */
+  list(): PromptTemplate[] {
+    const stored = this.readStored();
+    const builtins = BUILTIN_TEMPLATES.map(builtin => {
+      const override = stored.find(t => t.id === builtin.id);
+      return override ? { ...builtin, prompt: override.prompt, description: override.description ?? builtin.description, updated_at: override.updated_at } : builtin;
+    });
+    const custom = stored.filter(t => !t.builtin).sort((a, b) => a.name.localeCompare(b.name));
+    return [...builtins, ...custom];
+  }
+
+  get(id: SummaryFormat): PromptTemplate {
+    return this.list().find(t => t.id === id) || BUILTIN_TEMPLATES[0];
+  }
+
+  isModified(id: SummaryFormat): boolean {
+    const builtin = BUILTIN_TEMPLATES.find(t => t.id === id);
+    return !!builtin && this.get(id).prompt !== builtin.prompt;
+  }
+
+  save(template: PromptTemplate): PromptTemplate {
+    if (!template.name.trim()) {
+      throw new PromptTemplateError('Template name is required');
+    }
+    if (!template.prompt.trim()) {
+      throw new PromptTemplateError('Template prompt is required');
+    }
+
+    const saved: PromptTemplate = {
+      ...template,
+      name: template.name.trim(),
+      builtin: BUILTIN_TEMPLATES.some(t => t.id === template.id),
+      updated_at: new Date().toISOString(),
+    };
+    const stored = this.readStored().filter(t => t.id !== saved.id);
+    this.writeStored([...stored, saved]);
+    return saved;
+  }
+
+  /**
+   * Create a new custom template with a unique id derived from its name
+   */
+  create(name: string, base?: PromptTemplate): PromptTemplate {
+    return this.save({
+      id: this.uniqueId(name),
+      name,
+      description: base?.description,
+      prompt: base?.prompt || `Summarize this transcript.\n${CONTEXT_LINE}\n\n{{transcript}}`,
+      fallback_format: base?.fallback_format || 'paragraphs',
+      builtin: false,
+    });
+  }
+
+  /**
+   * Delete a custom template, or reset a built-in one to its default prompt
+   */
+  remove(id: SummaryFormat) {
+    this.writeStored(this.readStored().filter(t => t.id !== id));
+  }
+
+  exportTemplates(ids?: SummaryFormat[]): string {
+    const templates = this.list().filter(t => !ids || ids.includes(t.id));
+    return JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+  }
+
+  /**
+   * Import templates from an exported file. Existing templates with the same id are replaced.
+   * Returns the number of templates imported.
+   */
+  importTemplates(json: string): number {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new PromptTemplateError('Template file is not valid JSON');
+    }
+
+    const items: unknown[] = Array.isArray(data) ? data : data?.templates;
+    if (!Array.isArray(items)) {
+      throw new PromptTemplateError('Template file has no "templates" list');
+    }
+
+    // Ids given out earlier in this import count as taken, so same-named templates stay apart
+    const assigned = new Set<SummaryFormat>();
+    const imported = items.map((item, index) => {
+      const template = this.validate(item, index, assigned);
+      assigned.add(template.id);
+      return template;
+    });
+    const ids = new Set(imported.map(t => t.id));
+    this.writeStored([...this.readStored().filter(t => !ids.has(t.id)), ...imported]);
+    return imported.length;
+  }
+
+  /**
+   * Fill in {{variables}}. The transcript is appended if the template doesn't reference it.
+   */
+  render(template: PromptTemplate, variables: TemplateVariables): string {
+    // Unknown values keep their defaults instead of rendering as blanks
+    const given = Object.fromEntries(
+      Object.entries(variables).filter(([, value]) => value !== undefined && value !== '')
+    ) as TemplateVariables;
+    const values: TemplateVariables = {
+      language: 'unknown',
+      duration: 'unknown',
+      speakers: 'not identified',
+      max_length: String(DEFAULT_MAX_LENGTH),
+      date: new Date().toLocaleDateString(),
+      ...given,
+    };
+    const rendered = template.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      name in values ? values[name as keyof TemplateVariables] ?? '' : match
+    );
+
+    if (!/\{\{\s*transcript\s*\}\}/.test(template.prompt) && values.transcript) {
+      return `${rendered}\n\n${values.transcript}`;
+    }
+    return rendered;
+  }
+
+  /**
+   * Variables referenced by the template that are not known
+   */
+  unknownVariables(template: PromptTemplate): string[] {
+    const known = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+    const found = Array.from(template.prompt.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+    return Array.from(new Set(found.filter(name => !known.has(name))));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private validate(item: any, index: number, taken: Set<SummaryFormat> = new Set()): PromptTemplate {
+    const fallbackFormats = BUILTIN_TEMPLATES.map(t => t.fallback_format);
+    if (!item || typeof item.name !== 'string' || typeof item.prompt !== 'string') {
+      throw new PromptTemplateError(`Template #${index + 1} must have a name and a prompt`);
+    }
+
+    const builtin = BUILTIN_TEMPLATES.find(t => t.id === item.id);
+    return {
+      id: builtin ? builtin.id : (typeof item.id === 'string' && item.id.startsWith('custom:') ? item.id : this.uniqueId(item.name, taken)),
+      name: builtin ? builtin.name : item.name,
+      description: typeof item.description === 'string' ? item.description : undefined,
+      prompt: item.prompt,
+      fallback_format: fallbackFormats.includes(item.fallback_format) ? item.fallback_format : 'paragraphs',
+      builtin: !!builtin,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private uniqueId(name: string, taken: Set<SummaryFormat> = new Set()): SummaryFormat {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+    const existing = new Set([...this.list().map(t => t.id), ...taken]);
+    let id: SummaryFormat = `custom:${slug}`;
+    for (let n = 2; existing.has(id); n++) {
+      id = `custom:${slug}-${n}`;
+    }
+    return id;
+  }
+
+  private readStored(): PromptTemplate[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not read prompt templates:', error);
+      return [];
+    }
+  }
+
+  private writeStored(templates: PromptTemplate[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Build template variables from transcript metadata
+ */
+export function templateVariables(
+  metadata: { language?: string; duration?: number; speakers?: string[] },
+  maxLength?: number
+): TemplateVariables {
+  return {
+    language: metadata.language && metadata.language !== 'auto' ? metadata.language : undefined,
+    duration: metadata.duration ? formatDuration(metadata.duration) : undefined,
+    speakers: metadata.speakers && metadata.speakers.length > 0 ? metadata.speakers.join(', ') : undefined,
+    max_length: maxLength ? String(maxLength) : undefined,
+  };
+}
+
+export function isBuiltinFormat(format: SummaryFormat): format is BuiltinSummaryFormat {
+  return BUILTIN_TEMPLATES.some(t => t.id === format);
+}
+
+// Export singleton instance
+export const promptTemplateStore = PromptTemplateStore.getInstance();
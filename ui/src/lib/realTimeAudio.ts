@@ -1,5 +1,9 @@
-import type { RealtimeChunk, RealtimeTranscriptionOptions } from './types';
+import type { AudioInputSettings, NoiseProfile, RealtimeChunk, RealtimeTranscriptionOptions, SystemAudioMode } from './types';
+import type { CaptureProcessorOptions } from './audioCaptureWorklet';
+import { DEFAULT_AUDIO_INPUT_SETTINGS, audioInputConstraints } from './audioDevices';
+import { DEFAULT_VOICE_ACTIVITY_OPTIONS, VoiceActivityDetector, calibrateNoise, speechMarginDb } from './voiceActivity';
 import electronService from '../services/electronService';
+import captureWorkletUrl from './audioCaptureWorklet.ts?worker&url';
 
 // Web Speech API types
 declare global {
@@ -54,12 +58,50 @@ declare var SpeechRecognition: {
   new(): SpeechRecognition;
 };
 
+// What a capture records: the microphone, what the computer plays, or both mixed together
+export type CaptureSources = 'microphone' | 'system' | 'both';
+
 export interface AudioCaptureOptions {
   sampleRate: number;
   channels: number;
   bitDepth: number;
   chunkSize: number;
+  // VAD sensitivity from 0 (sensitive) to 1 (conservative)
   vadThreshold: number;
+  // Calibrated noise floor in dBFS; learned while listening when not given
+  noiseFloorDb?: number;
+  // Speech is sent once an utterance reaches this length, even without a pause
+  maxChunkMs?: number;
+  // A pause this long ends an utterance
+  minSilenceMs?: number;
+  // Input to record from; the system default when not given
+  deviceId?: string;
+  // Echo cancellation, noise suppression and gain control of the input
+  inputSettings?: AudioInputSettings;
+  // The microphone when not given
+  sources?: CaptureSources;
+}
+
+// Live audio is captured at Whisper's sample rate
+const SAMPLE_RATE = 16000;
+// Interim text is not worth a Whisper run for less audio than this
+const MIN_INTERIM_SAMPLES = SAMPLE_RATE;
+// Characters of earlier text given to Whisper as context for the next utterance
+const CONTEXT_CHARS = 200;
+// Utterances waiting for Whisper beyond this are merged or dropped, so live text stays
+// at most a few utterances behind the speaker
+const MAX_QUEUED_FINALS = 2;
+// Utterances are only merged while the result stays this short
+const MAX_MERGED_SAMPLES = 30 * SAMPLE_RATE;
+
+interface WhisperRequest {
+  audio: Float32Array;
+  startTime: number;
+  // End of the last utterance in `audio`; merged utterances leave out the pauses between them
+  endTime: number;
+  id: string;
+  isFinal: boolean;
+  source: AudioSource;
 }
 
 export interface VADResult {
@@ -68,29 +110,83 @@ export interface VADResult {
   energy: number;
 }
 
+// Speaker names when the microphone and system audio are transcribed separately
+const SOURCE_SPEAKERS = { microphone: 'You', system: 'Others' } as const;
+type AudioSource = keyof typeof SOURCE_SPEAKERS;
+
+// Chromium only captures loopback audio on Windows and, through PulseAudio or PipeWire, on Linux
+const SYSTEM_AUDIO_PLATFORMS = ['win32', 'linux'];
+
+/**
+ * Whether the desktop app can record what this computer plays
+ */
+export function isSystemAudioSupported(): boolean {
+  return electronService.isElectron && SYSTEM_AUDIO_PLATFORMS.includes(electronService.platform);
+}
+
+/**
+ * Audio the computer plays, through getDisplayMedia; the desktop app answers the request,
+ * which is armed just before it, with the whole system's loopback audio. The video track
+ * that comes with it is dropped.
+ */
+async function openSystemAudio(): Promise<MediaStream> {
+  if (!isSystemAudioSupported() || !navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error('Recording system audio is only supported in the desktop app on Windows and Linux');
+  }
+  if (!(await electronService.armSystemAudioCapture())) {
+    throw new Error('The desktop app did not allow recording system audio');
+  }
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: true,
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (error) {
+    const name = (error as DOMException).name;
+    if (name === 'NotAllowedError' || name === 'NotSupportedError' || name === 'NotFoundError') {
+      throw new Error('This system did not allow recording its audio output. Check that screen recording is permitted for this app.');
+    }
+    throw error;
+  }
+  stream.getVideoTracks().forEach(track => {
+    track.stop();
+    stream.removeTrack(track);
+  });
+  if (stream.getAudioTracks().length === 0) {
+    throw new Error(electronService.platform === 'linux'
+      ? 'No system audio was captured. On Linux this needs PulseAudio or PipeWire with its PulseAudio support.'
+      : 'No system audio was captured');
+  }
+  return stream;
+}
+
 export class RealTimeAudioCapture {
   private stream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
   private analyser: AnalyserNode | null = null;
   private microphone: MediaStreamAudioSourceNode | null = null;
+  // System audio mixed into the microphone
+  private systemStream: MediaStream | null = null;
+  private systemSource: MediaStreamAudioSourceNode | null = null;
   
   private isRecording = false;
   private audioBuffer: Float32Array[] = [];
   private bufferSize = 0;
-  private maxBufferSize = 80000; // 5 seconds at 16kHz for better Whisper accuracy
+  // Samples captured since recording started, and where the buffered utterance began
+  private capturedSamples = 0;
+  private bufferStartSample = 0;
   
   // VAD (Voice Activity Detection) state
-  private energyHistory: number[] = [];
-  private energyHistorySize = 20; // 20 frames for faster response
+  private vad: VoiceActivityDetector;
   private silenceFrames = 0;
   private speechFrames = 0;
-  private minSpeechFrames = 3; // Faster speech detection
-  private minSilenceFrames = 30; // Wait longer for silence to get more context
-  private backgroundNoise = -6; // Estimate of background noise level
+  // Set while calibrate() is collecting ambient noise
+  private calibration: { frames: Float32Array[]; samplesNeeded: number; done: () => void } | null = null;
   
   // Callbacks
-  private onAudioChunk?: (chunk: Float32Array) => void;
+  private onAudioChunk?: (chunk: Float32Array, startTime: number) => void;
   private onVAD?: (result: VADResult) => void;
   private onError?: (error: Error) => void;
   private onAudioLevel?: (level: number) => void;
@@ -101,9 +197,91 @@ export class RealTimeAudioCapture {
       channels: 1,
       bitDepth: 16,
       chunkSize: 512, // Smaller chunks for more responsive processing
-      vadThreshold: 0.001  // Very sensitive threshold for initial testing
+      vadThreshold: 0.2,
+      maxChunkMs: 5000, // 5 seconds for better Whisper accuracy
+      minSilenceMs: 1000 // Wait longer for silence to get more context
     }
-  ) {}
+  ) {
+    this.vad = new VoiceActivityDetector({
+      sampleRate: options.sampleRate,
+      thresholdDb: speechMarginDb(options.vadThreshold),
+      noiseFloorDb: options.noiseFloorDb,
+    });
+  }
+
+  // Samples of speech buffered before the utterance is sent regardless of pauses
+  private get maxBufferSize(): number {
+    return Math.round(((this.options.maxChunkMs ?? 5000) / 1000) * this.options.sampleRate);
+  }
+
+  // The detector already holds speech on through its hangover, which counts towards the pause
+  private get minSilenceFrames(): number {
+    const silenceMs = Math.max(0, (this.options.minSilenceMs ?? 1000) - DEFAULT_VOICE_ACTIVITY_OPTIONS.hangoverMs);
+    return Math.max(1, Math.round((silenceMs / 1000) * this.options.sampleRate / this.options.chunkSize));
+  }
+
+  /**
+   * Change the VAD sensitivity (0-1) and, after calibration, the starting noise floor
+   */
+  setVad(vadThreshold: number, noiseFloorDb?: number) {
+    this.options = { ...this.options, vadThreshold, noiseFloorDb };
+    this.vad.configure({ thresholdDb: speechMarginDb(vadThreshold), ...(noiseFloorDb !== undefined ? { noiseFloorDb } : {}) });
+  }
+
+  /**
+   * Sample ambient noise for `durationMs` while nobody speaks and use it as the noise floor.
+   * Needs an initialized capture; it can run while not recording.
+   */
+  async calibrate(durationMs = 3000): Promise<NoiseProfile> {
+    if (!this.audioContext || !this.captureNode) {
+      throw new Error('Audio capture not initialized');
+    }
+    if (this.calibration) {
+      throw new Error('Calibration is already running');
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    // Gives up with whatever arrived if the audio graph stalls
+    const frames: Float32Array[] = [];
+    let timeout: number | undefined;
+    await new Promise<void>((resolve) => {
+      this.calibration = { frames, samplesNeeded: (durationMs / 1000) * this.options.sampleRate, done: resolve };
+      timeout = window.setTimeout(resolve, durationMs + 2000);
+      this.captureNode!.port.postMessage({ type: 'start' });
+    });
+    window.clearTimeout(timeout);
+    this.calibration = null;
+    if (!this.isRecording) {
+      this.captureNode?.port.postMessage({ type: 'stop' });
+    }
+
+    const profile = calibrateNoise(frames);
+    this.setVad(this.options.vadThreshold, profile.noise_floor_db);
+    return profile;
+  }
+
+  /**
+   * Choose the input and its processing; applies from the next initialize()
+   */
+  setInput(deviceId: string | undefined, inputSettings: AudioInputSettings) {
+    this.options = { ...this.options, deviceId, inputSettings };
+  }
+
+  /**
+   * Choose what is recorded; applies from the next initialize()
+   */
+  setSources(sources: CaptureSources) {
+    this.options = { ...this.options, sources };
+  }
+
+  /**
+   * Change how speech is cut into utterances; applies from the next captured frame
+   */
+  setChunking(maxChunkMs: number, minSilenceMs: number) {
+    this.options = { ...this.options, maxChunkMs, minSilenceMs };
+  }
 
   async initialize(): Promise<boolean> {
     try {
@@ -116,59 +294,151 @@ export class RealTimeAudioCapture {
         return false;
       }
       
-      // Request microphone access
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: this.options.sampleRate,
-          channelCount: this.options.channels,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        }
+      // Request microphone access, or system audio when only that is recorded
+      const sources = this.options.sources ?? 'microphone';
+      this.stream = sources === 'system' ? await openSystemAudio() : await this.openInput();
+      if (sources === 'both') {
+        this.systemStream = await openSystemAudio();
+      }
+      // Unplugging the input, or the system ending the capture, ends its track
+      this.watchInput(sources);
+      this.systemStream?.getAudioTracks()[0]?.addEventListener('ended', () => {
+        this.onError?.(new Error('System audio capture stopped'));
       });
 
-      // Create audio context
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: this.options.sampleRate
-      });
+      // Create audio context at the device's rate; the worklet resamples
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      if (!this.audioContext.audioWorklet) {
+        throw new Error('Audio worklets are not supported in this environment');
+      }
+      await this.audioContext.audioWorklet.addModule(captureWorkletUrl);
 
       // Create audio nodes
       this.microphone = this.audioContext.createMediaStreamSource(this.stream);
       this.analyser = this.audioContext.createAnalyser();
-      this.processor = this.audioContext.createScriptProcessor(this.options.chunkSize, 1, 1);
+      const processorOptions: CaptureProcessorOptions = {
+        targetSampleRate: this.options.sampleRate,
+        frameSize: this.options.chunkSize,
+      };
+      this.captureNode = new AudioWorkletNode(this.audioContext, 'audio-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [1],
+        processorOptions,
+      });
 
       // Configure analyser
       this.analyser.fftSize = 2048;
       this.analyser.smoothingTimeConstant = 0.8;
 
-      // Connect audio nodes
+      // Connect audio nodes. The worklet outputs silence; connecting it to the destination
+      // keeps the graph pulling audio through it.
       this.microphone.connect(this.analyser);
-      this.analyser.connect(this.processor);
-      this.processor.connect(this.audioContext.destination);
+      this.microphone.connect(this.captureNode);
+      if (this.systemStream) {
+        // Sources connected to one input are summed
+        this.systemSource = this.audioContext.createMediaStreamSource(this.systemStream);
+        this.systemSource.connect(this.analyser);
+        this.systemSource.connect(this.captureNode);
+      }
+      this.captureNode.connect(this.audioContext.destination);
 
-      // Set up audio processing
-      this.processor.onaudioprocess = (event) => {
+      // Frames arrive at the target rate, queued on the port while the page is busy
+      this.captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        if (this.calibration) {
+          this.collectCalibrationFrame(event.data);
+          return;
+        }
         if (!this.isRecording) return;
-        
-        const inputData = event.inputBuffer.getChannelData(0);
-        this.processAudioChunk(inputData);
+        this.processAudioChunk(event.data);
       };
 
       return true;
     } catch (error) {
       console.error('Failed to initialize audio capture:', error);
+      // Release what was opened before the failure, e.g. the microphone when system audio fails
+      this.cleanup();
       this.onError?.(error as Error);
       return false;
     }
   }
 
+  // A chosen input that went away since it was listed falls back to the system default
+  private async openInput(): Promise<MediaStream> {
+    const { deviceId, inputSettings = DEFAULT_AUDIO_INPUT_SETTINGS } = this.options;
+    const constraints = (id: string | undefined) =>
+      audioInputConstraints(id, inputSettings, this.options.sampleRate, this.options.channels);
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: constraints(deviceId) });
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw error;
+      }
+      console.warn('Audio input not available, using the default input:', deviceId);
+      return navigator.mediaDevices.getUserMedia({ audio: constraints(undefined) });
+    }
+  }
+
+  /**
+   * Report when the recorded input's track ends. A microphone that goes away mid-session is
+   * replaced by the system default with the same processing settings; the chosen input is
+   * tried again on the next initialize().
+   */
+  private watchInput(sources: CaptureSources) {
+    const stream = this.stream;
+    stream?.getAudioTracks()[0]?.addEventListener('ended', async () => {
+      // Ignore tracks already replaced or cleaned up
+      if (this.stream !== stream) return;
+      if (sources === 'system') {
+        this.onError?.(new Error('System audio capture stopped'));
+        return;
+      }
+      try {
+        await this.reopenDefaultInput(stream, sources);
+      } catch (error) {
+        console.error('Could not switch to the default audio input:', error);
+        this.onError?.(new Error('The microphone was disconnected'));
+      }
+    });
+  }
+
+  private async reopenDefaultInput(ended: MediaStream, sources: CaptureSources) {
+    const { inputSettings = DEFAULT_AUDIO_INPUT_SETTINGS } = this.options;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: audioInputConstraints(undefined, inputSettings, this.options.sampleRate, this.options.channels),
+    });
+    if (this.stream !== ended || !this.audioContext || !this.analyser || !this.captureNode) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    console.warn('Audio input disconnected, continuing with the default input');
+    ended.getTracks().forEach(track => track.stop());
+    this.microphone?.disconnect();
+    this.stream = stream;
+    this.microphone = this.audioContext.createMediaStreamSource(stream);
+    this.microphone.connect(this.analyser);
+    this.microphone.connect(this.captureNode);
+    this.watchInput(sources);
+  }
+
+  private collectCalibrationFrame(frame: Float32Array) {
+    const calibration = this.calibration!;
+    calibration.frames.push(frame);
+    calibration.samplesNeeded -= frame.length;
+    if (calibration.samplesNeeded <= 0) {
+      calibration.done();
+    }
+  }
+
   private processAudioChunk(inputData: Float32Array) {
     // Calculate audio level for visualization
     const audioLevel = this.calculateAudioLevel(inputData);
     this.onAudioLevel?.(audioLevel);
 
     // Perform Voice Activity Detection
-    const vadResult = this.performVAD(inputData);
+    const vadResult = this.vad.process(inputData);
     this.onVAD?.(vadResult);
 
     // Debug logging every 20 frames (roughly once per second at 20fps)
@@ -178,18 +448,29 @@ export class RealTimeAudioCapture {
         audioLevel: audioLevel.toFixed(2),
         vadResult: {
           isSpeech: vadResult.isSpeech,
-          energy: vadResult.energy.toFixed(4),
-          confidence: vadResult.confidence.toFixed(3)
+          energy: vadResult.energy.toFixed(1),
+          confidence: vadResult.confidence.toFixed(3),
+          zeroCrossingRate: vadResult.features.zeroCrossingRate.toFixed(3),
+          spectralFlatness: vadResult.features.spectralFlatness.toFixed(3)
         },
         bufferSize: this.bufferSize,
         speechFrames: this.speechFrames,
         silenceFrames: this.silenceFrames,
-        backgroundNoise: this.backgroundNoise.toFixed(4)
+        noiseFloorDb: vadResult.noiseFloorDb.toFixed(1)
       });
     }
 
     // If speech is detected, buffer the audio
+    this.capturedSamples += inputData.length;
     if (vadResult.isSpeech) {
+      if (this.audioBuffer.length === 0) {
+        // Start the utterance with the pre-roll so its first syllable is kept
+        const preRoll = vadResult.preRoll || [];
+        const preRollSamples = preRoll.reduce((sum, frame) => sum + frame.length, 0);
+        this.bufferStartSample = Math.max(0, this.capturedSamples - inputData.length - preRollSamples);
+        this.audioBuffer.push(...preRoll);
+        this.bufferSize += preRollSamples;
+      }
       this.audioBuffer.push(new Float32Array(inputData));
       this.bufferSize += inputData.length;
       this.speechFrames++;
@@ -221,50 +502,25 @@ export class RealTimeAudioCapture {
     return Math.min(average * 100, 100); // Scale to 0-100
   }
 
-  private performVAD(data: Float32Array): VADResult {
-    // Calculate RMS energy
-    let sum = 0;
-    for (let i = 0; i < data.length; i++) {
-      sum += data[i] * data[i];
-    }
-    const rms = Math.sqrt(sum / data.length);
-    const energy = Math.log10(rms + 1e-10); // Add small value to avoid log(0)
-
-    // Update background noise estimate
-    if (this.energyHistory.length > 10) {
-      const sortedHistory = [...this.energyHistory].sort((a, b) => a - b);
-      this.backgroundNoise = sortedHistory[Math.floor(sortedHistory.length * 0.1)]; // 10th percentile
-    }
+  private concatenateBuffer(): Float32Array {
+    const totalLength = this.audioBuffer.reduce((acc, chunk) => acc + chunk.length, 0);
+    const concatenated = new Float32Array(totalLength);
+    let offset = 0;
 
-    // Update energy history for smoothing
-    this.energyHistory.push(energy);
-    if (this.energyHistory.length > this.energyHistorySize) {
-      this.energyHistory.shift();
+    for (const chunk of this.audioBuffer) {
+      concatenated.set(chunk, offset);
+      offset += chunk.length;
     }
+    return concatenated;
+  }
 
-    // Calculate recent energy trend (last 5 frames)
-    const recentFrames = this.energyHistory.slice(-5);
-    const recentAvg = recentFrames.reduce((a, b) => a + b, 0) / recentFrames.length;
-    
-    // Adaptive threshold based on background noise
-    const adaptiveThreshold = this.backgroundNoise + 0.5; // 0.5 dB above background
-    const fallbackThreshold = Math.log10(this.options.vadThreshold);
-    const threshold = Math.max(adaptiveThreshold, fallbackThreshold);
-    
-    // Multi-criteria VAD
-    const energyAboveThreshold = recentAvg > threshold;
-    const significantEnergyIncrease = energy > (this.backgroundNoise + 0.3);
-    const isSpeech = energyAboveThreshold || significantEnergyIncrease;
-    
-    // Calculate confidence based on how much above threshold
-    const energyDiff = recentAvg - threshold;
-    const confidence = Math.min(Math.max(energyDiff / 2, 0), 1);
-
-    return {
-      isSpeech,
-      confidence,
-      energy: recentAvg
-    };
+  /**
+   * The utterance buffered so far, without sending it; null when nothing is buffered.
+   * `startTime` is in seconds since recording started.
+   */
+  peekBufferedAudio(): { audio: Float32Array; startTime: number } | null {
+    if (this.audioBuffer.length === 0) return null;
+    return { audio: this.concatenateBuffer(), startTime: this.bufferStartSample / this.options.sampleRate };
   }
 
   private sendBufferedAudio() {
@@ -274,14 +530,8 @@ export class RealTimeAudioCapture {
     }
 
     // Concatenate all buffered chunks
-    const totalLength = this.audioBuffer.reduce((acc, chunk) => acc + chunk.length, 0);
-    const concatenated = new Float32Array(totalLength);
-    let offset = 0;
-
-    for (const chunk of this.audioBuffer) {
-      concatenated.set(chunk, offset);
-      offset += chunk.length;
-    }
+    const concatenated = this.concatenateBuffer();
+    const totalLength = concatenated.length;
 
     console.log('📤 Sending audio chunk:', {
       chunks: this.audioBuffer.length,
@@ -291,7 +541,7 @@ export class RealTimeAudioCapture {
     });
 
     // Send to callback
-    this.onAudioChunk?.(concatenated);
+    this.onAudioChunk?.(concatenated, this.bufferStartSample / this.options.sampleRate);
 
     // Clear buffer
     this.audioBuffer = [];
@@ -310,7 +560,13 @@ export class RealTimeAudioCapture {
         await this.audioContext.resume();
       }
 
+      this.capturedSamples = 0;
+      this.silenceFrames = 0;
+      this.speechFrames = 0;
+      // The noise floor carries over; speech state does not
+      this.vad.reset();
       this.isRecording = true;
+      this.captureNode?.port.postMessage({ type: 'start' });
       console.log('✅ Real-time audio capture started - isRecording:', this.isRecording);
       console.log('Audio context state:', this.audioContext.state);
       console.log('Sample rate:', this.audioContext.sampleRate);
@@ -325,6 +581,7 @@ export class RealTimeAudioCapture {
   stopRecording() {
     console.log('🛑 Stopping audio capture - was recording:', this.isRecording);
     this.isRecording = false;
+    this.captureNode?.port.postMessage({ type: 'stop' });
     
     // Send any remaining buffered audio
     if (this.audioBuffer.length > 0) {
@@ -338,9 +595,10 @@ export class RealTimeAudioCapture {
   cleanup() {
     this.stopRecording();
 
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
     }
 
     if (this.analyser) {
@@ -353,6 +611,11 @@ export class RealTimeAudioCapture {
       this.microphone = null;
     }
 
+    if (this.systemSource) {
+      this.systemSource.disconnect();
+      this.systemSource = null;
+    }
+
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
@@ -362,10 +625,15 @@ export class RealTimeAudioCapture {
       this.stream.getTracks().forEach(track => track.stop());
       this.stream = null;
     }
+
+    if (this.systemStream) {
+      this.systemStream.getTracks().forEach(track => track.stop());
+      this.systemStream = null;
+    }
   }
 
   // Setters for callbacks
-  setOnAudioChunk(callback: (chunk: Float32Array) => void) {
+  setOnAudioChunk(callback: (chunk: Float32Array, startTime: number) => void) {
     this.onAudioChunk = callback;
   }
 
@@ -394,11 +662,32 @@ export class RealTimeAudioCapture {
 
 export class RealTimeTranscriptionManager {
   private audioCapture: RealTimeAudioCapture;
+  // Records system audio on its own when it is transcribed separately from the microphone
+  private systemCapture: RealTimeAudioCapture | null = null;
+  private systemAudio: SystemAudioMode = 'off';
   private isTranscribing = false;
   private sessionId: string | null = null;
   private recognition: SpeechRecognition | null = null;
   private isBrowserMode = false;
   private audioBuffer: Float32Array[] = [];
+  private options: RealtimeTranscriptionOptions | null = null;
+  private sessionStartedAt = 0;
+  // Utterances are numbered per source so interim and final text for the same speech share an id
+  private utteranceIndex: Record<AudioSource, number> = { microphone: 0, system: 0 };
+  private recognitionRun = 0;
+  // Whisper requests run one at a time, in the order the audio was captured
+  private queuedRequests: WhisperRequest[] = [];
+  private processingRequest = false;
+  // Resolves once the queue is empty
+  private requestQueue: Promise<void> = Promise.resolve();
+  private resolveRequestQueue: (() => void) | null = null;
+  private interimTimer: number | null = null;
+  private lastInterim: Record<AudioSource, { id: string; samples: number }> = {
+    microphone: { id: '', samples: 0 },
+    system: { id: '', samples: 0 },
+  };
+  // Final text of the session so far
+  private sessionText = '';
   
   private onTranscriptionChunk?: (chunk: RealtimeChunk) => void;
   private onError?: (error: Error) => void;
@@ -412,27 +701,56 @@ export class RealTimeTranscriptionManager {
       this.isBrowserMode = typeof window !== 'undefined' && !('__TAURI_IPC__' in window);
     }
     
-    // Set up audio capture callbacks
-    this.audioCapture.setOnAudioChunk((audioData) => {
+    this.wireCapture(this.audioCapture, 'microphone');
+  }
+
+  // Set up audio capture callbacks
+  private wireCapture(capture: RealTimeAudioCapture, source: AudioSource) {
+    capture.setOnAudioChunk((audioData, startTime) => {
       console.log('Audio chunk received, length:', audioData.length);
       if (!this.isBrowserMode) {
-        this.processAudioForTranscription(audioData);
+        this.processAudioForTranscription(audioData, startTime, source);
       }
       // In browser mode, we rely on Web Speech API instead of audio chunks
     });
 
-    this.audioCapture.setOnError((error) => {
+    capture.setOnError((error) => {
       console.error('Audio capture error:', error);
       this.onError?.(error);
     });
   }
 
+  private captures(): Array<[RealTimeAudioCapture, AudioSource]> {
+    return this.systemCapture
+      ? [[this.audioCapture, 'microphone'], [this.systemCapture, 'system']]
+      : [[this.audioCapture, 'microphone']];
+  }
+
+  /**
+   * Also record what the computer plays, e.g. the other side of a call. 'separate'
+   * transcribes it on its own, so its text is labelled as the other speakers. Call before
+   * initialize(); only the desktop app can capture system audio.
+   */
+  setSystemAudio(mode: SystemAudioMode) {
+    this.systemAudio = mode;
+    this.audioCapture.setSources(mode === 'mix' ? 'both' : 'microphone');
+    if (mode === 'separate' && !this.systemCapture) {
+      this.systemCapture = new RealTimeAudioCapture();
+      this.systemCapture.setSources('system');
+      this.wireCapture(this.systemCapture, 'system');
+    } else if (mode !== 'separate' && this.systemCapture) {
+      this.systemCapture.cleanup();
+      this.systemCapture = null;
+    }
+  }
+
   async initialize(): Promise<boolean> {
     try {
-      const initialized = await this.audioCapture.initialize();
-      if (!initialized) {
-        console.error('Failed to initialize audio capture');
-        return false;
+      for (const [capture] of this.captures()) {
+        if (!await capture.initialize()) {
+          console.error('Failed to initialize audio capture');
+          return false;
+        }
       }
       return true;
     } catch (error) {
@@ -442,27 +760,61 @@ export class RealTimeTranscriptionManager {
     }
   }
 
+  /**
+   * Choose the input to record from; call before initialize()
+   */
+  setInput(deviceId: string | undefined, settings: AudioInputSettings) {
+    this.audioCapture.setInput(deviceId, settings);
+  }
+
+  /**
+   * Sample ambient noise so voice activity detection knows the room; nobody should speak
+   * meanwhile. Call after initialize() and before startTranscription().
+   */
+  async calibrateNoise(durationMs?: number): Promise<NoiseProfile> {
+    return this.audioCapture.calibrate(durationMs);
+  }
+
+  /**
+   * Start a session. In the desktop app, speech is cut into utterances by voice activity
+   * detection and each one is transcribed by Whisper as soon as it ends, or once it reaches
+   * `max_chunk_ms`. While an utterance is in progress it is re-transcribed every
+   * `interim_interval_ms` for interim text, which the final text later replaces.
+   */
   async startTranscription(options: RealtimeTranscriptionOptions): Promise<string | null> {
     try {
+      this.options = options;
+      this.sessionStartedAt = Date.now();
+      this.utteranceIndex = { microphone: 0, system: 0 };
+      this.sessionText = '';
+      this.lastInterim = { microphone: { id: '', samples: 0 }, system: { id: '', samples: 0 } };
+
       // Initialize transcription session with backend
       if (electronService.isElectron) {
         // Electron mode: Use native Whisper via IPC
         console.log('💻 Using Electron native Whisper transcription');
         this.sessionId = 'electron-' + Date.now();
-        
-        // Ensure model is loaded
-        const models = await electronService.listModels();
-        if (models) {
-          const hasLoadedModel = Object.values(models).some(m => m.exists);
-          if (!hasLoadedModel) {
-            // Try to load base model by default
-            await electronService.loadModel('base');
-          }
+
+        if (!await electronService.loadModel(options.model_size)) {
+          throw new Error(`Could not load the ${options.model_size} model. Is it downloaded?`);
+        }
+
+        // The calibrated noise floor is the microphone's; system audio learns its own
+        for (const [capture, source] of this.captures()) {
+          capture.setChunking(options.max_chunk_ms, options.min_silence_ms);
+          capture.setVad(options.vad_threshold, source === 'microphone' ? options.noise_floor_db : undefined);
         }
-        
         this.isTranscribing = true;
         // Start audio capture but don't use Web Speech API
-        this.audioCapture.startRecording();
+        for (const [capture] of this.captures()) {
+          if (!await capture.startRecording()) {
+            this.captures().forEach(([started]) => started.stopRecording());
+            this.isTranscribing = false;
+            this.sessionId = null;
+            return null;
+          }
+        }
+        this.startInterimUpdates(options.interim_interval_ms ?? 0);
         return this.sessionId;
       } else if (!this.isBrowserMode) {
         const { realtimeApi } = await import('./api');
@@ -473,6 +825,7 @@ export class RealTimeTranscriptionManager {
         await listen<any>('realtime-chunk', (event) => {
           const chunk = event.payload;
           this.onTranscriptionChunk?.({
+            id: chunk.id ?? `tauri-${chunk.start_time}`,
             text: chunk.text,
             start_time: chunk.start_time,
             end_time: chunk.end_time,
@@ -506,8 +859,10 @@ export class RealTimeTranscriptionManager {
   async stopTranscription(): Promise<void> {
     console.log('🛑 Stopping transcription manager - isTranscribing:', this.isTranscribing, 'sessionId:', this.sessionId);
     
+    // The utterance in progress is sent before transcription stops, so its text is kept
+    this.stopInterimUpdates();
+    this.captures().forEach(([capture]) => capture.stopRecording());
     this.isTranscribing = false;
-    this.audioCapture.stopRecording();
 
     // Stop Web Speech API in browser mode
     if (this.recognition) {
@@ -518,7 +873,10 @@ export class RealTimeTranscriptionManager {
 
     if (this.sessionId) {
       try {
-        if (!this.isBrowserMode) {
+        if (electronService.isElectron) {
+          // Resolve once the last utterances have their final text
+          await this.requestQueue;
+        } else if (!this.isBrowserMode) {
           console.log('📞 Calling Tauri stopRealtime API...');
           const { realtimeApi } = await import('./api');
           await realtimeApi.stopRealtime(this.sessionId);
@@ -538,28 +896,15 @@ export class RealTimeTranscriptionManager {
     }
   }
 
-  private async processAudioForTranscription(audioData: Float32Array) {
+  private async processAudioForTranscription(audioData: Float32Array, startTime: number, source: AudioSource) {
     if (!this.isTranscribing || !this.sessionId) return;
 
     try {
       if (electronService.isElectron) {
-        // Convert Float32Array to ArrayBuffer for Electron IPC
-        const buffer = audioData.buffer.slice(
-          audioData.byteOffset,
-          audioData.byteOffset + audioData.byteLength
-        );
-        
-        const result = await electronService.transcribeRealtime(buffer);
-        if (result) {
-          this.onTranscriptionChunk?.({
-            text: result.text,
-            start_time: 0,
-            end_time: 0,
-            confidence: result.confidence,
-            is_final: result.isFinal,
-            speaker: null
-          });
-        }
+        // The utterance has ended; audio after this belongs to the next one
+        const id = this.utteranceId(source);
+        this.utteranceIndex[source]++;
+        this.enqueueWhisper(audioData, startTime, id, true, source);
       } else if (!this.isBrowserMode) {
         // Send audio data to Tauri backend for transcription
         const { realtimeApi } = await import('./api');
@@ -576,6 +921,129 @@ export class RealTimeTranscriptionManager {
     }
   }
 
+  private utteranceId(source: AudioSource): string {
+    return source === 'microphone'
+      ? `${this.sessionId}-${this.utteranceIndex.microphone}`
+      : `${this.sessionId}-${source}-${this.utteranceIndex[source]}`;
+  }
+
+  /**
+   * Queue one Whisper run and report its text as a chunk. Runs are serialized, so a final
+   * result always arrives after the interim results it replaces. When Whisper falls behind,
+   * a new utterance is merged into the last queued one from the same source, or else the
+   * oldest queued utterance is dropped.
+   */
+  private enqueueWhisper(audio: Float32Array, startTime: number, id: string, isFinal: boolean, source: AudioSource) {
+    const request: WhisperRequest = { audio, startTime, endTime: startTime + audio.length / SAMPLE_RATE, id, isFinal, source };
+    const finals = this.queuedRequests.filter(queued => queued.isFinal);
+    if (isFinal && finals.length >= MAX_QUEUED_FINALS) {
+      const last = this.queuedRequests[this.queuedRequests.length - 1];
+      if (last.isFinal && last.source === source && last.audio.length + audio.length <= MAX_MERGED_SAMPLES) {
+        const merged = new Float32Array(last.audio.length + audio.length);
+        merged.set(last.audio);
+        merged.set(audio, last.audio.length);
+        last.audio = merged;
+        last.endTime = request.endTime;
+        // The merged text is reported under the earlier id; the later one is removed
+        this.emitChunk({ ...request, text: '', confidence: 0 });
+        return;
+      }
+
+      const dropped = finals[0];
+      this.queuedRequests = this.queuedRequests.filter(queued => queued !== dropped);
+      this.emitChunk({ ...dropped, text: '', confidence: 0 });
+      const seconds = Math.round(dropped.audio.length / SAMPLE_RATE);
+      this.onError?.(new Error(`Live transcription is falling behind; skipped ${seconds}s of audio. A smaller model keeps up better.`));
+    }
+
+    this.queuedRequests.push(request);
+    if (!this.processingRequest) {
+      this.requestQueue = new Promise(resolve => {
+        this.resolveRequestQueue = resolve;
+      });
+      this.processRequests();
+    }
+  }
+
+  private async processRequests() {
+    this.processingRequest = true;
+    let request: WhisperRequest | undefined;
+    while ((request = this.queuedRequests.shift())) {
+      const { audio, isFinal } = request;
+      try {
+        // Convert Float32Array to ArrayBuffer for Electron IPC
+        const buffer = audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength);
+        const result = await electronService.transcribeRealtime(buffer, {
+          language: this.options?.language,
+          initialPrompt: this.contextPrompt(),
+        });
+        if (!result?.success) {
+          throw new Error(result?.error || 'Live transcription failed');
+        }
+
+        const text = (result.text || '').trim();
+        if (isFinal && text) {
+          this.sessionText = `${this.sessionText} ${text}`.trim();
+        }
+        this.emitChunk({ ...request, text, confidence: result.confidence ?? 0 });
+      } catch (error) {
+        console.error('Failed to transcribe live audio:', error);
+        this.onError?.(error as Error);
+      }
+    }
+    this.processingRequest = false;
+    this.resolveRequestQueue?.();
+    this.resolveRequestQueue = null;
+  }
+
+  private emitChunk({ startTime, endTime, id, isFinal, source, text, confidence }: WhisperRequest & { text: string; confidence: number }) {
+    this.onTranscriptionChunk?.({
+      id,
+      text,
+      start_time: startTime,
+      end_time: endTime,
+      confidence,
+      is_final: isFinal,
+      ...(this.systemAudio === 'separate' ? { speaker: SOURCE_SPEAKERS[source] } : {}),
+    });
+  }
+
+  private startInterimUpdates(intervalMs: number) {
+    if (intervalMs <= 0) return;
+    this.interimTimer = window.setInterval(() => {
+      // Interim text waits while Whisper is busy, so it never delays final text
+      if (this.processingRequest) return;
+      for (const [capture, source] of this.captures()) {
+        const buffered = capture.peekBufferedAudio();
+        if (!buffered || buffered.audio.length < MIN_INTERIM_SAMPLES) continue;
+
+        const id = this.utteranceId(source);
+        const last = this.lastInterim[source];
+        if (last.id === id && last.samples === buffered.audio.length) continue;
+        this.lastInterim[source] = { id, samples: buffered.audio.length };
+        this.enqueueWhisper(buffered.audio, buffered.startTime, id, false, source);
+      }
+    }, intervalMs);
+  }
+
+  private stopInterimUpdates() {
+    if (this.interimTimer !== null) {
+      clearInterval(this.interimTimer);
+      this.interimTimer = null;
+    }
+  }
+
+  /**
+   * Vocabulary prompt followed by the end of the text so far, starting at a word boundary
+   */
+  private contextPrompt(): string | undefined {
+    const recent = this.sessionText.length > CONTEXT_CHARS
+      ? this.sessionText.slice(-CONTEXT_CHARS).replace(/^\S*\s+/, '')
+      : this.sessionText;
+    const prompt = [this.options?.initial_prompt, recent].filter(Boolean).join(' ').trim();
+    return prompt || undefined;
+  }
+
   private async setupWebSpeechAPI(options: RealtimeTranscriptionOptions): Promise<void> {
     // Check if Web Speech API is available
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -596,6 +1064,8 @@ export class RealTimeTranscriptionManager {
     this.recognition.maxAlternatives = 1;
 
     this.recognition.onstart = () => {
+      // Result indexes start over each time recognition restarts
+      this.recognitionRun++;
       console.log('✅ Web Speech API started');
     };
 
@@ -607,10 +1077,12 @@ export class RealTimeTranscriptionManager {
         const alternative = result[0];
         
         if (alternative.transcript.trim()) {
+          const elapsed = (Date.now() - this.sessionStartedAt) / 1000;
           const chunk: RealtimeChunk = {
+            id: `${this.sessionId}-${this.recognitionRun}-${i}`,
             text: alternative.transcript,
-            start_time: Date.now() - 2000, // Approximate start time
-            end_time: Date.now(),
+            start_time: Math.max(0, elapsed - 2), // Approximate start time
+            end_time: elapsed,
             confidence: alternative.confidence || 0.8,
             is_final: result.isFinal,
             speaker: alternative.confidence > 0.7 ? 'You' : undefined
@@ -699,10 +1171,12 @@ export class RealTimeTranscriptionManager {
         // Add detailed energy information for debugging
         const energyInfo = ` [E:${energy.toFixed(6)}, Raw:${(energy*1000000).toFixed(1)}µ]`;
         
+        const elapsed = (Date.now() - this.sessionStartedAt) / 1000;
         const chunk: RealtimeChunk = {
+          id: `${this.sessionId}-simulated-${Date.now()}`,
           text: selectedPhrase + energyInfo,
-          start_time: Date.now(),
-          end_time: Date.now() + 2000,
+          start_time: elapsed,
+          end_time: elapsed + 2,
           confidence: Math.min(0.6 + (energy * 20), 0.95),
           is_final: true,
           speaker: energy > 0.005 ? 'Speaker 1' : undefined
@@ -724,7 +1198,7 @@ export class RealTimeTranscriptionManager {
 
   cleanup() {
     this.stopTranscription();
-    this.audioCapture.cleanup();
+    this.captures().forEach(([capture]) => capture.cleanup());
   }
 
   // Setters for callbacks
@@ -0,0 +1,42 @@
+import type { NoiseProfile, RealtimeConfig } from './types';
+
+// The noise profile belongs to this computer's microphone and room, not to the config
+const NOISE_PROFILE_STORAGE_KEY = 'vad-noise-profile';
+
+export const DEFAULT_REALTIME_CONFIG: RealtimeConfig = {
+  vad_threshold: 0.2,
+  min_silence_duration_ms: 800,
+  max_chunk_duration_ms: 8000,
+  buffer_duration_ms: 1500,
+  interim_interval_ms: 1500,
+  sample_rate: 16000,
+  enable_diarization: false,
+  auto_save_sessions: false,
+  system_audio: 'off',
+};
+
+/**
+ * Fill in settings missing from configs saved before they existed
+ */
+export function withRealtimeDefaults(config?: Partial<RealtimeConfig>): RealtimeConfig {
+  return { ...DEFAULT_REALTIME_CONFIG, ...config };
+}
+
+export function loadNoiseProfile(): NoiseProfile | null {
+  try {
+    const raw = localStorage.getItem(NOISE_PROFILE_STORAGE_KEY);
+    const stored: NoiseProfile | null = raw ? JSON.parse(raw) : null;
+    return stored && Number.isFinite(stored.noise_floor_db) ? stored : null;
+  } catch (error) {
+    console.warn('Could not read noise profile:', error);
+    return null;
+  }
+}
+
+export function saveNoiseProfile(profile: NoiseProfile | null) {
+  if (profile) {
+    localStorage.setItem(NOISE_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  } else {
+    localStorage.removeItem(NOISE_PROFILE_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { characterErrorRate, diffWords, normalizeForScoring, wordErrorRate } from './scoring';
+
+describe('normalizeForScoring', () => {
+  it('drops casing, punctuation and quotes around words', () => {
+    expect(normalizeForScoring('  “Hello,” she said — it’s FINE!  ')).toBe("hello she said it's fine");
+    expect(normalizeForScoring("'quoted' words")).toBe('quoted words');
+  });
+});
+
+describe('wordErrorRate', () => {
+  it('is zero when only casing and punctuation differ', () => {
+    expect(wordErrorRate('Hello, world.', 'hello world')).toEqual({
+      rate: 0, substitutions: 0, deletions: 0, insertions: 0, reference_length: 2,
+    });
+  });
+
+  it('counts substitutions, deletions and insertions', () => {
+    // the→a (substitution), quick dropped (deletion), "really" added (insertion)
+    expect(wordErrorRate('the quick brown fox jumps', 'a brown fox really jumps')).toEqual({
+      rate: 3 / 5, substitutions: 1, deletions: 1, insertions: 1, reference_length: 5,
+    });
+  });
+
+  it('can go above one when the hypothesis adds many words', () => {
+    expect(wordErrorRate('yes', 'yes yes yes').rate).toBe(2);
+  });
+
+  it('scores an empty reference as all or nothing', () => {
+    expect(wordErrorRate('', '').rate).toBe(0);
+    expect(wordErrorRate('...', 'something').rate).toBe(1);
+    expect(wordErrorRate('one two', '')).toMatchObject({ rate: 1, deletions: 2 });
+  });
+});
+
+describe('characterErrorRate', () => {
+  it('counts spaces as characters', () => {
+    expect(characterErrorRate('ab cd', 'abcd')).toMatchObject({ rate: 1 / 5, deletions: 1, reference_length: 5 });
+    expect(characterErrorRate('Kitten', 'sitting')).toMatchObject({ substitutions: 2, insertions: 1, reference_length: 6 });
+  });
+});
+
+describe('diffWords', () => {
+  it('aligns words as written and compares them normalized', () => {
+    expect(diffWords('The cat sat, quietly.', 'the dog sat')).toEqual([
+      { type: 'equal', reference: 'The', hypothesis: 'the' },
+      { type: 'substitute', reference: 'cat', hypothesis: 'dog' },
+      { type: 'equal', reference: 'sat,', hypothesis: 'sat' },
+      { type: 'delete', reference: 'quietly.' },
+    ]);
+  });
+
+  it('skips bare punctuation and reports insertions', () => {
+    expect(diffWords('one — two', 'one and two')).toEqual([
+      { type: 'equal', reference: 'one', hypothesis: 'one' },
+      { type: 'insert', hypothesis: 'and' },
+      { type: 'equal', reference: 'two', hypothesis: 'two' },
+    ]);
+  });
+
+  it('gives up on texts too long to align', () => {
+    const long = Array.from({ length: 5000 }, (_, i) => `w${i}`).join(' ');
+    expect(diffWords(long, long)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import type { ErrorRateScore } from './types';
+
+export interface WordDiffOp {
+  type: 'equal' | 'substitute' | 'delete' | 'insert';
+  // Word from the reference (absent for insertions)
+  reference?: string;
+  // Word from the hypothesis (absent for deletions)
+  hypothesis?: string;
+}
+
+// Word alignments keep a full backtrace table; beyond this many cells the diff is skipped
+// (scores still work, using two rows)
+const MAX_ALIGNMENT_CELLS = 20_000_000;
+
+const Step = { Equal: 0, Substitute: 1, Delete: 2, Insert: 3 } as const;
+
+/**
+ * Normalize text before scoring so casing and punctuation do not count as errors
+ */
+export function normalizeForScoring(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]+/gu, ' ')
+    .replace(/(^|\s)'+|'+(?=\s|$)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Word error rate: (substitutions + deletions + insertions) / reference words
+ */
+export function wordErrorRate(reference: string, hypothesis: string): ErrorRateScore {
+  return score(words(reference), words(hypothesis));
+}
+
+/**
+ * Character error rate over the normalized text, spaces included
+ */
+export function characterErrorRate(reference: string, hypothesis: string): ErrorRateScore {
+  return score([...normalizeForScoring(reference)], [...normalizeForScoring(hypothesis)]);
+}
+
+/**
+ * Align two texts word by word for display. Words are compared normalized but returned as
+ * written. Returns null when the texts are too long to align.
+ */
+export function diffWords(reference: string, hypothesis: string): WordDiffOp[] | null {
+  const referenceWords = displayWords(reference);
+  const hypothesisWords = displayWords(hypothesis);
+  const n = referenceWords.length;
+  const m = hypothesisWords.length;
+  if ((n + 1) * (m + 1) > MAX_ALIGNMENT_CELLS) return null;
+
+  const referenceKeys = referenceWords.map(normalizeForScoring);
+  const hypothesisKeys = hypothesisWords.map(normalizeForScoring);
+  const steps = new Uint8Array((n + 1) * (m + 1));
+  let previous = new Uint32Array(m + 1);
+  let current = new Uint32Array(m + 1);
+
+  for (let j = 0; j <= m; j++) {
+    previous[j] = j;
+    steps[j] = Step.Insert;
+  }
+  for (let i = 1; i <= n; i++) {
+    current[0] = i;
+    steps[i * (m + 1)] = Step.Delete;
+    for (let j = 1; j <= m; j++) {
+      const same = referenceKeys[i - 1] === hypothesisKeys[j - 1];
+      const diagonal = previous[j - 1] + (same ? 0 : 1);
+      const deletion = previous[j] + 1;
+      const insertion = current[j - 1] + 1;
+      // On ties prefer a gap over a substitution, which keeps shared words lined up
+      if (same && diagonal <= deletion && diagonal <= insertion) {
+        current[j] = diagonal;
+        steps[i * (m + 1) + j] = Step.Equal;
+      } else if (deletion <= insertion && deletion <= diagonal) {
+        current[j] = deletion;
+        steps[i * (m + 1) + j] = Step.Delete;
+      } else if (insertion <= diagonal) {
+        current[j] = insertion;
+        steps[i * (m + 1) + j] = Step.Insert;
+      } else {
+        current[j] = diagonal;
+        steps[i * (m + 1) + j] = Step.Substitute;
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const ops: WordDiffOp[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const step = steps[i * (m + 1) + j];
+    if (i > 0 && j > 0 && (step === Step.Equal || step === Step.Substitute)) {
+      ops.push({
+        type: step === Step.Equal ? 'equal' : 'substitute',
+        reference: referenceWords[i - 1],
+        hypothesis: hypothesisWords[j - 1],
+      });
+      i--;
+      j--;
+    } else if (i > 0 && (step === Step.Delete || j === 0)) {
+      ops.push({ type: 'delete', reference: referenceWords[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'insert', hypothesis: hypothesisWords[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+function words(text: string): string[] {
+  const normalized = normalizeForScoring(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+// Whitespace-separated words that contain something to score (not bare punctuation)
+function displayWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => normalizeForScoring(word) !== '');
+}
+
+/**
+ * Levenshtein distance split into substitutions, deletions and insertions, keeping two rows
+ */
+function score(reference: string[], hypothesis: string[]): ErrorRateScore {
+  const m = hypothesis.length;
+  const row = () => ({
+    cost: new Uint32Array(m + 1),
+    substitutions: new Uint32Array(m + 1),
+    deletions: new Uint32Array(m + 1),
+    insertions: new Uint32Array(m + 1),
+  });
+  let previous = row();
+  let current = row();
+  for (let j = 0; j <= m; j++) {
+    previous.cost[j] = j;
+    previous.insertions[j] = j;
+  }
+
+  const copy = (from: ReturnType<typeof row>, fromIndex: number, to: number) => {
+    current.substitutions[to] = from.substitutions[fromIndex];
+    current.deletions[to] = from.deletions[fromIndex];
+    current.insertions[to] = from.insertions[fromIndex];
+  };
+
+  for (let i = 1; i <= reference.length; i++) {
+    current.cost[0] = i;
+    current.substitutions[0] = 0;
+    current.deletions[0] = i;
+    current.insertions[0] = 0;
+    for (let j = 1; j <= m; j++) {
+      const same = reference[i - 1] === hypothesis[j - 1];
+      const diagonal = previous.cost[j - 1] + (same ? 0 : 1);
+      const deletion = previous.cost[j] + 1;
+      const insertion = current.cost[j - 1] + 1;
+      if (diagonal <= deletion && diagonal <= insertion) {
+        current.cost[j] = diagonal;
+        copy(previous, j - 1, j);
+        if (!same) current.substitutions[j]++;
+      } else if (deletion <= insertion) {
+        current.cost[j] = deletion;
+        copy(previous, j, j);
+        current.deletions[j]++;
+      } else {
+        current.cost[j] = insertion;
+        copy(current, j - 1, j);
+        current.insertions[j]++;
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const errors = previous.cost[m];
+  const referenceLength = reference.length;
+  return {
+    rate: referenceLength > 0 ? errors / referenceLength : (m > 0 ? 1 : 0),
+    substitutions: previous.substitutions[m],
+    deletions: previous.deletions[m],
+    insertions: previous.insertions[m],
+    reference_length: referenceLength,
+  };
+}
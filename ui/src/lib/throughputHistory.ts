@@ -0,0 +1,78 @@
+import type { ModelId, ThroughputSample } from './types';
+
+const STORAGE_KEY = 'throughput-history';
+// Oldest runs are dropped first; hardware and models change, so recent runs matter most
+const MAX_SAMPLES = 500;
+// Shorter runs are dominated by startup costs and would make models look slower than they are
+const MIN_AUDIO_SECONDS = 5;
+
+/**
+ * Local record of completed transcriptions: audio length, model, GPU flag and wall time.
+ * OptimizationEngine learns from it how fast each model runs on this machine.
+ */
+export class ThroughputHistory {
+  private static instance: ThroughputHistory;
+  private listeners = new Set<() => void>();
+  // Estimates are computed on every render, so storage is parsed only after a change
+  private samples: ThroughputSample[] | null = null;
+
+  static getInstance(): ThroughputHistory {
+    if (!ThroughputHistory.instance) {
+      ThroughputHistory.instance = new ThroughputHistory();
+    }
+    return ThroughputHistory.instance;
+  }
+
+  list(): ThroughputSample[] {
+    if (!this.samples) {
+      this.samples = this.readStored();
+    }
+    return this.samples;
+  }
+
+  /**
+   * Add a completed run. Runs too short or without timings to learn from are ignored.
+   */
+  record(model: ModelId, useGpu: boolean, audioSeconds: number | undefined, wallSeconds: number | undefined) {
+    if (!model || !audioSeconds || !wallSeconds || audioSeconds < MIN_AUDIO_SECONDS || wallSeconds <= 0) {
+      return;
+    }
+    const sample: ThroughputSample = {
+      model,
+      use_gpu: useGpu,
+      audio_seconds: audioSeconds,
+      wall_seconds: wallSeconds,
+      completed_at: new Date().toISOString(),
+    };
+    this.writeStored([...this.list(), sample].slice(-MAX_SAMPLES));
+  }
+
+  clear() {
+    this.writeStored([]);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private readStored(): ThroughputSample[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not read throughput history:', error);
+      return [];
+    }
+  }
+
+  private writeStored(samples: ThroughputSample[]) {
+    this.samples = samples;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(samples));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const throughputHistory = ThroughputHistory.getInstance();
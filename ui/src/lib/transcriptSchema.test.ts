@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TRANSCRIPT_SCHEMA_ID,
+  TranscriptValidationError,
+  createTranscriptDocument,
+  documentToTranscript,
+  readTranscriptJson,
+  writeTranscriptJson,
+} from './transcriptSchema';
+
+const transcript = {
+  text: 'Hello world. Goodbye.',
+  language: 'en',
+  duration: 4,
+  segments: [
+    { start: 0, end: 1.5, text: ' Hello world. ', speaker: 'SPEAKER_1', confidence: 0.9, words: [{ word: 'Hello', start: 0, end: 0.6, probability: 0.95 }] },
+    { start: 2, end: 3, text: 'Goodbye.' },
+  ],
+};
+
+function issuesOf(json: string): string[] {
+  try {
+    readTranscriptJson(json);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TranscriptValidationError);
+    return (error as TranscriptValidationError).issues;
+  }
+  throw new Error('expected the transcript to be rejected');
+}
+
+describe('transcript JSON', () => {
+  it('reads back what it writes', () => {
+    const document = createTranscriptDocument(transcript, {
+      model: { size: 'base.en', use_gpu: true, language: 'en' },
+      source: { filename: 'call.m4a', size_bytes: 1024 },
+    });
+    const read = readTranscriptJson(writeTranscriptJson(document));
+
+    expect(read).toEqual(document);
+    expect(read.segments[0]).toMatchObject({ id: 0, text: 'Hello world.', speaker: 'SPEAKER_1', confidence: 0.9 });
+    expect(documentToTranscript(read).transcript.segments?.[1]).toEqual({ start: 2, end: 3, text: 'Goodbye.' });
+  });
+
+  it('upgrades unversioned files to version 1', () => {
+    const read = readTranscriptJson(JSON.stringify({
+      text: 'Old file',
+      segments: [{ start: 0, end: 2.5, text: 'Old file' }],
+    }));
+
+    expect(read).toMatchObject({
+      schema: TRANSCRIPT_SCHEMA_ID,
+      version: 1,
+      model: { size: 'unknown', use_gpu: false, language: 'auto' },
+      duration: 2.5,
+      segments: [{ id: 0, start: 0, end: 2.5, text: 'Old file' }],
+    });
+    expect(read.language).toBeUndefined();
+  });
+
+  it('rejects text that is not a JSON object', () => {
+    expect(issuesOf('{ not json')[0]).toMatch(/^not valid JSON/);
+    expect(issuesOf('[1, 2]')).toEqual(['top level must be an object']);
+  });
+
+  it('rejects other schemas and newer versions', () => {
+    expect(issuesOf(JSON.stringify({ schema: 'someone-else', version: 1 }))).toEqual([`"schema" must be "${TRANSCRIPT_SCHEMA_ID}"`]);
+    expect(issuesOf(JSON.stringify({ schema: TRANSCRIPT_SCHEMA_ID, version: 2 }))[0]).toMatch(/newer than this app supports/);
+  });
+
+  it('lists every problem in a versioned file', () => {
+    const document = createTranscriptDocument(transcript);
+    const broken = {
+      ...document,
+      duration: 'long',
+      model: { ...document.model, use_gpu: 'yes' },
+      segments: [
+        { ...document.segments[0], confidence: 1.5 },
+        { ...document.segments[1], start: 5, end: 4 },
+        'not a segment',
+      ],
+    };
+
+    expect(issuesOf(JSON.stringify(broken))).toEqual([
+      '"duration" must be a number',
+      '"model.use_gpu" must be a boolean',
+      '"segments[0].confidence" must be between 0 and 1',
+      '"segments[1]" ends before it starts',
+      '"segments[2]" must be an object',
+    ]);
+  });
+
+  it('requires the fields a versioned file must have', () => {
+    expect(issuesOf(JSON.stringify({ schema: TRANSCRIPT_SCHEMA_ID, version: 1 }))).toEqual([
+      '"created_at" is required',
+      '"text" is required',
+      '"duration" is required',
+      '"model" is required',
+      '"processing" is required',
+      '"segments" must be an array',
+    ]);
+  });
+});
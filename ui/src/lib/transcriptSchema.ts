@@ -0,0 +1,248 @@
+import type { ProcessedTranscript, TranscriptDocument, TranscriptSourceInfo } from './types';
+import type { TranscriptOutput } from './outputFormats';
+import { AppError } from './errorHandler';
+
+export const TRANSCRIPT_SCHEMA_ID = 'concise-notes/transcript';
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export class TranscriptValidationError extends AppError {
+  constructor(public issues: string[]) {
+    super(`Invalid transcript file: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`, 'INVALID_TRANSCRIPT');
+    this.name = 'TranscriptValidationError';
+  }
+}
+
+export interface TranscriptDocumentContext {
+  model?: Partial<TranscriptDocument['model']>;
+  source?: TranscriptSourceInfo;
+  processed?: ProcessedTranscript | null;
+  // Wall-clock transcription time in seconds
+  transcriptionSeconds?: number;
+}
+
+/**
+ * Build a versioned transcript document from a transcription result and its post-processing
+ */
+export function createTranscriptDocument(transcript: TranscriptOutput, context: TranscriptDocumentContext = {}): TranscriptDocument {
+  const segments = (transcript.segments || []).map((segment, index) => ({
+    id: index,
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+    ...(typeof segment.confidence === 'number' ? { confidence: segment.confidence } : {}),
+    ...(segment.words?.length ? { words: segment.words } : {}),
+  }));
+  const processed = context.processed;
+
+  return {
+    schema: TRANSCRIPT_SCHEMA_ID,
+    version: TRANSCRIPT_SCHEMA_VERSION,
+    created_at: new Date().toISOString(),
+    ...(context.source ? { source: context.source } : {}),
+    model: {
+      size: context.model?.size || 'unknown',
+      use_gpu: context.model?.use_gpu ?? false,
+      language: context.model?.language || 'auto',
+      ...(context.model?.decoding ? { decoding: context.model.decoding } : {}),
+    },
+    ...(transcript.language ? { language: transcript.language } : {}),
+    duration: transcript.duration ?? (segments.length > 0 ? segments[segments.length - 1].end : 0),
+    processing: {
+      ...(context.transcriptionSeconds !== undefined ? { transcription_seconds: context.transcriptionSeconds } : {}),
+      ...(processed ? { post_processing_ms: processed.processing_time } : {}),
+    },
+    text: transcript.text,
+    segments,
+    ...(processed ? {
+      post_processing: {
+        ...(processed.formatted_text ? { formatted_text: processed.formatted_text } : {}),
+        ...(processed.summary ? { summary: processed.summary } : {}),
+        models_used: processed.models_used,
+        ...(processed.warnings?.length ? { warnings: processed.warnings } : {}),
+      },
+    } : {}),
+  };
+}
+
+export function writeTranscriptJson(document: TranscriptDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parse and validate a transcript JSON file. Unversioned files written before the
+ * schema existed ({ text, segments, language, duration }) are upgraded to version 1.
+ * Throws TranscriptValidationError listing every problem found.
+ */
+export function readTranscriptJson(json: string): TranscriptDocument {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new TranscriptValidationError([`not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+  }
+
+  if (!isObject(data)) {
+    throw new TranscriptValidationError(['top level must be an object']);
+  }
+
+  if (data.schema === undefined && data.version === undefined && typeof data.text === 'string') {
+    data = upgradeUnversioned(data);
+  }
+
+  const issues: string[] = [];
+  if (data.schema !== TRANSCRIPT_SCHEMA_ID) {
+    issues.push(`"schema" must be "${TRANSCRIPT_SCHEMA_ID}"`);
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    issues.push('"version" must be a positive integer');
+  } else if (data.version > TRANSCRIPT_SCHEMA_VERSION) {
+    issues.push(`version ${data.version} is newer than this app supports (${TRANSCRIPT_SCHEMA_VERSION}); please update the app`);
+  }
+  if (issues.length > 0) {
+    throw new TranscriptValidationError(issues);
+  }
+
+  expect(issues, 'created_at', data.created_at, 'string');
+  expect(issues, 'text', data.text, 'string');
+  expect(issues, 'duration', data.duration, 'number');
+  expect(issues, 'language', data.language, 'string', true);
+
+  if (expect(issues, 'model', data.model, 'object')) {
+    expect(issues, 'model.size', data.model.size, 'string');
+    expect(issues, 'model.use_gpu', data.model.use_gpu, 'boolean');
+    expect(issues, 'model.language', data.model.language, 'string');
+    expect(issues, 'model.decoding', data.model.decoding, 'object', true);
+  }
+
+  if (expect(issues, 'source', data.source, 'object', true) && data.source) {
+    expect(issues, 'source.filename', data.source.filename, 'string');
+    expect(issues, 'source.path', data.source.path, 'string', true);
+    expect(issues, 'source.size_bytes', data.source.size_bytes, 'number', true);
+  }
+
+  if (expect(issues, 'processing', data.processing, 'object')) {
+    expect(issues, 'processing.transcription_seconds', data.processing.transcription_seconds, 'number', true);
+    expect(issues, 'processing.post_processing_ms', data.processing.post_processing_ms, 'number', true);
+  }
+
+  if (!Array.isArray(data.segments)) {
+    issues.push('"segments" must be an array');
+  } else {
+    data.segments.forEach((segment: any, index: number) => {
+      const path = `segments[${index}]`;
+      if (!expect(issues, path, segment, 'object')) return;
+      expect(issues, `${path}.id`, segment.id, 'number');
+      expect(issues, `${path}.start`, segment.start, 'number');
+      expect(issues, `${path}.end`, segment.end, 'number');
+      expect(issues, `${path}.text`, segment.text, 'string');
+      expect(issues, `${path}.speaker`, segment.speaker, 'string', true);
+      if (expect(issues, `${path}.confidence`, segment.confidence, 'number', true) &&
+          segment.confidence !== undefined && (segment.confidence < 0 || segment.confidence > 1)) {
+        issues.push(`"${path}.confidence" must be between 0 and 1`);
+      }
+      if (typeof segment.start === 'number' && typeof segment.end === 'number' && segment.end < segment.start) {
+        issues.push(`"${path}" ends before it starts`);
+      }
+      if (expect(issues, `${path}.words`, segment.words, 'array', true) && segment.words) {
+        segment.words.forEach((word: any, wordIndex: number) => {
+          const wordPath = `${path}.words[${wordIndex}]`;
+          if (!expect(issues, wordPath, word, 'object')) return;
+          expect(issues, `${wordPath}.word`, word.word, 'string');
+          expect(issues, `${wordPath}.start`, word.start, 'number');
+          expect(issues, `${wordPath}.end`, word.end, 'number');
+          if (expect(issues, `${wordPath}.probability`, word.probability, 'number', true) &&
+              word.probability !== undefined && (word.probability < 0 || word.probability > 1)) {
+            issues.push(`"${wordPath}.probability" must be between 0 and 1`);
+          }
+        });
+      }
+    });
+  }
+
+  if (expect(issues, 'post_processing', data.post_processing, 'object', true) && data.post_processing) {
+    const post = data.post_processing;
+    expect(issues, 'post_processing.formatted_text', post.formatted_text, 'string', true);
+    expect(issues, 'post_processing.models_used', post.models_used, 'object');
+    expect(issues, 'post_processing.warnings', post.warnings, 'array', true);
+    if (expect(issues, 'post_processing.summary', post.summary, 'object', true) && post.summary) {
+      expect(issues, 'post_processing.summary.content', post.summary.content, 'string');
+      expect(issues, 'post_processing.summary.format', post.summary.format, 'string');
+      expect(issues, 'post_processing.summary.key_points', post.summary.key_points, 'array', true);
+      expect(issues, 'post_processing.summary.action_items', post.summary.action_items, 'array', true);
+      expect(issues, 'post_processing.summary.insights', post.summary.insights, 'array', true);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new TranscriptValidationError(issues);
+  }
+  return data as TranscriptDocument;
+}
+
+/**
+ * Turn a document back into the shapes the transcribe page works with
+ */
+export function documentToTranscript(document: TranscriptDocument): { transcript: TranscriptOutput; processed: ProcessedTranscript } {
+  const post = document.post_processing;
+  return {
+    transcript: {
+      text: document.text,
+      segments: document.segments.map(({ id, ...segment }) => segment),
+      language: document.language,
+      duration: document.duration,
+    },
+    processed: {
+      original_text: document.text,
+      formatted_text: post?.formatted_text,
+      summary: post?.summary,
+      processing_time: document.processing.post_processing_ms ?? 0,
+      models_used: post?.models_used || {},
+      warnings: post?.warnings,
+    },
+  };
+}
+
+function upgradeUnversioned(data: any): any {
+  const segments = Array.isArray(data.segments) ? data.segments : [];
+  return {
+    schema: TRANSCRIPT_SCHEMA_ID,
+    version: 1,
+    created_at: new Date().toISOString(),
+    model: { size: 'unknown', use_gpu: false, language: 'auto' },
+    ...(typeof data.language === 'string' ? { language: data.language } : {}),
+    duration: typeof data.duration === 'number' ? data.duration : (segments[segments.length - 1]?.end ?? 0),
+    processing: {},
+    text: data.text,
+    segments: segments.map((segment: any, index: number) => ({ id: index, ...segment })),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Record an issue if the value is not of the expected type. Returns whether it matched.
+ */
+function expect(
+  issues: string[],
+  path: string,
+  value: unknown,
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array',
+  optional: boolean = false
+): boolean {
+  if (value === undefined) {
+    if (!optional) issues.push(`"${path}" is required`);
+    return optional;
+  }
+
+  const matches = type === 'array' ? Array.isArray(value)
+    : type === 'object' ? isObject(value)
+    : type === 'number' ? typeof value === 'number' && Number.isFinite(value)
+    : typeof value === type;
+  if (!matches) {
+    issues.push(`"${path}" must be ${type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`}`);
+  }
+  return matches;
+}
@@ -1,8 +1,39 @@
+/**
+ * Whisper decoding settings for a job. The settings a run used are stored with its result,
+ * so it can be reproduced.
+ */
+export interface DecodingOptions {
+  task: 'transcribe' | 'translate';
+  // 1 decodes greedily; above 1 uses beam search with this many beams
+  beam_size: number;
+  // Candidates sampled per window when decoding greedily at a non-zero temperature
+  best_of: number;
+  temperature: number;
+  // Added to the temperature when a window fails whisper.cpp's quality checks; 0 disables fallback
+  temperature_increment: number;
+  // Probability of silence above which a window is treated as having no speech
+  no_speech_threshold: number;
+  // Text the decoder is primed with, e.g. names or the expected style; the vocabulary glossary is appended
+  initial_prompt: string;
+  // Longest segment in characters; 0 for no limit
+  max_segment_length: number;
+  // Only break segments between words when enforcing max_segment_length
+  split_on_word: boolean;
+  // Inference threads; 0 picks a count for the machine
+  threads: number;
+}
+
 export interface ModelConfig {
-  default_size: ModelSize;
+  default_size: ModelId;
   models_directory: string;
   use_gpu: boolean;
   auto_download: boolean;
+  // Base URL of a mirror serving the model files; empty uses the manifest source
+  download_mirror: string;
+  // Longest acceptable processing time per job, used to recommend a model; 0 turns it off
+  target_turnaround_minutes: number;
+  // Defaults for new jobs
+  decoding: DecodingOptions;
 }
 
 export interface OutputConfig {
@@ -11,18 +42,68 @@ export interface OutputConfig {
   timestamps: boolean;
   naming_pattern: string;
   skip_existing: boolean;
+  subtitles: SubtitleOptions;
+}
+
+export interface SubtitleOptions {
+  max_chars_per_line: number;
+  max_lines_per_cue: number;
+  // Cue durations in seconds
+  min_cue_duration: number;
+  max_cue_duration: number;
+  speaker_prefix: boolean;
+}
+
+export interface SubtitleCue {
+  index: number;
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
 }
 
 export interface RealtimeConfig {
   default_language?: string;
+  // How far above the noise floor speech must be, from 0 (sensitive) to 1 (conservative)
   vad_threshold: number;
+  // Pause that ends an utterance and finalizes its text
   min_silence_duration_ms: number;
+  // Longest utterance before its text is finalized anyway; bounds the latency of final text
   max_chunk_duration_ms: number;
   buffer_duration_ms: number;
+  // How often the utterance in progress is re-transcribed for interim text; 0 turns it off
+  interim_interval_ms: number;
   sample_rate: number;
   enable_diarization: boolean;
   auto_save_sessions: boolean;
   sessions_directory?: string;
+  system_audio: SystemAudioMode;
+}
+
+// Ambient noise sampled by the real-time calibration step
+export interface NoiseProfile {
+  // Level of the room in dBFS, below which nothing counts as speech
+  noise_floor_db: number;
+  // Mean spectral flatness of the noise (0-1); near 1 for hiss, low for hum
+  spectral_flatness: number;
+  calibrated_at: string;
+}
+
+// A microphone or other audio input, as listed by the browser
+export interface AudioInputDevice {
+  device_id: string;
+  // Empty until microphone permission is granted
+  label: string;
+  // Inputs and outputs of the same physical device share a group
+  group_id: string;
+}
+
+// Browser audio processing, chosen per input device. All on suits speech on a laptop; music
+// and interview recordings usually sound better with them off.
+export interface AudioInputSettings {
+  echo_cancellation: boolean;
+  noise_suppression: boolean;
+  auto_gain_control: boolean;
 }
 
 export interface BatchConfig {
@@ -59,14 +140,39 @@ export interface AppConfig {
   post_processing: PostProcessingConfig;
 }
 
-export type ModelSize = 
-  | 'Tiny' 
-  | 'Base' 
-  | 'Small' 
-  | 'Medium' 
-  | 'Large' 
-  | 'LargeV2' 
-  | 'LargeV3';
+// Registry id from model-manifest.json, e.g. 'base', 'tiny.en-q5_1' or 'large-v3-turbo'
+export type ModelId = string;
+
+export type ModelQuantization = 'q4_0' | 'q4_1' | 'q5_0' | 'q5_1' | 'q8_0';
+
+// English-only models have ".en" in their id
+export type ModelLanguageScope = 'multilingual' | 'en';
+
+export interface ModelDefinition {
+  id: ModelId;
+  name: string;
+  // Size class the model belongs to: 'tiny', 'base', 'small', 'medium' or 'large'
+  family: string;
+  file: string;
+  size_mb: number;
+  quantization: ModelQuantization | null;
+  language: ModelLanguageScope;
+  distilled?: boolean;
+  // Approximate multiple of realtime when running on CPU
+  relative_speed: number;
+  recommended_use: string;
+  checksum?: string;
+  url?: string;
+  // Older ids that still resolve to this model, e.g. 'large' and 'largev3'
+  aliases?: string[];
+  // Set for models imported from disk rather than listed in the manifest
+  custom?: boolean;
+  notes?: string;
+  // Original file of an imported model, and whether the models directory only links to it
+  source?: string;
+  linked?: boolean;
+  imported_at?: string;
+}
 
 export type OutputFormat = 'Text' | 'Json' | 'Srt' | 'Vtt';
 
@@ -74,12 +180,13 @@ export interface TranscriptionJob {
   id: string;
   input_path: string;
   output_path?: string;
-  model_size: ModelSize;
+  model_size: ModelId;
   format: OutputFormat;
   language?: string;
   timestamps: boolean;
   gpu: boolean;
   diarization: boolean;
+  decoding?: DecodingOptions;
   status: JobStatus;
   progress: number;
   start_time?: string;
@@ -108,10 +215,23 @@ export interface TranscriptionSegment {
   end: number;
   text: string;
   speaker?: string;
+  // Average token probability (0-1), when the model reports it
+  confidence?: number;
+  // Per-word timings, when the model reports token timestamps
+  words?: WordTiming[];
+}
+
+export interface WordTiming {
+  word: string;
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+  // Average probability (0-1) of the word's tokens
+  probability?: number;
 }
 
 export interface ModelInfo {
-  size: ModelSize;
+  size: ModelId;
   filename: string;
   size_mb: number;
   downloaded: boolean;
@@ -130,13 +250,45 @@ export interface FileInfo {
   name: string;
   size: number;
   type: string;
+  // Seconds, measured with ffprobe
+  duration?: number;
+  media?: MediaInfo;
+}
+
+export interface AudioTrackInfo {
+  // Stream index within the container
+  index: number;
+  codec: string;
+  sample_rate?: number;
+  channels?: number;
+  channel_layout?: string;
+  language?: string;
+  title?: string;
+  default: boolean;
   duration?: number;
 }
 
+/**
+ * Media file details read by the main process with ffprobe. Audio fields describe the
+ * default audio track.
+ */
+export interface MediaInfo {
+  // Seconds; null when the container does not record it
+  duration: number | null;
+  container: string;
+  bit_rate?: number;
+  has_video: boolean;
+  video_codec?: string;
+  audio_codec?: string;
+  sample_rate?: number;
+  channels?: number;
+  audio_tracks: AudioTrackInfo[];
+}
+
 export interface BatchProcessingOptions {
   files: FileInfo[];
   output_directory?: string;
-  model_size: ModelSize;
+  model_size: ModelId;
   format: OutputFormat;
   language?: string;
   timestamps: boolean;
@@ -146,19 +298,33 @@ export interface BatchProcessingOptions {
   skip_existing: boolean;
 }
 
+// Whether live transcription also records what the computer plays, e.g. the other side of a
+// call: mixed into the microphone, or transcribed separately so each side is its own speaker
+export type SystemAudioMode = 'off' | 'mix' | 'separate';
+
 export interface RealtimeTranscriptionOptions {
-  model_size: ModelSize;
+  model_size: ModelId;
   language?: string;
   gpu: boolean;
   diarization: boolean;
   vad_threshold: number;
+  // Calibrated noise floor in dBFS; without one the floor is learned from the first audio
+  noise_floor_db?: number;
   min_silence_ms: number;
   max_chunk_ms: number;
+  // Interim text for the utterance in progress is refreshed this often; 0 turns it off
+  interim_interval_ms?: number;
+  // Vocabulary prompt, put before the text already transcribed in the session
+  initial_prompt?: string;
+  system_audio?: SystemAudioMode;
   output_file?: string;
 }
 
 export interface RealtimeChunk {
+  // Chunks with the same id are revisions of one utterance; the latest replaces the others
+  id: string;
   text: string;
+  // Seconds since the session started
   start_time: number;
   end_time: number;
   confidence: number;
@@ -167,11 +333,11 @@ export interface RealtimeChunk {
 }
 
 export interface ModelRecommendation {
-  recommended_model: ModelSize;
+  recommended_model: ModelId;
   reason: string;
   confidence: number;
   alternatives?: {
-    model: ModelSize;
+    model: ModelId;
     reason: string;
   }[];
 }
@@ -183,20 +349,139 @@ export interface GPURecommendation {
   requirements?: string[];
 }
 
+export type WhisperBackend = 'metal' | 'cuda' | 'vulkan' | 'opencl' | 'coreml' | 'blas';
+
+/**
+ * What the machine and the installed Whisper build can do, probed by the main process
+ */
+export interface HardwareCapabilities {
+  platform: string;
+  arch: string;
+  cpu: {
+    model: string;
+    // Logical cores
+    cores: number;
+    // SIMD extensions whisper.cpp has kernels for; null when the platform cannot be asked
+    simd: string[] | null;
+  };
+  memory: {
+    total_bytes: number;
+    free_bytes: number;
+  };
+  whisper: {
+    // Path of the native addon; null when it could not be found
+    binding: string | null;
+    // Size and mtime of the addon, to tell when it was rebuilt
+    fingerprint: string | null;
+    // Backends found in the addon binary
+    backends: WhisperBackend[];
+  };
+  // The backends above that run on a GPU or neural engine
+  gpu_backends: WhisperBackend[];
+}
+
+/**
+ * The same model timed on synthetic audio with GPU mode off and on
+ */
+export interface GpuBenchmarkResult {
+  model: ModelId;
+  audio_seconds: number;
+  cpu_seconds: number;
+  gpu_seconds: number;
+  // cpu_seconds / gpu_seconds
+  speedup: number;
+  ran_at: string;
+  // Addon fingerprint the benchmark ran against
+  fingerprint?: string | null;
+}
+
+export interface GpuSupport {
+  available: boolean;
+  // Why GPU mode is unavailable, or what it is expected to gain
+  reason: string;
+}
+
+/**
+ * One completed transcription, kept to learn how fast each model runs on this machine
+ */
+export interface ThroughputSample {
+  model: ModelId;
+  use_gpu: boolean;
+  // Seconds of audio transcribed
+  audio_seconds: number;
+  // Wall-clock seconds the transcription took
+  wall_seconds: number;
+  completed_at: string;
+}
+
+export interface ProcessingTimeEstimate {
+  seconds: number;
+  // 'measured' when the model has run here with this GPU setting, 'extrapolated' when
+  // scaled from other models by their relative speed
+  basis: 'measured' | 'extrapolated';
+  // Past runs the estimate is based on
+  samples: number;
+}
+
+export interface TurnaroundRecommendation {
+  model: ModelId;
+  estimate: ProcessingTimeEstimate;
+  // False when no model is predicted to finish in time; `model` is then the fastest one
+  meets_target: boolean;
+}
+
 export interface OptimizationSuggestion {
   type: 'model' | 'gpu' | 'format' | 'settings';
   title: string;
   description: string;
   action?: () => void;
   severity: 'info' | 'warning' | 'suggestion';
+  // Model to switch to, for 'model' suggestions
+  model?: ModelId;
 }
 
 export type PostProcessingModel = 'llama3.2' | 'phi3.5' | 'qwen2.5' | 'gemma2';
 
-export type SummaryFormat = 'paragraphs' | 'bullets' | 'markdown' | 'key_points' | 'outline';
+export type BuiltinSummaryFormat = 'paragraphs' | 'bullets' | 'markdown' | 'key_points' | 'outline';
+
+// Built-in formats or user-defined prompt templates ("custom:<slug>")
+export type SummaryFormat = BuiltinSummaryFormat | `custom:${string}`;
+
+export interface PromptTemplate {
+  id: SummaryFormat;
+  name: string;
+  description?: string;
+  prompt: string;
+  fallback_format: BuiltinSummaryFormat;
+  builtin: boolean;
+  updated_at?: string;
+}
+
+export interface TranscriptMetadata {
+  language?: string;
+  duration?: number;
+}
+
+export type PostProcessingBackend = 'ollama' | 'heuristic';
+
+export interface OllamaConfig {
+  enabled: boolean;
+  base_url: string;
+  timeout_ms: number;
+  context_tokens: number;
+}
+
+export interface PostProcessingProgress {
+  stage: 'formatting' | 'summarizing' | 'merging';
+  chunk: number;
+  total_chunks: number;
+  progress: number;
+  message: string;
+}
 
 export interface PostProcessingConfig {
   enabled: boolean;
+  ollama: OllamaConfig;
   text_formatting: {
     enabled: boolean;
     model: PostProcessingModel;
@@ -229,5 +514,159 @@ export interface ProcessedTranscript {
   models_used: {
     formatting?: PostProcessingModel;
     summarization?: PostProcessingModel;
+    formatting_backend?: PostProcessingBackend;
+    summarization_backend?: PostProcessingBackend;
   };
-}
\ No newline at end of file
+  warnings?: string[];
+}
+// Whole-word rules match on word boundaries; phrase rules also tolerate varying whitespace
+export type CorrectionMatch = 'word' | 'phrase';
+
+export interface CorrectionRule {
+  id: string;
+  from: string;
+  to: string;
+  match: CorrectionMatch;
+  case_sensitive: boolean;
+  enabled: boolean;
+}
+
+export type DictionaryScope = 'user' | 'project';
+
+export interface VocabularyDictionary {
+  id: string;
+  name: string;
+  scope: DictionaryScope;
+  project?: string;
+  enabled: boolean;
+  // Domain terms passed to Whisper's initial prompt
+  terms: string[];
+  corrections: CorrectionRule[];
+  updated_at?: string;
+}
+
+export interface TranscriptSourceInfo {
+  filename: string;
+  path?: string;
+  size_bytes?: number;
+}
+
+/**
+ * Versioned JSON transcript document (the 'Json' output format).
+ * See docs/transcript.schema.json for the published schema.
+ */
+export interface TranscriptDocument {
+  schema: 'concise-notes/transcript';
+  version: number;
+  created_at: string;
+  source?: TranscriptSourceInfo;
+  model: {
+    size: string;
+    use_gpu: boolean;
+    // Requested language; 'auto' for detection
+    language: string;
+    // Decoding settings the transcript was produced with
+    decoding?: DecodingOptions;
+  };
+  // Detected or requested language of the audio
+  language?: string;
+  // Audio length in seconds
+  duration: number;
+  processing: {
+    transcription_seconds?: number;
+    post_processing_ms?: number;
+  };
+  text: string;
+  segments: Array<{
+    id: number;
+    start: number;
+    end: number;
+    text: string;
+    speaker?: string;
+    confidence?: number;
+    words?: WordTiming[];
+  }>;
+  post_processing?: {
+    formatted_text?: string;
+    summary?: ProcessedTranscript['summary'];
+    models_used: ProcessedTranscript['models_used'];
+    warnings?: string[];
+  };
+}
+
+export interface ErrorRateScore {
+  // (substitutions + deletions + insertions) / reference_length; can exceed 1
+  rate: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  // Words (WER) or characters (CER) in the reference
+  reference_length: number;
+}
+
+export interface ComparisonRun {
+  model: ModelId;
+  model_name: string;
+  use_gpu: boolean;
+  status: 'completed' | 'failed' | 'cancelled';
+  text: string;
+  // Time from request to result, including any model load
+  wall_clock_seconds: number;
+  // Time Whisper reported for decoding and inference
+  processing_seconds?: number;
+  audio_seconds?: number;
+  wer?: ErrorRateScore;
+  cer?: ErrorRateScore;
+  error?: string;
+}
+
+/**
+ * Saved result of running one clip through several models (ModelsPage compare mode)
+ */
+export interface ComparisonReport {
+  type: 'model-comparison';
+  version: number;
+  created_at: string;
+  clip: TranscriptSourceInfo;
+  audio_seconds?: number;
+  // Reference transcript the runs were scored against, if one was given
+  reference?: string;
+  runs: ComparisonRun[];
+}
+
+export interface BenchmarkRun {
+  model: ModelId;
+  use_gpu: boolean;
+  // Null when whisper.cpp picked the thread count
+  threads: number | null;
+  status: 'completed' | 'failed';
+  audio_seconds?: number;
+  // Time to load the model into memory (and onto the GPU)
+  load_seconds?: number;
+  // Time to transcribe the sample after a warm-up run
+  transcribe_seconds?: number;
+  // transcribe_seconds / audio_seconds; below 1 is faster than real time
+  real_time_factor?: number | null;
+  // Peak resident memory of the inference process during the run; GPU memory is not included
+  peak_rss_bytes?: number;
+  // Growth over the memory in use before the model was loaded
+  model_rss_bytes?: number;
+  error?: string;
+}
+
+/**
+ * Saved result of the benchmark runner (ModelsPage benchmark mode)
+ */
+export interface BenchmarkReport {
+  type: 'whisper-benchmark';
+  version: number;
+  app_version: string | null;
+  created_at: string;
+  system: HardwareCapabilities;
+  sample:
+    | { kind: 'synthetic'; audio_seconds: number | null }
+    | { kind: 'file'; filename: string; path: string; audio_seconds: number | null };
+  // True when stopped before every configuration ran
+  cancelled: boolean;
+  runs: BenchmarkRun[];
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { MediaInfo } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -68,6 +69,27 @@ export function isMediaFile(filename: string): boolean {
   return isVideoFile(filename) || isAudioFile(filename);
 }
 
+/**
+ * One-line summary of probed media, e.g. "H264 video · AAC 48 kHz stereo · 2 audio tracks"
+ */
+export function describeMedia(media: MediaInfo): string {
+  const parts: string[] = [];
+  if (media.video_codec) {
+    parts.push(`${media.video_codec.toUpperCase()} video`);
+  }
+  if (media.audio_codec) {
+    const rate = media.sample_rate ? ` ${media.sample_rate / 1000} kHz` : '';
+    const channels = media.channels === 1 ? ' mono' : media.channels === 2 ? ' stereo' : media.channels ? ` ${media.channels} ch` : '';
+    parts.push(`${media.audio_codec.toUpperCase()}${rate}${channels}`);
+  } else {
+    parts.push('No audio track');
+  }
+  if (media.audio_tracks.length > 1) {
+    parts.push(`${media.audio_tracks.length} audio tracks`);
+  }
+  return parts.join(' · ');
+}
+
 export function generateJobId(): string {
   return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -158,16 +180,6 @@ export const ALL_SUPPORTED_EXTENSIONS = [
   ...SUPPORTED_FILE_TYPES.audio
 ];
 
-export const MODEL_SIZES = [
-  { value: 'Tiny', label: 'Tiny (39MB)', description: 'Fastest, least accurate' },
-  { value: 'Base', label: 'Base (142MB)', description: 'Good balance of speed and accuracy' },
-  { value: 'Small', label: 'Small (466MB)', description: 'Better accuracy, slower' },
-  { value: 'Medium', label: 'Medium (1.5GB)', description: 'High accuracy, much slower' },
-  { value: 'Large', label: 'Large (3GB)', description: 'Highest accuracy, very slow' },
-  { value: 'LargeV2', label: 'Large V2 (3GB)', description: 'Improved large model' },
-  { value: 'LargeV3', label: 'Large V3 (3GB)', description: 'Latest and most accurate' }
-] as const;
-
 export const OUTPUT_FORMATS = [
   { value: 'Text', label: 'Text (.txt)', description: 'Plain text output' },
   { value: 'Json', label: 'JSON (.json)', description: 'Structured data with timestamps' },
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_DICTIONARY_ID, VocabularyError, VocabularyStore } from './vocabulary';
+
+// Dictionaries are kept in localStorage
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+}
+
+describe('VocabularyStore corrections', () => {
+  let store: VocabularyStore;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    store = new VocabularyStore();
+    // Start from an empty personal dictionary instead of the seeded corrections
+    store.saveDictionary({ ...store.get(DEFAULT_DICTIONARY_ID)!, corrections: [] });
+  });
+
+  it('replaces whole words only', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'cat', 'dog');
+    expect(store.applyCorrections('cat, concatenate, cats and bobcat. cat')).toBe('dog, concatenate, cats and bobcat. dog');
+  });
+
+  it('keeps the capitalization of the matched text for lowercase replacements', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'cannae', "can't");
+    expect(store.applyCorrections("cannae. Cannae! CANNAE?")).toBe("can't. Can't! CAN'T?");
+  });
+
+  it('writes replacements with their own capitals as given', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'jayson', 'JSON');
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'git hub', 'GitHub');
+    expect(store.applyCorrections('Parse the jayson from git hub, JAYSON from Git Hub')).toBe('Parse the JSON from GitHub, JSON from GitHub');
+  });
+
+  it('only matches the exact case when the rule is case-sensitive', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'Rust', 'rust-lang', { case_sensitive: true });
+    expect(store.applyCorrections('Rust has no rust')).toBe('rust-lang has no rust');
+  });
+
+  it('matches phrases across spaces and hyphens, preferring longer sources', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'S Q L', 'SQL');
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'No S Q L', 'NoSQL');
+    expect(store.applyCorrections('No S Q L or S-Q-L, or no  s q l')).toBe('NoSQL or SQL, or NoSQL');
+  });
+
+  it('treats regular expression characters in a source literally', () => {
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'c++', 'C++', { match: 'word' });
+    store.addCorrection(DEFAULT_DICTIONARY_ID, 'a.b', 'AB');
+    expect(store.applyCorrections('c++ and axb and a.b')).toBe('C++ and axb and AB');
+  });
+
+  it('ignores disabled rules and dictionaries', () => {
+    const rule = store.addCorrection(DEFAULT_DICTIONARY_ID, 'foo', 'bar');
+    const dictionary = store.get(DEFAULT_DICTIONARY_ID)!;
+    store.saveDictionary({ ...dictionary, corrections: [{ ...rule, enabled: false }] });
+    expect(store.applyCorrections('foo')).toBe('foo');
+
+    store.saveDictionary({ ...dictionary, enabled: false });
+    expect(store.applyCorrections('foo')).toBe('foo');
+  });
+
+  it('rejects corrections without a replacement', () => {
+    expect(() => store.addCorrection(DEFAULT_DICTIONARY_ID, 'foo', '  ')).toThrow(VocabularyError);
+  });
+});
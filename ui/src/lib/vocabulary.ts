@@ -0,0 +1,475 @@
+import type { CorrectionMatch, CorrectionRule, DictionaryScope, VocabularyDictionary } from './types';
+import { AppError } from './errorHandler';
+
+const STORAGE_KEY = 'vocabulary-dictionaries';
+const ACTIVE_PROJECT_KEY = 'vocabulary-active-project';
+const EXPORT_VERSION = 1;
+const CSV_HEADER = ['type', 'from', 'to', 'match', 'case_sensitive'];
+
+// Whisper only reads the last 224 tokens of the initial prompt; stay well inside that
+const MAX_INITIAL_PROMPT_CHARS = 600;
+
+export const DEFAULT_DICTIONARY_ID = 'user-default';
+
+// Seeded from the corrections that used to be hardcoded in post-processing
+const DEFAULT_CORRECTIONS: Array<[string, string]> = [
+  // Network/Web terms
+  ['HCP', 'HTTP'],
+  ['HCPS', 'HTTPS'],
+  ['HDP', 'HTTP'],
+  ['HTPS', 'HTTPS'],
+  ['APA', 'API'],
+  ['APIs', 'APIs'],
+  ['Jay Son', 'JSON'],
+  ['Jayson', 'JSON'],
+  ['X ML', 'XML'],
+  ['U R L', 'URL'],
+  ['U R I', 'URI'],
+  ['I P', 'IP'],
+  ['T C P', 'TCP'],
+  ['U D P', 'UDP'],
+  ['S S L', 'SSL'],
+  ['T L S', 'TLS'],
+  ['D N S', 'DNS'],
+
+  // Programming terms
+  ['Java script', 'JavaScript'],
+  ['Type script', 'TypeScript'],
+  ['Python', 'Python'],
+  ['Git hub', 'GitHub'],
+  ['Git lab', 'GitLab'],
+  ['V S Code', 'VS Code'],
+  ['I D E', 'IDE'],
+  ['S Q L', 'SQL'],
+  ['No S Q L', 'NoSQL'],
+  ['Rest full', 'RESTful'],
+  ['Rest API', 'REST API'],
+  ['Graph Q L', 'GraphQL'],
+
+  // Cloud/DevOps terms
+  ['A W S', 'AWS'],
+  ['G C P', 'GCP'],
+  ['Docker', 'Docker'],
+  ['Kubernetes', 'Kubernetes'],
+  ['K 8 S', 'K8s'],
+  ['C I C D', 'CI/CD'],
+  ['Dev ops', 'DevOps'],
+
+  // Common Scottish accent issues
+  ['cannae', "can't"],
+  ['didnae', "didn't"],
+  ['wouldnae', "wouldn't"],
+  ['couldnae', "couldn't"],
+  ['shouldnae', "shouldn't"],
+];
+
+export class VocabularyError extends AppError {
+  constructor(message: string) {
+    super(message, 'INVALID_VOCABULARY');
+    this.name = 'VocabularyError';
+  }
+}
+
+interface CompiledRule {
+  pattern: RegExp;
+  rule: CorrectionRule;
+}
+
+/**
+ * Manages user and project vocabulary dictionaries. Their corrections are applied
+ * to transcripts during post-processing and their terms are passed to Whisper
+ * as the initial prompt so domain words are recognized in the first place.
+ */
+export class VocabularyStore {
+  private static instance: VocabularyStore;
+  private listeners = new Set<() => void>();
+  private compiled: CompiledRule[] | null = null;
+
+  static getInstance(): VocabularyStore {
+    if (!VocabularyStore.instance) {
+      VocabularyStore.instance = new VocabularyStore();
+    }
+    return VocabularyStore.instance;
+  }
+
+  list(): VocabularyDictionary[] {
+    const stored = this.readStored();
+    return stored.length > 0 ? stored : [this.createDefaultDictionary()];
+  }
+
+  get(id: string): VocabularyDictionary | undefined {
+    return this.list().find(d => d.id === id);
+  }
+
+  /**
+   * Dictionary that quick-add corrections go to: the default personal dictionary if it still exists
+   */
+  getDefaultDictionaryId(): string {
+    const dictionaries = this.list();
+    const fallback = dictionaries.find(d => d.scope === 'user') || dictionaries[0];
+    return dictionaries.some(d => d.id === DEFAULT_DICTIONARY_ID) ? DEFAULT_DICTIONARY_ID : fallback.id;
+  }
+
+  getActiveProject(): string | null {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY) || null;
+  }
+
+  setActiveProject(project: string | null) {
+    if (project) {
+      localStorage.setItem(ACTIVE_PROJECT_KEY, project);
+    } else {
+      localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+    this.notify();
+  }
+
+  /**
+   * Names of all projects that have at least one dictionary
+   */
+  listProjects(): string[] {
+    const projects = this.list().filter(d => d.scope === 'project' && d.project).map(d => d.project!);
+    return Array.from(new Set(projects)).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Dictionaries that apply right now: enabled user dictionaries plus those of the active project
+   */
+  getActiveDictionaries(): VocabularyDictionary[] {
+    const project = this.getActiveProject();
+    return this.list().filter(d => d.enabled && (d.scope === 'user' || (!!project && d.project === project)));
+  }
+
+  createDictionary(name: string, scope: DictionaryScope, project?: string): VocabularyDictionary {
+    if (!name.trim()) {
+      throw new VocabularyError('Dictionary name is required');
+    }
+    if (scope === 'project' && !project?.trim()) {
+      throw new VocabularyError('Project dictionaries need a project name');
+    }
+
+    const dictionary: VocabularyDictionary = {
+      id: `dict_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      name: name.trim(),
+      scope,
+      project: scope === 'project' ? project!.trim() : undefined,
+      enabled: true,
+      terms: [],
+      corrections: [],
+    };
+    return this.saveDictionary(dictionary);
+  }
+
+  saveDictionary(dictionary: VocabularyDictionary): VocabularyDictionary {
+    const saved = { ...dictionary, updated_at: new Date().toISOString() };
+    const others = this.list().filter(d => d.id !== saved.id);
+    this.writeStored([...others, saved]);
+    return saved;
+  }
+
+  removeDictionary(id: string) {
+    this.writeStored(this.list().filter(d => d.id !== id));
+  }
+
+  /**
+   * Add (or replace) a correction in a dictionary. Multi-word sources become phrase rules.
+   */
+  addCorrection(dictionaryId: string, from: string, to: string, options: Partial<Pick<CorrectionRule, 'match' | 'case_sensitive'>> = {}): CorrectionRule {
+    const dictionary = this.get(dictionaryId);
+    if (!dictionary) {
+      throw new VocabularyError(`Dictionary ${dictionaryId} not found`);
+    }
+
+    const rule = this.createRule(from, to, options.match, options.case_sensitive);
+    const corrections = dictionary.corrections.filter(c => c.from.toLowerCase() !== rule.from.toLowerCase());
+    this.saveDictionary({ ...dictionary, corrections: [...corrections, rule] });
+    return rule;
+  }
+
+  /**
+   * Apply all active corrections to the text
+   */
+  applyCorrections(text: string): string {
+    if (!this.compiled) {
+      this.compiled = this.compileRules(this.getActiveDictionaries());
+    }
+
+    return this.compiled.reduce(
+      (result, { pattern, rule }) => result.replace(pattern, matched => rule.case_sensitive ? rule.to : preserveCase(matched, rule.to)),
+      text
+    );
+  }
+
+  /**
+   * Build a Whisper initial prompt from the active vocabulary, or undefined if there is none.
+   * Correction targets are included when they look like proper nouns or acronyms.
+   */
+  buildInitialPrompt(): string | undefined {
+    const seen = new Set<string>();
+    const terms: string[] = [];
+    const add = (term: string) => {
+      const key = term.trim().toLowerCase();
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      terms.push(term.trim());
+    };
+
+    for (const dictionary of this.getActiveDictionaries()) {
+      dictionary.terms.forEach(add);
+      dictionary.corrections.filter(c => c.enabled && /[A-Z]/.test(c.to)).forEach(c => add(c.to));
+    }
+    if (terms.length === 0) return undefined;
+
+    let prompt = 'Glossary:';
+    for (const term of terms) {
+      if (prompt.length + term.length + 2 > MAX_INITIAL_PROMPT_CHARS) break;
+      prompt += `${prompt.endsWith(':') ? ' ' : ', '}${term}`;
+    }
+    return `${prompt}.`;
+  }
+
+  exportJson(ids?: string[]): string {
+    const dictionaries = this.list().filter(d => !ids || ids.includes(d.id));
+    return JSON.stringify({ version: EXPORT_VERSION, dictionaries }, null, 2);
+  }
+
+  exportCsv(dictionaryId: string): string {
+    const dictionary = this.get(dictionaryId);
+    if (!dictionary) {
+      throw new VocabularyError(`Dictionary ${dictionaryId} not found`);
+    }
+
+    const rows = [
+      CSV_HEADER,
+      ...dictionary.terms.map(term => ['term', term, '', '', '']),
+      ...dictionary.corrections.map(c => ['correction', c.from, c.to, c.match, String(c.case_sensitive)]),
+    ];
+    return rows.map(row => row.map(toCsvField).join(',')).join('\n');
+  }
+
+  /**
+   * Import dictionaries from an exported JSON file. Dictionaries with the same id are replaced.
+   * Returns the number of dictionaries imported.
+   */
+  importJson(json: string): number {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new VocabularyError('Dictionary file is not valid JSON');
+    }
+
+    const items: unknown[] = Array.isArray(data) ? data : data?.dictionaries;
+    if (!Array.isArray(items)) {
+      throw new VocabularyError('Dictionary file has no "dictionaries" list');
+    }
+
+    const imported = items.map((item, index) => this.validateDictionary(item, index));
+    const ids = new Set(imported.map(d => d.id));
+    this.writeStored([...this.list().filter(d => !ids.has(d.id)), ...imported]);
+    return imported.length;
+  }
+
+  /**
+   * Merge terms and corrections from a CSV file into an existing dictionary.
+   * Returns the number of rows imported.
+   */
+  importCsv(dictionaryId: string, csv: string): number {
+    const dictionary = this.get(dictionaryId);
+    if (!dictionary) {
+      throw new VocabularyError(`Dictionary ${dictionaryId} not found`);
+    }
+
+    const rows = parseCsv(csv).filter(row => row.some(field => field.trim()));
+    if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'type') {
+      rows.shift();
+    }
+
+    const terms = [...dictionary.terms];
+    const corrections = [...dictionary.corrections];
+    rows.forEach((row, index) => {
+      const [type, from = '', to = '', match, caseSensitive] = row.map(field => field.trim());
+      if (type === 'term') {
+        if (!from) throw new VocabularyError(`Row ${index + 1}: term is empty`);
+        if (!terms.some(t => t.toLowerCase() === from.toLowerCase())) terms.push(from);
+      } else if (type === 'correction') {
+        const rule = this.createRule(from, to, match as CorrectionMatch, caseSensitive === 'true');
+        const existing = corrections.findIndex(c => c.from.toLowerCase() === rule.from.toLowerCase());
+        if (existing >= 0) corrections[existing] = rule; else corrections.push(rule);
+      } else {
+        throw new VocabularyError(`Row ${index + 1}: type must be "term" or "correction"`);
+      }
+    });
+
+    this.saveDictionary({ ...dictionary, terms, corrections });
+    return rows.length;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private createRule(from: string, to: string, match?: CorrectionMatch, caseSensitive?: boolean): CorrectionRule {
+    if (!from.trim()) {
+      throw new VocabularyError('Correction source text is required');
+    }
+    if (!to.trim()) {
+      throw new VocabularyError(`Correction for "${from.trim()}" has no replacement`);
+    }
+
+    return {
+      id: `rule_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      from: from.trim(),
+      to: to.trim(),
+      match: match === 'word' || match === 'phrase' ? match : (/\s/.test(from.trim()) ? 'phrase' : 'word'),
+      case_sensitive: !!caseSensitive,
+      enabled: true,
+    };
+  }
+
+  private compileRules(dictionaries: VocabularyDictionary[]): CompiledRule[] {
+    const rules = dictionaries.flatMap(d => d.corrections.filter(c => c.enabled && c.from));
+    // Longer sources first so "No S Q L" wins over "S Q L"
+    rules.sort((a, b) => b.from.length - a.from.length);
+
+    return rules.map(rule => {
+      const words = rule.from.split(/\s+/).map(escapeRegExp);
+      const body = rule.match === 'phrase' ? words.join('[\\s-]+') : words.join('\\s');
+      return {
+        pattern: new RegExp(`(?<![\\w])${body}(?![\\w])`, rule.case_sensitive ? 'g' : 'gi'),
+        rule,
+      };
+    });
+  }
+
+  private validateDictionary(item: any, index: number): VocabularyDictionary {
+    if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+      throw new VocabularyError(`Dictionary #${index + 1} must have a name`);
+    }
+    const scope: DictionaryScope = item.scope === 'project' ? 'project' : 'user';
+    if (scope === 'project' && (typeof item.project !== 'string' || !item.project.trim())) {
+      throw new VocabularyError(`Dictionary "${item.name}" is a project dictionary without a project name`);
+    }
+
+    const corrections: CorrectionRule[] = (Array.isArray(item.corrections) ? item.corrections : []).map((c: any) => ({
+      ...this.createRule(String(c?.from ?? ''), String(c?.to ?? ''), c?.match, c?.case_sensitive),
+      enabled: c?.enabled !== false,
+    }));
+
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : `dict_${Date.now()}_${index}`,
+      name: item.name.trim(),
+      scope,
+      project: scope === 'project' ? item.project.trim() : undefined,
+      enabled: item.enabled !== false,
+      terms: Array.isArray(item.terms) ? item.terms.map(String).filter((t: string) => t.trim()) : [],
+      corrections,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private createDefaultDictionary(): VocabularyDictionary {
+    return {
+      id: DEFAULT_DICTIONARY_ID,
+      name: 'My Vocabulary',
+      scope: 'user',
+      enabled: true,
+      terms: [],
+      corrections: DEFAULT_CORRECTIONS.map(([from, to], index) => ({
+        id: `default_${index}`,
+        from,
+        to,
+        match: /\s/.test(from) ? 'phrase' : 'word',
+        case_sensitive: false,
+        enabled: true,
+      })),
+    };
+  }
+
+  private readStored(): VocabularyDictionary[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not read vocabulary dictionaries:', error);
+      return [];
+    }
+  }
+
+  private writeStored(dictionaries: VocabularyDictionary[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionaries));
+    this.notify();
+  }
+
+  private notify() {
+    this.compiled = null;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Match the capitalization of the original text when the replacement is all lowercase,
+ * e.g. "Cannae" -> "Can't". Replacements with their own capitals (acronyms, brand names) are kept as-is.
+ */
+function preserveCase(matched: string, replacement: string): string {
+  if (replacement !== replacement.toLowerCase()) return replacement;
+  if (matched.length > 1 && matched === matched.toUpperCase() && matched !== matched.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (matched[0] && matched[0] === matched[0].toUpperCase() && matched[0] !== matched[0].toLowerCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Export singleton instance
+export const vocabularyStore = VocabularyStore.getInstance();
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_ACTIVITY_OPTIONS, VoiceActivityDetector, calibrateNoise, detectSpeechRegions } from './voiceActivity';
+import { SAMPLE_RATE, mix, silence, tone, voiced, whiteNoise } from './__fixtures__/pcm';
+import { recording } from './__fixtures__/recordings';
+
+const FRAME_SIZE = 512;
+// Region edges fall on frame boundaries
+const FRAME_SECONDS = FRAME_SIZE / SAMPLE_RATE;
+const PRE_ROLL_SECONDS = DEFAULT_VOICE_ACTIVITY_OPTIONS.preRollMs / 1000;
+const HANGOVER_SECONDS = DEFAULT_VOICE_ACTIVITY_OPTIONS.hangoverMs / 1000;
+
+const frames = (pcm: Float32Array) =>
+  Array.from({ length: Math.floor(pcm.length / FRAME_SIZE) }, (_, i) => pcm.subarray(i * FRAME_SIZE, (i + 1) * FRAME_SIZE));
+
+describe('detectSpeechRegions', () => {
+  it('finds no speech in digital silence', () => {
+    expect(detectSpeechRegions(silence(3))).toEqual([]);
+  });
+
+  it('treats a steady hum as background', () => {
+    expect(detectSpeechRegions(tone(3, 50, 0.1))).toEqual([]);
+  });
+
+  it('ignores a loud burst of broadband noise', () => {
+    const recording = mix(whiteNoise(3, 0.005), whiteNoise(0.5, 0.5, 2), 1);
+    expect(detectSpeechRegions(recording)).toEqual([]);
+  });
+
+  it('finds speech in background noise, with pre-roll before it and hangover after it', () => {
+    const recording = mix(whiteNoise(4, 0.005), voiced(1), 1.5);
+    const regions = detectSpeechRegions(recording);
+
+    expect(regions).toHaveLength(1);
+    const [region] = regions;
+    expect(region.start).toBeGreaterThanOrEqual(1.5 - PRE_ROLL_SECONDS - FRAME_SECONDS);
+    expect(region.start).toBeLessThanOrEqual(1.5 - PRE_ROLL_SECONDS + 2 * FRAME_SECONDS);
+    expect(region.end).toBeGreaterThanOrEqual(2.5 + HANGOVER_SECONDS - FRAME_SECONDS);
+    expect(region.end).toBeLessThanOrEqual(2.5 + HANGOVER_SECONDS + 2 * FRAME_SECONDS);
+  });
+
+  it('bridges pauses shorter than the hangover and splits at longer ones', () => {
+    const background = whiteNoise(5, 0.005);
+    const shortPause = mix(mix(background, voiced(1), 0.5), voiced(1), 1.5 + HANGOVER_SECONDS / 2);
+    const longPause = mix(mix(background, voiced(1), 0.5), voiced(1), 3);
+
+    expect(detectSpeechRegions(shortPause)).toHaveLength(1);
+    expect(detectSpeechRegions(longPause)).toHaveLength(2);
+  });
+
+  it('lets the noise floor follow a background that slowly grows louder', () => {
+    // About 26 dB louder over eight seconds
+    const hum = tone(8, 50, t => 0.005 * 10 ** ((26 / 20) * (t / 8)));
+    expect(detectSpeechRegions(hum)).toEqual([]);
+  });
+
+  it('still finds speech after the background grows louder', () => {
+    const hum = tone(10, 50, t => 0.005 * 10 ** ((26 / 20) * Math.min(1, t / 8)));
+    const regions = detectSpeechRegions(mix(hum, voiced(1), 8.5));
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].start).toBeGreaterThan(8);
+  });
+
+  it('starts from a calibrated noise floor', () => {
+    // Speech from the first frame: without calibration that frame is taken as the noise floor
+    const recording = mix(whiteNoise(3, 0.005), voiced(1), 0);
+    const uncalibrated = detectSpeechRegions(recording);
+    const calibrated = detectSpeechRegions(recording, { noiseFloorDb: -50 });
+
+    expect(uncalibrated.every(region => region.start > 0)).toBe(true);
+    expect(calibrated).toHaveLength(1);
+    expect(calibrated[0].start).toBe(0);
+  });
+});
+
+describe('detectSpeechRegions on recordings', () => {
+  const speech = recording('speech-jfk.wav');
+  const roomNoise = recording('room-noise.wav');
+  // When the speaker is heard in speech-jfk.wav: "And so my fellow Americans", "ask" and
+  // "not" with a short pause between them, then "what..." up to the end of the excerpt
+  const PHRASES = [
+    { start: 0.32, end: 2.1 },
+    { start: 3.26, end: 4.3 },
+    { start: 5.44, end: speech.length / SAMPLE_RATE },
+  ];
+
+  it('finds no speech in room noise', () => {
+    expect(detectSpeechRegions(roomNoise)).toEqual([]);
+  });
+
+  it('finds each phrase of a speech recording, with pre-roll and hangover', () => {
+    const regions = detectSpeechRegions(speech, { noiseFloorDb: calibrateNoise(frames(roomNoise)).noise_floor_db });
+
+    expect(regions).toHaveLength(PHRASES.length);
+    regions.forEach((region, index) => {
+      const phrase = PHRASES[index];
+      expect(region.start).toBeGreaterThanOrEqual(phrase.start - PRE_ROLL_SECONDS - FRAME_SECONDS);
+      expect(region.start).toBeLessThanOrEqual(phrase.start - PRE_ROLL_SECONDS + 2 * FRAME_SECONDS);
+      if (index < PHRASES.length - 1) {
+        expect(region.end).toBeGreaterThanOrEqual(phrase.end + HANGOVER_SECONDS - FRAME_SECONDS);
+        expect(region.end).toBeLessThanOrEqual(phrase.end + HANGOVER_SECONDS + 2 * FRAME_SECONDS);
+      }
+    });
+  });
+
+  it('separates the phrases without calibration, though the recording starts quieter than the room', () => {
+    const regions = detectSpeechRegions(speech);
+
+    expect(regions).toHaveLength(PHRASES.length);
+    expect(regions.some(region => region.start < 2.8 && region.end > 2.8)).toBe(false);
+  });
+
+  it('finds the same phrases in a quieter recording', () => {
+    const quieter = speech.map(sample => sample * 0.1);
+    expect(detectSpeechRegions(quieter)).toEqual(detectSpeechRegions(speech));
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('restores the configured noise floor on reset', () => {
+    const detector = new VoiceActivityDetector({ noiseFloorDb: -60 });
+    frames(whiteNoise(2, 0.1)).forEach(frame => detector.process(frame));
+    expect(detector.getNoiseFloorDb()).toBeGreaterThan(-60);
+
+    detector.reset();
+    expect(detector.getNoiseFloorDb()).toBe(-60);
+  });
+
+  it('learns the noise floor again after reset when none was configured', () => {
+    const detector = new VoiceActivityDetector();
+    frames(whiteNoise(1, 0.1)).forEach(frame => detector.process(frame));
+    detector.reset();
+    expect(detector.getNoiseFloorDb()).toBeNull();
+  });
+
+  it('hands over the frames before the onset as pre-roll', () => {
+    const detector = new VoiceActivityDetector();
+    const results = frames(mix(whiteNoise(2, 0.005), voiced(0.5), 1)).map(frame => detector.process(frame));
+    const onset = results.find(result => result.preRoll);
+
+    expect(onset?.isSpeech).toBe(true);
+    const preRollSeconds = onset!.preRoll!.reduce((sum, frame) => sum + frame.length, 0) / SAMPLE_RATE;
+    expect(preRollSeconds).toBeGreaterThanOrEqual(PRE_ROLL_SECONDS);
+    expect(preRollSeconds).toBeLessThan(PRE_ROLL_SECONDS + FRAME_SECONDS);
+  });
+});
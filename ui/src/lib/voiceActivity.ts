@@ -0,0 +1,297 @@
+import type { NoiseProfile } from './types';
+
+export interface VoiceActivityOptions {
+  sampleRate: number;
+  // A frame counts as speech when its energy is this far above the noise floor
+  thresholdDb: number;
+  // Audio kept from before speech was detected, so the first syllable is not cut off
+  preRollMs: number;
+  // Speech stays on this long after the last speech frame, bridging short gaps
+  hangoverMs: number;
+  // Speech frames needed in a row before speech starts, so clicks are ignored
+  minSpeechMs: number;
+  // Starting noise floor, e.g. from calibration; otherwise learned from the first frames
+  noiseFloorDb?: number;
+}
+
+export interface FrameFeatures {
+  // RMS level in dBFS
+  energyDb: number;
+  // Fraction of adjacent samples that change sign (0-1)
+  zeroCrossingRate: number;
+  // Geometric over arithmetic mean of the power spectrum: near 0 for tones, about 0.56 for white noise
+  spectralFlatness: number;
+}
+
+export interface VoiceActivityFrame {
+  isSpeech: boolean;
+  confidence: number;
+  // Energy of the frame in dBFS
+  energy: number;
+  features: FrameFeatures;
+  noiseFloorDb: number;
+  // On the frame where speech starts: the frames kept from just before it, oldest first
+  preRoll?: Float32Array[];
+}
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+  sampleRate: 16000,
+  thresholdDb: 9,
+  preRollMs: 250,
+  hangoverMs: 300,
+  minSpeechMs: 60,
+};
+
+// Level of digital silence; keeps log10(0) out of the arithmetic
+const MIN_ENERGY_DB = -100;
+// Broadband noise is flatter than this; voiced speech has a harmonic, peaky spectrum
+const MAX_SPEECH_FLATNESS = 0.4;
+// Noise-like frames only count as speech (fricatives, plosives) when this much louder than the threshold
+const LOUD_MARGIN_FACTOR = 2;
+// White noise crosses zero on about half the samples; fricatives rarely above this
+const MAX_SPEECH_ZCR = 0.35;
+// Per-frame rates the noise floor moves at: down quickly, up slowly, barely during speech
+const FLOOR_FALL_RATE = 0.2;
+const FLOOR_RISE_RATE = 0.02;
+const FLOOR_SPEECH_RATE = 0.001;
+// The floor never stays below the quietest frame of this much recent audio, so a floor
+// learned from a quiet start does not hold a louder, hum-like room as speech for good
+const FLOOR_WINDOW_MS = 2000;
+// Calibration takes this percentile of frame energies, so a cough does not raise the floor much
+const CALIBRATION_PERCENTILE = 0.8;
+
+/**
+ * Map the 0-1 VAD threshold setting (sensitive to conservative) to a margin above the noise floor
+ */
+export function speechMarginDb(vadThreshold: number): number {
+  return 6 + Math.min(1, Math.max(0, vadThreshold)) * 18;
+}
+
+/**
+ * Energy, zero-crossing rate and spectral flatness of one frame
+ */
+export function frameFeatures(frame: Float32Array): FrameFeatures {
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+  }
+  const rms = frame.length > 0 ? Math.sqrt(sumSquares / frame.length) : 0;
+
+  return {
+    energyDb: Math.max(MIN_ENERGY_DB, 20 * Math.log10(rms + 1e-10)),
+    zeroCrossingRate: frame.length > 1 ? crossings / (frame.length - 1) : 0,
+    spectralFlatness: spectralFlatness(frame),
+  };
+}
+
+function spectralFlatness(frame: Float32Array): number {
+  let size = 1;
+  while (size < frame.length) size *= 2;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  // Hann window against spectral leakage
+  for (let i = 0; i < frame.length; i++) {
+    re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, frame.length - 1)));
+  }
+  fft(re, im);
+
+  // Bins 1..size/2, leaving out DC
+  let logSum = 0;
+  let sum = 0;
+  const bins = size / 2;
+  for (let k = 1; k <= bins; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  return bins > 0 ? Math.exp(logSum / bins) / (sum / bins) : 1;
+}
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two
+ */
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let length = 2; length <= n; length *= 2) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < n; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/**
+ * Frame-by-frame voice activity detection. Each frame is judged on its energy above an
+ * adaptive noise floor, its spectral flatness and its zero-crossing rate; speech starts
+ * after a few speech frames in a row (with the frames just before it as pre-roll) and
+ * ends after a hangover. Feed frames of a fixed size at `sampleRate`, in order.
+ */
+export class VoiceActivityDetector {
+  private options: VoiceActivityOptions;
+  private noiseFloorDb: number | null;
+  private speaking = false;
+  private speechRun = 0;
+  private hangoverLeft = 0;
+  private preRoll: Float32Array[] = [];
+  private preRollSamples = 0;
+  private recentEnergies: number[] = [];
+
+  constructor(options: Partial<VoiceActivityOptions> = {}) {
+    this.options = { ...DEFAULT_VOICE_ACTIVITY_OPTIONS, ...options };
+    this.noiseFloorDb = this.options.noiseFloorDb ?? null;
+  }
+
+  configure(options: Partial<VoiceActivityOptions>) {
+    this.options = { ...this.options, ...options };
+    if (options.noiseFloorDb !== undefined) {
+      this.noiseFloorDb = options.noiseFloorDb;
+    }
+  }
+
+  getNoiseFloorDb(): number | null {
+    return this.noiseFloorDb;
+  }
+
+  // Start a new recording from the configured noise floor
+  reset() {
+    this.noiseFloorDb = this.options.noiseFloorDb ?? null;
+    this.speaking = false;
+    this.speechRun = 0;
+    this.hangoverLeft = 0;
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.recentEnergies = [];
+  }
+
+  process(frame: Float32Array): VoiceActivityFrame {
+    const features = frameFeatures(frame);
+    const frameMs = (frame.length / this.options.sampleRate) * 1000;
+    // The first frame seeds the floor when there is no calibration
+    const floor = this.noiseFloorDb ?? features.energyDb;
+    const margin = features.energyDb - floor;
+    const threshold = this.options.thresholdDb;
+
+    const candidate = margin > threshold && features.zeroCrossingRate <= MAX_SPEECH_ZCR
+      && (features.spectralFlatness < MAX_SPEECH_FLATNESS || margin > threshold * LOUD_MARGIN_FACTOR);
+
+    let preRoll: Float32Array[] | undefined;
+    if (candidate) {
+      this.speechRun++;
+      this.hangoverLeft = Math.ceil(this.options.hangoverMs / frameMs);
+      if (!this.speaking && this.speechRun * frameMs >= this.options.minSpeechMs) {
+        this.speaking = true;
+        preRoll = this.preRoll;
+        this.preRoll = [];
+        this.preRollSamples = 0;
+      }
+    } else {
+      this.speechRun = 0;
+      if (this.speaking) {
+        this.hangoverLeft--;
+        if (this.hangoverLeft <= 0) this.speaking = false;
+      }
+    }
+
+    // Frames before an onset are kept for pre-roll, including the ones that start it
+    if (!this.speaking) {
+      this.preRoll.push(new Float32Array(frame));
+      this.preRollSamples += frame.length;
+      const maxSamples = (this.options.preRollMs / 1000) * this.options.sampleRate;
+      while (this.preRoll.length > 0 && this.preRollSamples - this.preRoll[0].length >= maxSamples) {
+        this.preRollSamples -= this.preRoll.shift()!.length;
+      }
+    }
+
+    // Digital silence (a muted input, zero padding) says nothing about the room's noise,
+    // so it neither seeds nor lowers the floor
+    if (features.energyDb > MIN_ENERGY_DB) {
+      const rate = candidate ? FLOOR_SPEECH_RATE : features.energyDb < floor ? FLOOR_FALL_RATE : FLOOR_RISE_RATE;
+      this.noiseFloorDb = floor + (features.energyDb - floor) * rate;
+
+      this.recentEnergies.push(features.energyDb);
+      const windowFrames = Math.ceil(FLOOR_WINDOW_MS / frameMs);
+      if (this.recentEnergies.length > windowFrames) this.recentEnergies.shift();
+      if (this.recentEnergies.length === windowFrames) {
+        this.noiseFloorDb = Math.max(this.noiseFloorDb, Math.min(...this.recentEnergies));
+      }
+    }
+
+    return {
+      isSpeech: this.speaking,
+      confidence: Math.min(Math.max(margin / (threshold * LOUD_MARGIN_FACTOR), 0), 1),
+      energy: features.energyDb,
+      features,
+      noiseFloorDb: this.noiseFloorDb ?? floor,
+      ...(preRoll && preRoll.length > 0 ? { preRoll } : {}),
+    };
+  }
+}
+
+/**
+ * Noise floor from frames of ambient sound, recorded while nobody speaks
+ */
+export function calibrateNoise(frames: Float32Array[]): NoiseProfile {
+  if (frames.length === 0) {
+    throw new Error('No audio was captured for calibration');
+  }
+  const features = frames.map(frameFeatures);
+  const energies = features.map(f => f.energyDb).sort((a, b) => a - b);
+  return {
+    noise_floor_db: energies[Math.min(energies.length - 1, Math.floor(energies.length * CALIBRATION_PERCENTILE))],
+    spectral_flatness: features.reduce((sum, f) => sum + f.spectralFlatness, 0) / features.length,
+    calibrated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run the detector over a whole recording and return the speech regions in seconds. The
+ * regions include pre-roll and hangover, as live capture would send them.
+ */
+export function detectSpeechRegions(
+  pcm: Float32Array,
+  options: Partial<VoiceActivityOptions> = {},
+  frameSize = 512
+): Array<{ start: number; end: number }> {
+  const detector = new VoiceActivityDetector(options);
+  const sampleRate = options.sampleRate ?? DEFAULT_VOICE_ACTIVITY_OPTIONS.sampleRate;
+  const regions: Array<{ start: number; end: number }> = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (let offset = 0; offset + frameSize <= pcm.length; offset += frameSize) {
+    const result = detector.process(pcm.subarray(offset, offset + frameSize));
+    const frameEnd = (offset + frameSize) / sampleRate;
+    if (result.isSpeech) {
+      if (!current) {
+        const preRollSamples = (result.preRoll || []).reduce((sum, frame) => sum + frame.length, 0);
+        current = { start: Math.max(0, offset - preRollSamples) / sampleRate, end: frameEnd };
+        regions.push(current);
+      }
+      current.end = frameEnd;
+    } else {
+      current = null;
+    }
+  }
+  return regions;
+}
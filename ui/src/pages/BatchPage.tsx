@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import {
   FolderIcon,
@@ -11,9 +11,19 @@ import {
   SparklesIcon,
   RocketLaunchIcon,
 } from '@heroicons/react/24/outline';
-import type { AppConfig } from '../lib/types';
+import type { AppConfig, ProcessedTranscript, SummaryFormat, TranscriptionSegment } from '../lib/types';
 import electronService from '../services/electronService';
+import { transcriptionApi } from '../lib/api';
 import { postProcessingEngine } from '../lib/postProcessing';
+import { promptTemplateStore } from '../lib/promptTemplates';
+import { vocabularyStore } from '../lib/vocabulary';
+import { serializeTranscript, OUTPUT_FORMAT_FILES } from '../lib/outputFormats';
+import { downloadFile, formatDuration } from '../lib/utils';
+import { modelRegistry } from '../lib/modelRegistry';
+import { hardwareProfile } from '../lib/hardware';
+import { withDecodingDefaults } from '../lib/decoding';
+import { optimizationEngine } from '../lib/optimization';
+import ModelSelect from '../components/ModelSelect';
 
 interface BatchPageProps {
   config: AppConfig;
@@ -23,28 +33,48 @@ interface BatchJob {
   id: string;
   filename: string;
   filepath: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
+  // Media length, once the file has been probed
   duration?: string;
+  durationSeconds?: number;
+  // Wall-clock processing time
+  elapsed?: string;
   size: string;
   transcriptionResult?: string;
+  // Transcript serialized in the configured output format
+  output?: { filename: string; content: string; mimeType: string };
   error?: string;
   startTime?: number;
   endTime?: number;
+  // Estimated seconds of transcription left, reported by the main process
+  eta?: number;
 }
 
 function BatchPage({ config }: BatchPageProps) {
   const [selectedDirectory, setSelectedDirectory] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isStopping, setIsStopping] = useState(false);
+  // Read by the processing loop, which would otherwise only see the state from when it started
+  const stopRequested = useRef(false);
   const [jobs, setJobs] = useState<BatchJob[]>([]);
   const [enablePostProcessing, setEnablePostProcessing] = useState(true);
   const [generateSummaries, setGenerateSummaries] = useState(true);
-  const [summaryFormat, setSummaryFormat] = useState<'bullet_points' | 'paragraphs' | 'structured'>('paragraphs');
-  const [selectedModel, setSelectedModel] = useState(config.model.default_size);
+  const [summaryFormat, setSummaryFormat] = useState<SummaryFormat>(config.post_processing.summarization.format);
+  const [selectedModel, setSelectedModel] = useState(() => modelRegistry.resolveId(config.model.default_size));
   const [outputDirectory, setOutputDirectory] = useState('./transcripts');
   const [concurrentJobs, setConcurrentJobs] = useState(1);
   const [useGpu, setUseGpu] = useState(config.model.use_gpu);
+  const [gpuSupport, setGpuSupport] = useState(() => hardwareProfile.gpuSupport());
+  // Bumped on every scan so probes of a previous directory stop updating the list
+  const scanGeneration = useRef(0);
+
+  // A finished GPU benchmark can change whether GPU mode is offered
+  useEffect(() => hardwareProfile.subscribe(() => setGpuSupport(hardwareProfile.gpuSupport())), []);
+
+  useEffect(() => {
+    if (!gpuSupport.available) setUseGpu(false);
+  }, [gpuSupport.available]);
 
   const handleDirectorySelect = async () => {
     if (electronService.isElectron) {
@@ -74,6 +104,7 @@ function BatchPage({ config }: BatchPageProps) {
   const scanDirectoryForFiles = async (directory: string) => {
     // Clear existing jobs
     setJobs([]);
+    const generation = ++scanGeneration.current;
     
     if (electronService.isElectron) {
       try {
@@ -103,11 +134,11 @@ function BatchPage({ config }: BatchPageProps) {
             status: 'pending' as const,
             progress: 0,
             size: sizeGB >= 1 ? `${sizeGB.toFixed(2)} GB` : `${sizeMB.toFixed(1)} MB`,
-            duration: '00:00' // We don't know duration until we process
           };
         });
         
         setJobs(newJobs);
+        probeDurations(newJobs, generation);
         
         if (files.length === 0) {
           alert('No valid media files found in the selected directory.\n\nSupported formats: mp4, mp3, wav, flac, aac, m4a, ogg, avi, mkv, webm, mov\n\nNote: Hidden files (starting with .), macOS metadata files (._*), and system files are automatically excluded.');
@@ -129,6 +160,32 @@ function BatchPage({ config }: BatchPageProps) {
     }
   };
 
+  // Fill in media durations one file at a time, which keeps network shares responsive
+  const probeDurations = async (scannedJobs: BatchJob[], generation: number) => {
+    for (const job of scannedJobs) {
+      if (scanGeneration.current !== generation) return;
+      const info = await electronService.getFileInfo(job.filepath);
+      if (scanGeneration.current !== generation) return;
+      const seconds = info?.duration;
+      setJobs(prev => prev.map(j =>
+        j.id === job.id
+          ? { ...j, duration: seconds ? formatDuration(seconds) : 'unknown length', durationSeconds: seconds }
+          : j
+      ));
+    }
+  };
+
+  const totalAudioSeconds = jobs.reduce((acc, job) => acc + (job.durationSeconds || 0), 0);
+  const targetTurnaroundSeconds = (config.model.target_turnaround_minutes || 0) * 60;
+
+  // Processing time predicted from past runs on this machine, for files whose length is known
+  const estimateJob = (job: BatchJob, model = selectedModel, gpu = useGpu) =>
+    job.durationSeconds ? optimizationEngine.predictProcessingTime(model, gpu, job.durationSeconds) : null;
+  const estimateQueue = (model = selectedModel, gpu = useGpu) => jobs
+    .filter(job => job.status === 'pending')
+    .reduce((acc, job) => acc + (estimateJob(job, model, gpu)?.seconds || 0), 0);
+  const queueEstimateSeconds = estimateQueue();
+
   const getOptimalBatchSettings = () => {
     if (!selectedDirectory) return null;
 
@@ -139,8 +196,24 @@ function BatchPage({ config }: BatchPageProps) {
     
     const suggestions = [];
 
-    // Model suggestion based on batch size
-    if (totalFiles > 10) {
+    // The target applies per file, so the longest file decides which model fits
+    const longestSeconds = Math.max(0, ...jobs.map(job => job.durationSeconds || 0));
+    const turnaround = targetTurnaroundSeconds > 0 && longestSeconds > 0
+      ? optimizationEngine.recommendModelForTurnaround(longestSeconds, useGpu, targetTurnaroundSeconds, selectedModel)
+      : null;
+
+    if (turnaround) {
+      const target = formatDuration(targetTurnaroundSeconds);
+      const predicted = formatDuration(turnaround.estimate.seconds);
+      suggestions.push({
+        type: 'model',
+        suggestion: turnaround.meets_target
+          ? `${modelRegistry.label(turnaround.model)} is the most accurate model predicted to finish every file within ${target} (longest file about ${predicted})`
+          : `No model is predicted to finish the longest file within ${target}; ${modelRegistry.label(turnaround.model)} is the fastest (about ${predicted})`,
+        icon: RocketLaunchIcon
+      });
+    } else if (totalFiles > 10) {
+      // Model suggestion based on batch size
       suggestions.push({
         type: 'model',
         suggestion: 'Base model recommended for large batches to balance speed and accuracy',
@@ -157,8 +230,17 @@ function BatchPage({ config }: BatchPageProps) {
       });
     }
 
-    // GPU suggestion for large batches
-    if (totalSizeMB > 1000) {
+    // GPU suggestion, from measured speeds once GPU and CPU runs have both been recorded
+    const gpuSpeedup = optimizationEngine.measuredGpuSpeedup();
+    const gpuQueueSeconds = gpuSpeedup && !useGpu && gpuSupport.available ? estimateQueue(selectedModel, true) : 0;
+    if (gpuSpeedup && gpuSpeedup > 1.2 && gpuQueueSeconds > 0 && queueEstimateSeconds > 0) {
+      suggestions.push({
+        type: 'gpu',
+        suggestion: `GPU runs have been ${gpuSpeedup.toFixed(1)}x faster on this machine, about ${formatDuration(gpuQueueSeconds)} for this batch instead of ${formatDuration(queueEstimateSeconds)}`,
+        icon: RocketLaunchIcon
+      });
+    } else if (!gpuSpeedup && gpuSupport.available && totalSizeMB > 1000) {
+      // GPU suggestion for large batches
       suggestions.push({
         type: 'gpu',
         suggestion: 'GPU acceleration highly recommended for large batch processing',
@@ -184,21 +266,41 @@ function BatchPage({ config }: BatchPageProps) {
         // Real transcription using Electron
         console.log(`Starting transcription for: ${job.filename}`);
         
-        // Update progress to 30%
-        setJobs(prev => prev.map(j => 
-          j.id === job.id ? { ...j, progress: 30 } : j
-        ));
+        // Transcription reports 0-100; it takes up 10-90% of the job
+        const unsubscribe = electronService.onProgress((update) => {
+          if (update.job_id !== job.id || update.progress === undefined) return;
+          setJobs(prev => prev.map(j => 
+            j.id === job.id ? { ...j, progress: 10 + Math.round(update.progress! * 0.8), eta: update.eta_seconds } : j
+          ));
+        });
           
         // Perform actual transcription
-        const result = await electronService.transcribeFile(job.filepath, {
-          modelSize: selectedModel.toLowerCase(),
-          language: 'auto',
-          useGpu: useGpu,
-        });
+        let result;
+        try {
+          result = await electronService.transcribeFile(job.filepath, {
+            modelSize: selectedModel,
+            language: 'auto',
+            useGpu: useGpu,
+            initialPrompt: vocabularyStore.buildInitialPrompt(),
+            decoding: withDecodingDefaults(config.model.decoding),
+            jobId: job.id,
+          });
+        } finally {
+          if (unsubscribe) unsubscribe();
+        }
+
+        if (result?.status === 'cancelled') {
+          setJobs(prev => prev.map(j => 
+            j.id === job.id 
+              ? { ...j, status: 'cancelled' as const, progress: 0, eta: undefined, endTime: Date.now() }
+              : j
+          ));
+          return;
+        }
         
         // Update progress to 90%
         setJobs(prev => prev.map(j => 
-          j.id === job.id ? { ...j, progress: 90 } : j
+          j.id === job.id ? { ...j, progress: 90, eta: undefined } : j
         ));
         
         if (result && result.success) {
@@ -247,34 +349,35 @@ function BatchPage({ config }: BatchPageProps) {
             fullResult: result
           });
           
+          const segments: TranscriptionSegment[] | undefined = Array.isArray(result.segments) ? result.segments : undefined;
+
           // Apply post-processing if enabled
           let finalText = transcriptionText;
+          let summaryText = '';
+          let processed: ProcessedTranscript | null = null;
           if (enablePostProcessing && transcriptionText.length > 0) {
             console.log(`Applying post-processing to ${job.filename}`);
             try {
               const processedResult = await postProcessingEngine.processTranscript(
                 transcriptionText,
+                // Models and options from the settings; the page chooses whether to summarize and how
                 {
+                  ...config.post_processing,
                   enabled: true,
-                  text_formatting: {
-                    enabled: true,
-                    model: 'phi3.5',
-                    add_paragraphs: true,
-                    fix_punctuation: true,
-                    improve_readability: true
-                  },
                   summarization: {
+                    ...config.post_processing.summarization,
                     enabled: generateSummaries,
-                    model: 'llama3.2',
-                    format: summaryFormat,
-                    max_length: 500,
-                    include_key_points: true,
-                    extract_action_items: false,
-                    focus_on_insights: false
+                    format: summaryFormat
                   }
+                },
+                {
+                  segments,
+                  metadata: { language: result.language, duration: result.duration },
                 }
               );
               
+              processed = processedResult;
+
               // Use formatted text if available
               if (processedResult.formatted_text) {
                 console.log(`Post-processing applied successfully for ${job.filename}`);
@@ -284,10 +387,10 @@ function BatchPage({ config }: BatchPageProps) {
               // Append summary if available
               if (generateSummaries && processedResult.summary) {
                 console.log(`Appending summary for ${job.filename}`);
-                finalText += '\n\n' + '='.repeat(50) + '\n';
-                finalText += 'SUMMARY\n';
-                finalText += '='.repeat(50) + '\n\n';
-                finalText += processedResult.summary;
+                summaryText = '\n\n' + '='.repeat(50) + '\n';
+                summaryText += 'SUMMARY\n';
+                summaryText += '='.repeat(50) + '\n\n';
+                summaryText += processedResult.summary.content;
               }
             } catch (error) {
               console.error(`Failed to apply post-processing to ${job.filename}:`, error);
@@ -295,22 +398,53 @@ function BatchPage({ config }: BatchPageProps) {
             }
           }
           
-          // Calculate duration
+          // Calculate processing time
           const endTime = Date.now();
           const durationMs = endTime - startTime;
           const minutes = Math.floor(durationMs / 60000);
           const seconds = Math.floor((durationMs % 60000) / 1000);
-          const duration = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+          const elapsed = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
           
+          // Serialize in the configured format; subtitles are built from the segment timings
+          const outputFormat = config.output.default_format;
+          const { extension, mimeType } = OUTPUT_FORMAT_FILES[outputFormat];
+          let outputContent = serializeTranscript(
+            outputFormat,
+            {
+              text: outputFormat === 'Text' ? finalText : transcriptionText,
+              segments,
+              language: result.language,
+              duration: result.duration,
+            },
+            {
+              timestamps: config.output.timestamps,
+              subtitles: config.output.subtitles,
+              document: {
+                model: { size: selectedModel, use_gpu: useGpu, language: 'auto', decoding: result.decoding },
+                source: { filename: job.filename, path: job.filepath },
+                processed,
+                transcriptionSeconds: result.processing_time,
+              },
+            }
+          );
+          if (outputFormat === 'Text') {
+            outputContent += summaryText;
+          }
+          const output = {
+            filename: `${job.filename.replace(/\.[^/.]+$/, '')}_transcript.${extension}`,
+            content: outputContent,
+            mimeType,
+          };
+          finalText += summaryText;
+
           // Save to file if output directory is specified
-          if (outputDirectory && electronService.isElectron && finalText.length > 0) {
-            const outputFilename = job.filename.replace(/\.[^/.]+$/, '') + '_transcript.txt';
-            const outputPath = `${outputDirectory}/${outputFilename}`;
+          if (outputDirectory && electronService.isElectron && outputContent.length > 0) {
+            const outputPath = `${outputDirectory}/${output.filename}`;
             
             try {
-              const saveResult = await electronService.writeFile(outputPath, finalText);
+              const saveResult = await electronService.writeFile(outputPath, outputContent);
               if (saveResult) {
-                console.log(`Saved transcript to: ${outputPath} (${finalText.length} bytes)`);
+                console.log(`Saved transcript to: ${outputPath} (${outputContent.length} bytes)`);
               } else {
                 console.error(`Failed to save transcript for ${job.filename}`);
               }
@@ -327,7 +461,11 @@ function BatchPage({ config }: BatchPageProps) {
                   status: 'completed' as const, 
                   progress: 100,
                   transcriptionResult: finalText,
-                  duration: duration,
+                  output,
+                  // Decoding measures the length even when probing could not
+                  duration: j.durationSeconds || !result.duration ? j.duration : formatDuration(result.duration),
+                  durationSeconds: j.durationSeconds ?? result.duration,
+                  elapsed: elapsed,
                   endTime: endTime
                 }
               : j
@@ -338,7 +476,7 @@ function BatchPage({ config }: BatchPageProps) {
           const durationMs = endTime - startTime;
           const minutes = Math.floor(durationMs / 60000);
           const seconds = Math.floor((durationMs % 60000) / 1000);
-          const duration = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+          const elapsed = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
           
           setJobs(prev => prev.map(j => 
             j.id === job.id 
@@ -347,7 +485,7 @@ function BatchPage({ config }: BatchPageProps) {
                   status: 'failed' as const, 
                   progress: 0,
                   error: result?.error || 'Transcription failed',
-                  duration: duration,
+                  elapsed: elapsed,
                   endTime: endTime
                 }
               : j
@@ -360,11 +498,11 @@ function BatchPage({ config }: BatchPageProps) {
         const durationMs = endTime - startTime;
         const minutes = Math.floor(durationMs / 60000);
         const seconds = Math.floor((durationMs % 60000) / 1000);
-        const duration = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+        const elapsed = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
         
         setJobs(prev => prev.map(j => 
           j.id === job.id 
-            ? { ...j, status: 'completed' as const, progress: 100, duration, endTime }
+            ? { ...j, status: 'completed' as const, progress: 100, elapsed, endTime }
             : j
         ));
       }
@@ -374,7 +512,7 @@ function BatchPage({ config }: BatchPageProps) {
       const durationMs = endTime - startTime;
       const minutes = Math.floor(durationMs / 60000);
       const seconds = Math.floor((durationMs % 60000) / 1000);
-      const duration = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+      const elapsed = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
       
       setJobs(prev => prev.map(j => 
         j.id === job.id 
@@ -383,7 +521,7 @@ function BatchPage({ config }: BatchPageProps) {
               status: 'failed' as const, 
               progress: 0,
               error: error instanceof Error ? error.message : 'Unknown error',
-              duration: duration,
+              elapsed: elapsed,
               endTime: endTime
             }
           : j
@@ -399,17 +537,17 @@ function BatchPage({ config }: BatchPageProps) {
     
     setIsProcessing(true);
     setIsStopping(false);
+    stopRequested.current = false;
     
-    // Process files with concurrency
-    const pendingJobs = jobs.filter(j => j.status === 'pending');
+    // Process files with concurrency; cancelled jobs are picked up again
+    const pendingJobs = jobs.filter(j => j.status === 'pending' || j.status === 'cancelled');
     const maxConcurrent = parseInt(concurrentJobs.toString());
     
     if (useGpu) {
       // Process jobs sequentially when GPU is enabled to avoid Metal backend crashes
       // The native Whisper library with Metal acceleration isn't thread-safe
       for (const job of pendingJobs) {
-        if (isStopping) {
-          setIsStopping(false);
+        if (stopRequested.current) {
           break;
         }
         
@@ -418,8 +556,7 @@ function BatchPage({ config }: BatchPageProps) {
     } else {
       // Process in batches when using CPU-only (thread-safe)
       for (let i = 0; i < pendingJobs.length; i += maxConcurrent) {
-        if (isStopping) {
-          setIsStopping(false);
+        if (stopRequested.current) {
           break;
         }
         
@@ -431,19 +568,22 @@ function BatchPage({ config }: BatchPageProps) {
     }
     
     setIsProcessing(false);
+    setIsStopping(false);
   };
   
   const handleStopBatch = () => {
     // Set stopping flag for the loop to check
+    stopRequested.current = true;
     setIsStopping(true);
-    setIsProcessing(false);
     
-    // Mark all processing jobs as pending again
-    setJobs(prev => prev.map(j => 
-      j.status === 'processing' 
-        ? { ...j, status: 'pending' as const, progress: 0 }
-        : j
-    ));
+    // Cancel in-flight transcriptions; each job is marked cancelled when its result comes back
+    jobs
+      .filter(j => j.status === 'processing')
+      .forEach(j => {
+        transcriptionApi.cancelJob(j.id).catch(error => {
+          console.error(`Failed to cancel ${j.filename}:`, error);
+        });
+      });
   };
 
   const getStatusIcon = (status: BatchJob['status']) => {
@@ -456,6 +596,8 @@ function BatchPage({ config }: BatchPageProps) {
         return <CheckCircleIcon className="w-5 h-5 text-green-500" />;
       case 'failed':
         return <XCircleIcon className="w-5 h-5 text-red-500" />;
+      case 'cancelled':
+        return <StopIcon className="w-5 h-5 text-gray-400" />;
     }
   };
 
@@ -469,6 +611,8 @@ function BatchPage({ config }: BatchPageProps) {
         return 'text-green-600 dark:text-green-400';
       case 'failed':
         return 'text-red-600 dark:text-red-400';
+      case 'cancelled':
+        return 'text-gray-500 dark:text-gray-400';
     }
   };
 
@@ -558,7 +702,8 @@ function BatchPage({ config }: BatchPageProps) {
                   </div>
                   
                   <div className="mt-3 text-xs text-blue-600 dark:text-blue-400">
-                    💡 Analyzing {jobs.length} files (~{jobs.reduce((acc, job) => acc + parseFloat(job.size.replace(' MB', '')), 0).toFixed(0)}MB total)
+                    💡 Analyzing {jobs.length} files (~{jobs.reduce((acc, job) => acc + parseFloat(job.size.replace(' MB', '')), 0).toFixed(0)}MB total{totalAudioSeconds > 0 ? `, ${formatDuration(totalAudioSeconds)} of audio` : ''})
+                    {queueEstimateSeconds > 0 && ` • about ${formatDuration(queueEstimateSeconds)} to process with ${modelRegistry.label(selectedModel)}`}
                   </div>
                 </div>
               </motion.div>
@@ -573,19 +718,12 @@ function BatchPage({ config }: BatchPageProps) {
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Model Size
+                      Model
                     </label>
-                    <select 
-                      className="form-select"
+                    <ModelSelect
                       value={selectedModel}
-                      onChange={(e) => setSelectedModel(e.target.value)}
-                    >
-                      <option value="Tiny">Tiny (Fastest)</option>
-                      <option value="Base">Base (Recommended)</option>
-                      <option value="Small">Small (Better Quality)</option>
-                      <option value="Medium">Medium (High Quality)</option>
-                      <option value="Large">Large (Best Quality)</option>
-                    </select>
+                      onChange={setSelectedModel}
+                    />
                   </div>
                   
                   <div>
@@ -648,12 +786,19 @@ function BatchPage({ config }: BatchPageProps) {
                       id="batch-gpu"
                       className="form-checkbox"
                       checked={useGpu}
+                      disabled={!gpuSupport.available}
                       onChange={(e) => setUseGpu(e.target.checked)}
                     />
                     <label htmlFor="batch-gpu" className="text-sm font-medium text-gray-700 dark:text-gray-300">
                       Use GPU acceleration
+                      {!gpuSupport.available && (
+                        <span className="ml-2 text-xs text-gray-500">(Not available)</span>
+                      )}
                     </label>
                   </div>
+                  {gpuSupport.reason && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-7">{gpuSupport.reason}</p>
+                  )}
                   {useGpu && (
                     <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
                       ⚠️ GPU mode forces sequential processing to prevent crashes
@@ -697,11 +842,11 @@ function BatchPage({ config }: BatchPageProps) {
                         <select 
                           className="form-select text-sm"
                           value={summaryFormat}
-                          onChange={(e) => setSummaryFormat(e.target.value as any)}
+                          onChange={(e) => setSummaryFormat(e.target.value as SummaryFormat)}
                         >
-                          <option value="bullet_points">Bullet Points</option>
-                          <option value="paragraphs">Paragraphs</option>
-                          <option value="structured">Structured (Sections)</option>
+                          {promptTemplateStore.list().map(template => (
+                            <option key={template.id} value={template.id}>{template.name}</option>
+                          ))}
                         </select>
                       </div>
                     )}
@@ -716,13 +861,13 @@ function BatchPage({ config }: BatchPageProps) {
                       handleStartBatch();
                     }
                   }}
-                  disabled={!selectedDirectory || jobs.length === 0}
+                  disabled={!selectedDirectory || jobs.length === 0 || isStopping}
                   className={`w-full mt-6 ${isProcessing ? 'btn-danger' : 'btn-primary'} disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2`}
                 >
                   {isProcessing ? (
                     <>
                       <StopIcon className="w-5 h-5" />
-                      <span>Stop Processing</span>
+                      <span>{isStopping ? 'Stopping...' : 'Stop Processing'}</span>
                     </>
                   ) : (
                     <>
@@ -788,7 +933,12 @@ function BatchPage({ config }: BatchPageProps) {
                               {job.filename}
                             </p>
                             <p className="text-sm text-gray-500 dark:text-gray-400">
-                              {job.size} • {job.duration}
+                              {job.size} • {job.duration ?? 'Reading length…'}
+                              {job.elapsed && ` • took ${job.elapsed}`}
+                              {job.status === 'pending' && (() => {
+                                const estimate = estimateJob(job);
+                                return estimate ? ` • est. ${formatDuration(estimate.seconds)}` : null;
+                              })()}
                             </p>
                           </div>
                         </div>
@@ -800,7 +950,10 @@ function BatchPage({ config }: BatchPageProps) {
                       {job.status === 'processing' && (
                         <div>
                           <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
-                            <span>Processing...</span>
+                            <span>
+                              Processing...
+                              {job.eta !== undefined && ` about ${formatDuration(job.eta)} left`}
+                            </span>
                             <span>{job.progress}%</span>
                           </div>
                           <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
@@ -850,16 +1003,10 @@ function BatchPage({ config }: BatchPageProps) {
                                 transcriptionLength: job.transcriptionResult?.length || 0
                               });
                               
-                              if (job.transcriptionResult) {
-                                const blob = new Blob([job.transcriptionResult], { type: 'text/plain' });
-                                const url = URL.createObjectURL(blob);
-                                const a = document.createElement('a');
-                                a.href = url;
-                                a.download = `${job.filename.replace(/\.[^/.]+$/, '')}_transcript.txt`;
-                                document.body.appendChild(a);
-                                a.click();
-                                document.body.removeChild(a);
-                                URL.revokeObjectURL(url);
+                              if (job.output) {
+                                downloadFile(job.output.content, job.output.filename, job.output.mimeType);
+                              } else if (job.transcriptionResult) {
+                                downloadFile(job.transcriptionResult, `${job.filename.replace(/\.[^/.]+$/, '')}_transcript.txt`);
                               } else {
                                 alert('No transcription result available for this file.');
                               }
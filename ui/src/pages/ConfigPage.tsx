@@ -14,8 +14,21 @@ import {
   SunIcon,
   MoonIcon,
   ComputerDesktopIcon,
+  SparklesIcon,
 } from '@heroicons/react/24/outline';
 import type { AppConfig } from '../lib/types';
+import PromptTemplateEditor from '../components/PromptTemplateEditor';
+import VocabularyEditor from '../components/VocabularyEditor';
+import ModelSelect from '../components/ModelSelect';
+import DecodingOptionsEditor from '../components/DecodingOptionsEditor';
+import { DEFAULT_SUBTITLE_OPTIONS } from '../lib/outputFormats';
+import { DEFAULT_DECODING_OPTIONS, withDecodingDefaults } from '../lib/decoding';
+import { DEFAULT_REALTIME_CONFIG, withRealtimeDefaults } from '../lib/realtimeConfig';
+import { DEFAULT_MODEL_ID } from '../lib/modelRegistry';
+import { DEFAULT_OLLAMA_CONFIG } from '../lib/ollama';
+import { throughputHistory } from '../lib/throughputHistory';
+import { hardwareProfile, backendLabel } from '../lib/hardware';
+import { formatFileSize } from '../lib/utils';
 
 interface ConfigPageProps {
   config: AppConfig;
@@ -28,6 +41,31 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
   const [hasChanges, setHasChanges] = useState(false);
   const [showResetWarning, setShowResetWarning] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('system');
+  const [historyRuns, setHistoryRuns] = useState(() => throughputHistory.list().length);
+
+  const [hardware, setHardware] = useState(() => hardwareProfile.get());
+  const [gpuBenchmark, setGpuBenchmark] = useState(() => hardwareProfile.getBenchmark());
+  const [gpuSupport, setGpuSupport] = useState(() => hardwareProfile.gpuSupport());
+  const [isBenchmarking, setIsBenchmarking] = useState(() => hardwareProfile.isBenchmarking());
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+
+  useEffect(() => throughputHistory.subscribe(() => setHistoryRuns(throughputHistory.list().length)), []);
+
+  useEffect(() => hardwareProfile.subscribe(() => {
+    setHardware(hardwareProfile.get());
+    setGpuBenchmark(hardwareProfile.getBenchmark());
+    setGpuSupport(hardwareProfile.gpuSupport());
+    setIsBenchmarking(hardwareProfile.isBenchmarking());
+  }), []);
+
+  const handleRunGpuBenchmark = async () => {
+    setBenchmarkError(null);
+    try {
+      await hardwareProfile.runGpuBenchmark();
+    } catch (error) {
+      setBenchmarkError(error instanceof Error ? error.message : String(error));
+    }
+  };
 
   useEffect(() => {
     // Load theme preference
@@ -87,21 +125,22 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
     // Reset to default values
     const defaultConfig: AppConfig = {
       model: {
-        default_size: 'Base',
+        default_size: DEFAULT_MODEL_ID,
         models_directory: './models',
         use_gpu: false,
         auto_download: true,
+        download_mirror: '',
+        target_turnaround_minutes: 0,
+        decoding: { ...DEFAULT_DECODING_OPTIONS },
       },
       output: {
         default_format: 'Text',
         timestamps: false,
         skip_existing: true,
         naming_pattern: '{filename}_{timestamp}',
+        subtitles: { ...DEFAULT_SUBTITLE_OPTIONS },
       },
-      realtime: {
-        vad_threshold: 0.01,
-        enable_diarization: false,
-      },
+      realtime: { ...DEFAULT_REALTIME_CONFIG },
       batch: {
         max_concurrent: 2,
         enable_diarization: false,
@@ -122,6 +161,8 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
     setShowResetWarning(false);
   };
 
+  const realtimeConfig = withRealtimeDefaults(localConfig.realtime);
+
   return (
     <div className="min-h-full p-6">
       <motion.div
@@ -260,21 +301,12 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Default Model Size
+                    Default Model
                   </label>
-                  <select
+                  <ModelSelect
                     value={localConfig.model.default_size}
-                    onChange={(e) => updateConfig('model.default_size', e.target.value)}
-                    className="form-select"
-                  >
-                    <option value="Tiny">Tiny (39MB, Fastest)</option>
-                    <option value="Base">Base (142MB, Recommended)</option>
-                    <option value="Small">Small (466MB, Better Quality)</option>
-                    <option value="Medium">Medium (1.5GB, High Quality)</option>
-                    <option value="Large">Large (3GB, Best Quality)</option>
-                    <option value="LargeV2">Large V2 (3GB, Latest)</option>
-                    <option value="LargeV3">Large V3 (3GB, Newest)</option>
-                  </select>
+                    onChange={(modelId) => updateConfig('model.default_size', modelId)}
+                  />
                 </div>
 
                 <div>
@@ -299,7 +331,8 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
                     <input
                       type="checkbox"
                       id="use-gpu"
-                      checked={localConfig.model.use_gpu}
+                      checked={localConfig.model.use_gpu && gpuSupport.available}
+                      disabled={!gpuSupport.available}
                       onChange={(e) => updateConfig('model.use_gpu', e.target.checked)}
                       className="form-checkbox"
                     />
@@ -308,10 +341,53 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
                     </label>
                   </div>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Requires compatible GPU (CUDA/Metal/CoreML)
+                    {gpuSupport.reason || 'Requires compatible GPU (CUDA/Metal/CoreML)'}
                   </p>
                 </div>
 
+                {hardware && (
+                  <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                    <p>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">CPU:</span> {hardware.cpu.model}, {hardware.cpu.cores} threads
+                      {hardware.cpu.simd && hardware.cpu.simd.length > 0 && ` (${hardware.cpu.simd.join(', ').toUpperCase()})`}
+                    </p>
+                    <p>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Memory:</span> {formatFileSize(hardware.memory.total_bytes)} ({formatFileSize(hardware.memory.free_bytes)} free)
+                    </p>
+                    <p>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Whisper backends:</span>{' '}
+                      {!hardware.whisper.binding
+                        ? 'Whisper engine not found'
+                        : hardware.whisper.backends.length > 0
+                          ? `CPU, ${hardware.whisper.backends.map(backendLabel).join(', ')}`
+                          : 'CPU only'}
+                    </p>
+                    {hardware.gpu_backends.length > 0 && (
+                      <div className="flex items-center justify-between pt-1">
+                        <span>
+                          <span className="font-medium text-gray-700 dark:text-gray-300">GPU benchmark:</span>{' '}
+                          {isBenchmarking
+                            ? 'Running...'
+                            : gpuBenchmark
+                              ? `${gpuBenchmark.model}: CPU ${gpuBenchmark.cpu_seconds.toFixed(1)}s, GPU ${gpuBenchmark.gpu_seconds.toFixed(1)}s (${gpuBenchmark.speedup.toFixed(2)}x)`
+                              : 'Not run yet'}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={handleRunGpuBenchmark}
+                          disabled={isBenchmarking}
+                          className="text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+                        >
+                          {gpuBenchmark ? 'Run again' : 'Run GPU benchmark'}
+                        </button>
+                      </div>
+                    )}
+                    {benchmarkError && (
+                      <p className="text-red-600 dark:text-red-400">{benchmarkError}</p>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <div className="flex items-center space-x-3">
                     <input
@@ -329,7 +405,65 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
                     Automatically download missing models when needed
                   </p>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Model Download Mirror
+                  </label>
+                  <input
+                    type="url"
+                    value={localConfig.model.download_mirror}
+                    onChange={(e) => updateConfig('model.download_mirror', e.target.value)}
+                    placeholder="https://huggingface.co/ggerganov/whisper.cpp/resolve/main"
+                    className="form-input"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Base URL serving the ggml model files. Leave empty to use the default source.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Target Turnaround (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={localConfig.model.target_turnaround_minutes || 0}
+                    onChange={(e) => updateConfig('model.target_turnaround_minutes', Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="form-input"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Recommend the most accurate model predicted to finish each file within this time. 0 turns it off.
+                    Predictions are learned from {historyRuns} recorded run{historyRuns === 1 ? '' : 's'} on this machine.
+                    {historyRuns > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm('Forget all recorded processing times? Estimates start over from the next transcription.')) {
+                            throughputHistory.clear();
+                          }
+                        }}
+                        className="ml-2 text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        Clear history
+                      </button>
+                    )}
+                  </p>
+                </div>
               </div>
+
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mt-6 mb-1">
+                Decoding
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Defaults for new transcriptions. The Transcribe page can override them per file under Advanced.
+              </p>
+              <DecodingOptionsEditor
+                value={withDecodingDefaults(localConfig.model.decoding)}
+                onChange={(decoding) => updateConfig('model.decoding', decoding)}
+              />
             </div>
           </div>
 
@@ -406,6 +540,88 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
                   </div>
                 </div>
               </div>
+
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mt-6 mb-4">
+                Subtitles (SRT / VTT)
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Characters per Line: {localConfig.output.subtitles.max_chars_per_line}
+                  </label>
+                  <input
+                    type="range"
+                    min="20"
+                    max="80"
+                    value={localConfig.output.subtitles.max_chars_per_line}
+                    onChange={(e) => updateConfig('output.subtitles.max_chars_per_line', parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Lines per Cue
+                  </label>
+                  <select
+                    value={localConfig.output.subtitles.max_lines_per_cue}
+                    onChange={(e) => updateConfig('output.subtitles.max_lines_per_cue', parseInt(e.target.value))}
+                    className="form-select"
+                  >
+                    <option value="1">1</option>
+                    <option value="2">2 (Recommended)</option>
+                    <option value="3">3</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Min Cue Duration (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="5"
+                    step="0.1"
+                    value={localConfig.output.subtitles.min_cue_duration}
+                    onChange={(e) => updateConfig('output.subtitles.min_cue_duration', Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="form-input"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Cue Duration (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    step="0.5"
+                    value={localConfig.output.subtitles.max_cue_duration}
+                    onChange={(e) => updateConfig('output.subtitles.max_cue_duration', Math.max(1, parseFloat(e.target.value) || 1))}
+                    className="form-input"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="speaker-prefix"
+                      checked={localConfig.output.subtitles.speaker_prefix}
+                      onChange={(e) => updateConfig('output.subtitles.speaker_prefix', e.target.checked)}
+                      className="form-checkbox"
+                    />
+                    <label htmlFor="speaker-prefix" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Show speaker names
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    When diarization identifies speakers
+                  </p>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -441,6 +657,78 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
                     </div>
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Utterance Length (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="2"
+                    max="30"
+                    step="1"
+                    value={realtimeConfig.max_chunk_duration_ms / 1000}
+                    onChange={(e) => updateConfig('realtime.max_chunk_duration_ms', Math.round(Math.min(30, Math.max(2, parseFloat(e.target.value) || 8)) * 1000))}
+                    className="form-input"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Text is finalized after this long even without a pause, which bounds how far it lags behind speech
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    End of Utterance Pause (ms)
+                  </label>
+                  <input
+                    type="number"
+                    min="200"
+                    max="3000"
+                    step="100"
+                    value={realtimeConfig.min_silence_duration_ms}
+                    onChange={(e) => updateConfig('realtime.min_silence_duration_ms', Math.min(3000, Math.max(200, parseInt(e.target.value) || 800)))}
+                    className="form-input"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    A pause this long ends an utterance and finalizes its text
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Interim Update Interval (ms)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10000"
+                    step="250"
+                    value={realtimeConfig.interim_interval_ms}
+                    onChange={(e) => updateConfig('realtime.interim_interval_ms', Math.min(10000, Math.max(0, parseInt(e.target.value) || 0)))}
+                    className="form-input"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    How often text is shown for the utterance in progress; 0 only shows final text
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    System Audio
+                  </label>
+                  <select
+                    value={realtimeConfig.system_audio}
+                    onChange={(e) => updateConfig('realtime.system_audio', e.target.value)}
+                    className="form-select"
+                  >
+                    <option value="off">Off (microphone only)</option>
+                    <option value="mix">Mix with the microphone</option>
+                    <option value="separate">Separate speakers (You / Others)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Default for recording what this computer plays, such as the other side of a call
+                  </p>
+                </div>
               </div>
             </div>
           </div>
@@ -475,6 +763,94 @@ function ConfigPage({ config, onConfigUpdate }: ConfigPageProps) {
             </div>
           </div>
 
+          {/* AI Post-Processing */}
+          <div className="card">
+            <div className="card-body">
+              <div className="flex items-center space-x-3 mb-6">
+                <SparklesIcon className="w-6 h-6 text-primary-600" />
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                  AI Post-Processing
+                </h2>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="ollama-enabled"
+                      checked={localConfig.post_processing.ollama.enabled}
+                      onChange={(e) => updateConfig('post_processing.ollama.enabled', e.target.checked)}
+                      className="form-checkbox"
+                    />
+                    <label htmlFor="ollama-enabled" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Use Ollama for formatting and summaries
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Falls back to built-in heuristics when Ollama is unreachable
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Ollama URL
+                  </label>
+                  <input
+                    type="text"
+                    value={localConfig.post_processing.ollama.base_url}
+                    onChange={(e) => updateConfig('post_processing.ollama.base_url', e.target.value)}
+                    className="form-input"
+                    placeholder="http://localhost:11434"
+                    disabled={!localConfig.post_processing.ollama.enabled}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Request Timeout (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="5"
+                    step="5"
+                    value={Math.round(localConfig.post_processing.ollama.timeout_ms / 1000)}
+                    onChange={(e) => updateConfig('post_processing.ollama.timeout_ms', Math.max(5, parseInt(e.target.value) || 0) * 1000)}
+                    className="form-input"
+                    disabled={!localConfig.post_processing.ollama.enabled}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Context Window (tokens)
+                  </label>
+                  <select
+                    value={localConfig.post_processing.ollama.context_tokens}
+                    onChange={(e) => updateConfig('post_processing.ollama.context_tokens', Math.max(2048, parseInt(e.target.value) || DEFAULT_OLLAMA_CONFIG.context_tokens))}
+                    className="form-select"
+                    disabled={!localConfig.post_processing.ollama.enabled}
+                  >
+                    <option value="2048">2,048</option>
+                    <option value="4096">4,096</option>
+                    <option value="8192">8,192 (Recommended)</option>
+                    <option value="16384">16,384</option>
+                    <option value="32768">32,768</option>
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Longer transcripts are split into chunks that fit this window and summarized in parts
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Summary Templates */}
+          <PromptTemplateEditor postProcessing={localConfig.post_processing} />
+
+          {/* Vocabulary */}
+          <VocabularyEditor />
+
           {/* Logging */}
           <div className="card">
             <div className="card-body">
@@ -15,6 +15,7 @@ import {
 import { Link } from 'react-router-dom';
 import type { AppConfig } from '../lib/types';
 import electronService from '../services/electronService';
+import { modelRegistry } from '../lib/modelRegistry';
 
 interface HomePageProps {
   config: AppConfig;
@@ -247,7 +248,7 @@ function HomePage({ config }: HomePageProps) {
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Default Model</span>
                   <Chip color="primary" size="sm" variant="flat">
-                    {config.model.default_size}
+                    {modelRegistry.label(config.model.default_size)}
                   </Chip>
                 </div>
                 <div className="flex items-center justify-between">
@@ -289,7 +290,7 @@ function HomePage({ config }: HomePageProps) {
               </div>
               <div className="flex items-center gap-2">
                 <CheckCircleIcon className="w-5 h-5 text-success" />
-                <span className="text-sm">Model Loaded: {config.model.default_size}</span>
+                <span className="text-sm">Model Loaded: {modelRegistry.label(config.model.default_size)}</span>
               </div>
               {electronService.isElectron && systemResources ? (
                 <div className="space-y-3">
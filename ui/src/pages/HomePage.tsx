@@ -15,6 +15,7 @@ import {
 } from '@heroicons/react/24/outline';
 import type { AppConfig } from '../lib/types';
 import electronService from '../services/electronService';
+import { modelRegistry } from '../lib/modelRegistry';
 
 interface HomePageProps {
   config: AppConfig;
@@ -189,7 +190,7 @@ function HomePage({ config }: HomePageProps) {
                   <div className="flex justify-between">
                     <span className="text-gray-600 dark:text-gray-400">Size:</span>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      {config.model.default_size}
+                      {modelRegistry.label(config.model.default_size)}
                     </span>
                   </div>
                   <div className="flex justify-between">
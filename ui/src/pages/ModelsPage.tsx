@@ -8,63 +8,85 @@ import {
   TrashIcon,
   InformationCircleIcon,
   CpuChipIcon,
+  ArrowUpTrayIcon,
+  ScaleIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
-import type { AppConfig } from '../lib/types';
+import type { AppConfig, ModelDefinition } from '../lib/types';
 import electronService from '../services/electronService';
-import type { ModelInfo as ElectronModelInfo } from '../types/electron';
+import type { ModelInfo as ElectronModelInfo, ModelDownloadProgress } from '../types/electron';
+import { formatDuration, formatFileSize as formatBytes } from '../lib/utils';
+import { modelRegistry, formatModelSize, DEFAULT_MODEL_ID } from '../lib/modelRegistry';
+import { handleError } from '../lib/errorHandler';
+import ModelComparison from '../components/ModelComparison';
+import BenchmarkRunner from '../components/BenchmarkRunner';
 
 interface ModelsPageProps {
   config: AppConfig;
 }
 
-interface ModelInfo {
-  size: string;
-  filename: string;
-  size_mb: number;
+interface ModelInfo extends ModelDefinition {
   downloaded: boolean;
-  description: string;
-  recommended?: boolean;
+  // Bytes of an interrupted download that will be resumed
+  partial_bytes?: number;
 }
 
+interface ImportForm {
+  filePath: string;
+  name: string;
+  notes: string;
+  mode: 'copy' | 'link';
+}
+
+type LanguageFilter = 'all' | ModelDefinition['language'];
+type PrecisionFilter = 'all' | 'full' | 'quantized';
+
+const toModelInfo = (model: ModelDefinition, info?: ElectronModelInfo): ModelInfo => ({
+  ...model,
+  downloaded: info?.exists ?? false,
+  partial_bytes: info?.partialSize || undefined,
+});
+
+const getProcessingSpeed = (model: ModelDefinition) =>
+  model.relative_speed > 1 ? `~${model.relative_speed}x faster than realtime` : '~1x realtime speed';
+
 function ModelsPage({ config }: ModelsPageProps) {
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [downloadingModels, setDownloadingModels] = useState<Set<string>>(new Set());
   const [downloadProgress, setDownloadProgress] = useState<Record<string, number>>({});
+  const [downloadDetails, setDownloadDetails] = useState<Record<string, ModelDownloadProgress>>({});
   const [isLoading, setIsLoading] = useState(true);
-  
-  const getModelDescription = (size: string): string => {
-    switch (size.toLowerCase()) {
-      case 'tiny':
-        return 'Fastest processing, basic accuracy. Good for real-time applications.';
-      case 'base':
-        return 'Balanced speed and accuracy. Recommended for most use cases.';
-      case 'small':
-        return 'Better accuracy with reasonable speed. Good for longer recordings.';
-      case 'medium':
-        return 'High accuracy, slower processing. Best for detailed transcriptions.';
-      case 'large':
-        return 'Maximum accuracy, slowest processing. For professional use.';
-      default:
-        return 'Whisper model for speech recognition.';
-    }
+  const [languageFilter, setLanguageFilter] = useState<LanguageFilter>('all');
+  const [precisionFilter, setPrecisionFilter] = useState<PrecisionFilter>('all');
+  const [view, setView] = useState<'models' | 'compare' | 'benchmark'>('models');
+  const [importForm, setImportForm] = useState<ImportForm | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const refreshElectronModels = async (): Promise<boolean> => {
+    const electronModels = await electronService.listModels();
+    if (!electronModels) return false;
+    setModels(modelRegistry.list().map(model => toModelInfo(model, electronModels[model.id])));
+    return true;
   };
 
+  // Download progress streamed from the main process
+  useEffect(() => {
+    const unsubscribe = electronService.onModelDownloadProgress((update) => {
+      setDownloadDetails(prev => ({ ...prev, [update.model]: update }));
+      setDownloadProgress(prev => ({ ...prev, [update.model]: update.progress }));
+    });
+    return () => {
+      if (unsubscribe) unsubscribe();
+    };
+  }, []);
+
   useEffect(() => {
     // Load models information
     const loadModels = async () => {
       if (electronService.isElectron) {
         // Load from Electron
-        const electronModels = await electronService.listModels();
-        if (electronModels) {
-          const modelList: ModelInfo[] = Object.entries(electronModels).map(([size, info]) => ({
-            size: size.charAt(0).toUpperCase() + size.slice(1),
-            filename: info.filename,
-            size_mb: Math.round(info.size / (1024 * 1024)),
-            downloaded: info.exists,
-            description: getModelDescription(size),
-            recommended: size === 'base'
-          }));
-          setModels(modelList);
+        if (await refreshElectronModels()) {
           setIsLoading(false);
           return;
         }
@@ -72,58 +94,10 @@ function ModelsPage({ config }: ModelsPageProps) {
       
       // Fallback to simulated data
       setTimeout(() => {
-        setModels([
-          {
-            size: 'Tiny',
-            filename: 'ggml-tiny.bin',
-            size_mb: 39,
-            downloaded: true,
-            description: 'Fastest processing, basic accuracy. Good for real-time applications.',
-          },
-          {
-            size: 'Base',
-            filename: 'ggml-base.bin',
-            size_mb: 142,
-            downloaded: true,
-            description: 'Balanced speed and accuracy. Recommended for most use cases.',
-            recommended: true,
-          },
-          {
-            size: 'Small',
-            filename: 'ggml-small.bin',
-            size_mb: 466,
-            downloaded: false,
-            description: 'Better accuracy than base, moderate speed. Good for important content.',
-          },
-          {
-            size: 'Medium',
-            filename: 'ggml-medium.bin',
-            size_mb: 1533,
-            downloaded: false,
-            description: 'High accuracy, slower processing. Ideal for professional transcription.',
-          },
-          {
-            size: 'Large',
-            filename: 'ggml-large.bin',
-            size_mb: 3094,
-            downloaded: false,
-            description: 'Excellent accuracy, requires powerful hardware and time.',
-          },
-          {
-            size: 'Large V2',
-            filename: 'ggml-large-v2.bin',
-            size_mb: 3094,
-            downloaded: false,
-            description: 'Improved version of Large model with better multilingual support.',
-          },
-          {
-            size: 'Large V3',
-            filename: 'ggml-large-v3.bin',
-            size_mb: 3094,
-            downloaded: false,
-            description: 'Latest version with enhanced accuracy and language detection.',
-          },
-        ]);
+        setModels(modelRegistry.list().map(model => ({
+          ...model,
+          downloaded: model.id === 'tiny' || model.id === DEFAULT_MODEL_ID,
+        })));
         setIsLoading(false);
       }, 1000);
     };
@@ -137,10 +111,11 @@ function ModelsPage({ config }: ModelsPageProps) {
 
     // Handle Electron download
     if (electronService.isElectron) {
-      const result = await electronService.downloadModel(modelSize.toLowerCase());
-      if (result) {
-        // Show instruction message
-        alert(result.message);
+      const result = await electronService.downloadModel(modelSize, {
+        mirrorUrl: config.model.download_mirror || undefined,
+      });
+      if (result && !result.success && !result.cancelled) {
+        alert(`Download failed: ${result.message}`);
       }
       setDownloadingModels(prev => {
         const newSet = new Set(prev);
@@ -152,20 +127,14 @@ function ModelsPage({ config }: ModelsPageProps) {
         delete newProgress[modelSize];
         return newProgress;
       });
+      setDownloadDetails(prev => {
+        const newDetails = { ...prev };
+        delete newDetails[modelSize];
+        return newDetails;
+      });
       
       // Reload models after download attempt
-      const electronModels = await electronService.listModels();
-      if (electronModels) {
-        const modelList: ModelInfo[] = Object.entries(electronModels).map(([size, info]) => ({
-          size: size.charAt(0).toUpperCase() + size.slice(1),
-          filename: info.filename,
-          size_mb: Math.round(info.size / (1024 * 1024)),
-          downloaded: info.exists,
-          description: getModelDescription(size),
-          recommended: size === 'base'
-        }));
-        setModels(modelList);
-      }
+      await refreshElectronModels();
       return;
     }
 
@@ -184,7 +153,7 @@ function ModelsPage({ config }: ModelsPageProps) {
           });
           
           setModels(prev => prev.map(model => 
-            model.size === modelSize 
+            model.id === modelSize 
               ? { ...model, downloaded: true }
               : model
           ));
@@ -197,36 +166,91 @@ function ModelsPage({ config }: ModelsPageProps) {
     }, 300);
   };
 
+  const handleCancelDownload = async (modelSize: string) => {
+    await electronService.cancelModelDownload(modelSize);
+  };
+
+  const getDownloadStatus = (modelSize: string): string => {
+    const details = downloadDetails[modelSize];
+    if (!details) return 'Downloading...';
+    if (details.stage === 'verifying') return 'Verifying checksum...';
+
+    const parts = ['Downloading...'];
+    if (details.received_bytes !== undefined && details.total_bytes) {
+      parts.push(`${formatBytes(details.received_bytes)} of ${formatBytes(details.total_bytes)}`);
+    }
+    if (details.bytes_per_second) {
+      parts.push(`${formatBytes(details.bytes_per_second)}/s`);
+    }
+    if (details.eta_seconds !== undefined) {
+      parts.push(`${formatDuration(details.eta_seconds)} left`);
+    }
+    return parts.join(' · ');
+  };
+
   const handleDelete = (modelSize: string) => {
     setModels(prev => prev.map(model => 
-      model.size === modelSize 
+      model.id === modelSize 
         ? { ...model, downloaded: false }
         : model
     ));
   };
 
-  const formatFileSize = (sizeInMB: number) => {
-    if (sizeInMB >= 1024) {
-      return `${(sizeInMB / 1024).toFixed(1)} GB`;
+  const handleChooseImportFile = async () => {
+    const filePath = await electronService.selectModelFile();
+    if (!filePath) return;
+    const fileName = filePath.split(/[\\/]/).pop() || filePath;
+    setImportError(null);
+    setImportForm({
+      filePath,
+      name: fileName.replace(/\.bin$/i, ''),
+      notes: '',
+      mode: 'copy',
+    });
+  };
+
+  const handleImport = async () => {
+    if (!importForm) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const result = await electronService.importModel(importForm.filePath, {
+        name: importForm.name,
+        notes: importForm.notes,
+        mode: importForm.mode,
+      });
+      if (!result || !result.success) {
+        setImportError(result?.message || 'Import failed');
+        return;
+      }
+      setImportForm(null);
+      await modelRegistry.loadCustomModels();
+      await refreshElectronModels();
+    } catch (error) {
+      setImportError(handleError(error, 'importing model'));
+    } finally {
+      setIsImporting(false);
     }
-    return `${sizeInMB} MB`;
   };
 
-  const getProcessingSpeed = (modelSize: string) => {
-    const speeds: Record<string, string> = {
-      'Tiny': '~16x faster than realtime',
-      'Base': '~8x faster than realtime',
-      'Small': '~4x faster than realtime',
-      'Medium': '~2x faster than realtime',
-      'Large': '~1x realtime speed',
-      'Large V2': '~1x realtime speed',
-      'Large V3': '~1x realtime speed',
-    };
-    return speeds[modelSize] || 'Speed varies';
+  const handleRemoveImported = async (model: ModelInfo) => {
+    const what = model.linked ? 'the link to it (the original file is kept)' : 'its copy in the models folder';
+    if (!confirm(`Remove ${model.name}? This deletes ${what}.`)) return;
+    const result = await electronService.removeCustomModel(model.id);
+    if (result && !result.success) {
+      alert(`Could not remove model: ${result.message}`);
+      return;
+    }
+    await modelRegistry.loadCustomModels();
+    await refreshElectronModels();
   };
 
   const totalDownloaded = models.filter(m => m.downloaded).length;
   const totalSize = models.filter(m => m.downloaded).reduce((acc, m) => acc + m.size_mb, 0);
+  const visibleModels = models.filter(model =>
+    (languageFilter === 'all' || model.language === languageFilter) &&
+    (precisionFilter === 'all' || (precisionFilter === 'quantized') === Boolean(model.quantization))
+  );
 
   if (isLoading) {
     return (
@@ -248,185 +272,368 @@ function ModelsPage({ config }: ModelsPageProps) {
         className="max-w-6xl mx-auto"
       >
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-            Model Management
-          </h1>
-          <p className="text-gray-600 dark:text-gray-400">
-            Download and manage Whisper AI models for transcription
-          </p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Model Management
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Download and manage Whisper AI models for transcription
+            </p>
+            <div className="flex space-x-2 mt-4">
+              <button
+                onClick={() => setView('models')}
+                className={view === 'models' ? 'btn-primary' : 'btn-outline'}
+              >
+                Models
+              </button>
+              <button
+                onClick={() => setView('compare')}
+                className={view === 'compare' ? 'btn-primary' : 'btn-outline'}
+              >
+                <ScaleIcon className="w-4 h-4 mr-1" />
+                Compare
+              </button>
+              <button
+                onClick={() => setView('benchmark')}
+                className={view === 'benchmark' ? 'btn-primary' : 'btn-outline'}
+              >
+                <ChartBarIcon className="w-4 h-4 mr-1" />
+                Benchmark
+              </button>
+            </div>
+          </div>
+          {electronService.isElectron && (
+            <button onClick={handleChooseImportFile} className="btn-outline" disabled={isImporting}>
+              <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+              Import Model
+            </button>
+          )}
         </div>
 
-        {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          <div className="card">
-            <div className="card-body text-center">
-              <CpuChipIcon className="w-8 h-8 text-primary-600 mx-auto mb-2" />
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totalDownloaded}</p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Models Downloaded</p>
+        {/* Import form */}
+        {importForm && (
+          <div className="card mb-8">
+            <div className="card-body space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Import Model</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 break-all">{importForm.filePath}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Display Name
+                </label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={importForm.name}
+                  onChange={(e) => setImportForm({ ...importForm, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Notes
+                </label>
+                <textarea
+                  className="form-input"
+                  rows={2}
+                  placeholder="e.g. Fine-tuned on product names, March release"
+                  value={importForm.notes}
+                  onChange={(e) => setImportForm({ ...importForm, notes: e.target.value })}
+                />
+              </div>
+              <div className="flex space-x-6 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    checked={importForm.mode === 'copy'}
+                    onChange={() => setImportForm({ ...importForm, mode: 'copy' })}
+                  />
+                  <span>Copy into the models folder</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    checked={importForm.mode === 'link'}
+                    onChange={() => setImportForm({ ...importForm, mode: 'link' })}
+                  />
+                  <span>Link to the file (saves space; breaks if the file moves)</span>
+                </label>
+              </div>
+              {importError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{importError}</p>
+              )}
+              <div className="flex space-x-2">
+                <button onClick={handleImport} className="btn-primary" disabled={isImporting || !importForm.name.trim()}>
+                  {isImporting ? (
+                    <>
+                      <ArrowPathIcon className="w-4 h-4 mr-1 animate-spin" />
+                      Importing...
+                    </>
+                  ) : 'Import'}
+                </button>
+                <button onClick={() => setImportForm(null)} className="btn-outline" disabled={isImporting}>
+                  Cancel
+                </button>
+              </div>
             </div>
           </div>
+        )}
+
+        {view === 'compare' ? (
+          <ModelComparison models={models.filter(model => model.downloaded)} />
+        ) : view === 'benchmark' ? (
+          <BenchmarkRunner models={models.filter(model => model.downloaded)} />
+        ) : (
+          <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="card">
+              <div className="card-body text-center">
+                <CpuChipIcon className="w-8 h-8 text-primary-600 mx-auto mb-2" />
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{totalDownloaded}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Models Downloaded</p>
+              </div>
+            </div>
           
-          <div className="card">
-            <div className="card-body text-center">
-              <CloudArrowDownIcon className="w-8 h-8 text-green-600 mx-auto mb-2" />
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatFileSize(totalSize)}</p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Storage Used</p>
+            <div className="card">
+              <div className="card-body text-center">
+                <CloudArrowDownIcon className="w-8 h-8 text-green-600 mx-auto mb-2" />
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatModelSize(totalSize)}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Storage Used</p>
+              </div>
             </div>
-          </div>
           
-          <div className="card">
-            <div className="card-body text-center">
-              <CheckCircleIcon className="w-8 h-8 text-blue-600 mx-auto mb-2" />
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{config.model.default_size}</p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Default Model</p>
+            <div className="card">
+              <div className="card-body text-center">
+                <CheckCircleIcon className="w-8 h-8 text-blue-600 mx-auto mb-2" />
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{modelRegistry.label(config.model.default_size)}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Default Model</p>
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Models List */}
-        <div className="space-y-4">
-          {models.map((model) => {
-            const isDownloading = downloadingModels.has(model.size);
-            const progress = downloadProgress[model.size] || 0;
+          {/* Filters */}
+          <div className="flex flex-wrap gap-4 mb-4">
+            <select
+              className="form-select w-auto"
+              value={languageFilter}
+              onChange={(e) => setLanguageFilter(e.target.value as LanguageFilter)}
+            >
+              <option value="all">All languages</option>
+              <option value="multilingual">Multilingual</option>
+              <option value="en">English only</option>
+            </select>
+            <select
+              className="form-select w-auto"
+              value={precisionFilter}
+              onChange={(e) => setPrecisionFilter(e.target.value as PrecisionFilter)}
+            >
+              <option value="all">All precisions</option>
+              <option value="full">Full precision</option>
+              <option value="quantized">Quantized</option>
+            </select>
+          </div>
+
+          {/* Models List */}
+          <div className="space-y-4">
+            {visibleModels.map((model) => {
+              const isDownloading = downloadingModels.has(model.id);
+              const progress = downloadProgress[model.id] || 0;
             
-            return (
-              <motion.div
-                key={model.size}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="card"
-              >
-                <div className="card-body">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                          {model.size} Model
-                        </h3>
-                        {model.recommended && (
-                          <span className="px-2 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 text-xs font-medium rounded-full">
-                            Recommended
-                          </span>
+              return (
+                <motion.div
+                  key={model.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="card"
+                >
+                  <div className="card-body">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                            {model.name}
+                          </h3>
+                          {model.custom && (
+                            <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs font-medium rounded-full">
+                              Imported
+                            </span>
+                          )}
+                          {model.id === DEFAULT_MODEL_ID && (
+                            <span className="px-2 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 text-xs font-medium rounded-full">
+                              Recommended
+                            </span>
+                          )}
+                          {model.language === 'en' && (
+                            <span className="px-2 py-1 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs font-medium rounded-full">
+                              English only
+                            </span>
+                          )}
+                          {model.quantization && (
+                            <span className="px-2 py-1 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs font-medium rounded-full">
+                              {model.quantization.toUpperCase()}
+                            </span>
+                          )}
+                          {model.distilled && (
+                            <span className="px-2 py-1 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs font-medium rounded-full">
+                              Distilled
+                            </span>
+                          )}
+                          {model.downloaded ? (
+                            <CheckCircleIcon className="w-5 h-5 text-green-500" />
+                          ) : (
+                            <XCircleIcon className="w-5 h-5 text-gray-400" />
+                          )}
+                        </div>
+                      
+                        <p className="text-gray-600 dark:text-gray-400 mb-3">
+                          {model.recommended_use}
+                        </p>
+                        {model.notes && (
+                          <p className="text-sm italic text-gray-600 dark:text-gray-400 mb-3">
+                            {model.notes}
+                          </p>
                         )}
-                        {model.downloaded ? (
-                          <CheckCircleIcon className="w-5 h-5 text-green-500" />
-                        ) : (
-                          <XCircleIcon className="w-5 h-5 text-gray-400" />
+                        {model.linked && model.source && (
+                          <p className="text-xs text-gray-500 dark:text-gray-500 mb-3 break-all">
+                            Linked to {model.source}
+                          </p>
                         )}
-                      </div>
                       
-                      <p className="text-gray-600 dark:text-gray-400 mb-3">
-                        {model.description}
-                      </p>
-                      
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                        <div>
-                          <span className="font-medium text-gray-900 dark:text-white">Size:</span>
-                          <span className="ml-2 text-gray-600 dark:text-gray-400">
-                            {formatFileSize(model.size_mb)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-900 dark:text-white">Speed:</span>
-                          <span className="ml-2 text-gray-600 dark:text-gray-400">
-                            {getProcessingSpeed(model.size)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-900 dark:text-white">Status:</span>
-                          <span className={`ml-2 ${
-                            model.downloaded 
-                              ? 'text-green-600 dark:text-green-400' 
-                              : 'text-gray-600 dark:text-gray-400'
-                          }`}>
-                            {model.downloaded ? 'Downloaded' : 'Not Downloaded'}
-                          </span>
-                        </div>
-                      </div>
-                      
-                      {isDownloading && (
-                        <div className="mt-4">
-                          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
-                            <span>Downloading...</span>
-                            <span>{progress.toFixed(0)}%</span>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <span className="font-medium text-gray-900 dark:text-white">Size:</span>
+                            <span className="ml-2 text-gray-600 dark:text-gray-400">
+                              {formatModelSize(model.size_mb)}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-900 dark:text-white">Speed:</span>
+                            <span className="ml-2 text-gray-600 dark:text-gray-400">
+                              {getProcessingSpeed(model)}
+                            </span>
                           </div>
-                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                            <div
-                              className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-                              style={{ width: `${progress}%` }}
-                            />
+                          <div>
+                            <span className="font-medium text-gray-900 dark:text-white">Status:</span>
+                            <span className={`ml-2 ${
+                              model.downloaded 
+                                ? 'text-green-600 dark:text-green-400' 
+                                : 'text-gray-600 dark:text-gray-400'
+                            }`}>
+                              {model.downloaded ? 'Downloaded' : model.custom ? 'File missing' : 'Not Downloaded'}
+                            </span>
                           </div>
                         </div>
-                      )}
-                    </div>
+                      
+                        {isDownloading && (
+                          <div className="mt-4">
+                            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                              <span>{getDownloadStatus(model.id)}</span>
+                              <span>{progress.toFixed(0)}%</span>
+                            </div>
+                            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                              <div
+                                className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                                style={{ width: `${progress}%` }}
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     
-                    <div className="flex space-x-2 ml-6">
-                      {model.downloaded ? (
-                        <>
+                      <div className="flex space-x-2 ml-6">
+                        {model.custom ? (
                           <button
-                            onClick={() => handleDelete(model.size)}
+                            onClick={() => handleRemoveImported(model)}
                             className="btn-outline text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20"
-                            disabled={isDownloading}
                           >
                             <TrashIcon className="w-4 h-4 mr-1" />
-                            Delete
+                            Remove
                           </button>
-                        </>
-                      ) : (
-                        <button
-                          onClick={() => handleDownload(model.size)}
-                          className="btn-primary"
-                          disabled={isDownloading}
-                        >
-                          {isDownloading ? (
-                            <>
-                              <ArrowPathIcon className="w-4 h-4 mr-1 animate-spin" />
-                              Downloading...
-                            </>
-                          ) : (
-                            <>
-                              <CloudArrowDownIcon className="w-4 h-4 mr-1" />
-                              Download
-                            </>
-                          )}
-                        </button>
-                      )}
+                        ) : model.downloaded ? (
+                          <>
+                            <button
+                              onClick={() => handleDelete(model.id)}
+                              className="btn-outline text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20"
+                              disabled={isDownloading}
+                            >
+                              <TrashIcon className="w-4 h-4 mr-1" />
+                              Delete
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleDownload(model.id)}
+                              className="btn-primary"
+                              disabled={isDownloading}
+                              title={model.partial_bytes ? `${formatBytes(model.partial_bytes)} already downloaded` : undefined}
+                            >
+                              {isDownloading ? (
+                                <>
+                                  <ArrowPathIcon className="w-4 h-4 mr-1 animate-spin" />
+                                  Downloading...
+                                </>
+                              ) : (
+                                <>
+                                  <CloudArrowDownIcon className="w-4 h-4 mr-1" />
+                                  {model.partial_bytes ? 'Resume' : 'Download'}
+                                </>
+                              )}
+                            </button>
+                            {isDownloading && electronService.isElectron && (
+                              <button
+                                onClick={() => handleCancelDownload(model.id)}
+                                className="btn-outline"
+                                title="Stop the download; it can be resumed later"
+                              >
+                                <XCircleIcon className="w-4 h-4 mr-1" />
+                                Cancel
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </motion.div>
-            );
-          })}
-        </div>
+                </motion.div>
+              );
+            })}
+          </div>
 
-        {/* Info Section */}
-        <div className="mt-8 card bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
-          <div className="card-body">
-            <div className="flex items-start space-x-3">
-              <InformationCircleIcon className="w-6 h-6 text-blue-600 flex-shrink-0 mt-0.5" />
-              <div>
-                <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
-                  Model Selection Guide
-                </h3>
-                <div className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
-                  <p>
-                    <strong>Tiny/Base:</strong> Best for real-time transcription and when speed is critical.
-                  </p>
-                  <p>
-                    <strong>Small/Medium:</strong> Good balance of accuracy and speed for most professional use cases.
-                  </p>
-                  <p>
-                    <strong>Large models:</strong> Highest accuracy but require more time and computational resources.
-                  </p>
-                  <p>
-                    <strong>Note:</strong> All models support multiple languages. Larger models have better multilingual capabilities.
-                  </p>
+          {/* Info Section */}
+          <div className="mt-8 card bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
+            <div className="card-body">
+              <div className="flex items-start space-x-3">
+                <InformationCircleIcon className="w-6 h-6 text-blue-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
+                    Model Selection Guide
+                  </h3>
+                  <div className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
+                    <p>
+                      <strong>Tiny/Base:</strong> Best for real-time transcription and when speed is critical.
+                    </p>
+                    <p>
+                      <strong>Small/Medium:</strong> Good balance of accuracy and speed for most professional use cases.
+                    </p>
+                    <p>
+                      <strong>Large models:</strong> Highest accuracy but require more time and computational resources.
+                    </p>
+                    <p>
+                      <strong>English only (.en):</strong> Slightly more accurate on English speech, but cannot transcribe other languages.
+                    </p>
+                    <p>
+                      <strong>Quantized (Q5/Q8):</strong> A fraction of the size and memory with a small loss in accuracy.
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
+          </>
+        )}
       </motion.div>
     </div>
   );
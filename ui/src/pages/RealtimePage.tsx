@@ -11,8 +11,13 @@ import {
   DocumentTextIcon,
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
-import type { AppConfig, RealtimeChunk } from '../lib/types';
-// Removed RealTimeTranscriptionManager - using record-then-transcribe approach
+import type { AppConfig, AudioInputSettings, ModelDefinition, NoiseProfile, RealtimeChunk, SystemAudioMode } from '../lib/types';
+import { vocabularyStore } from '../lib/vocabulary';
+import { modelRegistry } from '../lib/modelRegistry';
+import { RealTimeTranscriptionManager, isSystemAudioSupported } from '../lib/realTimeAudio';
+import { audioDevices } from '../lib/audioDevices';
+import { loadNoiseProfile, saveNoiseProfile, withRealtimeDefaults } from '../lib/realtimeConfig';
+import ModelSelect from '../components/ModelSelect';
 
 interface RealtimePageProps {
   config: AppConfig;
@@ -25,8 +30,22 @@ interface TranscriptionChunk {
   text: string;
   confidence?: number;
   energy?: number;
+  // Interim text is replaced when the utterance is finalized
+  isFinal: boolean;
 }
 
+const INPUT_PROCESSING: Array<{ key: keyof AudioInputSettings; label: string }> = [
+  { key: 'echo_cancellation', label: 'Echo cancellation' },
+  { key: 'noise_suppression', label: 'Noise suppression' },
+  { key: 'auto_gain_control', label: 'Automatic gain control' },
+];
+
+// Ambient noise is sampled for this long when calibrating
+const CALIBRATION_MS = 3000;
+
+// Larger models cannot keep up with speech on most machines
+const isLiveCapable = (model: ModelDefinition) => model.relative_speed >= 4;
+
 function RealtimePage({ config }: RealtimePageProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -36,15 +55,19 @@ function RealtimePage({ config }: RealtimePageProps) {
   const [microphoneStatus, setMicrophoneStatus] = useState<'disconnected' | 'connected' | 'error'>('disconnected');
   const [error, setError] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [modelId, setModelId] = useState(() => modelRegistry.resolveId(config.model.default_size));
+  const [vadThreshold, setVadThreshold] = useState(() => withRealtimeDefaults(config.realtime).vad_threshold);
+  const [noiseProfile, setNoiseProfile] = useState<NoiseProfile | null>(loadNoiseProfile);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [systemAudio, setSystemAudio] = useState<SystemAudioMode>(() =>
+    isSystemAudioSupported() ? withRealtimeDefaults(config.realtime).system_audio : 'off');
+  const [inputDevices, setInputDevices] = useState(() => audioDevices.list());
+  const [selectedInputId, setSelectedInputId] = useState(() => audioDevices.getSelectedId());
+  const [inputSettings, setInputSettings] = useState(() => audioDevices.getSettings(audioDevices.getSelectedId()));
   
-  // Audio recording refs
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
+  const managerRef = useRef<RealTimeTranscriptionManager | null>(null);
   const sessionTimer = useRef<NodeJS.Timeout | null>(null);
   const transcriptionScrollRef = useRef<HTMLDivElement>(null);
-  const audioLevelIntervalRef = useRef<number | null>(null);
 
   // Initialize microphone access
   useEffect(() => {
@@ -61,6 +84,8 @@ function RealtimePage({ config }: RealtimePageProps) {
         
         // Stop the stream immediately - we just wanted to check permission
         stream.getTracks().forEach(track => track.stop());
+        // Device names are only listed once permission is granted
+        await audioDevices.refresh();
         
         setMicrophoneStatus('connected');
         setError(null);
@@ -72,21 +97,20 @@ function RealtimePage({ config }: RealtimePageProps) {
     };
     
     initializeMicrophone();
+    const unsubscribe = audioDevices.subscribe(() => {
+      setInputDevices(audioDevices.list());
+      setSelectedInputId(audioDevices.getSelectedId());
+      setInputSettings(audioDevices.getSettings(audioDevices.getSelectedId()));
+    });
     
     // Cleanup on unmount
     return () => {
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-        mediaRecorderRef.current.stop();
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
+      unsubscribe();
+      managerRef.current?.cleanup();
+      managerRef.current = null;
       if (sessionTimer.current) {
         clearInterval(sessionTimer.current);
       }
-      if (audioLevelIntervalRef.current) {
-        clearInterval(audioLevelIntervalRef.current);
-      }
     };
   }, []);
   
@@ -117,86 +141,121 @@ function RealtimePage({ config }: RealtimePageProps) {
     }
   }, [transcriptionChunks]);
 
+  // Interim and final text for one utterance share an id; the latest version replaces the
+  // earlier ones, and an utterance that turned out to hold no speech is removed
+  const handleChunk = (chunk: RealtimeChunk) => {
+    setTranscriptionChunks(prev => {
+      const index = prev.findIndex(existing => existing.id === chunk.id);
+      if (!chunk.text.trim()) {
+        return index === -1 ? prev : prev.filter(existing => existing.id !== chunk.id);
+      }
+      const entry: TranscriptionChunk = {
+        id: chunk.id,
+        timestamp: formatDuration(Math.floor(chunk.start_time)),
+        speaker: chunk.speaker,
+        text: chunk.text.trim(),
+        confidence: chunk.confidence || undefined,
+        isFinal: chunk.is_final,
+      };
+      if (index === -1) {
+        return [...prev, entry];
+      }
+      const next = [...prev];
+      next[index] = entry;
+      return next;
+    });
+  };
+
   const handleStartRecording = async () => {
     console.log('🎬 Start recording button clicked!');
     
     try {
       setError(null);
       setIsProcessing(true);
-      
-      // Get microphone stream
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 16000
-        } 
+
+      const manager = new RealTimeTranscriptionManager();
+      manager.setOnTranscriptionChunk(handleChunk);
+      // The capture's own error says what could not be opened; keep it over the generic one
+      let captureError: Error | null = null;
+      manager.setOnError((err) => {
+        captureError = err;
+        setError(err.message);
       });
-      
-      // Set up audio level monitoring
-      audioContextRef.current = new AudioContext();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 256;
-      source.connect(analyserRef.current);
-      
-      // Start monitoring audio levels
-      const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-      audioLevelIntervalRef.current = window.setInterval(() => {
-        if (analyserRef.current) {
-          analyserRef.current.getByteFrequencyData(dataArray);
-          const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
-          setAudioLevel(Math.min(100, (average / 128) * 100));
-        }
-      }, 100);
-      
-      // Set up MediaRecorder
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus') 
-        ? 'audio/webm;codecs=opus' 
-        : 'audio/webm';
-      
-      mediaRecorderRef.current = new MediaRecorder(stream, { mimeType });
-      audioChunksRef.current = [];
-      
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
-      
-      // Generate session ID
-      const newSessionId = `record_${Date.now()}`;
+      manager.setOnAudioLevel(setAudioLevel);
+      managerRef.current = manager;
+
+      const input = audioDevices.resolveInput();
+      manager.setInput(input.deviceId, input.settings);
+      manager.setSystemAudio(systemAudio);
+      if (!await manager.initialize()) {
+        throw captureError ?? new Error(systemAudio === 'off' ? 'Could not open the microphone' : 'Could not open the microphone or system audio');
+      }
+
+      const realtime = withRealtimeDefaults(config.realtime);
+      const newSessionId = await manager.startTranscription({
+        model_size: modelId,
+        language: realtime.default_language,
+        gpu: config.model.use_gpu,
+        diarization: false,
+        vad_threshold: vadThreshold,
+        noise_floor_db: noiseProfile?.noise_floor_db,
+        min_silence_ms: realtime.min_silence_duration_ms,
+        max_chunk_ms: realtime.max_chunk_duration_ms,
+        interim_interval_ms: realtime.interim_interval_ms,
+        initial_prompt: vocabularyStore.buildInitialPrompt(),
+        system_audio: systemAudio,
+      });
+      if (!newSessionId) {
+        throw new Error('Could not start transcription');
+      }
+
       setSessionId(newSessionId);
-      
-      // Start recording
-      mediaRecorderRef.current.start(1000); // Collect data every second
-      
       setIsRecording(true);
       setIsProcessing(false);
       setTranscriptionChunks([]);
       setSessionDuration(0);
       
-      console.log('✅ Started recording session:', newSessionId);
+      console.log('✅ Started live transcription session:', newSessionId);
     } catch (error) {
       console.error('❌ Error starting recording:', error);
       setError('Failed to start recording: ' + (error as Error).message);
       setIsProcessing(false);
       
       // Cleanup on error
-      if (audioLevelIntervalRef.current) {
-        clearInterval(audioLevelIntervalRef.current);
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
+      managerRef.current?.cleanup();
+      managerRef.current = null;
+    }
+  };
+
+  // Samples the room with its own manager, so it can run before a session starts
+  const handleCalibrate = async () => {
+    const manager = new RealTimeTranscriptionManager();
+    setError(null);
+    setIsCalibrating(true);
+    try {
+      const input = audioDevices.resolveInput();
+      manager.setInput(input.deviceId, input.settings);
+      if (!await manager.initialize()) {
+        throw new Error('Could not open the microphone');
       }
+      const profile = await manager.calibrateNoise(CALIBRATION_MS);
+      saveNoiseProfile(profile);
+      setNoiseProfile(profile);
+    } catch (error) {
+      console.error('❌ Error calibrating noise:', error);
+      setError('Failed to calibrate: ' + (error as Error).message);
+    } finally {
+      manager.cleanup();
+      setIsCalibrating(false);
     }
   };
 
   const handleStopRecording = async () => {
     console.log('🛑 Stop recording button clicked!');
     
-    if (!mediaRecorderRef.current) {
-      console.error('❌ No media recorder available');
+    const manager = managerRef.current;
+    if (!manager) {
+      console.error('❌ No transcription session running');
       return;
     }
     
@@ -204,95 +263,19 @@ function RealtimePage({ config }: RealtimePageProps) {
       setError(null);
       setIsProcessing(true);
       setIsRecording(false);
-      
-      // Stop audio level monitoring
-      if (audioLevelIntervalRef.current) {
-        clearInterval(audioLevelIntervalRef.current);
-        audioLevelIntervalRef.current = null;
-      }
       setAudioLevel(0);
-      
-      // Stop recording and wait for final data
-      await new Promise<void>((resolve) => {
-        mediaRecorderRef.current!.onstop = () => resolve();
-        mediaRecorderRef.current!.stop();
-        
-        // Stop all tracks
-        mediaRecorderRef.current!.stream.getTracks().forEach(track => track.stop());
-      });
-      
-      // Close audio context
-      if (audioContextRef.current) {
-        await audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-      
-      // Create audio blob
-      const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-      console.log(`📦 Recorded audio blob: ${audioBlob.size} bytes`);
-      
-      // Check if we're in Electron and can use native Whisper
-      const electronAPI = (window as any).electronAPI;
-      if (electronAPI?.isElectron) {
-        console.log('🖥️ Using Electron native Whisper for transcription');
-        
-        // Convert blob to ArrayBuffer for Electron
-        const arrayBuffer = await audioBlob.arrayBuffer();
-        
-        // Send to Electron for transcription
-        const result = await electronAPI.transcribeAudioBuffer(arrayBuffer, {
-          modelSize: config.model.default_size,
-          language: config.realtime.default_language
-        });
-        
-        if (result.success) {
-          // Extract text from result - handle different formats
-          let transcribedText = '';
-          
-          if (typeof result.text === 'string') {
-            transcribedText = result.text;
-          } else if (Array.isArray(result.text)) {
-            // Result is an array of segments
-            transcribedText = result.text
-              .map((segment: any) => typeof segment === 'string' ? segment : segment.text || '')
-              .join(' ')
-              .trim();
-          } else if (result.segments && Array.isArray(result.segments)) {
-            // Use segments array
-            transcribedText = result.segments
-              .map((segment: any) => segment.text || '')
-              .join(' ')
-              .trim();
-          }
-          
-          if (transcribedText) {
-            // Add transcription as a single chunk
-            const newChunk: TranscriptionChunk = {
-              id: `${Date.now()}_${Math.random()}`,
-              timestamp: new Date().toLocaleTimeString(),
-              text: transcribedText,
-              confidence: 0.95
-            };
-            setTranscriptionChunks([newChunk]);
-            console.log('✅ Transcription complete:', transcribedText.substring(0, 100) + '...');
-          } else {
-            throw new Error('No transcription text received');
-          }
-        } else {
-          throw new Error(result.error || 'Transcription failed');
-        }
-      } else {
-        // Fallback for browser - use Web Speech API or show error
-        console.log('🌐 Browser mode - native transcription not available');
-        setError('Native transcription only available in desktop app. Please use the Electron app for full functionality.');
-      }
-      
+
+      // Resolves once the last utterance has its final text
+      await manager.stopTranscription();
+      manager.cleanup();
+      managerRef.current = null;
+
       setIsProcessing(false);
       setSessionId(null);
-      console.log('✅ Recording and transcription complete');
+      console.log('✅ Live transcription stopped');
     } catch (error) {
       console.error('❌ Error stopping recording:', error);
-      setError('Failed to process recording: ' + (error as Error).message);
+      setError('Failed to stop transcription: ' + (error as Error).message);
       setIsRecording(false);
       setIsProcessing(false);
     }
@@ -474,13 +457,57 @@ function RealtimePage({ config }: RealtimePageProps) {
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Model Size
+                      Model
+                    </label>
+                    <ModelSelect
+                      value={modelId}
+                      onChange={setModelId}
+                      filter={isLiveCapable}
+                      disabled={isRecording}
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="realtime-input" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Microphone
                     </label>
-                    <select className="form-select" defaultValue={config.model.default_size}>
-                      <option value="tiny">Tiny (Fastest)</option>
-                      <option value="base">Base (Recommended)</option>
-                      <option value="small">Small (Better Quality)</option>
+                    <select
+                      id="realtime-input"
+                      value={selectedInputId ?? ''}
+                      onChange={(e) => audioDevices.select(e.target.value || null)}
+                      disabled={isRecording || isCalibrating}
+                      className="form-select"
+                    >
+                      <option value="">System default</option>
+                      {inputDevices.map(device => (
+                        <option key={device.device_id} value={device.device_id}>{device.label}</option>
+                      ))}
+                      {selectedInputId && !inputDevices.some(device => device.device_id === selectedInputId) && (
+                        <option value={selectedInputId}>Disconnected microphone</option>
+                      )}
                     </select>
+                    {!audioDevices.isSelectedConnected() && inputDevices.length > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                        The chosen microphone is not connected; the system default is used until it is back.
+                      </p>
+                    )}
+                    <div className="mt-2 space-y-1">
+                      {INPUT_PROCESSING.map(({ key, label }) => (
+                        <label key={key} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            className="form-checkbox"
+                            checked={inputSettings[key]}
+                            onChange={(e) => audioDevices.updateSettings(selectedInputId, { [key]: e.target.checked })}
+                            disabled={isRecording || isCalibrating}
+                          />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Saved for this microphone. Turn processing off for music or when recording an interview.
+                    </p>
                   </div>
 
                   <div>
@@ -492,7 +519,9 @@ function RealtimePage({ config }: RealtimePageProps) {
                       min="0"
                       max="1"
                       step="0.01"
-                      defaultValue={config.realtime.vad_threshold}
+                      value={vadThreshold}
+                      onChange={(e) => setVadThreshold(parseFloat(e.target.value))}
+                      disabled={isRecording}
                       className="w-full"
                     />
                     <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
@@ -501,6 +530,54 @@ function RealtimePage({ config }: RealtimePageProps) {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Background Noise
+                    </label>
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-600 dark:text-gray-400">
+                        {isCalibrating
+                          ? 'Listening... stay quiet'
+                          : noiseProfile
+                            ? `Noise floor ${noiseProfile.noise_floor_db.toFixed(1)} dB`
+                            : 'Not calibrated'}
+                      </span>
+                      <button
+                        onClick={handleCalibrate}
+                        className="btn-outline text-sm"
+                        disabled={isRecording || isCalibrating || microphoneStatus !== 'connected'}
+                      >
+                        Calibrate
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Samples the room for {CALIBRATION_MS / 1000} seconds so speech is told apart from its noise.
+                    </p>
+                  </div>
+
+                  {isSystemAudioSupported() && (
+                    <div>
+                      <label htmlFor="realtime-system-audio" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        System Audio
+                      </label>
+                      <select
+                        id="realtime-system-audio"
+                        value={systemAudio}
+                        onChange={(e) => setSystemAudio(e.target.value as SystemAudioMode)}
+                        disabled={isRecording || isProcessing}
+                        className="form-select"
+                      >
+                        <option value="off">Off (microphone only)</option>
+                        <option value="mix">Mix with the microphone</option>
+                        <option value="separate">Separate speakers (You / Others)</option>
+                      </select>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Records what this computer plays, such as the other side of a video call. Separate
+                        speakers transcribes it on its own and labels its text as Others.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="flex items-center space-x-3">
                     <input
                       type="checkbox"
@@ -631,9 +708,9 @@ function RealtimePage({ config }: RealtimePageProps) {
                       ) : isRecording ? (
                         <div className="space-y-2">
                           <SpeakerWaveIcon className="w-12 h-12 mx-auto opacity-50" />
-                          <p>Recording audio...</p>
+                          <p>Listening...</p>
                           <p className="text-sm">
-                            Click "Stop Recording" to transcribe
+                            Text appears as you speak
                           </p>
                           {sessionId && (
                             <p className="text-xs text-primary-600 dark:text-primary-400">
@@ -677,7 +754,7 @@ function RealtimePage({ config }: RealtimePageProps) {
                             </span>
                           )}
                         </div>
-                        <p className="text-gray-900 dark:text-white">
+                        <p className={chunk.isFinal ? 'text-gray-900 dark:text-white' : 'italic text-gray-500 dark:text-gray-400'}>
                           {chunk.text}
                         </p>
                       </motion.div>
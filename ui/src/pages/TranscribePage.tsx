@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   DocumentIcon,
@@ -12,13 +12,31 @@ import {
   XMarkIcon,
   SparklesIcon,
   RocketLaunchIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
 } from '@heroicons/react/24/outline';
-import type { AppConfig, ModelSize, OptimizationSuggestion, PostProcessingConfig, ProcessedTranscript, SummaryFormat } from '../lib/types';
+import type { AppConfig, DecodingOptions, MediaInfo, ModelId, OptimizationSuggestion, PostProcessingConfig, PostProcessingProgress, ProcessedTranscript, SummaryFormat, TranscriptDocument, TranscriptMetadata, TranscriptionSegment } from '../lib/types';
 import { optimizationEngine } from '../lib/optimization';
 import { postProcessingEngine } from '../lib/postProcessing';
+import { promptTemplateStore } from '../lib/promptTemplates';
+import { vocabularyStore } from '../lib/vocabulary';
+import { serializeTranscript, OUTPUT_FORMAT_FILES, type TranscriptOutput } from '../lib/outputFormats';
+import { describeMedia, downloadFile, formatDuration, generateJobId } from '../lib/utils';
+import { readTranscriptJson, documentToTranscript } from '../lib/transcriptSchema';
+import { modelRegistry } from '../lib/modelRegistry';
+import { hardwareProfile } from '../lib/hardware';
+import { describeDecoding, withDecodingDefaults } from '../lib/decoding';
+import { handleError } from '../lib/errorHandler';
 import { systemApi } from '../lib/api';
 import electronService from '../services/electronService';
+import type { TranscriptionProgress } from '../types/electron';
 import { useTranscribeKeyboardShortcuts, getModifierKeyLabel } from '../hooks/useKeyboardShortcuts';
+import ModelSelect from '../components/ModelSelect';
+import DecodingOptionsEditor from '../components/DecodingOptionsEditor';
+import TranscriptWords from '../components/TranscriptWords';
+
+// Words the model was less sure of than this are highlighted for review
+const LOW_CONFIDENCE_WORD = 0.5;
 
 interface TranscribePageProps {
   config: AppConfig;
@@ -29,11 +47,8 @@ function TranscribePage({ config }: TranscribePageProps) {
     if (progress < 10) return 'Preparing transcription...';
     if (progress < 20) return 'Loading model...';
     if (progress < 30) return 'Processing audio file...';
-    if (progress < 40) return 'Converting audio format...';
-    if (progress < 50) return 'Reading audio data...';
-    if (progress < 60) return 'Preparing for transcription...';
-    if (progress < 80) return 'Transcribing with Whisper...';
-    if (progress < 95) return 'Processing results...';
+    if (progress < 40) return 'Decoding audio...';
+    if (progress < 95) return 'Transcribing with Whisper...';
     if (progress < 100) return 'Finalizing...';
     return 'Complete!';
   };
@@ -41,19 +56,38 @@ function TranscribePage({ config }: TranscribePageProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
   const [selectedFileSize, setSelectedFileSize] = useState<number | null>(null);
+  // Duration, codecs and audio tracks of the selected file, probed by the main process
+  const [selectedMedia, setSelectedMedia] = useState<MediaInfo | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [modelSize, setModelSize] = useState<ModelSize>(config.model.default_size as ModelSize);
+  const [progressInfo, setProgressInfo] = useState<TranscriptionProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Id of the running main-process job, used to cancel it and to ignore other jobs' progress
+  const activeJobId = useRef<string | null>(null);
+  const [modelSize, setModelSize] = useState<ModelId>(() => modelRegistry.resolveId(config.model.default_size));
   const [useGPU, setUseGPU] = useState(config.model.use_gpu);
   const [outputFormat, setOutputFormat] = useState(config.output.default_format);
   const [optimizationSuggestions, setOptimizationSuggestions] = useState<OptimizationSuggestion[]>([]);
   const [dismissedSuggestions, setDismissedSuggestions] = useState<Set<string>>(new Set());
   const [autoOptimizationEnabled, setAutoOptimizationEnabled] = useState(true);
   const [systemInfo, setSystemInfo] = useState<any>(null);
+  const [gpuSupport, setGpuSupport] = useState(() => hardwareProfile.gpuSupport());
   const [postProcessingConfig, setPostProcessingConfig] = useState<PostProcessingConfig>(config.post_processing);
   const [processedResult, setProcessedResult] = useState<ProcessedTranscript | null>(null);
   const [isPostProcessing, setIsPostProcessing] = useState(false);
+  const [postProcessingProgress, setPostProcessingProgress] = useState<PostProcessingProgress | null>(null);
   const [activeTab, setActiveTab] = useState<'original' | 'formatted' | 'summary'>('original');
+  const [summaryTemplates, setSummaryTemplates] = useState(() => promptTemplateStore.list());
+  const [transcriptOutput, setTranscriptOutput] = useState<TranscriptOutput | null>(null);
+  const [transcriptionSeconds, setTranscriptionSeconds] = useState<number | undefined>(undefined);
+  const [decoding, setDecoding] = useState<DecodingOptions>(() => withDecodingDefaults(config.model.decoding));
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  // Settings the shown transcript was produced with, saved with it in JSON output
+  const [transcriptDecoding, setTranscriptDecoding] = useState<DecodingOptions | undefined>(undefined);
+  // Model and source of a re-opened JSON transcript, kept when it is saved again
+  const [openedDocument, setOpenedDocument] = useState<Pick<TranscriptDocument, 'model' | 'source'> | null>(null);
+  const [correctionDraft, setCorrectionDraft] = useState<{ from: string; to: string; message?: string } | null>(null);
+  const [highlightUncertain, setHighlightUncertain] = useState(true);
 
   // Load system info on component mount
   useEffect(() => {
@@ -67,8 +101,26 @@ function TranscribePage({ config }: TranscribePageProps) {
     };
     
     loadSystemInfo();
+    // A finished GPU benchmark can change whether GPU mode is offered
+    return hardwareProfile.subscribe(() => {
+      setGpuSupport(hardwareProfile.gpuSupport());
+      loadSystemInfo();
+    });
   }, []);
 
+  useEffect(() => {
+    if (!gpuSupport.available) setUseGPU(false);
+  }, [gpuSupport.available]);
+
+  // Keep the summary format list in sync with template edits made on the settings page
+  useEffect(() => promptTemplateStore.subscribe(() => setSummaryTemplates(promptTemplateStore.list())), []);
+
+  const targetTurnaroundSeconds = (config.model.target_turnaround_minutes || 0) * 60;
+  // Predicted from past runs on this machine once the file's length is known
+  const processingEstimate = selectedMedia?.duration
+    ? optimizationEngine.predictProcessingTime(modelSize, useGPU, selectedMedia.duration)
+    : null;
+
   // Analyze file when selected and generate optimization suggestions
   useEffect(() => {
     if (selectedFile && autoOptimizationEnabled) {
@@ -76,7 +128,7 @@ function TranscribePage({ config }: TranscribePageProps) {
     } else {
       setOptimizationSuggestions([]);
     }
-  }, [selectedFile, modelSize, useGPU, outputFormat, autoOptimizationEnabled]);
+  }, [selectedFile, selectedMedia, modelSize, useGPU, outputFormat, autoOptimizationEnabled, targetTurnaroundSeconds]);
 
   const analyzeAndOptimize = async (file: File) => {
     try {
@@ -85,7 +137,9 @@ function TranscribePage({ config }: TranscribePageProps) {
         modelSize,
         useGPU,
         outputFormat,
-        systemInfo
+        systemInfo,
+        selectedMedia,
+        targetTurnaroundSeconds
       );
 
       // Filter out dismissed suggestions
@@ -96,13 +150,16 @@ function TranscribePage({ config }: TranscribePageProps) {
       setOptimizationSuggestions(filteredSuggestions);
 
       // Auto-apply model recommendation if confidence is high
-      const modelRec = optimizationEngine.analyzeFileForModelRecommendation(file);
+      const modelRec = optimizationEngine.analyzeFileForModelRecommendation(file, modelSize, selectedMedia, {
+        useGpu: useGPU,
+        targetSeconds: targetTurnaroundSeconds
+      });
       if (modelRec.confidence > 0.85 && modelRec.recommended_model !== modelSize) {
         setModelSize(modelRec.recommended_model);
       }
 
       // Auto-suggest GPU if beneficial
-      const gpuRec = optimizationEngine.analyzeGPURecommendation(file, useGPU, systemInfo);
+      const gpuRec = optimizationEngine.analyzeGPURecommendation(file, useGPU, systemInfo, selectedMedia);
       if (gpuRec.should_use_gpu && !useGPU && systemInfo?.gpu_available) {
         // Don't auto-enable, but make it prominent in suggestions
       }
@@ -136,6 +193,7 @@ function TranscribePage({ config }: TranscribePageProps) {
       setSelectedFile(file);
       setSelectedFilePath(null); // Clear Electron file path
       setSelectedFileSize(null); // Clear custom file size
+      setSelectedMedia(null);
     }
   };
   
@@ -160,6 +218,7 @@ function TranscribePage({ config }: TranscribePageProps) {
           sizeGB: (fileInfo.size / (1024 * 1024 * 1024)).toFixed(2) + ' GB'
         });
         setSelectedFileSize(fileInfo.size);
+        setSelectedMedia(fileInfo.media || null);
         
         // Check file size (20GB limit)
         const maxSizeGB = 20;
@@ -171,6 +230,7 @@ function TranscribePage({ config }: TranscribePageProps) {
           setSelectedFilePath(null);
           setSelectedFile(null);
           setSelectedFileSize(null);
+          setSelectedMedia(null);
           return;
         }
         
@@ -181,10 +241,12 @@ function TranscribePage({ config }: TranscribePageProps) {
             setSelectedFilePath(null);
             setSelectedFile(null);
             setSelectedFileSize(null);
+            setSelectedMedia(null);
             return;
           }
         }
       } else {
+        setSelectedMedia(null);
         // Fallback to estimate if we can't get actual size
         const ext = fileName.split('.').pop()?.toLowerCase();
         let estimatedSize = 10 * 1024 * 1024; // Default 10MB
@@ -205,10 +267,8 @@ function TranscribePage({ config }: TranscribePageProps) {
   const applySuggestion = (suggestion: OptimizationSuggestion) => {
     switch (suggestion.type) {
       case 'model':
-        // Extract model name from suggestion title
-        const modelMatch = suggestion.title.match(/(Tiny|Base|Small|Medium|Large|LargeV2|LargeV3)/);
-        if (modelMatch) {
-          setModelSize(modelMatch[0] as ModelSize);
+        if (suggestion.model) {
+          setModelSize(suggestion.model);
         }
         break;
       case 'gpu':
@@ -229,6 +289,27 @@ function TranscribePage({ config }: TranscribePageProps) {
   
   const downloadTranscript = (includeSummary: boolean = false) => {
     if (!processedResult) return;
+
+    // Subtitle and JSON formats are built from the raw segments rather than the visible tab
+    if (outputFormat !== 'Text' && transcriptOutput) {
+      const { extension, mimeType } = OUTPUT_FORMAT_FILES[outputFormat];
+      const content = serializeTranscript(outputFormat, transcriptOutput, {
+        timestamps: config.output.timestamps,
+        subtitles: config.output.subtitles,
+        document: {
+          model: openedDocument?.model ?? { size: modelSize, use_gpu: useGPU, language: 'auto', decoding: transcriptDecoding },
+          source: openedDocument ? openedDocument.source : selectedFile ? {
+            filename: selectedFile.name,
+            ...(selectedFilePath ? { path: selectedFilePath } : {}),
+            size_bytes: selectedFileSize || selectedFile.size || undefined,
+          } : undefined,
+          processed: processedResult,
+          transcriptionSeconds,
+        },
+      });
+      downloadFile(content, `transcript_${new Date().toISOString().slice(0, 10)}.${extension}`, mimeType);
+      return;
+    }
     
     let content = activeTab === 'formatted' && processedResult.formatted_text 
       ? processedResult.formatted_text
@@ -310,6 +391,7 @@ function TranscribePage({ config }: TranscribePageProps) {
     
     setIsTranscribing(true);
     setProgress(0);
+    setProgressInfo(null);
     setProcessedResult(null);
     setActiveTab('original');
     
@@ -318,9 +400,13 @@ function TranscribePage({ config }: TranscribePageProps) {
       try {
         // Use the already selected file path
         const filePath = selectedFilePath;
+        const jobId = generateJobId();
+        activeJobId.current = jobId;
         
         // Set up progress listener
         const unsubscribe = electronService.onProgress((progress) => {
+          if (progress.job_id && progress.job_id !== jobId) return;
+          setProgressInfo(progress);
           // Update progress based on the stage and progress value
           if (progress.progress !== undefined) {
             setProgress(progress.progress);
@@ -336,15 +422,24 @@ function TranscribePage({ config }: TranscribePageProps) {
         
         // Perform transcription
         const result = await electronService.transcribeFile(filePath, {
-          modelSize: modelSize.toLowerCase(),
+          modelSize,
+          useGpu: useGPU,
           language: 'auto',
+          initialPrompt: vocabularyStore.buildInitialPrompt(),
+          decoding,
+          jobId,
         });
         
         if (unsubscribe) unsubscribe();
+        activeJobId.current = null;
         
-        if (result && result.success) {
-          // Pass the entire result or just the text
-          await completeTranscription(result.text || result.segments || result);
+        if (result?.status === 'cancelled') {
+          setIsTranscribing(false);
+          setProgress(0);
+          setProgressInfo(null);
+        } else if (result && result.success) {
+          // Pass the entire result so segments are available for post-processing
+          await completeTranscription(result);
         } else {
           console.error('Transcription failed:', result?.error);
           setIsTranscribing(false);
@@ -352,6 +447,9 @@ function TranscribePage({ config }: TranscribePageProps) {
       } catch (error) {
         console.error('Electron transcription error:', error);
         setIsTranscribing(false);
+      } finally {
+        activeJobId.current = null;
+        setIsCancelling(false);
       }
     } else {
       // Fallback to simulated transcription for browser mode
@@ -368,11 +466,60 @@ function TranscribePage({ config }: TranscribePageProps) {
     }
   };
 
+  const handleCancelTranscription = async () => {
+    if (!activeJobId.current) return;
+    setIsCancelling(true);
+    const cancelled = await electronService.cancelTranscription(activeJobId.current);
+    if (!cancelled) {
+      setIsCancelling(false);
+    }
+  };
+
+  // Re-open a transcript previously saved in the JSON format
+  const handleOpenTranscript = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const document = readTranscriptJson(await file.text());
+      const { transcript, processed } = documentToTranscript(document);
+      setTranscriptOutput(transcript);
+      setTranscriptionSeconds(document.processing.transcription_seconds);
+      setTranscriptDecoding(document.model.decoding);
+      setOpenedDocument({ model: document.model, source: document.source });
+      setProcessedResult(processed);
+      setActiveTab(processed.formatted_text ? 'formatted' : processed.summary ? 'summary' : 'original');
+    } catch (error) {
+      alert(handleError(error, 'opening transcript'));
+    }
+  };
+
+  // Offer to add a vocabulary correction for text selected in the transcript
+  const handleTranscriptSelection = () => {
+    const selection = window.getSelection()?.toString().trim();
+    if (selection && selection.length <= 80) {
+      setCorrectionDraft({ from: selection, to: '' });
+    }
+  };
+
+  const handleAddCorrection = () => {
+    if (!correctionDraft) return;
+    try {
+      const rule = vocabularyStore.addCorrection(vocabularyStore.getDefaultDictionaryId(), correctionDraft.from, correctionDraft.to);
+      setCorrectionDraft({ ...correctionDraft, message: `Added "${rule.from}" → "${rule.to}". It applies to future transcripts.` });
+    } catch (error) {
+      setCorrectionDraft({ ...correctionDraft, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
   const completeTranscription = async (actualTranscript?: string | any) => {
     setIsTranscribing(false);
     
     // Extract text from the transcript result
     let rawTranscript: string;
+    let segments: TranscriptionSegment[] | undefined;
+    let metadata: TranscriptMetadata | undefined;
     
     if (actualTranscript) {
       // Handle both string and object with segments
@@ -386,6 +533,8 @@ function TranscribePage({ config }: TranscribePageProps) {
       } else if (actualTranscript.text) {
         // If it's an object with a text property
         rawTranscript = actualTranscript.text;
+        segments = Array.isArray(actualTranscript.segments) ? actualTranscript.segments : undefined;
+        metadata = { language: actualTranscript.language, duration: actualTranscript.duration };
       } else if (actualTranscript.segments) {
         // If it has segments property
         rawTranscript = actualTranscript.segments.map((s: any) => s.text || '').join(' ');
@@ -400,11 +549,21 @@ function TranscribePage({ config }: TranscribePageProps) {
 The content covers multiple important topics including technology implementation challenges and solutions. There are several action items mentioned throughout the discussion that need to be followed up on. The speakers also shared valuable insights about best practices and lessons learned from their experience.`;
     }
 
+    setTranscriptOutput({ text: rawTranscript, segments, ...metadata });
+    setTranscriptionSeconds(typeof actualTranscript?.processing_time === 'number' ? actualTranscript.processing_time : undefined);
+    setTranscriptDecoding(actualTranscript?.decoding);
+    setOpenedDocument(null);
+
     // Apply post-processing if enabled
     if (postProcessingConfig.enabled) {
       setIsPostProcessing(true);
+      setPostProcessingProgress(null);
       try {
-        const processed = await postProcessingEngine.processTranscript(rawTranscript, postProcessingConfig);
+        const processed = await postProcessingEngine.processTranscript(rawTranscript, postProcessingConfig, {
+          segments,
+          metadata,
+          onProgress: setPostProcessingProgress,
+        });
         setProcessedResult(processed);
         
         // Set default active tab based on available content
@@ -426,6 +585,7 @@ The content covers multiple important topics including technology implementation
         setActiveTab('original');
       } finally {
         setIsPostProcessing(false);
+        setPostProcessingProgress(null);
       }
     } else {
       setProcessedResult({
@@ -437,6 +597,10 @@ The content covers multiple important topics including technology implementation
     }
   };
 
+  const timedWords = transcriptOutput?.segments?.flatMap(segment => segment.words || []) || [];
+  const hasWordTimings = timedWords.length > 0;
+  const uncertainWordCount = timedWords.filter(word => word.probability !== undefined && word.probability < LOW_CONFIDENCE_WORD).length;
+
   // Set up keyboard shortcuts for this page
   useTranscribeKeyboardShortcuts(
     () => downloadTranscript(false), // Save/download handler
@@ -527,7 +691,13 @@ The content covers multiple important topics including technology implementation
                               return `${sizeMB.toFixed(1)} MB`;
                             }
                           })()}
+                          {selectedMedia?.duration ? ` • ${formatDuration(selectedMedia.duration)}` : null}
                         </p>
+                        {selectedMedia && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {describeMedia(selectedMedia)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -545,26 +715,25 @@ The content covers multiple important topics including technology implementation
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Model Size
+                      Model
                       {selectedFile && (
                         <span className="ml-2 text-xs text-primary-600 dark:text-primary-400">
-                          {modelSize === config.model.default_size ? '' : '(Auto-selected)'}
+                          {modelSize === modelRegistry.resolveId(config.model.default_size) ? '' : '(Auto-selected)'}
                         </span>
                       )}
                     </label>
-                    <select 
-                      className="form-select" 
+                    <ModelSelect
                       value={modelSize}
-                      onChange={(e) => setModelSize(e.target.value as ModelSize)}
-                    >
-                      <option value="Tiny">Tiny (Fastest)</option>
-                      <option value="Base">Base (Recommended)</option>
-                      <option value="Small">Small (Better Quality)</option>
-                      <option value="Medium">Medium (High Quality)</option>
-                      <option value="Large">Large (Best Quality)</option>
-                      <option value="LargeV2">Large V2 (Latest)</option>
-                      <option value="LargeV3">Large V3 (Newest)</option>
-                    </select>
+                      onChange={setModelSize}
+                    />
+                    {processingEstimate && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Estimated processing time: about {formatDuration(processingEstimate.seconds)}
+                        {processingEstimate.basis === 'measured'
+                          ? ` (from ${processingEstimate.samples} previous run${processingEstimate.samples === 1 ? '' : 's'})`
+                          : ' (scaled from other models)'}
+                      </p>
+                    )}
                   </div>
 
                   <div>
@@ -601,15 +770,37 @@ The content covers multiple important topics including technology implementation
                       id="gpu"
                       className="form-checkbox"
                       checked={useGPU}
+                      disabled={!gpuSupport.available}
                       onChange={(e) => setUseGPU(e.target.checked)}
                     />
                     <label htmlFor="gpu" className="text-sm font-medium text-gray-700 dark:text-gray-300">
                       Use GPU acceleration
-                      {systemInfo?.gpu_available === false && (
+                      {!gpuSupport.available && (
                         <span className="ml-2 text-xs text-gray-500">(Not available)</span>
                       )}
                     </label>
                   </div>
+                  {gpuSupport.reason && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 ml-7">{gpuSupport.reason}</p>
+                  )}
+
+                  {/* Advanced decoding settings, starting from the defaults in Settings */}
+                  <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                      type="button"
+                      onClick={() => setShowAdvanced(!showAdvanced)}
+                      className="flex items-center w-full text-left text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      {showAdvanced ? <ChevronDownIcon className="w-4 h-4 mr-2" /> : <ChevronRightIcon className="w-4 h-4 mr-2" />}
+                      Advanced
+                      <span className="ml-2 text-xs font-normal text-gray-500 truncate">{describeDecoding(decoding)}</span>
+                    </button>
+                    {showAdvanced && (
+                      <div className="mt-4">
+                        <DecodingOptionsEditor value={decoding} onChange={setDecoding} disabled={isTranscribing} />
+                      </div>
+                    )}
+                  </div>
 
                   {/* Auto-optimization toggle */}
                   <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -788,11 +979,9 @@ The content covers multiple important topics including technology implementation
                                   }
                                 }))}
                               >
-                                <option value="key_points">Key Points</option>
-                                <option value="bullets">Bullet Points</option>
-                                <option value="paragraphs">Paragraphs</option>
-                                <option value="markdown">Markdown</option>
-                                <option value="outline">Outline</option>
+                                {summaryTemplates.map(template => (
+                                  <option key={template.id} value={template.id}>{template.name}</option>
+                                ))}
                               </select>
                             </div>
                             
@@ -921,14 +1110,28 @@ The content covers multiple important topics including technology implementation
             {isTranscribing && (
               <div className="card">
                 <div className="card-body">
-                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                    Progress
-                  </h2>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                      Progress
+                    </h2>
+                    {electronService.isElectron && (
+                      <button
+                        onClick={handleCancelTranscription}
+                        disabled={isCancelling}
+                        data-action="cancel"
+                        className="btn-danger text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                        title="Cancel transcription (Esc)"
+                      >
+                        <StopIcon className="w-4 h-4" />
+                        <span>{isCancelling ? 'Cancelling...' : 'Cancel'}</span>
+                      </button>
+                    )}
+                  </div>
                   
                   <div className="space-y-4">
                     <div>
                       <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
-                        <span>{getProgressMessage(progress)}</span>
+                        <span>{progressInfo?.message || getProgressMessage(progress)}</span>
                         <span>{progress}%</span>
                       </div>
                       <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
@@ -939,10 +1142,21 @@ The content covers multiple important topics including technology implementation
                       </div>
                     </div>
 
+                    {progressInfo?.stage === 'transcribing' && progressInfo.total_seconds !== undefined && (
+                      <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                        <span>
+                          {formatDuration(progressInfo.processed_seconds || 0)} of {formatDuration(progressInfo.total_seconds)} audio
+                        </span>
+                        {progressInfo.eta_seconds !== undefined && (
+                          <span>About {formatDuration(progressInfo.eta_seconds)} remaining</span>
+                        )}
+                      </div>
+                    )}
+
                     <div className="text-sm text-gray-600 dark:text-gray-400">
-                      <p>• Audio extraction: {progress >= 40 ? 'Complete' : progress >= 30 ? 'In progress...' : 'Pending'}</p>
                       <p>• Model loading: {progress >= 20 ? 'Complete' : progress >= 10 ? 'In progress...' : 'Pending'}</p>
-                      <p>• Transcription: {progress >= 95 ? 'Complete' : progress >= 60 ? 'In progress...' : 'Pending'}</p>
+                      <p>• Audio extraction: {progress >= 40 ? 'Complete' : progress >= 30 ? 'In progress...' : 'Pending'}</p>
+                      <p>• Transcription: {progress >= 95 ? 'Complete' : progress >= 40 ? 'In progress...' : 'Pending'}</p>
                     </div>
                   </div>
                 </div>
@@ -964,9 +1178,28 @@ The content covers multiple important topics including technology implementation
                     <div className="flex items-center space-x-3">
                       <div className="w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full animate-spin" />
                       <span className="text-sm text-gray-600 dark:text-gray-400">
-                        Processing transcript with AI models...
+                        {postProcessingProgress?.message || 'Processing transcript with AI models...'}
                       </span>
                     </div>
+
+                    {postProcessingProgress && (
+                      <div>
+                        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                          <span>
+                            {postProcessingProgress.total_chunks > 1
+                              ? `${postProcessingProgress.total_chunks} chunks`
+                              : 'Single pass'}
+                          </span>
+                          <span>{postProcessingProgress.progress}%</span>
+                        </div>
+                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                          <div
+                            className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+                            style={{ width: `${postProcessingProgress.progress}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
                     
                     <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
                       {postProcessingConfig.text_formatting.enabled && (
@@ -984,9 +1217,21 @@ The content covers multiple important topics including technology implementation
             {/* Results */}
             <div className="card">
               <div className="card-body">
-                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                  Results
-                </h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                    Results
+                  </h2>
+                  <input
+                    type="file"
+                    onChange={handleOpenTranscript}
+                    accept=".json,application/json"
+                    className="hidden"
+                    id="transcript-open"
+                  />
+                  <label htmlFor="transcript-open" className="btn-outline text-sm cursor-pointer" title="Open a transcript saved as JSON">
+                    Open Transcript
+                  </label>
+                </div>
                 
                 {processedResult ? (
                   <div className="space-y-4">
@@ -1001,9 +1246,17 @@ The content covers multiple important topics including technology implementation
                           </span>
                         )}
                       </div>
-                      {Object.keys(processedResult.models_used).length > 0 && (
+                      {(processedResult.models_used.formatting || processedResult.models_used.summarization) && (
                         <p className="text-xs text-green-700 dark:text-green-400 mt-1">
-                          Models used: {Object.values(processedResult.models_used).join(', ')}
+                          Models used: {[
+                            processedResult.models_used.formatting && `${processedResult.models_used.formatting} (${processedResult.models_used.formatting_backend === 'ollama' ? 'Ollama' : 'built-in'})`,
+                            processedResult.models_used.summarization && `${processedResult.models_used.summarization} (${processedResult.models_used.summarization_backend === 'ollama' ? 'Ollama' : 'built-in'})`,
+                          ].filter(Boolean).join(', ')}
+                        </p>
+                      )}
+                      {processedResult.warnings && processedResult.warnings.length > 0 && (
+                        <p className="text-xs text-orange-700 dark:text-orange-400 mt-1">
+                          {processedResult.warnings.join(' ')}
                         </p>
                       )}
                     </div>
@@ -1043,20 +1296,69 @@ The content covers multiple important topics including technology implementation
                                   : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
                               }`}
                             >
-                              Summary ({processedResult.summary.format})
+                              Summary ({promptTemplateStore.get(processedResult.summary.format).name})
                             </button>
                           )}
                         </nav>
                       </div>
                     )}
 
+                    {activeTab === 'original' && hasWordTimings && (
+                      <div className="flex items-center justify-between mb-3 text-sm">
+                        <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            className="form-checkbox"
+                            checked={highlightUncertain}
+                            onChange={(e) => setHighlightUncertain(e.target.checked)}
+                          />
+                          <span>Highlight low-confidence words</span>
+                        </label>
+                        {highlightUncertain && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {uncertainWordCount} of {timedWords.length} words below {Math.round(LOW_CONFIDENCE_WORD * 100)}%
+                          </span>
+                        )}
+                      </div>
+                    )}
+
+                    {correctionDraft && (
+                      <div className="flex flex-wrap items-center gap-2 mb-3 p-2 text-sm bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                        <span className="text-gray-700 dark:text-gray-300">
+                          Correct <span className="font-mono">"{correctionDraft.from}"</span> to
+                        </span>
+                        <input
+                          type="text"
+                          value={correctionDraft.to}
+                          onChange={(e) => setCorrectionDraft({ from: correctionDraft.from, to: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && handleAddCorrection()}
+                          className="form-input text-sm py-1 w-48"
+                          autoFocus
+                        />
+                        <button onClick={handleAddCorrection} className="btn-primary text-sm py-1" disabled={!correctionDraft.to.trim()}>
+                          Add Correction
+                        </button>
+                        <button onClick={() => setCorrectionDraft(null)} className="text-gray-400 hover:text-gray-600">
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                        {correctionDraft.message && (
+                          <span className="text-xs text-gray-600 dark:text-gray-400 w-full">{correctionDraft.message}</span>
+                        )}
+                      </div>
+                    )}
+
                     {/* Content Display */}
-                    <div className="min-h-[200px] max-h-[400px] overflow-y-auto">
-                      {activeTab === 'original' && (
+                    <div className="min-h-[200px] max-h-[400px] overflow-y-auto" onMouseUp={handleTranscriptSelection}>
+                      {activeTab === 'original' && (hasWordTimings ? (
+                        <TranscriptWords
+                          segments={transcriptOutput?.segments || []}
+                          threshold={highlightUncertain ? LOW_CONFIDENCE_WORD : 0}
+                        />
+                      ) : (
                         <div className="whitespace-pre-line text-sm text-gray-700 dark:text-gray-300 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                           {processedResult.original_text}
                         </div>
-                      )}
+                      ))}
                       
                       {activeTab === 'formatted' && processedResult.formatted_text && (
                         <div className="whitespace-pre-line text-sm text-gray-700 dark:text-gray-300 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
@@ -13,7 +13,7 @@ import {
   SparklesIcon,
   RocketLaunchIcon,
 } from '@heroicons/react/24/outline';
-import type { AppConfig, ModelSize, OptimizationSuggestion, PostProcessingConfig, ProcessedTranscript, SummaryFormat } from '../lib/types';
+import type { AppConfig, ModelId, OptimizationSuggestion, PostProcessingConfig, ProcessedTranscript, SummaryFormat } from '../lib/types';
 import { optimizationEngine } from '../lib/optimization';
 import { postProcessingEngine } from '../lib/postProcessing';
 import { systemApi } from '../lib/api';
@@ -26,7 +26,7 @@ function TranscribePage({ config }: TranscribePageProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [modelSize, setModelSize] = useState<ModelSize>(config.model.default_size as ModelSize);
+  const [modelSize, setModelSize] = useState<ModelId>(config.model.default_size as ModelId);
   const [useGPU, setUseGPU] = useState(config.model.use_gpu);
   const [outputFormat, setOutputFormat] = useState(config.output.default_format);
   const [optimizationSuggestions, setOptimizationSuggestions] = useState<OptimizationSuggestion[]>([]);
@@ -107,7 +107,7 @@ function TranscribePage({ config }: TranscribePageProps) {
         // Extract model name from suggestion title
         const modelMatch = suggestion.title.match(/(Tiny|Base|Small|Medium|Large|LargeV2|LargeV3)/);
         if (modelMatch) {
-          setModelSize(modelMatch[0] as ModelSize);
+          setModelSize(modelMatch[0] as ModelId);
         }
         break;
       case 'gpu':
@@ -282,7 +282,7 @@ The content covers multiple important topics including technology implementation
                     <select 
                       className="form-select" 
                       value={modelSize}
-                      onChange={(e) => setModelSize(e.target.value as ModelSize)}
+                      onChange={(e) => setModelSize(e.target.value as ModelId)}
                     >
                       <option value="Tiny">Tiny (Fastest)</option>
                       <option value="Base">Base (Recommended)</option>
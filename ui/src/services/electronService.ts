@@ -1,4 +1,6 @@
-import type { ElectronAPI, ModelInfo, TranscriptionOptions, TranscriptionResult } from '../types/electron';
+import type { BenchmarkOptions, BenchmarkProgress, ElectronAPI, ModelDownloadOptions, ModelImportOptions, ModelImportResult, ModelDownloadProgress, ModelDownloadResult, ModelInfo, OllamaRequest, OllamaResponse, RealtimeAudioOptions, RealtimeTranscriptionResult, TranscriptionOptions, TranscriptionProgress, TranscriptionResult } from '../types/electron';
+import type { ModelDefinition } from '../lib/types';
+import { throughputHistory } from '../lib/throughputHistory';
 
 class ElectronService {
   private api: ElectronAPI | undefined;
@@ -56,27 +58,78 @@ class ElectronService {
     return result.success;
   }
   
-  async downloadModel(modelSize: string): Promise<{ success: boolean; message: string } | null> {
+  async downloadModel(modelSize: string, options?: ModelDownloadOptions): Promise<ModelDownloadResult | null> {
     if (!this.api) return null;
-    return this.api.downloadModel(modelSize);
+    return this.api.downloadModel(modelSize, options);
   }
   
-  async transcribeFile(filePath: string, options?: TranscriptionOptions): Promise<TranscriptionResult | null> {
+  async cancelModelDownload(modelSize: string): Promise<boolean> {
+    if (!this.api) return false;
+    const result = await this.api.cancelModelDownload(modelSize);
+    return result.success;
+  }
+  
+  async selectModelFile(): Promise<string | null> {
+    if (!this.api) return null;
+    return this.api.selectModelFile();
+  }
+  
+  async listCustomModels(): Promise<ModelDefinition[]> {
+    if (!this.api) return [];
+    return this.api.listCustomModels();
+  }
+  
+  async importModel(filePath: string, options?: ModelImportOptions): Promise<ModelImportResult | null> {
     if (!this.api) return null;
-    return this.api.transcribeFile(filePath, options);
+    return this.api.importModel(filePath, options);
   }
   
-  async transcribeRealtime(audioBuffer: ArrayBuffer): Promise<{ text: string; confidence: number; isFinal: boolean } | null> {
+  async removeCustomModel(modelId: string): Promise<{ success: boolean; message: string } | null> {
     if (!this.api) return null;
-    const result = await this.api.transcribeRealtime(audioBuffer);
-    if (result.success && result.text) {
-      return {
-        text: result.text,
-        confidence: result.confidence || 0.9,
-        isFinal: result.isFinal || true
-      };
+    return this.api.removeCustomModel(modelId);
+  }
+  
+  onModelDownloadProgress(callback: (progress: ModelDownloadProgress) => void): (() => void) | null {
+    if (!this.api) return null;
+    return this.api.onModelDownloadProgress(callback);
+  }
+  
+  /**
+   * Transcribe a file in the main process. Completed runs are added to the throughput history,
+   * whichever page started them.
+   */
+  async transcribeFile(filePath: string, options?: TranscriptionOptions): Promise<TranscriptionResult | null> {
+    if (!this.api) return null;
+    const result = await this.api.transcribeFile(filePath, options);
+    if (result.success && options?.modelSize) {
+      throughputHistory.record(options.modelSize, Boolean(options.useGpu), result.duration, result.processing_time);
     }
-    return null;
+    return result;
+  }
+  
+  async cancelTranscription(jobId: string): Promise<boolean> {
+    if (!this.api) return false;
+    const result = await this.api.cancelTranscription(jobId);
+    if (!result.success && result.error) {
+      console.warn('Failed to cancel transcription:', result.error);
+    }
+    return result.success;
+  }
+  
+  /**
+   * Transcribe one chunk of 16 kHz mono Float32 audio captured live
+   */
+  async transcribeRealtime(audioBuffer: ArrayBuffer, options?: RealtimeAudioOptions): Promise<RealtimeTranscriptionResult | null> {
+    if (!this.api) return null;
+    return this.api.transcribeRealtime(audioBuffer, options);
+  }
+
+  /**
+   * Let the next getDisplayMedia call, made within a few seconds, capture system audio
+   */
+  async armSystemAudioCapture(): Promise<boolean> {
+    if (!this.api) return false;
+    return this.api.armSystemAudioCapture();
   }
   
   async getSystemInfo() {
@@ -84,6 +137,31 @@ class ElectronService {
     return this.api.getSystemInfo();
   }
   
+  async getHardwareCapabilities() {
+    if (!this.api) return null;
+    return this.api.getHardwareCapabilities();
+  }
+
+  async runGpuBenchmark() {
+    if (!this.api) return null;
+    return this.api.runGpuBenchmark();
+  }
+  
+  async runBenchmark(options: BenchmarkOptions) {
+    if (!this.api) return null;
+    return this.api.runBenchmark(options);
+  }
+
+  async cancelBenchmark() {
+    if (!this.api) return null;
+    return this.api.cancelBenchmark();
+  }
+
+  onBenchmarkProgress(callback: (progress: BenchmarkProgress) => void): (() => void) | null {
+    if (!this.api) return null;
+    return this.api.onBenchmarkProgress(callback);
+  }
+  
   async getSystemResources() {
     if (!this.api) return null;
     return this.api.getSystemResources();
@@ -98,8 +176,24 @@ class ElectronService {
     if (!this.api) return [];
     return this.api.scanDirectory(dirPath);
   }
+
+  /**
+   * Tell the main process which Ollama server requests may go to
+   */
+  async setOllamaBaseUrl(baseUrl: string): Promise<boolean> {
+    if (!this.api) return false;
+    return this.api.setOllamaBaseUrl(baseUrl);
+  }
+
+  /**
+   * Make an Ollama API request from the main process, which is not bound by the page's CSP
+   */
+  async ollamaRequest(request: OllamaRequest): Promise<OllamaResponse | null> {
+    if (!this.api) return null;
+    return this.api.ollamaRequest(request);
+  }
   
-  onProgress(callback: (progress: any) => void): (() => void) | null {
+  onProgress(callback: (progress: TranscriptionProgress) => void): (() => void) | null {
     if (!this.api) return null;
     return this.api.onProgress(callback);
   }
@@ -1,3 +1,5 @@
+import type { BenchmarkReport, BenchmarkRun, DecodingOptions, GpuBenchmarkResult, HardwareCapabilities, JobStatus, MediaInfo, ModelDefinition, WordTiming } from '../lib/types';
+
 export interface ElectronAPI {
   // File operations
   selectFile: () => Promise<string | null>;
@@ -9,22 +11,37 @@ export interface ElectronAPI {
   // Model operations
   listModels: () => Promise<Record<string, ModelInfo>>;
   loadModel: (modelSize: string) => Promise<{ success: boolean; message?: string; error?: string }>;
-  downloadModel: (modelSize: string) => Promise<{ success: boolean; message: string; modelPath: string }>;
+  downloadModel: (modelSize: string, options?: ModelDownloadOptions) => Promise<ModelDownloadResult>;
+  cancelModelDownload: (modelSize: string) => Promise<{ success: boolean }>;
+  selectModelFile: () => Promise<string | null>;
+  listCustomModels: () => Promise<ModelDefinition[]>;
+  importModel: (filePath: string, options?: ModelImportOptions) => Promise<ModelImportResult>;
+  removeCustomModel: (modelId: string) => Promise<{ success: boolean; message: string }>;
   
   // Transcription
   transcribeFile: (filePath: string, options?: TranscriptionOptions) => Promise<TranscriptionResult>;
-  transcribeRealtime: (audioBuffer: ArrayBuffer) => Promise<RealtimeTranscriptionResult>;
+  transcribeRealtime: (audioBuffer: ArrayBuffer, options?: RealtimeAudioOptions) => Promise<RealtimeTranscriptionResult>;
+  armSystemAudioCapture: () => Promise<boolean>;
+  cancelTranscription: (jobId: string) => Promise<{ success: boolean; error?: string }>;
   
   // System info
   isElectron: boolean;
   platform: string;
   getSystemInfo: () => Promise<SystemInfo>;
+  getHardwareCapabilities: () => Promise<HardwareCapabilities | null>;
+  runGpuBenchmark: () => Promise<{ success: boolean; result?: GpuBenchmarkResult; error?: string }>;
+  runBenchmark: (options: BenchmarkOptions) => Promise<{ success: boolean; report?: BenchmarkReport; error?: string }>;
+  cancelBenchmark: () => Promise<{ success: boolean; error?: string }>;
   getSystemResources: () => Promise<SystemResources>;
   getFileInfo: (filePath: string) => Promise<FileInfo | null>;
   scanDirectory: (dirPath: string) => Promise<MediaFile[]>;
+  setOllamaBaseUrl: (baseUrl: string) => Promise<boolean>;
+  ollamaRequest: (request: OllamaRequest) => Promise<OllamaResponse>;
   
   // Events
   onProgress: (callback: (progress: TranscriptionProgress) => void) => () => void;
+  onModelDownloadProgress: (callback: (progress: ModelDownloadProgress) => void) => () => void;
+  onBenchmarkProgress: (callback: (progress: BenchmarkProgress) => void) => () => void;
   removeAllListeners: (channel: string) => void;
 }
 
@@ -35,29 +52,93 @@ export interface ModelInfo {
   exists: boolean;
   size: number;
   sizeFormatted: string;
+  // Bytes of an unfinished download that will be resumed
+  partialSize?: number;
+  downloading?: boolean;
+}
+
+export interface ModelDownloadOptions {
+  // Base URL serving the model files, used instead of the manifest source
+  mirrorUrl?: string;
+}
+
+export interface ModelDownloadResult {
+  success: boolean;
+  message: string;
+  modelPath?: string;
+  cancelled?: boolean;
+}
+
+export interface ModelDownloadProgress {
+  model: string;
+  stage: 'downloading' | 'verifying' | 'complete' | 'cancelled' | 'error';
+  progress: number;
+  received_bytes?: number;
+  total_bytes?: number;
+  bytes_per_second?: number;
+  eta_seconds?: number;
+  message?: string;
+}
+
+export interface ModelImportOptions {
+  name?: string;
+  notes?: string;
+  // Copy the file into the models directory, or symlink to it where it is
+  mode?: 'copy' | 'link';
+}
+
+export interface ModelImportResult {
+  success: boolean;
+  message: string;
+  model?: ModelDefinition;
 }
 
 export interface TranscriptionOptions {
   modelSize?: string;
+  // Load the model with GPU acceleration; the loaded model is reused only if this matches
+  useGpu?: boolean;
   language?: string;
   timestamps?: boolean;
   translate?: boolean;
+  // Glossary passed to Whisper as initial_prompt, after the decoding options' own prompt
+  initialPrompt?: string;
+  // Decoding settings; whisper.cpp defaults for any left out
+  decoding?: Partial<DecodingOptions>;
+  // Id used to cancel the job and to match its progress events; generated if omitted
+  jobId?: string;
 }
 
 export interface TranscriptionResult {
   success: boolean;
+  job_id?: string;
+  status?: JobStatus;
   text?: string;
   segments?: TranscriptionSegment[];
   language?: string;
+  // Audio length in seconds
   duration?: number;
+  // Wall-clock transcription time in seconds
+  processing_time?: number;
+  // Decoding settings the run used, with defaults filled in
+  decoding?: DecodingOptions;
   error?: string;
 }
 
+export interface RealtimeAudioOptions {
+  language?: string;
+  // Text spoken before this chunk, so Whisper continues the sentence
+  initialPrompt?: string;
+}
+
 export interface RealtimeTranscriptionResult {
   success: boolean;
   text?: string;
+  segments?: TranscriptionSegment[];
+  language?: string;
+  // Length of the chunk in seconds
+  duration?: number;
+  // Average segment confidence (0-1), when the model reports it
   confidence?: number;
-  isFinal?: boolean;
   error?: string;
 }
 
@@ -65,12 +146,40 @@ export interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
+  speaker?: string;
+  confidence?: number;
+  words?: WordTiming[];
 }
 
 export interface TranscriptionProgress {
-  stage: 'processing' | 'complete' | 'error';
+  stage: 'starting' | 'loading_model' | 'processing' | 'converting' | 'transcribing' | 'finalizing' | 'complete' | 'cancelled' | 'error';
+  job_id?: string;
   message: string;
   progress?: number;
+  // Set while transcribing: audio seconds done, total audio seconds and estimated seconds left
+  processed_seconds?: number;
+  total_seconds?: number;
+  eta_seconds?: number;
+}
+
+export interface BenchmarkOptions {
+  models: string[];
+  // Thread counts to try; empty leaves the choice to whisper.cpp
+  threads: number[];
+  // GPU settings to try
+  gpu: boolean[];
+  // Clip to transcribe instead of synthetic audio
+  audioPath?: string;
+  // Length of the synthetic sample in seconds
+  audioSeconds?: number;
+}
+
+export interface BenchmarkProgress {
+  index: number;
+  total: number;
+  run: { model: string; useGpu: boolean; threads: number | null };
+  // Present once the run has finished
+  result?: BenchmarkRun;
 }
 
 export interface SystemInfo {
@@ -81,6 +190,23 @@ export interface SystemInfo {
   modelsPath: string;
 }
 
+// Sent to the Ollama URL set with setOllamaBaseUrl; POST bodies must be JSON
+export interface OllamaRequest {
+  path: '/api/tags' | '/api/generate';
+  method: 'GET' | 'POST';
+  body?: string;
+  timeoutMs?: number;
+}
+
+// `error` is set when no response arrived; `status` is then 0
+export interface OllamaResponse {
+  ok: boolean;
+  status: number;
+  body?: string;
+  error?: string;
+  timedOut?: boolean;
+}
+
 export interface SystemResources {
   cpuUsage: number;
   memoryUsage: number;
@@ -96,6 +222,11 @@ export interface FileInfo {
   isDirectory: boolean;
   modifiedTime: Date;
   createdTime: Date;
+  // Seconds of audio, when ffprobe could read the file
+  duration?: number;
+  // Unset for directories, null when probing failed (see mediaError)
+  media?: MediaInfo | null;
+  mediaError?: string;
 }
 
 export interface MediaFile {